@@ -7,6 +7,7 @@ import { AnimationTab } from './tabs/AnimationTab';
 import { EnvironmentTab } from './tabs/EnvironmentTab';
 import { ExportTab } from './tabs/ExportTab';
 import { ReferenceTab } from './tabs/ReferenceTab';
+import { PluginsTab } from './tabs/PluginsTab';
 import { cn } from '@/lib/utils';
 
 const TABS = [
@@ -16,6 +17,7 @@ const TABS = [
   { id: 'animation', label: 'Anim' },
   { id: 'environment', label: 'Env' },
   { id: 'export', label: 'Export' },
+  { id: 'plugins', label: 'Plug' },
 ] as const;
 
 export function EditorPanel() {
@@ -49,6 +51,7 @@ export function EditorPanel() {
         {editorTab === 'animation' && <AnimationTab />}
         {editorTab === 'environment' && <EnvironmentTab />}
         {editorTab === 'export' && <ExportTab />}
+        {editorTab === 'plugins' && <PluginsTab />}
       </div>
     </aside>
   );
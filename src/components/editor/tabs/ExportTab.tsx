@@ -1,22 +1,27 @@
 'use client';
 
-import { useCallback, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { useCharacterStore } from '@/store/characterStore';
+import { createEditorCharacterDocument, readEditorConfig } from '@/exporters/CharacterDocument';
 import { downloadJson } from '@/lib/utils';
 
 export function ExportTab() {
   const { character } = useCharacterStore();
   const [exportStatus, setExportStatus] = useState<string | null>(null);
 
+  // Versioned character document, loadable by JSONExporterPlugin.load and by the import below
+  const characterDocument = useMemo(() => createEditorCharacterDocument(character), [character]);
+  const documentText = useMemo(() => JSON.stringify(characterDocument, null, 2), [characterDocument]);
+
   const handleExportJson = useCallback(() => {
     try {
-      downloadJson(character, `${character.name.replace(/\s+/g, '-').toLowerCase()}.json`);
+      downloadJson(characterDocument, `${character.name.replace(/\s+/g, '-').toLowerCase()}.json`);
       setExportStatus('JSON exported successfully!');
       setTimeout(() => setExportStatus(null), 3000);
     } catch (error) {
       setExportStatus('Failed to export JSON');
     }
-  }, [character]);
+  }, [character.name, characterDocument]);
 
   const handleExportScreenshot = useCallback(() => {
     try {
@@ -41,13 +46,13 @@ export function ExportTab() {
 
   const handleCopyConfig = useCallback(() => {
     try {
-      navigator.clipboard.writeText(JSON.stringify(character, null, 2));
+      navigator.clipboard.writeText(documentText);
       setExportStatus('Config copied to clipboard!');
       setTimeout(() => setExportStatus(null), 3000);
     } catch (error) {
       setExportStatus('Failed to copy config');
     }
-  }, [character]);
+  }, [documentText]);
 
   return (
     <div className="space-y-6">
@@ -108,7 +113,7 @@ export function ExportTab() {
         </h3>
         <div className="h-48 overflow-auto p-3 border border-surface-border bg-bg-tertiary">
           <pre className="font-mono text-[10px] text-text-muted whitespace-pre-wrap">
-            {JSON.stringify(character, null, 2)}
+            {documentText}
           </pre>
         </div>
       </section>
@@ -130,7 +135,7 @@ export function ExportTab() {
               const reader = new FileReader();
               reader.onload = (event) => {
                 try {
-                  const config = JSON.parse(event.target?.result as string);
+                  const config = readEditorConfig(event.target?.result as string);
                   useCharacterStore.getState().setCharacter(config);
                   setExportStatus('Config imported successfully!');
                   setTimeout(() => setExportStatus(null), 3000);
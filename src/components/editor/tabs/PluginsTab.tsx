@@ -0,0 +1,195 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getPluginManager } from '@/plugins/PluginManager';
+import { describeConfigSchema } from '@/plugins/PluginConfig';
+import type { PluginConfigField } from '@/plugins/PluginConfig';
+import type { Plugin } from '@/plugins/types';
+import { BlenderIntegrationPlugin } from '@/integrations/BlenderIntegration';
+import { UnityIntegrationPlugin } from '@/integrations/UnityIntegration';
+import { GodotIntegrationPlugin } from '@/integrations/GodotIntegration';
+import { Slider } from '@/components/ui/Slider';
+import { Toggle } from '@/components/ui/Toggle';
+import { ColorPicker } from '@/components/ui/ColorPicker';
+import { cn } from '@/lib/utils';
+
+// The editor registers the integrations itself, so their settings can be edited here
+let builtInsRegistered: Promise<void> | null = null;
+
+function registerBuiltIns(): Promise<void> {
+  builtInsRegistered ??= (async () => {
+    const manager = getPluginManager();
+    const plugins = [new BlenderIntegrationPlugin(), new UnityIntegrationPlugin(), new GodotIntegrationPlugin()];
+    await manager.registerAll(plugins.filter((plugin) => !manager.has(plugin.id)));
+  })();
+  return builtInsRegistered;
+}
+
+function configurablePlugins(): Plugin[] {
+  const manager = getPluginManager();
+  return manager
+    .listPlugins()
+    .map((info) => manager.get(info.id))
+    .filter((plugin): plugin is Plugin => Boolean(plugin?.configSchema && plugin.configure));
+}
+
+/**
+ * Schema defaults; explicit undefined clears optional settings the defaults leave out
+ */
+function defaultValues(plugin: Plugin): Record<string, unknown> {
+  const cleared = Object.fromEntries(Object.keys(plugin.config ?? {}).map((key) => [key, undefined]));
+  return { ...cleared, ...plugin.configSchema!.parse({}) };
+}
+
+interface ConfigFieldProps {
+  field: PluginConfigField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+function ConfigField({ field, value, onChange }: ConfigFieldProps) {
+  switch (field.kind) {
+    case 'boolean':
+      return <Toggle label={field.label} checked={Boolean(value)} onChange={onChange} />;
+
+    case 'color':
+      return <ColorPicker label={field.label} value={String(value)} onChange={onChange} />;
+
+    case 'number':
+      if (field.min !== undefined && field.max !== undefined) {
+        return (
+          <Slider
+            label={field.label}
+            value={Number(value)}
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            onChange={onChange}
+            formatValue={(v) => (field.step === 1 ? String(v) : v.toFixed(2))}
+          />
+        );
+      }
+      // Unbounded numbers get a plain input; clearing an optional one unsets it
+      return (
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-xs font-mono text-text-muted uppercase tracking-wider">{field.label}</span>
+          <input
+            type="number"
+            min={field.min}
+            step={field.step}
+            value={value === undefined ? '' : Number(value)}
+            placeholder={field.optional ? 'auto' : undefined}
+            onChange={(e) => onChange(e.target.value === '' && field.optional ? undefined : e.target.valueAsNumber)}
+            className="bg-transparent border border-surface-border px-2 py-1 text-xs font-mono text-text-secondary focus:border-accent-primary focus:outline-none w-24"
+          />
+        </label>
+      );
+
+    case 'enum':
+      return (
+        <div className="space-y-1">
+          <label className="text-xs font-mono text-text-muted uppercase tracking-wider">{field.label}</label>
+          <div className="grid grid-cols-2 gap-2">
+            {field.options.map((option) => (
+              <button
+                key={option}
+                onClick={() => onChange(option)}
+                className={cn(
+                  'p-2 border text-xs font-mono truncate transition-colors',
+                  value === option
+                    ? 'border-accent-primary text-accent-primary'
+                    : 'border-surface-border text-text-secondary hover:border-accent-primary'
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      );
+
+    case 'string':
+      // Committed on blur, so patterns are only checked once editing is done
+      return (
+        <label className="block space-y-1">
+          <span className="text-xs font-mono text-text-muted uppercase tracking-wider">{field.label}</span>
+          <input
+            key={String(value)}
+            type="text"
+            defaultValue={String(value ?? '')}
+            onBlur={(e) => {
+              if (e.target.value !== value) onChange(e.target.value);
+            }}
+            className="bg-transparent border border-surface-border px-3 py-1.5 text-xs font-mono text-text-secondary focus:border-accent-primary focus:outline-none w-full"
+          />
+        </label>
+      );
+  }
+}
+
+export function PluginsTab() {
+  const [plugins, setPlugins] = useState<Plugin[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const manager = getPluginManager();
+    const refresh = () => setPlugins(configurablePlugins());
+
+    const offConfig = manager.events.on('pluginConfigChanged', refresh);
+    const offState = manager.events.on('pluginStateChanged', refresh);
+    registerBuiltIns()
+      .catch((error) => setStatus(error instanceof Error ? error.message : 'Failed to register plugins'))
+      .finally(refresh);
+
+    return () => {
+      offConfig();
+      offState();
+    };
+  }, []);
+
+  const configure = useCallback((pluginId: string, values: Record<string, unknown>) => {
+    try {
+      getPluginManager().configure(pluginId, values);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Invalid settings');
+      setTimeout(() => setStatus(null), 3000);
+    }
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      {/* Status Message */}
+      {status && (
+        <div className="p-3 border border-accent-primary bg-accent-primary/10 text-accent-primary text-xs font-mono text-center">
+          {status}
+        </div>
+      )}
+
+      {plugins.length === 0 && (
+        <p className="text-xs font-mono text-text-muted">No configurable plugins registered.</p>
+      )}
+
+      {plugins.map((plugin) => (
+        <section key={plugin.id}>
+          <div className="flex items-baseline justify-between mb-3">
+            <h3 className="text-xs font-mono text-text-muted uppercase tracking-wider">{plugin.name}</h3>
+            <span className="text-[10px] font-mono text-text-muted">v{plugin.version}</span>
+          </div>
+          <div className="space-y-4">
+            {describeConfigSchema(plugin.configSchema!).map((field) => (
+              <ConfigField
+                key={field.key}
+                field={field}
+                value={plugin.config?.[field.key]}
+                onChange={(value) => configure(plugin.id, { [field.key]: value })}
+              />
+            ))}
+            <button onClick={() => configure(plugin.id, defaultValues(plugin))} className="btn w-full">
+              Reset to Defaults
+            </button>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
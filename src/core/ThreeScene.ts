@@ -16,6 +16,8 @@ export interface ThreeSceneOptions {
   alpha?: boolean;
   powerPreference?: 'default' | 'high-performance' | 'low-power';
   maxPixelRatio?: number;
+  /** Fixed drawing size; the scene then ignores container and window resizes (offscreen rendering) */
+  size?: { width: number; height: number };
 }
 
 export interface ThreeSceneState {
@@ -34,6 +36,7 @@ export interface RenderInfo {
 
 export class ThreeScene {
   private readonly container: HTMLElement;
+  private readonly fixedSize: { width: number; height: number } | null;
   private readonly clock: THREE.Clock;
   private _scene: Scene;
   private _camera: Camera;
@@ -52,7 +55,10 @@ export class ThreeScene {
 
   constructor(container: HTMLElement, options: ThreeSceneOptions = {}) {
     this.container = container;
+    this.fixedSize = options.size ?? null;
     this.clock = new THREE.Clock();
+    const width = this.fixedSize?.width ?? container.clientWidth;
+    const height = this.fixedSize?.height ?? container.clientHeight;
 
     // Initialize scene
     this._scene = new THREE.Scene();
@@ -60,7 +66,7 @@ export class ThreeScene {
     // Initialize camera with sensible defaults
     this._camera = new THREE.PerspectiveCamera(
       75,
-      container.clientWidth / container.clientHeight,
+      width / height,
       0.1,
       1000
     );
@@ -77,7 +83,7 @@ export class ThreeScene {
     // From H70: "Cap at 2: Math.min(window.devicePixelRatio, 2)"
     const maxPixelRatio = options.maxPixelRatio ?? 2;
     this._renderer.setPixelRatio(Math.min(window.devicePixelRatio, maxPixelRatio));
-    this._renderer.setSize(container.clientWidth, container.clientHeight);
+    this._renderer.setSize(width, height);
 
     // Modern color management (Three.js r152+)
     this._renderer.outputColorSpace = THREE.SRGBColorSpace;
@@ -128,6 +134,8 @@ export class ThreeScene {
    * Handle window resize
    */
   private onResize(): void {
+    if (this.fixedSize) return;
+
     const width = this.container.clientWidth;
     const height = this.container.clientHeight;
 
@@ -0,0 +1,286 @@
+/**
+ * CharacterDocument - Versioned JSON description of a generated character
+ *
+ * The document stores what is needed to regenerate the character rather than
+ * its geometry: generation params (including the seed), material overrides
+ * applied on top of the generated materials, and references to the rig and
+ * animation clips the generator is expected to produce. Documents written by
+ * the editor UI also carry its settings (parts, environment) under `editor`.
+ *
+ * Version history:
+ * - 1: initial format
+ */
+
+import * as THREE from 'three';
+import { z } from 'zod';
+import type { Character, GenerationParams } from '../plugins/types.js';
+import type { CharacterConfig, CharacterStyle } from '../types/character.js';
+import { getAnimationBuilder } from '../rigging/AnimationBuilder.js';
+
+export const CHARACTER_DOCUMENT_FORMAT = 'threejs-character';
+export const CHARACTER_DOCUMENT_VERSION = 1;
+
+const hexColor = z.number().int().min(0).max(0xffffff);
+const unit = z.number().min(0).max(1);
+
+/**
+ * Material state by slot: unique materials numbered in model traversal order
+ */
+export const MaterialOverrideSchema = z.object({
+  slot: z.number().int().nonnegative(),
+  name: z.string().optional(),
+  color: hexColor.optional(),
+  emissive: hexColor.optional(),
+  roughness: unit.optional(),
+  metalness: unit.optional(),
+  opacity: unit.optional(),
+});
+
+export const GenerationParamsSchema = z.object({
+  type: z.enum(['humanoid', 'creature', 'monster', 'mechanical', 'abstract']),
+  style: z.string(),
+  prompt: z.string().optional(),
+  seed: z.number().int().optional(),
+  options: z.object({
+    detailLevel: unit,
+    textureStyle: z.enum(['realistic', 'stylized', 'pixel', 'toon']),
+    includeAnimations: z.boolean(),
+    bodyType: z.enum(['humanoid', 'quadruped', 'serpentine', 'amorphous', 'mechanical']).optional(),
+    autoRig: z.boolean().optional(),
+  }),
+});
+
+export const CharacterDocumentSchema = z.object({
+  format: z.literal(CHARACTER_DOCUMENT_FORMAT),
+  version: z.literal(CHARACTER_DOCUMENT_VERSION),
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string().datetime(),
+  generationParams: GenerationParamsSchema,
+  materialOverrides: z.array(MaterialOverrideSchema),
+  /** Skeleton the generator produced, null for unrigged characters */
+  rig: z
+    .object({
+      kind: z.enum(['humanoid', 'quadruped', 'spider', 'serpentine', 'walker']).nullable(),
+      bones: z.array(z.string()),
+    })
+    .nullable(),
+  /** Clips kept on the model; regenerated clips not listed here are dropped */
+  animations: z.array(
+    z.object({
+      name: z.string(),
+      duration: z.number().nonnegative(),
+    })
+  ),
+  /** Editor UI settings; generators ignore them */
+  editor: z
+    .custom<CharacterConfig>((value) => typeof value === 'object' && value !== null && 'parts' in value, 'Expected editor settings')
+    .optional(),
+});
+
+export type MaterialOverride = z.infer<typeof MaterialOverrideSchema>;
+export type CharacterDocument = z.infer<typeof CharacterDocumentSchema>;
+
+/**
+ * Unique materials in traversal order; the index is the override slot
+ */
+function collectMaterials(model: THREE.Object3D): THREE.Material[] {
+  const materials: THREE.Material[] = [];
+  const seen = new Set<THREE.Material>();
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      const list: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      for (const material of list) {
+        if (!seen.has(material)) {
+          seen.add(material);
+          materials.push(material);
+        }
+      }
+    }
+  });
+  return materials;
+}
+
+function findSkeleton(model: THREE.Object3D | null): THREE.Skeleton | null {
+  let skeleton: THREE.Skeleton | null = null;
+  model?.traverse((child) => {
+    if (!skeleton && child instanceof THREE.SkinnedMesh) {
+      skeleton = child.skeleton;
+    }
+  });
+  return skeleton;
+}
+
+function describeRig(character: Character): CharacterDocument['rig'] {
+  const skeleton = findSkeleton(character.model);
+  if (!skeleton) return null;
+
+  return {
+    kind: getAnimationBuilder().detectRig(skeleton, character.generationParams.options.bodyType),
+    bones: skeleton.bones.map((bone) => bone.name),
+  };
+}
+
+/**
+ * Describe a character as a document
+ */
+export function createCharacterDocument(character: Character): CharacterDocument {
+  const materialOverrides: MaterialOverride[] = [];
+  if (character.model) {
+    collectMaterials(character.model).forEach((material, slot) => {
+      const override: MaterialOverride = { slot };
+      if (material.name) override.name = material.name;
+      if (material instanceof THREE.MeshStandardMaterial) {
+        override.color = material.color.getHex();
+        override.emissive = material.emissive.getHex();
+        override.roughness = material.roughness;
+        override.metalness = material.metalness;
+      }
+      override.opacity = material.opacity;
+      materialOverrides.push(override);
+    });
+  }
+
+  return {
+    format: CHARACTER_DOCUMENT_FORMAT,
+    version: CHARACTER_DOCUMENT_VERSION,
+    id: character.id,
+    name: character.name,
+    createdAt: character.metadata.createdAt.toISOString(),
+    generationParams: character.generationParams,
+    materialOverrides,
+    rig: describeRig(character),
+    animations: (character.model?.animations ?? []).map((clip) => ({ name: clip.name, duration: clip.duration })),
+  };
+}
+
+/**
+ * Generator type and style closest to each editor style
+ */
+const EDITOR_STYLES: Record<CharacterStyle, Pick<GenerationParams, 'type' | 'style'>> = {
+  robot: { type: 'mechanical', style: 'humanoid_robot' },
+  humanoid: { type: 'humanoid', style: 'realistic' },
+  alien: { type: 'monster', style: 'eldritch' },
+  cyborg: { type: 'humanoid', style: 'robot' },
+};
+
+/**
+ * Describe a character edited in the editor UI as a document
+ * Loading it regenerates an unrigged character of the closest generator type and style
+ */
+export function createEditorCharacterDocument(config: CharacterConfig, createdAt: Date = new Date()): CharacterDocument {
+  return {
+    format: CHARACTER_DOCUMENT_FORMAT,
+    version: CHARACTER_DOCUMENT_VERSION,
+    id: config.id,
+    name: config.name,
+    createdAt: createdAt.toISOString(),
+    generationParams: {
+      ...EDITOR_STYLES[config.style],
+      options: { detailLevel: 0.7, textureStyle: 'stylized', includeAnimations: false, autoRig: false },
+    },
+    materialOverrides: [],
+    rig: null,
+    animations: [],
+    editor: config,
+  };
+}
+
+/**
+ * Editor settings from a document, or from a raw config exported before documents existed
+ * Throws a ZodError for invalid documents
+ */
+export function readEditorConfig(input: string | unknown): CharacterConfig {
+  const value: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+  if ((value as { format?: unknown } | null)?.format !== CHARACTER_DOCUMENT_FORMAT) {
+    return value as CharacterConfig;
+  }
+
+  const document = parseCharacterDocument(value);
+  if (!document.editor) {
+    throw new Error(`${document.name} has no editor settings`);
+  }
+  return document.editor;
+}
+
+/**
+ * Validate a document (JSON text or parsed value); throws a ZodError describing every problem
+ */
+export function parseCharacterDocument(input: string | unknown): CharacterDocument {
+  return CharacterDocumentSchema.parse(typeof input === 'string' ? JSON.parse(input) : input);
+}
+
+/**
+ * Generation params without the keys zod leaves as undefined
+ */
+export function toGenerationParams(document: CharacterDocument): GenerationParams {
+  const { prompt, seed, options, ...rest } = document.generationParams;
+  const { bodyType, autoRig, ...requiredOptions } = options;
+
+  const params: GenerationParams = { ...rest, options: { ...requiredOptions } };
+  if (prompt !== undefined) params.prompt = prompt;
+  if (seed !== undefined) params.seed = seed;
+  if (bodyType !== undefined) params.options.bodyType = bodyType;
+  if (autoRig !== undefined) params.options.autoRig = autoRig;
+  return params;
+}
+
+/**
+ * Differences between a regenerated character's rig and the one the document references
+ * Empty when they match
+ */
+export function compareRig(character: Character, document: CharacterDocument): string[] {
+  const rig = describeRig(character);
+  const expected = document.rig;
+  if (!rig || !expected) {
+    return rig === expected ? [] : [`expected ${expected ? 'a rigged' : 'an unrigged'} character`];
+  }
+
+  const problems: string[] = [];
+  if (rig.kind !== expected.kind) {
+    problems.push(`rig kind is ${rig.kind ?? 'unknown'}, expected ${expected.kind ?? 'unknown'}`);
+  }
+  const bones = new Set(rig.bones);
+  const missing = expected.bones.filter((bone) => !bones.has(bone));
+  if (missing.length > 0) {
+    problems.push(`missing bones: ${missing.join(', ')}`);
+  }
+  return problems;
+}
+
+/**
+ * Restore identity, material overrides and clip selection on a regenerated character
+ */
+export function applyCharacterDocument(character: Character, document: CharacterDocument): Character {
+  if (character.model) {
+    const materials = collectMaterials(character.model);
+    for (const override of document.materialOverrides) {
+      const material = materials[override.slot];
+      if (!material) continue;
+
+      if (override.name !== undefined) material.name = override.name;
+      if (override.opacity !== undefined) material.opacity = override.opacity;
+      if (material instanceof THREE.MeshStandardMaterial) {
+        if (override.color !== undefined) material.color.setHex(override.color);
+        if (override.emissive !== undefined) material.emissive.setHex(override.emissive);
+        if (override.roughness !== undefined) material.roughness = override.roughness;
+        if (override.metalness !== undefined) material.metalness = override.metalness;
+      }
+      material.needsUpdate = true;
+    }
+
+    const clips = new Set(document.animations.map((clip) => clip.name));
+    character.model.animations = character.model.animations.filter((clip) => clips.has(clip.name));
+    character.model.name = document.name;
+  }
+
+  return {
+    ...character,
+    id: document.id,
+    name: document.name,
+    metadata: {
+      ...character.metadata,
+      createdAt: new Date(document.createdAt),
+    },
+  };
+}
@@ -0,0 +1,488 @@
+/**
+ * FBXBinary - Node tree encoding for the binary FBX container (7.4)
+ * Writer used by FBXExporterPlugin and a small reader for inspecting its output
+ *
+ * Layout: 27-byte header, node records (end offset, property count, property
+ * byte length, name, typed properties, nested records, null sentinel), footer.
+ */
+
+export const FBX_VERSION = 7400;
+
+/**
+ * Typed property values; the type code is the one stored in the file
+ */
+export type FBXProperty =
+  | { type: 'C'; value: boolean }
+  | { type: 'Y' | 'I' | 'F' | 'D'; value: number }
+  | { type: 'L'; value: bigint }
+  | { type: 'S' | 'R'; value: Uint8Array }
+  | { type: 'b'; value: Uint8Array }
+  | { type: 'i'; value: Int32Array }
+  | { type: 'f'; value: Float32Array }
+  | { type: 'd'; value: Float64Array }
+  | { type: 'l'; value: BigInt64Array };
+
+export interface FBXNode {
+  name: string;
+  properties: FBXProperty[];
+  children: FBXNode[];
+}
+
+export interface FBXDocument {
+  version: number;
+  nodes: FBXNode[];
+}
+
+export interface FBXWriteOptions {
+  /** zlib-compress arrays larger than this many bytes (off when undefined) */
+  compressArraysOver?: number;
+}
+
+const MAGIC = 'Kaydara FBX Binary  \0';
+const HEADER_SIZE = 27;
+/** Null record closing a nested list (13 bytes before 7.5) */
+const SENTINEL_SIZE = 13;
+
+// Fixed ids the SDK pairs with the footer; any file using them validates
+export const FBX_FILE_ID = new Uint8Array([0x28, 0xb3, 0x2a, 0xeb, 0xb6, 0x24, 0xcc, 0xc2, 0xbf, 0xc8, 0xb0, 0x2a, 0xa9, 0x2b, 0xfc, 0xf1]);
+export const FBX_CREATION_TIME = '1970-01-01 10:00:00:000';
+const FOOTER_ID = new Uint8Array([0xfa, 0xbc, 0xab, 0x09, 0xd0, 0xc8, 0xd4, 0x66, 0xb1, 0x76, 0xfb, 0x83, 0x1c, 0xf7, 0x26, 0x7e]);
+const FOOTER_MAGIC = new Uint8Array([0xf8, 0x5a, 0x8c, 0x6a, 0xde, 0xf5, 0xd9, 0x7e, 0xec, 0xe9, 0x0c, 0xe3, 0x75, 0x8f, 0x29, 0x0b]);
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+type ArrayProperty = Extract<FBXProperty, { type: 'b' | 'i' | 'f' | 'd' | 'l' }>;
+
+/**
+ * zlib (de)compression through the platform streams ('deflate' is the zlib format)
+ */
+async function zlib(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data.slice()]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Property constructors
+ */
+export const fbx = {
+  bool: (value: boolean): FBXProperty => ({ type: 'C', value }),
+  int16: (value: number): FBXProperty => ({ type: 'Y', value }),
+  int32: (value: number): FBXProperty => ({ type: 'I', value }),
+  float: (value: number): FBXProperty => ({ type: 'F', value }),
+  double: (value: number): FBXProperty => ({ type: 'D', value }),
+  int64: (value: number | bigint): FBXProperty => ({ type: 'L', value: BigInt(value) }),
+  string: (value: string): FBXProperty => ({ type: 'S', value: textEncoder.encode(value) }),
+  raw: (value: Uint8Array): FBXProperty => ({ type: 'R', value }),
+  int32Array: (value: ArrayLike<number>): FBXProperty => ({ type: 'i', value: Int32Array.from(value) }),
+  floatArray: (value: ArrayLike<number>): FBXProperty => ({ type: 'f', value: Float32Array.from(value) }),
+  doubleArray: (value: ArrayLike<number>): FBXProperty => ({ type: 'd', value: Float64Array.from(value) }),
+  int64Array: (value: ArrayLike<number | bigint>): FBXProperty => ({
+    type: 'l',
+    value: BigInt64Array.from(Array.from(value, (v) => BigInt(v))),
+  }),
+};
+
+/**
+ * Build a node; properties and children default to empty
+ */
+export function fbxNode(name: string, properties: FBXProperty[] = [], children: FBXNode[] = []): FBXNode {
+  return { name, properties, children };
+}
+
+/**
+ * Object names are stored as "Name\0\1Class"
+ */
+export function fbxObjectName(name: string, objectClass: string): FBXProperty {
+  return fbx.string(`${name}\x00\x01${objectClass}`);
+}
+
+/**
+ * Decode a string property (object names come back as "Name\0\1Class")
+ */
+export function fbxString(property: FBXProperty | undefined): string | null {
+  return property && property.type === 'S' ? textDecoder.decode(property.value) : null;
+}
+
+/**
+ * Growable little-endian byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private view = new DataView(this.bytes.buffer);
+  offset = 0;
+
+  private reserve(size: number): void {
+    if (this.offset + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.offset + size) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes);
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  uint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  int16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  uint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  int32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  float32(value: number): void {
+    this.reserve(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  float64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  int64(value: bigint): void {
+    this.reserve(8);
+    this.view.setBigInt64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  write(data: Uint8Array): void {
+    this.reserve(data.length);
+    this.bytes.set(data, this.offset);
+    this.offset += data.length;
+  }
+
+  zeros(count: number): void {
+    this.write(new Uint8Array(count));
+  }
+
+  patchUint32(at: number, value: number): void {
+    this.view.setUint32(at, value, true);
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.bytes.slice(0, this.offset).buffer;
+  }
+}
+
+/**
+ * Little-endian bytes of a typed array
+ */
+function arrayBytes(value: Uint8Array | Int32Array | Float32Array | Float64Array | BigInt64Array): Uint8Array {
+  // Every platform three.js runs on is little-endian
+  return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+function writeProperty(writer: ByteWriter, property: FBXProperty, compressed: Map<FBXProperty, Uint8Array>): void {
+  writer.uint8(property.type.charCodeAt(0));
+
+  switch (property.type) {
+    case 'C':
+      writer.uint8(property.value ? 1 : 0);
+      return;
+    case 'Y':
+      writer.int16(property.value);
+      return;
+    case 'I':
+      writer.int32(property.value);
+      return;
+    case 'F':
+      writer.float32(property.value);
+      return;
+    case 'D':
+      writer.float64(property.value);
+      return;
+    case 'L':
+      writer.int64(property.value);
+      return;
+    case 'S':
+    case 'R':
+      writer.uint32(property.value.length);
+      writer.write(property.value);
+      return;
+    case 'b':
+    case 'i':
+    case 'f':
+    case 'd':
+    case 'l': {
+      const deflated = compressed.get(property);
+      const data = deflated ?? arrayBytes(property.value);
+      writer.uint32(property.value.length);
+      writer.uint32(deflated ? 1 : 0);
+      writer.uint32(data.length);
+      writer.write(data);
+      return;
+    }
+  }
+}
+
+function writeNode(writer: ByteWriter, node: FBXNode, compressed: Map<FBXProperty, Uint8Array>): void {
+  const start = writer.offset;
+  const name = textEncoder.encode(node.name);
+
+  writer.uint32(0); // end offset, patched below
+  writer.uint32(node.properties.length);
+  writer.uint32(0); // property list length, patched below
+  writer.uint8(name.length);
+  writer.write(name);
+
+  const propertiesStart = writer.offset;
+  for (const property of node.properties) {
+    writeProperty(writer, property, compressed);
+  }
+  writer.patchUint32(start + 8, writer.offset - propertiesStart);
+
+  // Nested lists and property-less nodes end with a null record, as the SDK writes them
+  if (node.children.length > 0 || node.properties.length === 0) {
+    for (const child of node.children) {
+      writeNode(writer, child, compressed);
+    }
+    writer.zeros(SENTINEL_SIZE);
+  }
+
+  writer.patchUint32(start, writer.offset);
+}
+
+function isArrayProperty(property: FBXProperty): property is ArrayProperty {
+  return property.type === 'b' || property.type === 'i' || property.type === 'f' || property.type === 'd' || property.type === 'l';
+}
+
+/**
+ * Deflate every array property above the threshold
+ */
+async function compressArrays(nodes: FBXNode[], threshold: number, compressed: Map<FBXProperty, Uint8Array>): Promise<void> {
+  for (const node of nodes) {
+    for (const property of node.properties) {
+      if (isArrayProperty(property) && property.value.byteLength > threshold) {
+        compressed.set(property, await zlib(arrayBytes(property.value), new CompressionStream('deflate')));
+      }
+    }
+    await compressArrays(node.children, threshold, compressed);
+  }
+}
+
+/**
+ * Encode a node tree as a binary FBX file
+ */
+export async function writeFBX(nodes: FBXNode[], options: FBXWriteOptions = {}): Promise<ArrayBuffer> {
+  const compressed = new Map<FBXProperty, Uint8Array>();
+  if (options.compressArraysOver !== undefined) {
+    await compressArrays(nodes, options.compressArraysOver, compressed);
+  }
+
+  const writer = new ByteWriter();
+
+  writer.write(textEncoder.encode(MAGIC));
+  writer.uint8(0x1a);
+  writer.uint8(0x00);
+  writer.uint32(FBX_VERSION);
+
+  for (const node of nodes) {
+    writeNode(writer, node, compressed);
+  }
+  writer.zeros(SENTINEL_SIZE);
+
+  // Footer: id, padding to a 16-byte boundary, version, reserved block, magic
+  writer.write(FOOTER_ID);
+  writer.zeros(4);
+  const padding = 16 - (writer.offset % 16);
+  writer.zeros(padding);
+  writer.uint32(FBX_VERSION);
+  writer.zeros(120);
+  writer.write(FOOTER_MAGIC);
+
+  return writer.toArrayBuffer();
+}
+
+function typedArray(type: ArrayProperty['type'], bytes: Uint8Array, count: number): ArrayProperty {
+  const buffer = bytes.slice().buffer;
+  switch (type) {
+    case 'b':
+      return { type, value: new Uint8Array(buffer, 0, count) };
+    case 'i':
+      return { type, value: new Int32Array(buffer, 0, count) };
+    case 'f':
+      return { type, value: new Float32Array(buffer, 0, count) };
+    case 'd':
+      return { type, value: new Float64Array(buffer, 0, count) };
+    case 'l':
+      return { type, value: new BigInt64Array(buffer, 0, count) };
+  }
+}
+
+/**
+ * Compressed array found while parsing, inflated once parsing is done
+ */
+interface PendingArray {
+  properties: FBXProperty[];
+  index: number;
+  type: ArrayProperty['type'];
+  count: number;
+  data: Uint8Array;
+}
+
+/**
+ * Sequential little-endian reader
+ */
+class ByteReader {
+  private readonly view: DataView;
+  readonly pending: PendingArray[] = [];
+  offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  uint32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  take(length: number): Uint8Array {
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  /**
+   * Read the next property into properties (compressed arrays are queued in pending)
+   */
+  property(properties: FBXProperty[]): void {
+    const type = String.fromCharCode(this.uint8());
+    const at = this.offset;
+
+    switch (type) {
+      case 'C':
+        properties.push({ type, value: this.uint8() !== 0 });
+        return;
+      case 'Y':
+        this.offset += 2;
+        properties.push({ type, value: this.view.getInt16(at, true) });
+        return;
+      case 'I':
+        this.offset += 4;
+        properties.push({ type, value: this.view.getInt32(at, true) });
+        return;
+      case 'F':
+        this.offset += 4;
+        properties.push({ type, value: this.view.getFloat32(at, true) });
+        return;
+      case 'D':
+        this.offset += 8;
+        properties.push({ type, value: this.view.getFloat64(at, true) });
+        return;
+      case 'L':
+        this.offset += 8;
+        properties.push({ type, value: this.view.getBigInt64(at, true) });
+        return;
+      case 'S':
+      case 'R':
+        properties.push({ type, value: this.take(this.uint32()) });
+        return;
+      case 'b':
+      case 'i':
+      case 'f':
+      case 'd':
+      case 'l': {
+        const count = this.uint32();
+        const encoding = this.uint32();
+        const data = this.take(this.uint32());
+        if (encoding === 1) {
+          this.pending.push({ properties, index: properties.length, type, count, data });
+          properties.push(typedArray(type, new Uint8Array(0), 0));
+        } else {
+          properties.push(typedArray(type, data, count));
+        }
+        return;
+      }
+      default:
+        throw new Error(`Unknown FBX property type '${type}' at byte ${at - 1}`);
+    }
+  }
+
+  /**
+   * Next node record, or null at a list's null record
+   */
+  node(): FBXNode | null {
+    const endOffset = this.uint32();
+    const propertyCount = this.uint32();
+    this.uint32(); // property list length
+    const nameLength = this.uint8();
+
+    if (endOffset === 0) {
+      this.offset += nameLength;
+      return null;
+    }
+
+    const name = textDecoder.decode(this.take(nameLength));
+    const properties: FBXProperty[] = [];
+    for (let i = 0; i < propertyCount; i++) {
+      this.property(properties);
+    }
+
+    const children: FBXNode[] = [];
+    while (this.offset < endOffset) {
+      const child = this.node();
+      if (!child) break;
+      children.push(child);
+    }
+    this.offset = endOffset;
+
+    return { name, properties, children };
+  }
+}
+
+/**
+ * Parse a binary FBX file (7.x before 7.5, i.e. 32-bit record offsets) into its node tree
+ */
+export async function readFBX(buffer: ArrayBuffer): Promise<FBXDocument> {
+  const bytes = new Uint8Array(buffer);
+  const magic = textDecoder.decode(bytes.subarray(0, MAGIC.length));
+  if (magic !== MAGIC) {
+    throw new Error('Not a binary FBX file');
+  }
+
+  const reader = new ByteReader(bytes);
+  reader.offset = HEADER_SIZE - 4;
+  const version = reader.uint32();
+  if (version >= 7500) {
+    throw new Error(`FBX ${version} uses 64-bit offsets and is not supported`);
+  }
+
+  const nodes: FBXNode[] = [];
+  while (reader.offset < bytes.length - SENTINEL_SIZE) {
+    const node = reader.node();
+    if (!node) break;
+    nodes.push(node);
+  }
+
+  for (const array of reader.pending) {
+    const inflated = await zlib(array.data, new DecompressionStream('deflate'));
+    array.properties[array.index] = typedArray(array.type, inflated, array.count);
+  }
+
+  return { version, nodes };
+}
@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { FBXExporterPlugin } from './FBXExporter.js';
+import { fbxString, readFBX } from './FBXBinary.js';
+import type { FBXDocument } from './FBXBinary.js';
+import { createRiggedHumanoid } from '../test/fixtures.js';
+import type { Character } from '../plugins/types.js';
+
+/**
+ * Objects of one class, split by their subclass (Model: LimbNode, Deformer: Cluster, ...)
+ */
+function countObjects(document: FBXDocument): Record<string, number> {
+  const objects = document.nodes.find((node) => node.name === 'Objects');
+  const counts: Record<string, number> = {};
+  for (const object of objects?.children ?? []) {
+    const subclass = fbxString(object.properties[2]);
+    const key = subclass ? `${object.name}:${subclass}` : object.name;
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * What the exporter should write for a model: one cluster per weighted bone of each skin,
+ * and X/Y/Z curves for every transform track that targets a node
+ */
+function expectedCounts(model: THREE.Object3D) {
+  let bones = 0;
+  let clusters = 0;
+  model.traverse((child) => {
+    if (child instanceof THREE.Bone) bones++;
+    if (!(child instanceof THREE.SkinnedMesh)) return;
+
+    const skinIndex = child.geometry.getAttribute('skinIndex');
+    const skinWeight = child.geometry.getAttribute('skinWeight');
+    const weighted = new Set<number>();
+    for (let vertex = 0; vertex < skinIndex.count; vertex++) {
+      for (let k = 0; k < skinIndex.itemSize; k++) {
+        if (skinWeight.getComponent(vertex, k) > 0) weighted.add(skinIndex.getComponent(vertex, k));
+      }
+    }
+    clusters += weighted.size;
+  });
+
+  const curves = model.animations.reduce((sum, clip) => {
+    const animated = clip.tracks.filter((track) => {
+      const binding = THREE.PropertyBinding.parseTrackName(track.name);
+      return ['position', 'quaternion', 'scale'].includes(binding.propertyName) && THREE.PropertyBinding.findNode(model, binding.nodeName);
+    });
+    return sum + animated.length * 3;
+  }, 0);
+
+  return { bones, clusters, stacks: model.animations.length, curves };
+}
+
+describe('FBXExporterPlugin', () => {
+  let character: Character;
+  let exporter: FBXExporterPlugin;
+
+  beforeAll(async () => {
+    character = await createRiggedHumanoid();
+
+    exporter = new FBXExporterPlugin();
+    await exporter.onInit();
+  });
+
+  it.each([true, false])('round-trips skeleton, skin and animation node counts (compress: %s)', async (compress) => {
+    const model = character.model as THREE.Object3D;
+    const expected = expectedCounts(model);
+    expect(expected.bones).toBeGreaterThan(0);
+    expect(expected.clusters).toBeGreaterThan(0);
+    expect(expected.stacks).toBeGreaterThan(0);
+
+    const output = await exporter.export(character, { format: 'fbx', includeAnimations: true, compress });
+    const document = await readFBX(await (output as Blob).arrayBuffer());
+    const counts = countObjects(document);
+
+    expect(document.version).toBe(7400);
+    expect(counts['Model:LimbNode']).toBe(expected.bones);
+    expect(counts['Deformer:Cluster']).toBe(expected.clusters);
+    expect(counts['AnimationStack']).toBe(expected.stacks);
+    expect(counts['AnimationCurve']).toBe(expected.curves);
+  });
+
+  it('leaves out animation when includeAnimations is off', async () => {
+    const output = await exporter.export(character, { format: 'fbx' });
+    const counts = countObjects(await readFBX(await (output as Blob).arrayBuffer()));
+
+    expect(counts['Model:LimbNode']).toBe(expectedCounts(character.model as THREE.Object3D).bones);
+    expect(counts['AnimationStack']).toBeUndefined();
+    expect(counts['AnimationCurve']).toBeUndefined();
+  });
+});
@@ -0,0 +1,630 @@
+/**
+ * FBXExporterPlugin - Export characters to binary FBX 7.4
+ * Meshes, materials, skeleton hierarchy, skin clusters and baked animation curves
+ * for Unity, Maya and Blender pipelines that still prefer FBX
+ */
+
+import * as THREE from 'three';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  ExporterPlugin,
+  Character,
+  ExportFormat,
+  ExportOptions,
+} from '../plugins/types.js';
+import { renameBones } from '../rigging/BoneNaming.js';
+import {
+  FBX_CREATION_TIME,
+  FBX_FILE_ID,
+  FBX_VERSION,
+  fbx,
+  fbxNode,
+  fbxObjectName,
+  writeFBX,
+} from './FBXBinary.js';
+import type { FBXNode, FBXProperty } from './FBXBinary.js';
+
+/** FBX time unit: ticks per second */
+const KTIME_PER_SECOND = 46186158000;
+
+/** Arrays above this size are zlib-compressed unless compress is false */
+const COMPRESS_ARRAYS_OVER = 128;
+
+const FRAME_RATE = 30;
+
+// Linear interpolation key flags and the SDK's default attribute data
+const KEY_ATTR_FLAGS = 0x00000004;
+const KEY_ATTR_DATA = [0, 0, 9.419963346924634e-30, 0];
+
+const DEG = 180 / Math.PI;
+
+type ModelType = 'Mesh' | 'LimbNode' | 'Null';
+
+/**
+ * Animated model property and the three.js track property it comes from
+ */
+const CURVE_NODES: Record<string, { node: string; property: string }> = {
+  position: { node: 'T', property: 'Lcl Translation' },
+  quaternion: { node: 'R', property: 'Lcl Rotation' },
+  scale: { node: 'S', property: 'Lcl Scaling' },
+};
+
+function ktime(seconds: number): bigint {
+  return BigInt(Math.round(seconds * KTIME_PER_SECOND));
+}
+
+/**
+ * Properties70 entry
+ */
+function p70(name: string, type: string, label: string, flags: string, ...values: FBXProperty[]): FBXNode {
+  return fbxNode('P', [fbx.string(name), fbx.string(type), fbx.string(label), fbx.string(flags), ...values]);
+}
+
+function vectorP70(name: string, v: THREE.Vector3 | { x: number; y: number; z: number }): FBXNode {
+  return p70(name, name, '', 'A', fbx.double(v.x), fbx.double(v.y), fbx.double(v.z));
+}
+
+function single(name: string, property: FBXProperty): FBXNode {
+  return fbxNode(name, [property]);
+}
+
+/**
+ * FBX's default rotation order (eEulerXYZ) applies X, then Y, then Z, i.e. three.js 'ZYX'
+ */
+function toFBXEuler(quaternion: THREE.Quaternion, target = new THREE.Euler()): THREE.Euler {
+  return target.setFromQuaternion(quaternion, 'ZYX');
+}
+
+/**
+ * Collects objects and connections while walking the scene
+ */
+class FBXSceneBuilder {
+  private nextId = 1000000n;
+  private readonly objects: FBXNode[] = [];
+  private readonly connections: FBXNode[] = [];
+  private readonly counts = new Map<string, number>();
+  private readonly modelIds = new Map<THREE.Object3D, bigint>();
+  private readonly materialIds = new Map<THREE.Material, bigint>();
+  private readonly geometryIds = new Map<THREE.Mesh, bigint>();
+  private readonly poseNodes = new Map<bigint, THREE.Matrix4>();
+  private takes: FBXNode[] = [];
+  private stopTime = 0;
+
+  constructor(private readonly creator: string) {}
+
+  build(root: THREE.Object3D, animations: THREE.AnimationClip[]): FBXNode[] {
+    root.updateMatrixWorld(true);
+    this.addModel(root, 0n);
+
+    // Skinning data is taken from the skeleton's bind pose
+    root.traverse((object) => {
+      if (object instanceof THREE.SkinnedMesh) {
+        this.addSkin(object);
+      }
+    });
+    this.addBindPose();
+
+    for (const clip of animations) {
+      this.addAnimation(root, clip);
+    }
+
+    return [
+      this.headerExtension(),
+      single('FileId', fbx.raw(FBX_FILE_ID)),
+      single('CreationTime', fbx.string(FBX_CREATION_TIME)),
+      single('Creator', fbx.string(this.creator)),
+      this.globalSettings(),
+      this.documents(animations[0]?.name ?? ''),
+      fbxNode('References'),
+      this.definitions(),
+      fbxNode('Objects', [], this.objects),
+      fbxNode('Connections', [], this.connections),
+      fbxNode('Takes', [], [single('Current', fbx.string('')), ...this.takes]),
+    ];
+  }
+
+  private id(): bigint {
+    return this.nextId++;
+  }
+
+  private addObject(type: string, node: FBXNode): void {
+    this.objects.push(node);
+    this.counts.set(type, (this.counts.get(type) ?? 0) + 1);
+  }
+
+  private connect(child: bigint, parent: bigint, property?: string): void {
+    this.connections.push(
+      property === undefined
+        ? fbxNode('C', [fbx.string('OO'), fbx.int64(child), fbx.int64(parent)])
+        : fbxNode('C', [fbx.string('OP'), fbx.int64(child), fbx.int64(parent), fbx.string(property)])
+    );
+  }
+
+  private addModel(object: THREE.Object3D, parentId: bigint): void {
+    const id = this.id();
+    this.modelIds.set(object, id);
+
+    const modelType: ModelType = object instanceof THREE.Bone ? 'LimbNode' : object instanceof THREE.Mesh ? 'Mesh' : 'Null';
+    const name = object.name || `${modelType}_${object.id}`;
+    const rotation = toFBXEuler(object.quaternion);
+
+    this.addObject('Model', fbxNode('Model', [fbx.int64(id), fbxObjectName(name, 'Model'), fbx.string(modelType)], [
+      single('Version', fbx.int32(232)),
+      fbxNode('Properties70', [], [
+        vectorP70('Lcl Translation', object.position),
+        vectorP70('Lcl Rotation', { x: rotation.x * DEG, y: rotation.y * DEG, z: rotation.z * DEG }),
+        vectorP70('Lcl Scaling', object.scale),
+        p70('DefaultAttributeIndex', 'int', 'Integer', '', fbx.int32(0)),
+        p70('InheritType', 'enum', '', '', fbx.int32(1)),
+      ]),
+      single('Shading', fbx.bool(true)),
+      single('Culling', fbx.string('CullingOff')),
+    ]));
+    this.connect(id, parentId);
+
+    if (modelType === 'LimbNode') {
+      const attributeId = this.id();
+      this.addObject('NodeAttribute', fbxNode('NodeAttribute', [fbx.int64(attributeId), fbxObjectName(name, 'NodeAttribute'), fbx.string('LimbNode')], [
+        single('TypeFlags', fbx.string('Skeleton')),
+      ]));
+      this.connect(attributeId, id);
+    }
+
+    if (object instanceof THREE.Mesh) {
+      this.addGeometry(object, name, id);
+    }
+
+    for (const child of object.children) {
+      this.addModel(child, id);
+    }
+  }
+
+  /**
+   * Triangles as polygons; normals and UVs per polygon vertex, materials per polygon
+   */
+  private addGeometry(mesh: THREE.Mesh, name: string, modelId: bigint): void {
+    const geometry = mesh.geometry;
+    const position = geometry.getAttribute('position');
+    if (!position) return;
+
+    const corners: number[] = [];
+    if (geometry.index) {
+      for (let i = 0; i < geometry.index.count; i++) corners.push(geometry.index.getX(i));
+    } else {
+      for (let i = 0; i < position.count; i++) corners.push(i);
+    }
+    const triangleCount = Math.floor(corners.length / 3);
+    corners.length = triangleCount * 3;
+
+    const vertices: number[] = [];
+    for (let i = 0; i < position.count; i++) {
+      vertices.push(position.getX(i), position.getY(i), position.getZ(i));
+    }
+
+    // The last vertex of each polygon is stored as -(index + 1)
+    const polygonVertexIndex = corners.map((corner, i) => (i % 3 === 2 ? -corner - 1 : corner));
+
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const polygonMaterials = new Array<number>(triangleCount).fill(0);
+    if (Array.isArray(mesh.material)) {
+      for (const group of geometry.groups) {
+        const first = Math.floor(group.start / 3);
+        const last = Math.min(triangleCount, Math.floor((group.start + group.count) / 3));
+        polygonMaterials.fill(group.materialIndex ?? 0, first, last);
+      }
+    }
+
+    const children: FBXNode[] = [
+      single('Vertices', fbx.doubleArray(vertices)),
+      single('PolygonVertexIndex', fbx.int32Array(polygonVertexIndex)),
+      single('GeometryVersion', fbx.int32(124)),
+    ];
+    const layerElements: string[] = [];
+
+    const normal = geometry.getAttribute('normal');
+    if (normal) {
+      const normals: number[] = [];
+      for (const corner of corners) {
+        normals.push(normal.getX(corner), normal.getY(corner), normal.getZ(corner));
+      }
+      children.push(fbxNode('LayerElementNormal', [fbx.int32(0)], [
+        single('Version', fbx.int32(101)),
+        single('Name', fbx.string('')),
+        single('MappingInformationType', fbx.string('ByPolygonVertex')),
+        single('ReferenceInformationType', fbx.string('Direct')),
+        single('Normals', fbx.doubleArray(normals)),
+      ]));
+      layerElements.push('LayerElementNormal');
+    }
+
+    const uv = geometry.getAttribute('uv');
+    if (uv) {
+      const uvs: number[] = [];
+      for (let i = 0; i < uv.count; i++) {
+        uvs.push(uv.getX(i), uv.getY(i));
+      }
+      children.push(fbxNode('LayerElementUV', [fbx.int32(0)], [
+        single('Version', fbx.int32(101)),
+        single('Name', fbx.string('UVMap')),
+        single('MappingInformationType', fbx.string('ByPolygonVertex')),
+        single('ReferenceInformationType', fbx.string('IndexToDirect')),
+        single('UV', fbx.doubleArray(uvs)),
+        single('UVIndex', fbx.int32Array(corners)),
+      ]));
+      layerElements.push('LayerElementUV');
+    }
+
+    const allSame = polygonMaterials.every((index) => index === polygonMaterials[0]);
+    children.push(fbxNode('LayerElementMaterial', [fbx.int32(0)], [
+      single('Version', fbx.int32(101)),
+      single('Name', fbx.string('')),
+      single('MappingInformationType', fbx.string(allSame ? 'AllSame' : 'ByPolygon')),
+      single('ReferenceInformationType', fbx.string('IndexToDirect')),
+      single('Materials', fbx.int32Array(allSame ? [polygonMaterials[0] ?? 0] : polygonMaterials)),
+    ]));
+    layerElements.push('LayerElementMaterial');
+
+    children.push(fbxNode('Layer', [fbx.int32(0)], [
+      single('Version', fbx.int32(100)),
+      ...layerElements.map((type) => fbxNode('LayerElement', [], [
+        single('Type', fbx.string(type)),
+        single('TypedIndex', fbx.int32(0)),
+      ])),
+    ]));
+
+    const geometryId = this.id();
+    this.addObject('Geometry', fbxNode('Geometry', [fbx.int64(geometryId), fbxObjectName(name, 'Geometry'), fbx.string('Mesh')], children));
+    this.connect(geometryId, modelId);
+    this.geometryIds.set(mesh, geometryId);
+
+    // Connection order defines the material index
+    for (const material of materials) {
+      this.connect(this.addMaterial(material), modelId);
+    }
+  }
+
+  private addMaterial(material: THREE.Material): bigint {
+    const existing = this.materialIds.get(material);
+    if (existing !== undefined) return existing;
+
+    const id = this.id();
+    this.materialIds.set(material, id);
+
+    const properties: FBXNode[] = [];
+    if ('color' in material && material.color instanceof THREE.Color) {
+      const { r, g, b } = material.color;
+      properties.push(p70('DiffuseColor', 'Color', '', 'A', fbx.double(r), fbx.double(g), fbx.double(b)));
+      properties.push(p70('DiffuseFactor', 'Number', '', 'A', fbx.double(1)));
+    }
+    if ('emissive' in material && material.emissive instanceof THREE.Color) {
+      const { r, g, b } = material.emissive;
+      const intensity = 'emissiveIntensity' in material && typeof material.emissiveIntensity === 'number' ? material.emissiveIntensity : 1;
+      properties.push(p70('EmissiveColor', 'Color', '', 'A', fbx.double(r), fbx.double(g), fbx.double(b)));
+      properties.push(p70('EmissiveFactor', 'Number', '', 'A', fbx.double(intensity)));
+    }
+    if (material instanceof THREE.MeshStandardMaterial) {
+      // Phong approximation of the metal/rough parameters
+      const shininess = (1 - material.roughness) ** 2 * 100;
+      const specular = 0.04 + material.metalness * 0.96;
+      properties.push(p70('SpecularColor', 'Color', '', 'A', fbx.double(specular), fbx.double(specular), fbx.double(specular)));
+      properties.push(p70('Shininess', 'Number', '', 'A', fbx.double(shininess)));
+      properties.push(p70('ReflectionFactor', 'Number', '', 'A', fbx.double(material.metalness)));
+    }
+    properties.push(p70('Opacity', 'Number', '', 'A', fbx.double(material.opacity)));
+    properties.push(p70('TransparencyFactor', 'Number', '', 'A', fbx.double(1 - material.opacity)));
+
+    const name = material.name || `Material_${material.id}`;
+    this.addObject('Material', fbxNode('Material', [fbx.int64(id), fbxObjectName(name, 'Material'), fbx.string('')], [
+      single('Version', fbx.int32(102)),
+      single('ShadingModel', fbx.string('phong')),
+      single('MultiLayer', fbx.int32(0)),
+      fbxNode('Properties70', [], properties),
+    ]));
+    return id;
+  }
+
+  /**
+   * Skin deformer on the geometry with one cluster per influencing bone
+   */
+  private addSkin(mesh: THREE.SkinnedMesh): void {
+    const geometryId = this.geometryIds.get(mesh);
+    const meshModelId = this.modelIds.get(mesh);
+    const skinIndex = mesh.geometry.getAttribute('skinIndex');
+    const skinWeight = mesh.geometry.getAttribute('skinWeight');
+    if (geometryId === undefined || meshModelId === undefined || !skinIndex || !skinWeight) return;
+
+    const influences = new Map<number, { indexes: number[]; weights: number[] }>();
+    for (let vertex = 0; vertex < skinIndex.count; vertex++) {
+      for (let k = 0; k < skinIndex.itemSize; k++) {
+        const weight = skinWeight.getComponent(vertex, k);
+        if (weight <= 0) continue;
+        const bone = skinIndex.getComponent(vertex, k);
+        let influence = influences.get(bone);
+        if (!influence) {
+          influence = { indexes: [], weights: [] };
+          influences.set(bone, influence);
+        }
+        influence.indexes.push(vertex);
+        influence.weights.push(weight);
+      }
+    }
+
+    const name = mesh.name || `Mesh_${mesh.id}`;
+    const skinId = this.id();
+    this.addObject('Deformer', fbxNode('Deformer', [fbx.int64(skinId), fbxObjectName(name, 'Deformer'), fbx.string('Skin')], [
+      single('Version', fbx.int32(101)),
+      single('Link_DeformAcuracy', fbx.double(50)),
+    ]));
+    this.connect(skinId, geometryId);
+
+    this.poseNodes.set(meshModelId, mesh.bindMatrix.clone());
+
+    const { bones, boneInverses } = mesh.skeleton;
+    for (const [boneIndex, influence] of influences) {
+      const bone = bones[boneIndex];
+      const boneInverse = boneInverses[boneIndex];
+      const boneModelId = bone ? this.modelIds.get(bone) : undefined;
+      if (!bone || !boneInverse || boneModelId === undefined) continue;
+
+      // TransformLink: bone world matrix at bind; Transform: mesh bind matrix in bone space
+      const transformLink = boneInverse.clone().invert();
+      const transform = boneInverse.clone().multiply(mesh.bindMatrix);
+      this.poseNodes.set(boneModelId, transformLink);
+
+      const clusterId = this.id();
+      this.addObject('Deformer', fbxNode('Deformer', [fbx.int64(clusterId), fbxObjectName(bone.name, 'SubDeformer'), fbx.string('Cluster')], [
+        single('Version', fbx.int32(100)),
+        fbxNode('UserData', [fbx.string(''), fbx.string('')]),
+        single('Indexes', fbx.int32Array(influence.indexes)),
+        single('Weights', fbx.doubleArray(influence.weights)),
+        single('Transform', fbx.doubleArray(transform.elements)),
+        single('TransformLink', fbx.doubleArray(transformLink.elements)),
+      ]));
+      this.connect(clusterId, skinId);
+      this.connect(boneModelId, clusterId);
+    }
+  }
+
+  private addBindPose(): void {
+    if (this.poseNodes.size === 0) return;
+
+    const id = this.id();
+    this.addObject('Pose', fbxNode('Pose', [fbx.int64(id), fbxObjectName('BindPose', 'Pose'), fbx.string('BindPose')], [
+      single('Type', fbx.string('BindPose')),
+      single('Version', fbx.int32(100)),
+      single('NbPoseNodes', fbx.int32(this.poseNodes.size)),
+      ...Array.from(this.poseNodes, ([modelId, matrix]) => fbxNode('PoseNode', [], [
+        single('Node', fbx.int64(modelId)),
+        single('Matrix', fbx.doubleArray(matrix.elements)),
+      ])),
+    ]));
+  }
+
+  /**
+   * One AnimationStack per clip; rotations are baked to unwrapped Euler degrees
+   */
+  private addAnimation(root: THREE.Object3D, clip: THREE.AnimationClip): void {
+    const stop = ktime(clip.duration);
+    this.stopTime = Math.max(this.stopTime, clip.duration);
+
+    const stackId = this.id();
+    this.addObject('AnimationStack', fbxNode('AnimationStack', [fbx.int64(stackId), fbxObjectName(clip.name, 'AnimStack'), fbx.string('')], [
+      fbxNode('Properties70', [], [
+        p70('LocalStart', 'KTime', 'Time', '', fbx.int64(0)),
+        p70('LocalStop', 'KTime', 'Time', '', fbx.int64(stop)),
+        p70('ReferenceStart', 'KTime', 'Time', '', fbx.int64(0)),
+        p70('ReferenceStop', 'KTime', 'Time', '', fbx.int64(stop)),
+      ]),
+    ]));
+
+    const layerId = this.id();
+    this.addObject('AnimationLayer', fbxNode('AnimationLayer', [fbx.int64(layerId), fbxObjectName('BaseLayer', 'AnimLayer'), fbx.string('')]));
+    this.connect(layerId, stackId);
+
+    for (const track of clip.tracks) {
+      const binding = THREE.PropertyBinding.parseTrackName(track.name);
+      const curve = CURVE_NODES[binding.propertyName];
+      const target = THREE.PropertyBinding.findNode(root, binding.nodeName) as THREE.Object3D | null;
+      const modelId = target ? this.modelIds.get(target) : undefined;
+      if (!curve || modelId === undefined) continue;
+
+      const channels = binding.propertyName === 'quaternion'
+        ? this.eulerChannels(track)
+        : [0, 1, 2].map((axis) => Array.from({ length: track.times.length }, (_, key) => track.values[key * 3 + axis] ?? 0));
+
+      const curveNodeId = this.id();
+      this.addObject('AnimationCurveNode', fbxNode('AnimationCurveNode', [fbx.int64(curveNodeId), fbxObjectName(curve.node, 'AnimCurveNode'), fbx.string('')], [
+        fbxNode('Properties70', [], ['X', 'Y', 'Z'].map((axis, i) => p70(`d|${axis}`, 'Number', '', 'A', fbx.double(channels[i]?.[0] ?? 0)))),
+      ]));
+      this.connect(curveNodeId, layerId);
+      this.connect(curveNodeId, modelId, curve.property);
+
+      const keyTimes = Array.from(track.times, ktime);
+      channels.forEach((values, i) => {
+        const curveId = this.id();
+        this.addObject('AnimationCurve', fbxNode('AnimationCurve', [fbx.int64(curveId), fbxObjectName('', 'AnimCurve'), fbx.string('')], [
+          single('Default', fbx.double(values[0] ?? 0)),
+          single('KeyVer', fbx.int32(4009)),
+          single('KeyTime', fbx.int64Array(keyTimes)),
+          single('KeyValueFloat', fbx.floatArray(values)),
+          single('KeyAttrFlags', fbx.int32Array([KEY_ATTR_FLAGS])),
+          single('KeyAttrDataFloat', fbx.floatArray(KEY_ATTR_DATA)),
+          single('KeyAttrRefCount', fbx.int32Array([values.length])),
+        ]));
+        this.connect(curveId, curveNodeId, `d|${'XYZ'[i]}`);
+      });
+    }
+
+    this.takes.push(fbxNode('Take', [fbx.string(clip.name)], [
+      single('FileName', fbx.string(`${clip.name.replace(/[^a-zA-Z0-9_]/g, '_')}.tak`)),
+      fbxNode('LocalTime', [fbx.int64(0), fbx.int64(stop)]),
+      fbxNode('ReferenceTime', [fbx.int64(0), fbx.int64(stop)]),
+    ]));
+  }
+
+  /**
+   * Quaternion keys as X/Y/Z degree curves, unwrapped so interpolation never spins the long way
+   */
+  private eulerChannels(track: THREE.KeyframeTrack): number[][] {
+    const channels: number[][] = [[], [], []];
+    const quaternion = new THREE.Quaternion();
+    const euler = new THREE.Euler();
+
+    for (let key = 0; key < track.times.length; key++) {
+      quaternion.fromArray(track.values, key * 4);
+      toFBXEuler(quaternion, euler);
+      [euler.x, euler.y, euler.z].forEach((angle, i) => {
+        const channel = channels[i] as number[];
+        let degrees = angle * DEG;
+        const previous = channel[channel.length - 1];
+        if (previous !== undefined) {
+          degrees += Math.round((previous - degrees) / 360) * 360;
+        }
+        channel.push(degrees);
+      });
+    }
+    return channels;
+  }
+
+  private headerExtension(): FBXNode {
+    const now = new Date();
+    return fbxNode('FBXHeaderExtension', [], [
+      single('FBXHeaderVersion', fbx.int32(1003)),
+      single('FBXVersion', fbx.int32(FBX_VERSION)),
+      single('EncryptionType', fbx.int32(0)),
+      fbxNode('CreationTimeStamp', [], [
+        single('Version', fbx.int32(1000)),
+        single('Year', fbx.int32(now.getFullYear())),
+        single('Month', fbx.int32(now.getMonth() + 1)),
+        single('Day', fbx.int32(now.getDate())),
+        single('Hour', fbx.int32(now.getHours())),
+        single('Minute', fbx.int32(now.getMinutes())),
+        single('Second', fbx.int32(now.getSeconds())),
+        single('Millisecond', fbx.int32(now.getMilliseconds())),
+      ]),
+      single('Creator', fbx.string(this.creator)),
+    ]);
+  }
+
+  /**
+   * Y-up, right-handed, +Z front, 1 unit = 1 meter
+   */
+  private globalSettings(): FBXNode {
+    const axis = (name: string, value: number) => p70(name, 'int', 'Integer', '', fbx.int32(value));
+    return fbxNode('GlobalSettings', [], [
+      single('Version', fbx.int32(1000)),
+      fbxNode('Properties70', [], [
+        axis('UpAxis', 1),
+        axis('UpAxisSign', 1),
+        axis('FrontAxis', 2),
+        axis('FrontAxisSign', 1),
+        axis('CoordAxis', 0),
+        axis('CoordAxisSign', 1),
+        axis('OriginalUpAxis', 1),
+        axis('OriginalUpAxisSign', 1),
+        p70('UnitScaleFactor', 'double', 'Number', '', fbx.double(100)),
+        p70('OriginalUnitScaleFactor', 'double', 'Number', '', fbx.double(100)),
+        p70('TimeMode', 'enum', '', '', fbx.int32(6)), // eFrames30
+        p70('TimeSpanStart', 'KTime', 'Time', '', fbx.int64(0)),
+        p70('TimeSpanStop', 'KTime', 'Time', '', fbx.int64(ktime(this.stopTime))),
+        p70('CustomFrameRate', 'double', 'Number', '', fbx.double(FRAME_RATE)),
+      ]),
+    ]);
+  }
+
+  private documents(activeStack: string): FBXNode {
+    return fbxNode('Documents', [], [
+      single('Count', fbx.int32(1)),
+      fbxNode('Document', [fbx.int64(this.id()), fbx.string(''), fbx.string('Scene')], [
+        fbxNode('Properties70', [], [
+          p70('SourceObject', 'object', '', ''),
+          p70('ActiveAnimStackName', 'KString', '', '', fbx.string(activeStack)),
+        ]),
+        single('RootNode', fbx.int64(0)),
+      ]),
+    ]);
+  }
+
+  private definitions(): FBXNode {
+    const types = [['GlobalSettings', 1] as const, ...this.counts];
+    return fbxNode('Definitions', [], [
+      single('Version', fbx.int32(100)),
+      single('Count', fbx.int32(types.reduce((sum, [, count]) => sum + count, 0))),
+      ...types.map(([type, count]) => fbxNode('ObjectType', [fbx.string(type)], [single('Count', fbx.int32(count))])),
+    ]);
+  }
+}
+
+/**
+ * FBXExporterPlugin
+ * Exports characters to binary FBX 7.4
+ */
+export class FBXExporterPlugin extends BasePlugin implements ExporterPlugin {
+  readonly id = 'fbx-exporter';
+  readonly name = 'FBX Exporter';
+  readonly version = '1.0.0';
+  readonly type = 'exporter' as const;
+
+  /**
+   * Export a character to binary FBX
+   * Arrays are zlib-compressed unless compress is false
+   */
+  async export(character: Character, options: ExportOptions): Promise<Blob | string> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Character has no model to export');
+    }
+
+    if (options.format !== 'fbx') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${options.format}. Use 'fbx'.`);
+    }
+
+    // Export from a clone in bind pose so the live character keeps its pose and bone names
+    const model = SkeletonUtils.clone(character.model);
+    model.traverse((child) => {
+      if (child instanceof THREE.SkinnedMesh) {
+        child.skeleton.pose();
+      }
+    });
+    const animations = renameBones(
+      model,
+      options.boneNaming ?? 'canonical',
+      options.includeAnimations ? character.model.animations : []
+    );
+
+    try {
+      const nodes = new FBXSceneBuilder(`${this.name} ${this.version}`).build(model, animations);
+      const buffer = await writeFBX(nodes, options.compress === false ? {} : { compressArraysOver: COMPRESS_ARRAYS_OVER });
+      return new Blob([buffer], { type: 'application/octet-stream' });
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'FBX export failed',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  getSupportedFormats(): ExportFormat[] {
+    return ['fbx'];
+  }
+
+  /**
+   * Export to downloadable file
+   */
+  async exportToFile(character: Character, filename: string, options: ExportOptions): Promise<void> {
+    const result = await this.export(character, options);
+    const blob = result instanceof Blob ? result : new Blob([result], { type: 'application/octet-stream' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
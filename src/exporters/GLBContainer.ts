@@ -0,0 +1,309 @@
+/**
+ * GLBContainer - Read, rewrite and repackage glTF 2.0 binary containers
+ * Used to post-process GLTFExporter output (compression, texture handling)
+ */
+
+/**
+ * The parts of the glTF JSON schema the post-processing steps touch
+ */
+export interface GLTFBufferDef {
+  byteLength: number;
+  uri?: string;
+  extensions?: Record<string, unknown>;
+}
+
+export interface GLTFBufferViewDef {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+  target?: number;
+  extensions?: Record<string, unknown>;
+}
+
+export type GLTFAccessorType = 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4' | 'MAT2' | 'MAT3' | 'MAT4';
+
+export interface GLTFAccessorDef {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: GLTFAccessorType;
+  min?: number[];
+  max?: number[];
+  sparse?: unknown;
+  name?: string;
+}
+
+export interface GLTFPrimitiveDef {
+  attributes: Record<string, number>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+  targets?: Record<string, number>[];
+}
+
+export interface GLTFMeshDef {
+  primitives: GLTFPrimitiveDef[];
+  name?: string;
+}
+
+export interface GLTFNodeDef {
+  name?: string;
+  mesh?: number;
+  skin?: number;
+  children?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  matrix?: number[];
+}
+
+export interface GLTFSkinDef {
+  joints: number[];
+  inverseBindMatrices?: number;
+  skeleton?: number;
+}
+
+export interface GLTFImageDef {
+  name?: string;
+  uri?: string;
+  bufferView?: number;
+  mimeType?: string;
+}
+
+export interface GLTFJSON {
+  asset: { version: string; generator?: string };
+  buffers?: GLTFBufferDef[];
+  bufferViews?: GLTFBufferViewDef[];
+  accessors?: GLTFAccessorDef[];
+  meshes?: GLTFMeshDef[];
+  nodes?: GLTFNodeDef[];
+  skins?: GLTFSkinDef[];
+  images?: GLTFImageDef[];
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Parsed GLB: JSON chunk plus the BIN chunk backing buffer 0
+ */
+export interface GLBContent {
+  json: GLTFJSON;
+  bin: Uint8Array;
+}
+
+/**
+ * Editable form: JSON plus a copy of every buffer view's bytes
+ */
+export interface GLBViews {
+  json: GLTFJSON;
+  views: Uint8Array[];
+}
+
+export const GL_ARRAY_BUFFER = 34962;
+export const GL_ELEMENT_ARRAY_BUFFER = 34963;
+
+export const COMPONENT_SIZE: Record<number, number> = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5125: 4, // UNSIGNED_INT
+  5126: 4, // FLOAT
+};
+
+export const COMPONENT_COUNT: Record<GLTFAccessorType, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Split a GLB into its JSON and BIN chunks
+ */
+export function readGLB(buffer: ArrayBuffer): GLBContent {
+  const view = new DataView(buffer);
+  if (view.getUint32(0, true) !== GLB_MAGIC || view.getUint32(4, true) !== 2) {
+    throw new Error('Not a glTF 2.0 binary file');
+  }
+
+  let json: GLTFJSON | null = null;
+  let bin = new Uint8Array(0);
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const data = new Uint8Array(buffer, offset + 8, length);
+    if (type === CHUNK_JSON) {
+      json = JSON.parse(textDecoder.decode(data)) as GLTFJSON;
+    } else if (type === CHUNK_BIN) {
+      bin = data.slice();
+    }
+    offset += 8 + length;
+  }
+
+  if (!json) {
+    throw new Error('GLB has no JSON chunk');
+  }
+  return { json, bin };
+}
+
+function padTo4(length: number): number {
+  return (length + 3) & ~3;
+}
+
+/**
+ * Assemble a GLB; buffer 0 must describe the BIN chunk
+ */
+export function writeGLB({ json, bin }: GLBContent): ArrayBuffer {
+  const jsonBytes = textEncoder.encode(JSON.stringify(json));
+  const jsonLength = padTo4(jsonBytes.length);
+  const binLength = padTo4(bin.length);
+  const total = 12 + 8 + jsonLength + (bin.length > 0 ? 8 + binLength : 0);
+
+  const output = new Uint8Array(total);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  output.set(jsonBytes, 20);
+  output.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength); // JSON pads with spaces
+
+  if (bin.length > 0) {
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, CHUNK_BIN, true);
+    output.set(bin, binStart + 8);
+  }
+
+  return output.buffer;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Convert to a self-contained .gltf with buffer 0 as a data URI
+ */
+export function toEmbeddedGLTF({ json, bin }: GLBContent): string {
+  const embedded: GLTFJSON = structuredClone(json);
+  const buffer = embedded.buffers?.[0];
+  if (buffer && bin.length > 0) {
+    buffer.uri = `data:application/octet-stream;base64,${toBase64(bin)}`;
+  }
+  return JSON.stringify(embedded, null, 2);
+}
+
+/**
+ * Bytes of a buffer view stored in the BIN chunk
+ */
+export function getBufferViewData({ json, bin }: GLBContent, index: number): Uint8Array {
+  const view = json.bufferViews?.[index];
+  if (!view || view.buffer !== 0) {
+    throw new Error(`Buffer view ${index} is not stored in the GLB binary chunk`);
+  }
+  const start = view.byteOffset ?? 0;
+  return bin.subarray(start, start + view.byteLength);
+}
+
+/**
+ * Clone a GLB into editable buffer views; every view must live in the BIN chunk
+ */
+export function unpackBufferViews(content: GLBContent): GLBViews {
+  const json: GLTFJSON = structuredClone(content.json);
+  const views = (json.bufferViews ?? []).map((_, index) => getBufferViewData(content, index).slice());
+  return { json, views };
+}
+
+/**
+ * Visit every bufferView reference in the JSON (accessors, sparse data, images, extensions)
+ */
+export function forEachBufferViewRef(value: unknown, visit: (holder: Record<string, unknown>) => void): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => forEachBufferViewRef(item, visit));
+  } else if (value && typeof value === 'object') {
+    const holder = value as Record<string, unknown>;
+    if (typeof holder['bufferView'] === 'number') visit(holder);
+    for (const child of Object.values(holder)) forEachBufferViewRef(child, visit);
+  }
+}
+
+/**
+ * Drop buffer views nothing references any more
+ */
+export function pruneBufferViews(doc: GLBViews): void {
+  const { json } = doc;
+  const { bufferViews, ...rest } = json;
+  const used = new Set<number>();
+  forEachBufferViewRef(rest, (holder) => used.add(holder['bufferView'] as number));
+
+  const remap = new Map<number, number>();
+  const keptDefs: GLTFBufferViewDef[] = [];
+  const keptData: Uint8Array[] = [];
+  (bufferViews ?? []).forEach((def, index) => {
+    if (!used.has(index)) return;
+    remap.set(index, keptDefs.length);
+    keptDefs.push(def);
+    keptData.push(doc.views[index] ?? new Uint8Array(0));
+  });
+
+  forEachBufferViewRef(rest, (holder) => {
+    holder['bufferView'] = remap.get(holder['bufferView'] as number);
+  });
+  json.bufferViews = keptDefs;
+  doc.views = keptData;
+}
+
+/**
+ * Lay out every buffer view back-to-back (4 byte aligned) in a single BIN chunk
+ */
+export function packBufferViews({ json, views }: GLBViews): GLBContent {
+  const bufferViews = json.bufferViews ?? [];
+  let length = 0;
+  const offsets = bufferViews.map((def, index) => {
+    const offset = length;
+    length = padTo4(length + (views[index]?.length ?? 0));
+    def.buffer = 0;
+    def.byteOffset = offset;
+    def.byteLength = views[index]?.length ?? 0;
+    return offset;
+  });
+
+  const bin = new Uint8Array(length);
+  offsets.forEach((offset, index) => bin.set(views[index] ?? new Uint8Array(0), offset));
+  json.buffers = length > 0 ? [{ byteLength: length }] : [];
+  return { json, bin };
+}
+
+/**
+ * Declare an extension (and optionally require it)
+ */
+export function addExtension(json: GLTFJSON, name: string, required: boolean): void {
+  json.extensionsUsed = Array.from(new Set([...(json.extensionsUsed ?? []), name]));
+  if (required) {
+    json.extensionsRequired = Array.from(new Set([...(json.extensionsRequired ?? []), name]));
+  }
+}
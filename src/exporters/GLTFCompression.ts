@@ -0,0 +1,489 @@
+/**
+ * GLTFCompression - Geometry compression for GLTFExporter output
+ *
+ * Two passes over a parsed GLB, both declared as required extensions:
+ * - KHR_mesh_quantization: positions become 16-bit integers (the dequantization
+ *   transform moves into a child node, or into the inverse bind matrices for
+ *   skinned meshes), normals/tangents 8-bit, UVs and skin weights normalized
+ * - EXT_meshopt_compression: vertex, index and animation buffer views are
+ *   encoded with the meshopt codecs; the uncompressed layout lives in a
+ *   fallback buffer without data
+ */
+
+import {
+  COMPONENT_COUNT,
+  COMPONENT_SIZE,
+  GL_ARRAY_BUFFER,
+  addExtension,
+  forEachBufferViewRef,
+  pruneBufferViews,
+  unpackBufferViews,
+} from './GLBContainer.js';
+import type { GLBContent, GLBViews, GLTFAccessorDef, GLTFBufferViewDef, GLTFJSON } from './GLBContainer.js';
+import { encodeIndexSequence, encodeVertexBuffer } from './MeshoptEncoder.js';
+
+export const KHR_MESH_QUANTIZATION = 'KHR_mesh_quantization';
+export const EXT_MESHOPT_COMPRESSION = 'EXT_meshopt_compression';
+
+export interface GLTFCompressionOptions {
+  /** Store vertex attributes as integers (KHR_mesh_quantization) */
+  quantize?: boolean;
+  /** Encode buffer views with the meshopt codecs (EXT_meshopt_compression) */
+  meshopt?: boolean;
+}
+
+const BYTE = 5120;
+const UNSIGNED_BYTE = 5121;
+const SHORT = 5122;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const FLOAT = 5126;
+
+/**
+ * Quantized position p maps back to offset + scale * p
+ */
+interface Dequantization {
+  offset: [number, number, number];
+  scale: number;
+}
+
+function accessorAt(json: GLTFJSON, index: number): GLTFAccessorDef {
+  const accessor = json.accessors?.[index];
+  if (!accessor) throw new Error(`Missing accessor ${index}`);
+  return accessor;
+}
+
+/**
+ * Tightly packed values of a float accessor, or null if it is not plain float data
+ */
+function readFloats(doc: GLBViews, accessor: GLTFAccessorDef): Float32Array | null {
+  if (accessor.componentType !== FLOAT || accessor.bufferView === undefined || accessor.sparse) {
+    return null;
+  }
+  const bytes = doc.views[accessor.bufferView];
+  const def = doc.json.bufferViews?.[accessor.bufferView];
+  if (!bytes || !def) return null;
+
+  const components = COMPONENT_COUNT[accessor.type];
+  const stride = def.byteStride ?? components * 4;
+  const base = accessor.byteOffset ?? 0;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const values = new Float32Array(accessor.count * components);
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < components; c++) {
+      values[i * components + c] = view.getFloat32(base + i * stride + c * 4, true);
+    }
+  }
+  return values;
+}
+
+function writeComponent(view: DataView, offset: number, componentType: number, value: number): void {
+  switch (componentType) {
+    case BYTE: view.setInt8(offset, value); break;
+    case UNSIGNED_BYTE: view.setUint8(offset, value); break;
+    case SHORT: view.setInt16(offset, value, true); break;
+    case UNSIGNED_SHORT: view.setUint16(offset, value, true); break;
+    case UNSIGNED_INT: view.setUint32(offset, value, true); break;
+    default: view.setFloat32(offset, value, true);
+  }
+}
+
+/**
+ * Point an accessor at new data in its own buffer view, padded to a 4 byte stride
+ */
+function replaceAccessorData(
+  doc: GLBViews,
+  accessor: GLTFAccessorDef,
+  componentType: number,
+  values: ArrayLike<number>,
+  normalized: boolean
+): void {
+  const components = COMPONENT_COUNT[accessor.type];
+  const elementSize = components * (COMPONENT_SIZE[componentType] ?? 4);
+  const isVertexData = accessor.type !== 'MAT4';
+  const stride = isVertexData ? (elementSize + 3) & ~3 : elementSize;
+
+  const bytes = new Uint8Array(accessor.count * stride);
+  const view = new DataView(bytes.buffer);
+  const componentSize = COMPONENT_SIZE[componentType] ?? 4;
+  for (let i = 0; i < accessor.count; i++) {
+    for (let c = 0; c < components; c++) {
+      writeComponent(view, i * stride + c * componentSize, componentType, values[i * components + c] ?? 0);
+    }
+  }
+
+  const def: GLTFBufferViewDef = { buffer: 0, byteLength: bytes.length };
+  if (isVertexData) {
+    def.byteStride = stride;
+    def.target = GL_ARRAY_BUFFER;
+  }
+  const bufferViews = (doc.json.bufferViews ??= []);
+  accessor.bufferView = bufferViews.push(def) - 1;
+  doc.views.push(bytes);
+
+  delete accessor.byteOffset;
+  accessor.componentType = componentType;
+  if (normalized) {
+    accessor.normalized = true;
+    delete accessor.min;
+    delete accessor.max;
+  } else {
+    delete accessor.normalized;
+  }
+}
+
+function quantizeSigned(doc: GLBViews, accessor: GLTFAccessorDef): boolean {
+  const values = readFloats(doc, accessor);
+  if (!values) return false;
+  const quantized = values.map((value) => Math.round(Math.max(-1, Math.min(1, value)) * 127));
+  replaceAccessorData(doc, accessor, BYTE, quantized, true);
+  return true;
+}
+
+function quantizeTexCoord(doc: GLBViews, accessor: GLTFAccessorDef): boolean {
+  const values = readFloats(doc, accessor);
+  if (!values || values.some((value) => value < 0 || value > 1)) return false;
+  replaceAccessorData(doc, accessor, UNSIGNED_SHORT, values.map((value) => Math.round(value * 65535)), true);
+  return true;
+}
+
+/**
+ * 8-bit weights; rounding error goes to the largest weight so each vertex still sums to 1
+ */
+function quantizeWeights(doc: GLBViews, accessor: GLTFAccessorDef): boolean {
+  const values = readFloats(doc, accessor);
+  if (!values || accessor.type !== 'VEC4') return false;
+
+  const quantized = new Uint8Array(values.length);
+  for (let i = 0; i < values.length; i += 4) {
+    let sum = 0;
+    let largest = i;
+    for (let c = i; c < i + 4; c++) {
+      quantized[c] = Math.round(Math.max(0, Math.min(1, values[c] ?? 0)) * 255);
+      sum += quantized[c] ?? 0;
+      if ((values[c] ?? 0) > (values[largest] ?? 0)) largest = c;
+    }
+    if (sum > 0) {
+      quantized[largest] = (quantized[largest] ?? 0) + 255 - sum;
+    }
+  }
+  replaceAccessorData(doc, accessor, UNSIGNED_BYTE, quantized, true);
+  return true;
+}
+
+function quantizePositions(doc: GLBViews, accessor: GLTFAccessorDef, dequant: Dequantization): void {
+  const values = readFloats(doc, accessor);
+  if (!values) throw new Error('Position accessor is not float data');
+
+  const quantized = new Uint16Array(values.length);
+  const min = [65535, 65535, 65535];
+  const max = [0, 0, 0];
+  for (let i = 0; i < values.length; i++) {
+    const axis = i % 3;
+    const q = Math.round(((values[i] ?? 0) - dequant.offset[axis]!) / dequant.scale);
+    const clamped = Math.max(0, Math.min(65535, q));
+    quantized[i] = clamped;
+    min[axis] = Math.min(min[axis]!, clamped);
+    max[axis] = Math.max(max[axis]!, clamped);
+  }
+  replaceAccessorData(doc, accessor, UNSIGNED_SHORT, quantized, false);
+  accessor.min = min;
+  accessor.max = max;
+}
+
+/**
+ * Inverse bind matrices that also apply the dequantization (IBM * D)
+ */
+function applyDequantizationToSkin(
+  doc: GLBViews,
+  skinIndex: number,
+  jointCount: number,
+  dequant: Dequantization
+): void {
+  const skin = doc.json.skins?.[skinIndex];
+  if (!skin) return;
+
+  let matrices: Float32Array | null = null;
+  if (skin.inverseBindMatrices !== undefined) {
+    matrices = readFloats(doc, accessorAt(doc.json, skin.inverseBindMatrices));
+  }
+  if (!matrices) {
+    matrices = new Float32Array(jointCount * 16);
+    for (let j = 0; j < jointCount; j++) {
+      for (let d = 0; d < 4; d++) matrices[j * 16 + d * 5] = 1;
+    }
+  }
+
+  const { offset, scale } = dequant;
+  const result = new Float32Array(matrices.length);
+  for (let j = 0; j < matrices.length; j += 16) {
+    for (let r = 0; r < 4; r++) {
+      const m = (column: number) => matrices[j + column * 4 + r] ?? 0;
+      result[j + r] = m(0) * scale;
+      result[j + 4 + r] = m(1) * scale;
+      result[j + 8 + r] = m(2) * scale;
+      result[j + 12 + r] = m(0) * offset[0] + m(1) * offset[1] + m(2) * offset[2] + m(3);
+    }
+  }
+
+  // a new accessor, in case the original matrices are shared with another skin
+  const accessors = (doc.json.accessors ??= []);
+  const accessor: GLTFAccessorDef = { componentType: FLOAT, count: jointCount, type: 'MAT4' };
+  skin.inverseBindMatrices = accessors.push(accessor) - 1;
+  replaceAccessorData(doc, accessor, FLOAT, result, false);
+}
+
+/**
+ * Uniform dequantization covering every position of a mesh, or null if it cannot be quantized
+ */
+function planMeshDequantization(doc: GLBViews, meshIndex: number): Dequantization | null {
+  const mesh = doc.json.meshes?.[meshIndex];
+  if (!mesh) return null;
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const primitive of mesh.primitives) {
+    const positionIndex = primitive.attributes['POSITION'];
+    if (primitive.targets?.length || positionIndex === undefined) return null;
+
+    const values = readFloats(doc, accessorAt(doc.json, positionIndex));
+    if (!values) return null;
+    for (let i = 0; i < values.length; i++) {
+      const axis = i % 3;
+      min[axis] = Math.min(min[axis]!, values[i]!);
+      max[axis] = Math.max(max[axis]!, values[i]!);
+    }
+  }
+  if (!Number.isFinite(min[0])) return null;
+
+  // uniform scale keeps normals valid under the dequantization transform
+  const extent = Math.max(max[0]! - min[0]!, max[1]! - min[1]!, max[2]! - min[2]!);
+  return {
+    offset: [min[0]!, min[1]!, min[2]!],
+    scale: extent > 0 ? extent / 65535 : 1,
+  };
+}
+
+/**
+ * KHR_mesh_quantization pass; returns true if any attribute was quantized
+ */
+function quantizeMeshes(doc: GLBViews): boolean {
+  const { json } = doc;
+  const nodes = json.nodes ?? [];
+  let changed = false;
+
+  // a skin can absorb one mesh's dequantization, so skip skins shared by several meshes
+  const meshesBySkin = new Map<number, Set<number>>();
+  for (const node of nodes) {
+    if (node.skin !== undefined && node.mesh !== undefined) {
+      const meshes = meshesBySkin.get(node.skin) ?? new Set<number>();
+      meshes.add(node.mesh);
+      meshesBySkin.set(node.skin, meshes);
+    }
+  }
+
+  // positions shared between meshes would need one dequantization per mesh
+  const meshesByPosition = new Map<number, Set<number>>();
+  (json.meshes ?? []).forEach((mesh, meshIndex) => {
+    for (const primitive of mesh.primitives) {
+      const index = primitive.attributes['POSITION'];
+      if (index === undefined) continue;
+      const meshes = meshesByPosition.get(index) ?? new Set<number>();
+      meshes.add(meshIndex);
+      meshesByPosition.set(index, meshes);
+    }
+  });
+
+  const done = new Set<number>();
+  const adjustedSkins = new Set<number>();
+  (json.meshes ?? []).forEach((mesh, meshIndex) => {
+    for (const primitive of mesh.primitives) {
+      for (const [semantic, index] of Object.entries(primitive.attributes)) {
+        if (done.has(index)) continue;
+        const accessor = accessorAt(json, index);
+        let quantized = false;
+        if (semantic === 'NORMAL' || semantic === 'TANGENT') {
+          quantized = quantizeSigned(doc, accessor);
+        } else if (semantic.startsWith('TEXCOORD_')) {
+          quantized = quantizeTexCoord(doc, accessor);
+        } else if (semantic === 'WEIGHTS_0' && primitive.attributes['WEIGHTS_1'] === undefined) {
+          quantized = quantizeWeights(doc, accessor);
+        }
+        if (quantized) {
+          done.add(index);
+          changed = true;
+        }
+      }
+    }
+
+    const meshNodes = nodes.filter((node) => node.mesh === meshIndex);
+    const skinConflict = meshNodes.some(
+      (node) => node.skin !== undefined && (meshesBySkin.get(node.skin)?.size ?? 0) > 1
+    );
+    const sharedPositions = mesh.primitives.some(
+      (primitive) => (meshesByPosition.get(primitive.attributes['POSITION'] ?? -1)?.size ?? 0) > 1
+    );
+    const dequant = skinConflict || sharedPositions ? null : planMeshDequantization(doc, meshIndex);
+    if (!dequant) return;
+
+    for (const primitive of mesh.primitives) {
+      const index = primitive.attributes['POSITION'];
+      if (index === undefined || done.has(index)) continue;
+      done.add(index);
+      quantizePositions(doc, accessorAt(json, index), dequant);
+    }
+
+    for (const node of meshNodes) {
+      if (node.skin !== undefined) {
+        // skinned mesh node transforms are ignored, so the skin carries the dequantization
+        if (adjustedSkins.has(node.skin)) continue;
+        adjustedSkins.add(node.skin);
+        const jointCount = json.skins?.[node.skin]?.joints.length ?? 0;
+        applyDequantizationToSkin(doc, node.skin, jointCount, dequant);
+      } else {
+        const child = nodes.push({ mesh: meshIndex, translation: [...dequant.offset], scale: [dequant.scale, dequant.scale, dequant.scale] }) - 1;
+        delete node.mesh;
+        node.children = [...(node.children ?? []), child];
+      }
+    }
+    changed = true;
+  });
+
+  json.nodes = nodes;
+  return changed;
+}
+
+/**
+ * How a buffer view can be meshopt-encoded, or null if it should stay raw
+ */
+function meshoptLayout(
+  json: GLTFJSON,
+  viewIndex: number,
+  indexAccessors: Set<number>,
+  excluded: Set<number>
+): { mode: 'ATTRIBUTES' | 'INDICES'; stride: number; count: number } | null {
+  const def = json.bufferViews?.[viewIndex];
+  if (!def || excluded.has(viewIndex)) return null;
+
+  const users = (json.accessors ?? [])
+    .map((accessor, index) => ({ accessor, index }))
+    .filter(({ accessor }) => accessor.bufferView === viewIndex);
+  if (users.length === 0) return null;
+
+  if (users.every(({ index }) => indexAccessors.has(index))) {
+    const sizes = new Set(users.map(({ accessor }) => COMPONENT_SIZE[accessor.componentType] ?? 0));
+    const stride = sizes.size === 1 ? [...sizes][0]! : 0;
+    if ((stride !== 2 && stride !== 4) || def.byteLength % stride !== 0) return null;
+    return { mode: 'INDICES', stride, count: def.byteLength / stride };
+  }
+  if (users.some(({ index }) => indexAccessors.has(index))) return null;
+
+  const elementSizes = new Set(
+    users.map(({ accessor }) => COMPONENT_COUNT[accessor.type] * (COMPONENT_SIZE[accessor.componentType] ?? 0))
+  );
+  const stride = def.byteStride ?? (elementSizes.size === 1 ? [...elementSizes][0]! : 0);
+  if (stride === 0 || stride % 4 !== 0 || stride > 256 || def.byteLength % stride !== 0) return null;
+  return { mode: 'ATTRIBUTES', stride, count: def.byteLength / stride };
+}
+
+/**
+ * Lay out buffer views in the BIN chunk, meshopt-encoding where it saves space
+ */
+function packBuffers(doc: GLBViews, meshopt: boolean): GLBContent {
+  const { json } = doc;
+  const bufferViews = json.bufferViews ?? [];
+
+  const indexAccessors = new Set<number>();
+  for (const mesh of json.meshes ?? []) {
+    for (const primitive of mesh.primitives) {
+      if (primitive.indices !== undefined) indexAccessors.add(primitive.indices);
+    }
+  }
+  // views holding images or sparse data are not accessor-shaped
+  const excluded = new Set<number>();
+  forEachBufferViewRef({ ...json, accessors: undefined, bufferViews: undefined }, (holder) =>
+    excluded.add(holder['bufferView'] as number)
+  );
+  for (const accessor of json.accessors ?? []) {
+    if (accessor.sparse) forEachBufferViewRef(accessor.sparse, (holder) => excluded.add(holder['bufferView'] as number));
+  }
+
+  const chunks: Uint8Array[] = [];
+  let binLength = 0;
+  let fallbackLength = 0;
+  const append = (bytes: Uint8Array): number => {
+    const offset = binLength;
+    chunks.push(bytes);
+    binLength += bytes.length;
+    const padding = ((binLength + 3) & ~3) - binLength;
+    if (padding > 0) {
+      chunks.push(new Uint8Array(padding));
+      binLength += padding;
+    }
+    return offset;
+  };
+
+  bufferViews.forEach((def, index) => {
+    const bytes = doc.views[index] ?? new Uint8Array(0);
+    const layout = meshopt ? meshoptLayout(json, index, indexAccessors, excluded) : null;
+    const encoded = layout
+      ? layout.mode === 'INDICES'
+        ? encodeIndexSequence(
+            layout.stride === 2
+              ? new Uint16Array(bytes.slice().buffer)
+              : new Uint32Array(bytes.slice().buffer)
+          )
+        : encodeVertexBuffer(bytes, layout.count, layout.stride)
+      : null;
+
+    if (!layout || !encoded || encoded.length >= bytes.length) {
+      def.buffer = 0;
+      def.byteOffset = append(bytes);
+      return;
+    }
+
+    def.buffer = 1;
+    def.byteOffset = fallbackLength;
+    fallbackLength = (fallbackLength + bytes.length + 3) & ~3;
+    def.extensions = {
+      ...def.extensions,
+      [EXT_MESHOPT_COMPRESSION]: {
+        buffer: 0,
+        byteOffset: append(encoded),
+        byteLength: encoded.length,
+        byteStride: layout.stride,
+        count: layout.count,
+        mode: layout.mode,
+      },
+    };
+  });
+
+  json.buffers = [{ byteLength: binLength }];
+  if (fallbackLength > 0) {
+    json.buffers.push({ byteLength: fallbackLength, extensions: { [EXT_MESHOPT_COMPRESSION]: { fallback: true } } });
+    addExtension(json, EXT_MESHOPT_COMPRESSION, true);
+  }
+
+  const bin = new Uint8Array(binLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bin.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { json, bin };
+}
+
+/**
+ * Compress a parsed GLB; the input is left untouched
+ */
+export function compressGLTF(content: GLBContent, options: GLTFCompressionOptions = {}): GLBContent {
+  const doc = unpackBufferViews(content);
+
+  if (options.quantize !== false && quantizeMeshes(doc)) {
+    addExtension(doc.json, KHR_MESH_QUANTIZATION, true);
+  }
+  pruneBufferViews(doc);
+
+  return packBuffers(doc, options.meshopt !== false);
+}
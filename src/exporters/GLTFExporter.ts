@@ -8,6 +8,14 @@
 
 import { GLTFExporter as ThreeGLTFExporter, type GLTFExporterOptions } from 'three/examples/jsm/exporters/GLTFExporter.js';
 import type { Object3D } from 'three';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { renameBones } from '../rigging/BoneNaming.js';
+import { readGLB, toEmbeddedGLTF, writeGLB } from './GLBContainer.js';
+import type { GLBContent } from './GLBContainer.js';
+import { compressGLTF } from './GLTFCompression.js';
+import { externalizeTextures, reencodeTextures } from './GLTFTextures.js';
+import type { ExternalTexture, KTX2Encoder, TextureEncodeOptions, TextureFormat } from './GLTFTextures.js';
+import { createZip } from './ZipArchive.js';
 import { BasePlugin } from '../plugins/BasePlugin.js';
 import { PluginError } from '../plugins/types.js';
 import type {
@@ -18,25 +26,77 @@ import type {
 } from '../plugins/types.js';
 
 /**
- * Extended export options for glTF
+ * Per-call glTF export options
+ */
+export interface GLTFExportOptions extends ExportOptions {
+  onlyVisible?: boolean;
+  truncateDrawRange?: boolean;
+  /** Textures larger than this are downscaled to fit */
+  maxTextureSize?: number;
+  /** Re-encode textures; 'original' keeps the PNG/JPEG three.js writes */
+  textureFormat?: TextureFormat;
+  /** 0-1, for JPEG and WebP */
+  textureQuality?: number;
+  /** Required when textureFormat is 'ktx2' */
+  ktx2Encoder?: KTX2Encoder;
+}
+
+/**
+ * Resolved glTF export configuration
  */
 interface GLTFExportConfig {
-  binary: boolean;
   onlyVisible: boolean;
   truncateDrawRange: boolean;
   maxTextureSize: number;
+  embedTextures: boolean;
+  textureFormat: TextureFormat;
+  textureQuality: number;
 }
 
 /**
  * Default glTF export configuration
  */
 const DEFAULT_GLTF_CONFIG: GLTFExportConfig = {
-  binary: true,
   onlyVisible: true,
   truncateDrawRange: true,
   maxTextureSize: 4096,
+  embedTextures: true,
+  textureFormat: 'original',
+  textureQuality: 0.9,
 };
 
+/**
+ * Size of an export before and after compression
+ */
+export interface GLTFCompressionReport {
+  originalBytes: number;
+  compressedBytes: number;
+  /** compressedBytes / originalBytes */
+  ratio: number;
+  /** glTF extensions the compressed file requires */
+  extensions: string[];
+}
+
+/**
+ * A file produced by an export
+ */
+export interface ExportManifestEntry {
+  path: string;
+  mimeType: string;
+  byteLength: number;
+  role: 'scene' | 'buffer' | 'texture';
+}
+
+/**
+ * Export output plus the compression report (null when compress is off)
+ * With embedTextures false the output is a zip that also contains manifest.json
+ */
+export interface GLTFExportResult {
+  data: Blob | string;
+  report: GLTFCompressionReport | null;
+  manifest: ExportManifestEntry[];
+}
+
 /**
  * GLTFExporterPlugin
  * Exports characters to glTF 2.0 format (JSON or binary GLB)
@@ -66,7 +126,16 @@ export class GLTFExporterPlugin extends BasePlugin implements ExporterPlugin {
   /**
    * Export a character to glTF/GLB format
    */
-  async export(character: Character, options: ExportOptions): Promise<Blob | string> {
+  async export(character: Character, options: GLTFExportOptions): Promise<Blob | string> {
+    return (await this.exportWithReport(character, options)).data;
+  }
+
+  /**
+   * Export a character, reporting the emitted files and, when options.compress
+   * is set, the size saved by quantizing vertex attributes (KHR_mesh_quantization)
+   * and meshopt-encoding buffer views (EXT_meshopt_compression)
+   */
+  async exportWithReport(character: Character, options: GLTFExportOptions): Promise<GLTFExportResult> {
     this.assertReady();
 
     if (!this.exporter) {
@@ -96,32 +165,179 @@ export class GLTFExporterPlugin extends BasePlugin implements ExporterPlugin {
     }
 
     const binary = format === 'glb';
+    const config = this.resolveConfig(options);
+
+    if (config.textureFormat === 'ktx2' && !options.ktx2Encoder) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', "textureFormat 'ktx2' requires a ktx2Encoder");
+    }
 
     // Build exporter options
     const exporterOptions: GLTFExporterOptions = {
       binary,
-      onlyVisible: DEFAULT_GLTF_CONFIG.onlyVisible,
-      truncateDrawRange: DEFAULT_GLTF_CONFIG.truncateDrawRange,
-      maxTextureSize: DEFAULT_GLTF_CONFIG.maxTextureSize,
+      onlyVisible: config.onlyVisible,
+      truncateDrawRange: config.truncateDrawRange,
+      maxTextureSize: config.maxTextureSize,
     };
 
+    // Rename bones on a clone so the live character keeps its canonical names
+    let model = character.model;
+    let animations = character.model.animations ?? [];
+    if (options.boneNaming && options.boneNaming !== 'canonical') {
+      model = SkeletonUtils.clone(character.model);
+      animations = renameBones(model, options.boneNaming, options.includeAnimations ? animations : []);
+    }
+
     // Include animations if requested and available
     if (options.includeAnimations) {
-      // Note: animations would be attached to character.model.animations
-      exporterOptions.animations = character.model.animations ?? [];
+      exporterOptions.animations = animations;
+    }
+
+    const baseName = character.name.replace(/[^a-zA-Z0-9_]/g, '_') || 'Character';
+
+    if (!options.compress && config.embedTextures && config.textureFormat === 'original') {
+      const data = this.toOutput(await this.performExport(model, exporterOptions), binary);
+      return {
+        data,
+        report: null,
+        manifest: [
+          {
+            path: `${baseName}.${format}`,
+            mimeType: binary ? 'model/gltf-binary' : 'model/gltf+json',
+            byteLength: byteLength(data),
+            role: 'scene',
+          },
+        ],
+      };
     }
 
-    return this.performExport(character.model, exporterOptions, binary);
+    // Post-processing rewrites the binary container, so always export GLB first
+    const glb = await this.performExport(model, { ...exporterOptions, binary: true });
+    try {
+      let content = readGLB(glb as ArrayBuffer);
+
+      if (config.textureFormat !== 'original') {
+        const encodeOptions: TextureEncodeOptions = { format: config.textureFormat, quality: config.textureQuality };
+        if (options.ktx2Encoder) encodeOptions.ktx2Encoder = options.ktx2Encoder;
+        content = await reencodeTextures(content, encodeOptions);
+      }
+
+      let textures: ExternalTexture[] = [];
+      if (!config.embedTextures) {
+        ({ content, textures } = externalizeTextures(content));
+      }
+
+      const original = await this.packageOutput(content, textures, baseName, binary, config.embedTextures);
+      if (!options.compress) {
+        return { ...original, report: null };
+      }
+
+      const compressed = compressGLTF(content);
+      const result = await this.packageOutput(compressed, textures, baseName, binary, config.embedTextures);
+      const originalBytes = byteLength(original.data);
+      const compressedBytes = byteLength(result.data);
+
+      return {
+        ...result,
+        report: {
+          originalBytes,
+          compressedBytes,
+          ratio: originalBytes > 0 ? compressedBytes / originalBytes : 1,
+          extensions: compressed.json.extensionsRequired ?? [],
+        },
+      };
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'glTF post-processing failed',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Merge per-call options over the defaults
+   */
+  private resolveConfig(options: GLTFExportOptions): GLTFExportConfig {
+    return {
+      onlyVisible: options.onlyVisible ?? DEFAULT_GLTF_CONFIG.onlyVisible,
+      truncateDrawRange: options.truncateDrawRange ?? DEFAULT_GLTF_CONFIG.truncateDrawRange,
+      maxTextureSize: options.maxTextureSize ?? DEFAULT_GLTF_CONFIG.maxTextureSize,
+      embedTextures: options.embedTextures ?? DEFAULT_GLTF_CONFIG.embedTextures,
+      textureFormat: options.textureFormat ?? DEFAULT_GLTF_CONFIG.textureFormat,
+      textureQuality: options.textureQuality ?? DEFAULT_GLTF_CONFIG.textureQuality,
+    };
+  }
+
+  /**
+   * Single embedded file, or a zip of the scene, its buffer and textures plus manifest.json
+   */
+  private async packageOutput(
+    content: GLBContent,
+    textures: ExternalTexture[],
+    baseName: string,
+    binary: boolean,
+    embed: boolean
+  ): Promise<{ data: Blob | string; manifest: ExportManifestEntry[] }> {
+    if (embed) {
+      const data = binary ? this.toOutput(writeGLB(content), true) : toEmbeddedGLTF(content);
+      return {
+        data,
+        manifest: [
+          {
+            path: `${baseName}.${binary ? 'glb' : 'gltf'}`,
+            mimeType: binary ? 'model/gltf-binary' : 'model/gltf+json',
+            byteLength: byteLength(data),
+            role: 'scene',
+          },
+        ],
+      };
+    }
+
+    const files: Array<{ entry: ExportManifestEntry; data: Uint8Array }> = [];
+    const addFile = (path: string, mimeType: string, role: ExportManifestEntry['role'], data: Uint8Array) => {
+      files.push({ entry: { path, mimeType, byteLength: data.length, role }, data });
+    };
+
+    if (binary) {
+      addFile(`${baseName}.glb`, 'model/gltf-binary', 'scene', new Uint8Array(writeGLB(content)));
+    } else {
+      const json = structuredClone(content.json);
+      const buffer = json.buffers?.[0];
+      if (buffer && content.bin.length > 0) {
+        buffer.uri = `${baseName}.bin`;
+      }
+      addFile(`${baseName}.gltf`, 'model/gltf+json', 'scene', new TextEncoder().encode(JSON.stringify(json, null, 2)));
+      if (buffer && content.bin.length > 0) {
+        addFile(`${baseName}.bin`, 'application/octet-stream', 'buffer', content.bin);
+      }
+    }
+    for (const texture of textures) {
+      addFile(texture.path, texture.mimeType, 'texture', texture.data);
+    }
+
+    const manifest = files.map(({ entry }) => entry);
+    const data = await createZip([
+      ...files.map(({ entry, data }) => ({ path: entry.path, data })),
+      { path: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    ]);
+    return { data, manifest };
+  }
+
+  /**
+   * Wrap exporter output: Blob for GLB, JSON text for glTF
+   */
+  private toOutput(result: ArrayBuffer | object, binary: boolean): Blob | string {
+    if (binary) {
+      return new Blob([result as ArrayBuffer], { type: 'application/octet-stream' });
+    }
+    return JSON.stringify(result, null, 2);
   }
 
   /**
    * Perform the actual export using Three.js GLTFExporter
    */
-  private performExport(
-    model: Object3D,
-    options: GLTFExporterOptions,
-    binary: boolean
-  ): Promise<Blob | string> {
+  private performExport(model: Object3D, options: GLTFExporterOptions): Promise<ArrayBuffer | object> {
     return new Promise((resolve, reject) => {
       if (!this.exporter) {
         reject(new PluginError(this.id, 'EXPORT_FAILED', 'Exporter not available'));
@@ -129,28 +345,7 @@ export class GLTFExporterPlugin extends BasePlugin implements ExporterPlugin {
       }
 
       const onComplete = (result: ArrayBuffer | object) => {
-        try {
-          if (binary) {
-            // ArrayBuffer for GLB
-            const blob = new Blob([result as ArrayBuffer], {
-              type: 'application/octet-stream',
-            });
-            resolve(blob);
-          } else {
-            // JSON object for GLTF
-            const jsonString = JSON.stringify(result, null, 2);
-            resolve(jsonString);
-          }
-        } catch (error) {
-          reject(
-            new PluginError(
-              this.id,
-              'EXPORT_FAILED',
-              'Failed to process export result',
-              error instanceof Error ? error : undefined
-            )
-          );
-        }
+        resolve(result);
       };
 
       const onError = (error: unknown) => {
@@ -179,7 +374,7 @@ export class GLTFExporterPlugin extends BasePlugin implements ExporterPlugin {
    * Export to a downloadable file
    * Utility method for browser environments
    */
-  async exportToFile(character: Character, filename: string, options: ExportOptions): Promise<void> {
+  async exportToFile(character: Character, filename: string, options: GLTFExportOptions): Promise<void> {
     const result = await this.export(character, options);
 
     let blob: Blob;
@@ -189,6 +384,11 @@ export class GLTFExporterPlugin extends BasePlugin implements ExporterPlugin {
       blob = new Blob([result], { type: 'application/json' });
     }
 
+    // External textures come back as a zip
+    if (blob.type === 'application/zip' && !filename.endsWith('.zip')) {
+      filename = `${filename.replace(/\.[^./]*$/, '')}.zip`;
+    }
+
     // Create download link
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -200,3 +400,7 @@ export class GLTFExporterPlugin extends BasePlugin implements ExporterPlugin {
     URL.revokeObjectURL(url);
   }
 }
+
+function byteLength(data: Blob | string): number {
+  return typeof data === 'string' ? new TextEncoder().encode(data).length : data.size;
+}
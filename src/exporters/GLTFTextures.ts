@@ -0,0 +1,163 @@
+/**
+ * GLTFTextures - Texture post-processing for GLTFExporter output
+ * - Re-encode embedded images (PNG, JPEG, WebP via EXT_texture_webp,
+ *   KTX2 via KHR_texture_basisu with a caller-supplied encoder)
+ * - Move images out of the binary chunk into separate files
+ */
+
+import { addExtension, packBufferViews, pruneBufferViews, unpackBufferViews } from './GLBContainer.js';
+import type { GLBContent } from './GLBContainer.js';
+import { canvasToBlob, get2DContext, getCanvas } from './ImageEncoding.js';
+
+export type TextureFormat = 'original' | 'png' | 'jpeg' | 'webp' | 'ktx2';
+
+/**
+ * Encodes RGBA pixels as a KTX2 / Basis Universal image
+ * (e.g. a wrapper around the Basis Universal encoder WASM build)
+ */
+export type KTX2Encoder = (image: ImageData) => Promise<Uint8Array>;
+
+export interface TextureEncodeOptions {
+  format: TextureFormat;
+  /** 0-1, used by lossy formats */
+  quality: number;
+  ktx2Encoder?: KTX2Encoder;
+}
+
+/**
+ * An image written next to the scene instead of inside it
+ */
+export interface ExternalTexture {
+  path: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export const EXT_TEXTURE_WEBP = 'EXT_texture_webp';
+export const KHR_TEXTURE_BASISU = 'KHR_texture_basisu';
+
+const MIME_TYPES: Record<Exclude<TextureFormat, 'original'>, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  ktx2: 'image/ktx2',
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/ktx2': 'ktx2',
+};
+
+/** Formats core glTF cannot reference through texture.source */
+const TEXTURE_EXTENSIONS: Partial<Record<TextureFormat, string>> = {
+  webp: EXT_TEXTURE_WEBP,
+  ktx2: KHR_TEXTURE_BASISU,
+};
+
+/**
+ * Decode an image and re-encode it in the requested format
+ */
+async function encodeImage(
+  data: Uint8Array,
+  mimeType: string,
+  options: TextureEncodeOptions
+): Promise<{ data: Uint8Array; mimeType: string }> {
+  if (options.format === 'original' || MIME_TYPES[options.format] === mimeType) {
+    return { data, mimeType };
+  }
+  if (options.format === 'ktx2' && !options.ktx2Encoder) {
+    throw new Error('KTX2 textures need a ktx2Encoder');
+  }
+
+  const bitmap = await createImageBitmap(new Blob([data.slice()], { type: mimeType }));
+  const canvas = getCanvas(bitmap.width, bitmap.height);
+  const context = get2DContext(canvas);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  if (options.format === 'ktx2' && options.ktx2Encoder) {
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+    return { data: await options.ktx2Encoder(pixels), mimeType: MIME_TYPES.ktx2 };
+  }
+
+  const targetType = MIME_TYPES[options.format];
+  const blob = await canvasToBlob(canvas, targetType, options.quality);
+  // canvases silently fall back to PNG for types they cannot encode
+  if (blob.type !== targetType) {
+    throw new Error(`This environment cannot encode ${targetType}`);
+  }
+  return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: targetType };
+}
+
+/**
+ * Re-encode every embedded image; WebP and KTX2 are referenced through their extensions
+ */
+export async function reencodeTextures(content: GLBContent, options: TextureEncodeOptions): Promise<GLBContent> {
+  const doc = unpackBufferViews(content);
+  const { json } = doc;
+  const images = json.images ?? [];
+  if (options.format === 'original' || images.length === 0) return content;
+
+  for (const image of images) {
+    if (image.bufferView === undefined) continue;
+    const encoded = await encodeImage(doc.views[image.bufferView] ?? new Uint8Array(0), image.mimeType ?? 'image/png', options);
+    doc.views[image.bufferView] = encoded.data;
+    image.mimeType = encoded.mimeType;
+  }
+
+  const extension = TEXTURE_EXTENSIONS[options.format];
+  if (extension) {
+    const textures = (json['textures'] ?? []) as Array<{ source?: number; extensions?: Record<string, unknown> }>;
+    for (const texture of textures) {
+      if (texture.source === undefined) continue;
+      texture.extensions = { ...texture.extensions, [extension]: { source: texture.source } };
+      delete texture.source;
+    }
+    addExtension(json, extension, true);
+  }
+
+  return packBufferViews(doc);
+}
+
+/**
+ * Move embedded images to separate files under directory, referenced by relative URI
+ */
+export function externalizeTextures(
+  content: GLBContent,
+  directory = 'textures'
+): { content: GLBContent; textures: ExternalTexture[] } {
+  const doc = unpackBufferViews(content);
+  const textures: ExternalTexture[] = [];
+  const used = new Set<string>();
+  const pathsByView = new Map<number, string>();
+
+  (doc.json.images ?? []).forEach((image, index) => {
+    if (image.bufferView === undefined) return;
+
+    const existing = pathsByView.get(image.bufferView);
+    if (existing) {
+      image.uri = existing;
+      delete image.bufferView;
+      return;
+    }
+
+    const mimeType = image.mimeType ?? 'image/png';
+    const base = (image.name ?? '').replace(/[^a-zA-Z0-9_-]/g, '_') || `texture_${index}`;
+    let name = base;
+    for (let n = 1; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+
+    const path = `${directory}/${name}.${FILE_EXTENSIONS[mimeType] ?? 'bin'}`;
+    textures.push({ path, mimeType, data: doc.views[image.bufferView] ?? new Uint8Array(0) });
+    pathsByView.set(image.bufferView, path);
+    image.uri = path;
+    delete image.bufferView;
+  });
+
+  if (textures.length === 0) return { content, textures };
+
+  pruneBufferViews(doc);
+  return { content: packBufferViews(doc), textures };
+}
@@ -0,0 +1,88 @@
+/**
+ * ImageEncoding - Canvas helpers shared by exporters that write image files
+ */
+
+export type Canvas = OffscreenCanvas | HTMLCanvasElement;
+
+/**
+ * Canvas for the current environment (OffscreenCanvas in workers)
+ */
+export function getCanvas(width: number, height: number): Canvas {
+  if (typeof document === 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function get2DContext(canvas: Canvas): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D {
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error('2D canvas context unavailable');
+  return context;
+}
+
+export async function canvasToBlob(canvas: Canvas, type: string, quality?: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return quality === undefined ? canvas.convertToBlob({ type }) : canvas.convertToBlob({ type, quality });
+  }
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error(`Canvas could not encode ${type}`);
+  return blob;
+}
+
+function isCanvas(image: unknown): image is Canvas {
+  return (
+    (typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement) ||
+    (typeof OffscreenCanvas !== 'undefined' && image instanceof OffscreenCanvas)
+  );
+}
+
+function isDrawable(image: unknown): image is ImageBitmap | HTMLImageElement {
+  return (
+    (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) ||
+    (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement)
+  );
+}
+
+/**
+ * RGBA pixel data as carried by DataTexture images
+ */
+function isPixelData(image: unknown): image is { data: Uint8Array | Uint8ClampedArray; width: number; height: number } {
+  if (!image || typeof image !== 'object') return false;
+  const candidate = image as { data?: unknown; width?: unknown; height?: unknown };
+  return (
+    (candidate.data instanceof Uint8Array || candidate.data instanceof Uint8ClampedArray) &&
+    typeof candidate.width === 'number' &&
+    typeof candidate.height === 'number' &&
+    candidate.data.length === candidate.width * candidate.height * 4
+  );
+}
+
+/**
+ * Encode a texture image (canvas, bitmap, <img> or RGBA data) as a PNG/JPEG/WebP file
+ * Returns null for images this environment cannot draw
+ */
+export async function encodeTextureImage(image: unknown, type = 'image/png', quality?: number): Promise<Uint8Array | null> {
+  if (typeof document === 'undefined' && typeof OffscreenCanvas === 'undefined') {
+    return null;
+  }
+
+  let canvas: Canvas;
+  if (isCanvas(image)) {
+    canvas = image;
+  } else if (isDrawable(image)) {
+    canvas = getCanvas(image.width, image.height);
+    get2DContext(canvas).drawImage(image, 0, 0);
+  } else if (isPixelData(image)) {
+    canvas = getCanvas(image.width, image.height);
+    const pixels = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+    get2DContext(canvas).putImageData(pixels, 0, 0);
+  } else {
+    return null;
+  }
+
+  const blob = await canvasToBlob(canvas, type, quality);
+  return new Uint8Array(await blob.arrayBuffer());
+}
@@ -0,0 +1,106 @@
+/**
+ * JSONExporterPlugin - Export characters as versioned character documents
+ * The document regenerates the character through the registered generators
+ * instead of storing geometry; see CharacterDocument for the format
+ */
+
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  ExporterPlugin,
+  Character,
+  ExportFormat,
+  ExportOptions,
+} from '../plugins/types.js';
+import { getPluginManager } from '../plugins/PluginManager.js';
+import type { PluginManager } from '../plugins/PluginManager.js';
+import {
+  applyCharacterDocument,
+  compareRig,
+  createCharacterDocument,
+  parseCharacterDocument,
+  toGenerationParams,
+} from './CharacterDocument.js';
+import type { CharacterDocument } from './CharacterDocument.js';
+
+/**
+ * JSONExporterPlugin
+ * Writes and loads character documents
+ */
+export class JSONExporterPlugin extends BasePlugin implements ExporterPlugin {
+  readonly id = 'json-exporter';
+  readonly name = 'JSON Exporter';
+  readonly version = '1.0.0';
+  readonly type = 'exporter' as const;
+
+  /**
+   * Export a character document as JSON text
+   */
+  async export(character: Character, options: ExportOptions): Promise<Blob | string> {
+    this.assertReady();
+
+    if (options.format !== 'json') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${options.format}. Use 'json'.`);
+    }
+
+    return JSON.stringify(createCharacterDocument(character), null, 2);
+  }
+
+  getSupportedFormats(): ExportFormat[] {
+    return ['json'];
+  }
+
+  /**
+   * Regenerate a character from a document (JSON text or parsed value)
+   * Fails if the document is invalid or the generator no longer produces the referenced rig
+   */
+  async load(input: string | unknown, manager: PluginManager = getPluginManager()): Promise<Character> {
+    this.assertReady();
+
+    let document: CharacterDocument;
+    try {
+      document = parseCharacterDocument(input);
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'PROCESSING_FAILED',
+        'Invalid character document',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const params = toGenerationParams(document);
+    const generator = manager.findGeneratorFor(params.type);
+    if (!generator) {
+      throw new PluginError(this.id, 'NOT_FOUND', `No generator registered for type: ${params.type}`);
+    }
+
+    const character = await generator.generate(params);
+
+    const problems = compareRig(character, document);
+    if (problems.length > 0) {
+      throw new PluginError(
+        this.id,
+        'GENERATION_FAILED',
+        `Regenerated ${document.name} does not match its document: ${problems.join('; ')}`
+      );
+    }
+
+    return applyCharacterDocument(character, document);
+  }
+
+  /**
+   * Export to downloadable file
+   */
+  async exportToFile(character: Character, filename: string, options: ExportOptions): Promise<void> {
+    const result = await this.export(character, options);
+    const blob = new Blob([result], { type: 'application/json' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
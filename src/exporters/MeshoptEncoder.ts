@@ -0,0 +1,217 @@
+/**
+ * MeshoptEncoder - Pure TypeScript encoder for the meshoptimizer buffer codecs
+ * Produces the bitstreams EXT_meshopt_compression decoders expect:
+ * - vertex codec version 0 (mode ATTRIBUTES)
+ * - index sequence codec version 1 (mode INDICES)
+ */
+
+const VERTEX_HEADER = 0xa0;
+const SEQUENCE_HEADER = 0xd1;
+
+const BYTE_GROUP_SIZE = 16;
+const VERTEX_BLOCK_SIZE_BYTES = 8192;
+const VERTEX_BLOCK_MAX_SIZE = 256;
+const TAIL_MIN_SIZE = 32;
+
+/**
+ * Growable byte writer
+ */
+class ByteWriter {
+  private data = new Uint8Array(1024);
+  length = 0;
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.data.length) return;
+    let capacity = this.data.length * 2;
+    while (capacity < this.length + count) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.data.subarray(0, this.length));
+    this.data = grown;
+  }
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.data[this.length++] = value & 0xff;
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    this.reserve(values.length);
+    this.data.set(values, this.length);
+    this.length += values.length;
+  }
+
+  /** Reserve zeroed bytes, returning their offset */
+  skip(count: number): number {
+    this.reserve(count);
+    const offset = this.length;
+    this.data.fill(0, offset, offset + count);
+    this.length += count;
+    return offset;
+  }
+
+  or(offset: number, value: number): void {
+    this.data[offset] = (this.data[offset] ?? 0) | value;
+  }
+
+  finish(): Uint8Array {
+    return this.data.slice(0, this.length);
+  }
+}
+
+function vertexBlockSize(vertexSize: number): number {
+  const size = Math.floor(VERTEX_BLOCK_SIZE_BYTES / vertexSize) & ~(BYTE_GROUP_SIZE - 1);
+  return Math.min(size, VERTEX_BLOCK_MAX_SIZE);
+}
+
+/**
+ * Encoded size of a 16 byte group at 0, 2, 4 or 8 bits per value; values at or
+ * above the sentinel are escaped with a trailing byte
+ */
+function measureGroup(group: Uint8Array, bits: number): number {
+  if (bits === 0) {
+    return group.every((value) => value === 0) ? 0 : Infinity;
+  }
+  if (bits === 8) {
+    return BYTE_GROUP_SIZE;
+  }
+  const sentinel = (1 << bits) - 1;
+  let escaped = 0;
+  for (const value of group) {
+    if (value >= sentinel) escaped++;
+  }
+  return (BYTE_GROUP_SIZE * bits) / 8 + escaped;
+}
+
+function writeGroup(writer: ByteWriter, group: Uint8Array, bits: number): void {
+  if (bits === 0) return;
+  if (bits === 8) {
+    writer.bytes(group);
+    return;
+  }
+
+  const sentinel = (1 << bits) - 1;
+  const perByte = 8 / bits;
+  for (let i = 0; i < BYTE_GROUP_SIZE; i += perByte) {
+    let packed = 0;
+    for (let k = 0; k < perByte; k++) {
+      const value = group[i + k] ?? 0;
+      packed = (packed << bits) | Math.min(value, sentinel);
+    }
+    writer.byte(packed);
+  }
+  for (const value of group) {
+    if (value >= sentinel) writer.byte(value);
+  }
+}
+
+/**
+ * Byte stream of one vertex component: 2-bit header per group, then the groups
+ */
+function writeBytes(writer: ByteWriter, buffer: Uint8Array): void {
+  const groupCount = buffer.length / BYTE_GROUP_SIZE;
+  const header = writer.skip(Math.ceil(groupCount / 4));
+
+  for (let groupIndex = 0; groupIndex < groupCount; groupIndex++) {
+    const group = buffer.subarray(groupIndex * BYTE_GROUP_SIZE, (groupIndex + 1) * BYTE_GROUP_SIZE);
+
+    let bestBits = 8;
+    let bestSize = measureGroup(group, 8);
+    for (const bits of [0, 2, 4]) {
+      const size = measureGroup(group, bits);
+      if (size < bestSize) {
+        bestBits = bits;
+        bestSize = size;
+      }
+    }
+
+    const bitsLog2 = bestBits === 0 ? 0 : bestBits === 2 ? 1 : bestBits === 4 ? 2 : 3;
+    writer.or(header + (groupIndex >> 2), bitsLog2 << ((groupIndex & 3) * 2));
+    writeGroup(writer, group, bestBits);
+  }
+}
+
+/**
+ * Encode interleaved vertex data; the stride must be a multiple of 4 up to 256 bytes
+ */
+export function encodeVertexBuffer(data: Uint8Array, count: number, stride: number): Uint8Array {
+  if (stride <= 0 || stride > 256 || stride % 4 !== 0) {
+    throw new Error(`Unsupported vertex stride: ${stride}`);
+  }
+  if (data.length < count * stride) {
+    throw new Error('Vertex data is shorter than count * stride');
+  }
+
+  const writer = new ByteWriter();
+  writer.byte(VERTEX_HEADER);
+
+  const firstVertex = data.slice(0, stride);
+  const lastVertex = new Uint8Array(stride);
+  lastVertex.set(firstVertex);
+
+  const blockSize = vertexBlockSize(stride);
+  const buffer = new Uint8Array(VERTEX_BLOCK_MAX_SIZE);
+
+  for (let offset = 0; offset < count; offset += blockSize) {
+    const blockCount = Math.min(blockSize, count - offset);
+    const alignedCount = (blockCount + BYTE_GROUP_SIZE - 1) & ~(BYTE_GROUP_SIZE - 1);
+
+    for (let k = 0; k < stride; k++) {
+      buffer.fill(0);
+      let previous = lastVertex[k] ?? 0;
+      for (let i = 0; i < blockCount; i++) {
+        const value = data[(offset + i) * stride + k] ?? 0;
+        const delta = (value - previous) & 0xff;
+        // zigzag so small negative deltas become small values
+        buffer[i] = ((delta << 1) ^ (delta & 0x80 ? 0xff : 0)) & 0xff;
+        previous = value;
+      }
+      writeBytes(writer, buffer.subarray(0, alignedCount));
+    }
+
+    const last = (offset + blockCount - 1) * stride;
+    lastVertex.set(data.subarray(last, last + stride));
+  }
+
+  // first vertex at the very end, zero padded to the minimum tail size
+  if (stride < TAIL_MIN_SIZE) {
+    writer.skip(TAIL_MIN_SIZE - stride);
+  }
+  writer.bytes(firstVertex);
+
+  return writer.finish();
+}
+
+/**
+ * Encode an index sequence as zigzag deltas against two alternating baselines
+ */
+export function encodeIndexSequence(indices: ArrayLike<number>): Uint8Array {
+  const writer = new ByteWriter();
+  writer.byte(SEQUENCE_HEADER);
+
+  const last = [0, 0];
+  let current = 0;
+
+  for (let i = 0; i < indices.length; i++) {
+    const index = (indices[i] ?? 0) >>> 0;
+
+    // switch baselines when the delta no longer fits a single byte
+    const cd = (index - (last[current] ?? 0)) | 0;
+    if (Math.abs(cd) >= 30) current ^= 1;
+
+    const d = (index - (last[current] ?? 0)) | 0;
+    const zigzag = ((d << 1) ^ (d >> 31)) >>> 0;
+
+    // low bit selects the baseline used for reconstruction
+    let value = zigzag * 2 + current;
+    while (value >= 0x80) {
+      writer.byte((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    writer.byte(value);
+
+    last[current] = index;
+  }
+
+  writer.skip(4);
+  return writer.finish();
+}
@@ -3,6 +3,7 @@
  * Simple mesh export without animations (OBJ doesn't support them)
  */
 
+import * as THREE from 'three';
 import { OBJExporter as ThreeOBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
 import type { Object3D } from 'three';
 import { BasePlugin } from '../plugins/BasePlugin.js';
@@ -13,11 +14,88 @@ import type {
   ExportFormat,
   ExportOptions,
 } from '../plugins/types.js';
+import { encodeTextureImage } from './ImageEncoding.js';
+import { createZip } from './ZipArchive.js';
+import type { ZipEntry } from './ZipArchive.js';
+
+/**
+ * OBJ export options
+ */
+export interface OBJExportOptions extends ExportOptions {
+  /**
+   * Write a .mtl library and PNG textures and return everything as a zip (default)
+   * false returns the OBJ text only
+   */
+  includeMaterials?: boolean;
+}
+
+/**
+ * Material properties the MTL translation reads
+ */
+type MappedMaterial = THREE.Material &
+  Partial<Pick<THREE.MeshStandardMaterial, 'color' | 'map' | 'normalMap' | 'bumpMap'>>;
+
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(6)).toString();
+}
+
+function formatColor(color: THREE.Color, intensity = 1): string {
+  const { r, g, b } = color.getRGB(new THREE.Color(), THREE.SRGBColorSpace);
+  return [r, g, b].map((channel) => formatNumber(Math.min(1, channel * intensity))).join(' ');
+}
+
+/**
+ * One compact mesh per geometry group, since the three.js OBJ exporter
+ * writes a single usemtl per mesh
+ */
+function splitByMaterial(mesh: THREE.Mesh, materials: THREE.Material[]): THREE.Mesh[] {
+  const geometry = mesh.geometry;
+  const index = geometry.index;
+  const total = index ? index.count : geometry.getAttribute('position').count;
+  const groups = geometry.groups.length > 0 ? geometry.groups : [{ start: 0, count: total, materialIndex: 0 }];
+
+  return groups.map((group) => {
+    const remap = new Map<number, number>();
+    const order: number[] = [];
+    const indices: number[] = [];
+    for (let i = group.start; i < Math.min(group.start + group.count, total); i++) {
+      const vertex = index ? index.getX(i) : i;
+      let mapped = remap.get(vertex);
+      if (mapped === undefined) {
+        mapped = order.length;
+        remap.set(vertex, mapped);
+        order.push(vertex);
+      }
+      indices.push(mapped);
+    }
+
+    const part = new THREE.BufferGeometry();
+    for (const [name, attribute] of Object.entries(geometry.attributes)) {
+      const values = new Float32Array(order.length * attribute.itemSize);
+      order.forEach((vertex, i) => {
+        for (let c = 0; c < attribute.itemSize; c++) {
+          values[i * attribute.itemSize + c] = attribute.getComponent(vertex, c);
+        }
+      });
+      part.setAttribute(name, new THREE.BufferAttribute(values, attribute.itemSize, attribute.normalized));
+    }
+    part.setIndex(indices);
+
+    const material = materials[group.materialIndex ?? 0] ?? materials[0];
+    const piece = new THREE.Mesh(part, material);
+    piece.name = `${mesh.name || 'mesh'}_${group.materialIndex ?? 0}`;
+    return piece;
+  });
+}
 
 /**
  * OBJExporterPlugin
- * Exports characters to Wavefront OBJ format
- * Note: OBJ is geometry-only, no animations or materials embedded
+ * Exports characters to Wavefront OBJ format with an MTL material library
+ * Note: OBJ has no animations; multi-material meshes are split per material
  */
 export class OBJExporterPlugin extends BasePlugin implements ExporterPlugin {
   readonly id = 'obj-exporter';
@@ -35,7 +113,7 @@ export class OBJExporterPlugin extends BasePlugin implements ExporterPlugin {
     this.exporter = null;
   }
 
-  async export(character: Character, options: ExportOptions): Promise<Blob | string> {
+  async export(character: Character, options: OBJExportOptions): Promise<Blob | string> {
     this.assertReady();
 
     if (!this.exporter) {
@@ -50,7 +128,22 @@ export class OBJExporterPlugin extends BasePlugin implements ExporterPlugin {
       throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${options.format}`);
     }
 
-    return this.performExport(character.model);
+    if (options.includeMaterials === false) {
+      return this.performExport(character.model);
+    }
+
+    const baseName = sanitizeName(character.name) || 'Character';
+    const { model, library } = this.prepareMaterials(character.model);
+    const obj = `mtllib ${baseName}.mtl\n${this.performExport(model)}`;
+
+    const textures: ZipEntry[] = [];
+    const mtl = await this.buildMaterialLibrary(library, textures);
+
+    return createZip([
+      { path: `${baseName}.obj`, data: obj },
+      { path: `${baseName}.mtl`, data: mtl },
+      ...textures,
+    ]);
   }
 
   private performExport(model: Object3D): string {
@@ -62,6 +155,119 @@ export class OBJExporterPlugin extends BasePlugin implements ExporterPlugin {
     return result;
   }
 
+  /**
+   * Clone the model with uniquely named material copies, so each mesh gets a
+   * usemtl line without renaming the live character's materials
+   */
+  private prepareMaterials(source: Object3D): { model: Object3D; library: Map<string, MappedMaterial> } {
+    let model = source.clone(true);
+    model.updateMatrixWorld(true);
+
+    // Replace multi-material meshes with a group holding one mesh per material
+    const multiMaterial: THREE.Mesh[] = [];
+    model.traverse((child) => {
+      if (child instanceof THREE.Mesh && Array.isArray(child.material)) multiMaterial.push(child);
+    });
+    for (const mesh of multiMaterial) {
+      const group = new THREE.Group();
+      group.name = mesh.name;
+      group.position.copy(mesh.position);
+      group.quaternion.copy(mesh.quaternion);
+      group.scale.copy(mesh.scale);
+      group.add(...mesh.children, ...splitByMaterial(mesh, mesh.material as THREE.Material[]));
+
+      const parent = mesh.parent;
+      if (parent) {
+        parent.children[parent.children.indexOf(mesh)] = group;
+        group.parent = parent;
+        mesh.parent = null;
+      } else {
+        model = group;
+      }
+    }
+    model.updateMatrixWorld(true);
+
+    const copies = new Map<THREE.Material, THREE.Material>();
+    const library = new Map<string, MappedMaterial>();
+    model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || Array.isArray(child.material)) return;
+      const original: THREE.Material = child.material;
+
+      let copy = copies.get(original);
+      if (!copy) {
+        const base = sanitizeName(original.name) || 'material';
+        let name = base;
+        for (let n = 1; library.has(name); n++) name = `${base}_${n}`;
+
+        copy = original.clone();
+        copy.name = name;
+        copies.set(original, copy);
+        library.set(name, original);
+      }
+      child.material = copy;
+    });
+
+    return { model, library };
+  }
+
+  /**
+   * Translate materials to MTL statements, adding referenced textures as PNG files
+   */
+  private async buildMaterialLibrary(library: Map<string, MappedMaterial>, files: ZipEntry[]): Promise<string> {
+    const written = new Map<unknown, string>();
+    const usedPaths = new Set<string>();
+
+    const texturePath = async (texture: THREE.Texture | null | undefined): Promise<string | null> => {
+      if (!texture) return null;
+      const image: unknown = texture.image;
+      const existing = written.get(image);
+      if (existing) return existing;
+
+      const data = await encodeTextureImage(image);
+      if (!data) {
+        console.warn(`[${this.id}] Skipping texture ${texture.name || texture.uuid}: image cannot be encoded`);
+        return null;
+      }
+
+      const base = sanitizeName(texture.name) || `texture_${written.size}`;
+      let path = `textures/${base}.png`;
+      for (let n = 1; usedPaths.has(path); n++) path = `textures/${base}_${n}.png`;
+      usedPaths.add(path);
+      written.set(image, path);
+      files.push({ path, data });
+      return path;
+    };
+
+    const lines: string[] = ['# Material library'];
+    for (const [name, material] of library) {
+      lines.push('', `newmtl ${name}`);
+
+      if (material.color instanceof THREE.Color) {
+        lines.push(`Kd ${formatColor(material.color)}`);
+      }
+      if (material instanceof THREE.MeshStandardMaterial) {
+        // Blender reads Ns back as roughness = 1 - sqrt(Ns / 1000)
+        lines.push(`Ns ${formatNumber((1 - material.roughness) ** 2 * 1000)}`);
+        lines.push(`Pr ${formatNumber(material.roughness)}`);
+        lines.push(`Pm ${formatNumber(material.metalness)}`);
+        lines.push(`Ke ${formatColor(material.emissive, material.emissiveIntensity)}`);
+      } else if (material instanceof THREE.MeshPhongMaterial) {
+        lines.push(`Ns ${formatNumber(Math.min(1000, material.shininess))}`);
+        lines.push(`Ks ${formatColor(material.specular)}`);
+        lines.push(`Ke ${formatColor(material.emissive, material.emissiveIntensity)}`);
+      }
+      lines.push(`d ${formatNumber(material.opacity)}`);
+      lines.push('illum 2');
+
+      const diffuseMap = await texturePath(material.map);
+      if (diffuseMap) lines.push(`map_Kd ${diffuseMap}`);
+      const bumpMap = await texturePath(material.normalMap ?? material.bumpMap);
+      if (bumpMap) lines.push(`map_Bump ${bumpMap}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
   getSupportedFormats(): ExportFormat[] {
     return ['obj'];
   }
@@ -69,9 +275,14 @@ export class OBJExporterPlugin extends BasePlugin implements ExporterPlugin {
   /**
    * Export to downloadable file
    */
-  async exportToFile(character: Character, filename: string, options: ExportOptions): Promise<void> {
+  async exportToFile(character: Character, filename: string, options: OBJExportOptions): Promise<void> {
     const result = await this.export(character, options);
-    const blob = new Blob([result], { type: 'text/plain' });
+    const blob = result instanceof Blob ? result : new Blob([result], { type: 'text/plain' });
+
+    // Materials and textures come back as a zip
+    if (blob.type === 'application/zip' && !filename.endsWith('.zip')) {
+      filename = `${filename.replace(/\.[^./]*$/, '')}.zip`;
+    }
 
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
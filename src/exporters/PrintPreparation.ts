@@ -0,0 +1,221 @@
+/**
+ * PrintPreparation - Shared pre-pass for the 3D-printing exporters (STL, 3MF)
+ * - Bakes the posed model into one world-space mesh
+ * - Fuses parts into a watertight manifold by voxel remeshing
+ * - Scales to a print height in millimetres, Z up, resting on the build plate
+ * - Optionally adds a round or square base plate under the feet
+ */
+
+import * as THREE from 'three';
+import { mergeGeometries, mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { getVoxelRemesher } from '../geometry/VoxelRemesher.js';
+import type { VoxelSolid } from '../geometry/VoxelRemesher.js';
+import type { ExportOptions } from '../plugins/types.js';
+
+export interface BasePlateOptions {
+  shape?: 'round' | 'square';
+  thicknessMm?: number;
+  /** Extra plate around the figure's footprint */
+  marginMm?: number;
+}
+
+/**
+ * Options shared by the print exporters
+ */
+export interface PrintExportOptions extends ExportOptions {
+  /** Height of the figure, excluding the base plate (default 100) */
+  heightMm?: number;
+  /** Merge all parts into one watertight shell (default true) */
+  remesh?: boolean;
+  /** Voxels along the longest side when remeshing (default 128) */
+  resolution?: number;
+  /** true uses the default round plate */
+  basePlate?: boolean | BasePlateOptions;
+}
+
+export interface PrintGeometry {
+  /** Indexed, millimetres, Z up, centred on the origin with its lowest point at Z = 0 */
+  geometry: THREE.BufferGeometry;
+  /** Bounding box size in millimetres */
+  sizeMm: THREE.Vector3;
+  triangles: number;
+  /** Whether the mesh went through the voxel remesher */
+  watertight: boolean;
+}
+
+const DEFAULT_HEIGHT_MM = 100;
+
+const DEFAULT_BASE_PLATE: Required<BasePlateOptions> = {
+  shape: 'round',
+  thicknessMm: 3,
+  marginMm: 5,
+};
+
+const PLATE_SEGMENTS = 64;
+
+/**
+ * Merge every visible mesh under root into one position-only geometry (current pose, world space)
+ */
+function bakeModel(root: THREE.Object3D): THREE.BufferGeometry {
+  root.updateMatrixWorld(true);
+  const parts: THREE.BufferGeometry[] = [];
+  const vertex = new THREE.Vector3();
+
+  root.traverseVisible((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const source = object.geometry as THREE.BufferGeometry;
+    const position = source.getAttribute('position');
+    if (!position) return;
+
+    const values = new Float32Array(position.count * 3);
+    for (let i = 0; i < position.count; i++) {
+      // skinned meshes report the posed position
+      object.getVertexPosition(i, vertex).applyMatrix4(object.matrixWorld);
+      vertex.toArray(values, i * 3);
+    }
+
+    const part = new THREE.BufferGeometry();
+    part.setAttribute('position', new THREE.BufferAttribute(values, 3));
+    if (source.index) part.setIndex(source.index.clone());
+    // mirrored transforms flip the winding
+    if (object.matrixWorld.determinant() < 0) flipWinding(part);
+    parts.push(part.index ? part.toNonIndexed() : part);
+  });
+
+  if (parts.length === 0) {
+    throw new Error('Model has no visible meshes');
+  }
+  const merged = mergeGeometries(parts);
+  if (!merged) {
+    throw new Error('Could not merge model geometry');
+  }
+  return mergeVertices(merged);
+}
+
+function flipWinding(geometry: THREE.BufferGeometry): void {
+  const index = geometry.index;
+  if (index) {
+    for (let i = 0; i < index.count - 2; i += 3) {
+      const b = index.getX(i + 1);
+      index.setX(i + 1, index.getX(i + 2));
+      index.setX(i + 2, b);
+    }
+    return;
+  }
+  const position = geometry.getAttribute('position');
+  for (let i = 0; i < position.count - 2; i += 3) {
+    const x = position.getX(i + 1);
+    const y = position.getY(i + 1);
+    const z = position.getZ(i + 1);
+    position.setXYZ(i + 1, position.getX(i + 2), position.getY(i + 2), position.getZ(i + 2));
+    position.setXYZ(i + 2, x, y, z);
+  }
+}
+
+function resolveBasePlate(option: PrintExportOptions['basePlate']): Required<BasePlateOptions> | null {
+  if (!option) return null;
+  if (option === true) return { ...DEFAULT_BASE_PLATE };
+  return {
+    shape: option.shape ?? DEFAULT_BASE_PLATE.shape,
+    thicknessMm: option.thicknessMm ?? DEFAULT_BASE_PLATE.thicknessMm,
+    marginMm: option.marginMm ?? DEFAULT_BASE_PLATE.marginMm,
+  };
+}
+
+/**
+ * Plate under the figure's footprint, in model units (Y up), top face level with the feet
+ */
+function createBasePlate(figure: THREE.Box3, plate: Required<BasePlateOptions>, unitsPerMm: number): VoxelSolid & { geometry: THREE.BufferGeometry } {
+  const center = figure.getCenter(new THREE.Vector3());
+  const margin = plate.marginMm * unitsPerMm;
+  const thickness = plate.thicknessMm * unitsPerMm;
+  const halfX = (figure.max.x - figure.min.x) / 2 + margin;
+  const halfZ = (figure.max.z - figure.min.z) / 2 + margin;
+  const top = figure.min.y;
+  const bottom = top - thickness;
+
+  if (plate.shape === 'square') {
+    const geometry = new THREE.BoxGeometry(halfX * 2, thickness, halfZ * 2);
+    geometry.translate(center.x, bottom + thickness / 2, center.z);
+    return {
+      geometry,
+      bounds: new THREE.Box3(new THREE.Vector3(center.x - halfX, bottom, center.z - halfZ), new THREE.Vector3(center.x + halfX, top, center.z + halfZ)),
+      contains: (p) => p.y >= bottom && p.y <= top && Math.abs(p.x - center.x) <= halfX && Math.abs(p.z - center.z) <= halfZ,
+    };
+  }
+
+  const radius = Math.hypot(halfX - margin, halfZ - margin) + margin;
+  const geometry = new THREE.CylinderGeometry(radius, radius, thickness, PLATE_SEGMENTS);
+  geometry.translate(center.x, bottom + thickness / 2, center.z);
+  return {
+    geometry,
+    bounds: new THREE.Box3(new THREE.Vector3(center.x - radius, bottom, center.z - radius), new THREE.Vector3(center.x + radius, top, center.z + radius)),
+    contains: (p) => p.y >= bottom && p.y <= top && (p.x - center.x) ** 2 + (p.z - center.z) ** 2 <= radius * radius,
+  };
+}
+
+/**
+ * Build the printable mesh for a model
+ */
+export function buildPrintGeometry(model: THREE.Object3D, options: Omit<PrintExportOptions, 'format'> = {}): PrintGeometry {
+  const heightMm = options.heightMm ?? DEFAULT_HEIGHT_MM;
+  if (!(heightMm > 0)) {
+    throw new Error(`heightMm must be positive, got ${heightMm}`);
+  }
+
+  const figure = bakeModel(model);
+  figure.computeBoundingBox();
+  const bounds = figure.boundingBox!;
+  const modelHeight = bounds.max.y - bounds.min.y;
+  if (!(modelHeight > 0)) {
+    throw new Error('Model has no height');
+  }
+  const mmPerUnit = heightMm / modelHeight;
+
+  const plateOptions = resolveBasePlate(options.basePlate);
+  const plate = plateOptions ? createBasePlate(bounds, plateOptions, 1 / mmPerUnit) : null;
+
+  let geometry: THREE.BufferGeometry;
+  const watertight = options.remesh !== false;
+  if (watertight) {
+    const remeshOptions = {
+      solids: plate ? [plate] : [],
+      ...(options.resolution !== undefined && { resolution: options.resolution }),
+    };
+    geometry = getVoxelRemesher().remesh(new THREE.Mesh(figure), remeshOptions).geometry;
+    figure.dispose();
+  } else if (plate) {
+    const plateGeometry = new THREE.BufferGeometry();
+    plateGeometry.setAttribute('position', plate.geometry.getAttribute('position'));
+    plateGeometry.setIndex(plate.geometry.index);
+    geometry = mergeVertices(mergeGeometries([figure.toNonIndexed(), plateGeometry.toNonIndexed()]) ?? figure);
+  } else {
+    geometry = figure;
+  }
+  plate?.geometry.dispose();
+
+  // Y up (three.js) to Z up (slicers); a rotation keeps the winding
+  geometry.deleteAttribute('normal');
+  geometry.rotateX(Math.PI / 2);
+  geometry.computeBoundingBox();
+
+  // Voxels grow the shell by up to half a cell, so fit the measured height rather than the source's
+  const targetHeightMm = heightMm + (plateOptions?.thicknessMm ?? 0);
+  const measuredHeight = geometry.boundingBox!.max.z - geometry.boundingBox!.min.z;
+  const scale = targetHeightMm / measuredHeight;
+  geometry.scale(scale, scale, scale);
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const center = box.getCenter(new THREE.Vector3());
+  geometry.translate(-center.x, -center.y, -box.min.z);
+  geometry.computeBoundingBox();
+  geometry.computeVertexNormals();
+
+  const index = geometry.index;
+  return {
+    geometry,
+    sizeMm: geometry.boundingBox!.getSize(new THREE.Vector3()),
+    triangles: (index ? index.count : geometry.getAttribute('position').count) / 3,
+    watertight,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * STLExporterPlugin - Export characters to STL for 3D printing
+ * Binary or ASCII, in millimetres, merged into a single watertight shell by default
+ */
+
+import * as THREE from 'three';
+import { STLExporter as ThreeSTLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  ExporterPlugin,
+  Character,
+  ExportFormat,
+} from '../plugins/types.js';
+import { buildPrintGeometry } from './PrintPreparation.js';
+import type { PrintExportOptions } from './PrintPreparation.js';
+
+/**
+ * STL export options
+ */
+export interface STLExportOptions extends PrintExportOptions {
+  /** Binary STL (default); false writes ASCII */
+  binary?: boolean;
+}
+
+/**
+ * STLExporterPlugin
+ * Exports the posed character as one printable mesh
+ * Note: STL carries geometry only - no materials, skeleton or animations
+ */
+export class STLExporterPlugin extends BasePlugin implements ExporterPlugin {
+  readonly id = 'stl-exporter';
+  readonly name = 'STL Exporter';
+  readonly version = '1.0.0';
+  readonly type = 'exporter' as const;
+
+  private exporter: ThreeSTLExporter | null = null;
+
+  protected override async doInit(): Promise<void> {
+    this.exporter = new ThreeSTLExporter();
+  }
+
+  protected override async doDestroy(): Promise<void> {
+    this.exporter = null;
+  }
+
+  async export(character: Character, options: STLExportOptions): Promise<Blob | string> {
+    this.assertReady();
+
+    if (!this.exporter) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Exporter not initialized');
+    }
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Character has no model to export');
+    }
+
+    if (options.format !== 'stl') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${options.format}`);
+    }
+
+    let mesh: THREE.Mesh;
+    try {
+      mesh = new THREE.Mesh(buildPrintGeometry(character.model, options).geometry);
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'Could not prepare printable mesh',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    try {
+      if (options.binary === false) {
+        return this.exporter.parse(mesh, { binary: false });
+      }
+      const data = this.exporter.parse(mesh, { binary: true });
+      return new Blob([data.buffer as ArrayBuffer], { type: 'model/stl' });
+    } finally {
+      mesh.geometry.dispose();
+    }
+  }
+
+  getSupportedFormats(): ExportFormat[] {
+    return ['stl'];
+  }
+
+  /**
+   * Export to downloadable file
+   */
+  async exportToFile(character: Character, filename: string, options: STLExportOptions): Promise<void> {
+    const result = await this.export(character, options);
+    const blob = result instanceof Blob ? result : new Blob([result], { type: 'model/stl' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
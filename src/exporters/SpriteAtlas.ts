@@ -0,0 +1,122 @@
+/**
+ * SpriteAtlas - Packing and frame maps for sprite sheets
+ * - Trims transparent borders from rendered frames
+ * - Shelf-packs the frames into one atlas
+ * - Describes the atlas in TexturePacker's "JSON (Hash)" format, which Phaser,
+ *   PixiJS, Godot and Unity importers read
+ */
+
+export interface SpriteRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface TexturePackerFrame {
+  /** Location in the atlas */
+  frame: SpriteRect;
+  rotated: boolean;
+  trimmed: boolean;
+  /** Trimmed area within the untrimmed frame */
+  spriteSourceSize: SpriteRect;
+  sourceSize: { w: number; h: number };
+  /** Anchor within the untrimmed frame, 0-1 */
+  pivot: { x: number; y: number };
+}
+
+export interface TexturePackerAtlas {
+  frames: Record<string, TexturePackerFrame>;
+  /** Animation name to frame names, in playback order */
+  animations: Record<string, string[]>;
+  meta: {
+    app: string;
+    version: string;
+    image: string;
+    format: 'RGBA8888';
+    size: { w: number; h: number };
+    scale: string;
+    /** Playback rate the frames were sampled at */
+    frameRate: number;
+  };
+}
+
+export interface PackedAtlas {
+  width: number;
+  height: number;
+  /** Top-left corner of each input, in input order */
+  positions: Array<{ x: number; y: number }>;
+}
+
+/**
+ * Bounds of the non-transparent pixels of an RGBA image, or null when it is empty
+ */
+export function trimBounds(data: Uint8ClampedArray, width: number, height: number): SpriteRect | null {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+}
+
+/**
+ * Pack rectangles into shelves, tallest first
+ * The atlas width is the smallest power of two that keeps it no taller than it is wide;
+ * padding separates sprites from each other and from the atlas edge
+ */
+export function packSprites(sizes: Array<{ width: number; height: number }>, padding: number, maxSize: number): PackedAtlas {
+  const order = sizes.map((_, index) => index).sort((a, b) => sizes[b]!.height - sizes[a]!.height);
+  const widest = Math.max(1, ...sizes.map((size) => size.width)) + padding * 2;
+  const area = sizes.reduce((sum, size) => sum + (size.width + padding) * (size.height + padding), 0);
+
+  let width = 1;
+  while (width < widest || width * width < area) width *= 2;
+
+  for (; width <= maxSize; width *= 2) {
+    const packed = shelfPack(sizes, order, width, padding);
+    if (packed.height <= width) return packed;
+  }
+
+  const fallback = shelfPack(sizes, order, maxSize, padding);
+  if (widest > maxSize || fallback.height > maxSize) {
+    throw new Error(`Sprites do not fit in a ${maxSize}x${maxSize} atlas`);
+  }
+  return fallback;
+}
+
+function shelfPack(
+  sizes: Array<{ width: number; height: number }>,
+  order: number[],
+  width: number,
+  padding: number
+): PackedAtlas {
+  const positions = sizes.map(() => ({ x: 0, y: 0 }));
+  let x = padding;
+  let y = padding;
+  let shelfHeight = 0;
+
+  for (const index of order) {
+    const size = sizes[index]!;
+    if (x + size.width + padding > width && x > padding) {
+      x = padding;
+      y += shelfHeight + padding;
+      shelfHeight = 0;
+    }
+    positions[index] = { x, y };
+    x += size.width + padding;
+    shelfHeight = Math.max(shelfHeight, size.height);
+  }
+
+  return { width, height: y + shelfHeight + padding, positions };
+}
@@ -0,0 +1,368 @@
+/**
+ * SpriteSheetExporterPlugin - Render characters into sprite atlases for 2D games
+ * - Orthographic turntable: 4, 8 or 16 directions around the vertical axis
+ * - Every frame of one animation clip per direction, sampled at a fixed rate
+ * - One trimmed, packed PNG atlas plus a TexturePacker JSON (Hash) frame map
+ */
+
+import * as THREE from 'three';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { ThreeScene } from '../core/ThreeScene.js';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  ExporterPlugin,
+  Character,
+  ExportFormat,
+  ExportOptions,
+} from '../plugins/types.js';
+import { canvasToBlob, get2DContext, getCanvas } from './ImageEncoding.js';
+import { packSprites, trimBounds } from './SpriteAtlas.js';
+import type { SpriteRect, TexturePackerAtlas, TexturePackerFrame } from './SpriteAtlas.js';
+import { createZip } from './ZipArchive.js';
+
+/**
+ * Orthographic camera placement
+ */
+export interface SpriteCameraOptions {
+  /** Degrees above the horizon; 0 is a side view (default 30) */
+  elevation?: number;
+  /** Empty border as a fraction of the frame (default 0.05) */
+  margin?: number;
+}
+
+/**
+ * Sprite sheet export options
+ */
+export interface SpriteSheetExportOptions extends ExportOptions {
+  /** Clip to render (default: the first clip; a single still frame without clips or includeAnimations) */
+  animation?: string;
+  directions?: 4 | 8 | 16;
+  /** Frames per second of animation (default 12) */
+  fps?: number;
+  /** Width and height of an untrimmed frame in pixels (default 128) */
+  frameSize?: number;
+  camera?: SpriteCameraOptions;
+  /** Crop transparent borders from frames (default true) */
+  trim?: boolean;
+  /** Pixels between frames and around the atlas edge (default 2) */
+  padding?: number;
+  /** Largest atlas width or height in pixels (default 4096) */
+  maxAtlasSize?: number;
+}
+
+/**
+ * Rendered atlas image and its frame map
+ */
+export interface SpriteSheet {
+  image: Blob;
+  atlas: TexturePackerAtlas;
+}
+
+interface SpriteSheetConfig {
+  directions: 4 | 8 | 16;
+  fps: number;
+  frameSize: number;
+  elevation: number;
+  margin: number;
+  trim: boolean;
+  padding: number;
+  maxAtlasSize: number;
+}
+
+const DEFAULT_SPRITE_CONFIG: SpriteSheetConfig = {
+  directions: 8,
+  fps: 12,
+  frameSize: 128,
+  elevation: 30,
+  margin: 0.05,
+  trim: true,
+  padding: 2,
+  maxAtlasSize: 4096,
+};
+
+/**
+ * Compass names in order of increasing yaw, starting with the character facing the camera
+ * Fewer directions take every second or fourth entry
+ */
+const COMPASS = ['s', 'sse', 'se', 'ese', 'e', 'ene', 'ne', 'nne', 'n', 'nnw', 'nw', 'wnw', 'w', 'wsw', 'sw', 'ssw'];
+
+const STILL_ANIMATION = 'still';
+
+interface RenderedFrame {
+  name: string;
+  pixels: ImageData;
+  /** Trimmed area within the untrimmed frame */
+  source: SpriteRect;
+}
+
+/**
+ * Camera and pivot for a character that stays inside the given bounds while turning
+ */
+interface SpriteFraming {
+  camera: THREE.OrthographicCamera;
+  /** Ground point under the character within the frame, 0-1 from the top left */
+  pivot: { x: number; y: number };
+}
+
+/**
+ * Fit an orthographic camera around the cylinder the bounds sweep while turning about Y
+ */
+function frameBounds(bounds: THREE.Box3, elevationDeg: number, margin: number): SpriteFraming {
+  const elevation = THREE.MathUtils.degToRad(elevationDeg);
+  const radius = Math.max(
+    ...[bounds.min.x, bounds.max.x].flatMap((x) => [bounds.min.z, bounds.max.z].map((z) => Math.hypot(x, z)))
+  );
+  const centerY = (bounds.min.y + bounds.max.y) / 2;
+  const halfHeight = bounds.max.y - centerY;
+
+  // Screen-space half extents of the swept cylinder
+  const halfVertical = halfHeight * Math.cos(elevation) + radius * Math.sin(elevation);
+  const half = Math.max(radius, halfVertical, 1e-3) * (1 + margin * 2);
+
+  const distance = (radius + halfHeight) * 4 + 1;
+  const camera = new THREE.OrthographicCamera(-half, half, half, -half, 0.01, distance * 2);
+  camera.position.set(0, centerY + Math.sin(elevation) * distance, Math.cos(elevation) * distance);
+  camera.lookAt(0, centerY, 0);
+  camera.updateMatrixWorld();
+
+  // The origin sits at the character's feet
+  const groundY = -centerY * Math.cos(elevation);
+  return { camera, pivot: { x: 0.5, y: 0.5 - groundY / (half * 2) } };
+}
+
+/**
+ * SpriteSheetExporterPlugin
+ * Exports a zip holding <name>.png and <name>.json; render() returns both unpackaged
+ * Requires WebGL and a DOM (browser only)
+ */
+export class SpriteSheetExporterPlugin extends BasePlugin implements ExporterPlugin {
+  readonly id = 'spritesheet-exporter';
+  readonly name = 'Sprite Sheet Exporter';
+  readonly version = '1.0.0';
+  readonly type = 'exporter' as const;
+
+  async export(character: Character, options: SpriteSheetExportOptions): Promise<Blob> {
+    const { image, atlas } = await this.render(character, options);
+
+    const zip = await createZip([
+      { path: atlas.meta.image, data: new Uint8Array(await image.arrayBuffer()) },
+      { path: atlas.meta.image.replace(/\.png$/, '.json'), data: JSON.stringify(atlas, null, 2) },
+    ]);
+    return new Blob([zip], { type: 'application/zip' });
+  }
+
+  /**
+   * Render the atlas image and its TexturePacker frame map
+   */
+  async render(character: Character, options: SpriteSheetExportOptions): Promise<SpriteSheet> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Character has no model to export');
+    }
+
+    if (options.format !== 'spritesheet') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${options.format}`);
+    }
+
+    const config = this.resolveConfig(options);
+    if (![4, 8, 16].includes(config.directions)) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported direction count: ${config.directions}`);
+    }
+    if (!(config.fps > 0) || !(config.frameSize > 0)) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'fps and frameSize must be positive');
+    }
+
+    const clips = options.includeAnimations === false ? [] : character.model.animations;
+    const clip = options.animation ? clips.find((candidate) => candidate.name === options.animation) : clips[0];
+    if (options.animation && !clip) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Animation not found: ${options.animation}`);
+    }
+
+    const baseName = character.name.replace(/[^a-zA-Z0-9_]/g, '_') || 'Character';
+    const animationName = clip?.name ?? STILL_ANIMATION;
+
+    let frames: RenderedFrame[];
+    let pivot: SpriteFraming['pivot'];
+    try {
+      ({ frames, pivot } = this.renderFrames(character.model, clip ?? null, animationName, config));
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'Sprite rendering failed',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    try {
+      const packed = packSprites(
+        frames.map((frame) => ({ width: frame.source.w, height: frame.source.h })),
+        config.padding,
+        config.maxAtlasSize
+      );
+
+      const canvas = getCanvas(packed.width, packed.height);
+      const context = get2DContext(canvas);
+      const atlasFrames: Record<string, TexturePackerFrame> = {};
+      const animations: Record<string, string[]> = {};
+
+      frames.forEach((frame, index) => {
+        const position = packed.positions[index]!;
+        context.putImageData(frame.pixels, position.x, position.y);
+        atlasFrames[frame.name] = {
+          frame: { x: position.x, y: position.y, w: frame.source.w, h: frame.source.h },
+          rotated: false,
+          trimmed: frame.source.w !== config.frameSize || frame.source.h !== config.frameSize,
+          spriteSourceSize: frame.source,
+          sourceSize: { w: config.frameSize, h: config.frameSize },
+          pivot,
+        };
+        const sequence = frame.name.slice(0, frame.name.lastIndexOf('_'));
+        (animations[sequence] ??= []).push(frame.name);
+      });
+
+      return {
+        image: await canvasToBlob(canvas, 'image/png'),
+        atlas: {
+          frames: atlasFrames,
+          animations,
+          meta: {
+            app: `${this.name} ${this.version}`,
+            version: '1.0',
+            image: `${baseName}.png`,
+            format: 'RGBA8888',
+            size: { w: packed.width, h: packed.height },
+            scale: '1',
+            frameRate: clip ? config.fps : 0,
+          },
+        },
+      };
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'Sprite atlas packing failed',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  getSupportedFormats(): ExportFormat[] {
+    return ['spritesheet'];
+  }
+
+  /**
+   * Export to downloadable file
+   */
+  async exportToFile(character: Character, filename: string, options: SpriteSheetExportOptions): Promise<void> {
+    const blob = await this.export(character, options);
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Merge per-call options over the defaults
+   */
+  private resolveConfig(options: SpriteSheetExportOptions): SpriteSheetConfig {
+    return {
+      directions: options.directions ?? DEFAULT_SPRITE_CONFIG.directions,
+      fps: options.fps ?? DEFAULT_SPRITE_CONFIG.fps,
+      frameSize: Math.round(options.frameSize ?? DEFAULT_SPRITE_CONFIG.frameSize),
+      elevation: options.camera?.elevation ?? DEFAULT_SPRITE_CONFIG.elevation,
+      margin: options.camera?.margin ?? DEFAULT_SPRITE_CONFIG.margin,
+      trim: options.trim ?? DEFAULT_SPRITE_CONFIG.trim,
+      padding: Math.max(0, Math.round(options.padding ?? DEFAULT_SPRITE_CONFIG.padding)),
+      maxAtlasSize: options.maxAtlasSize ?? DEFAULT_SPRITE_CONFIG.maxAtlasSize,
+    };
+  }
+
+  /**
+   * Render every direction and frame in an offscreen scene
+   * Frames are named <animation>_<direction>_<frame>, e.g. walk_se_003
+   */
+  private renderFrames(
+    source: THREE.Object3D,
+    clip: THREE.AnimationClip | null,
+    animationName: string,
+    config: SpriteSheetConfig
+  ): { frames: RenderedFrame[]; pivot: SpriteFraming['pivot'] } {
+    // Render a clone so the live character keeps its pose
+    const model = SkeletonUtils.clone(source);
+    const turntable = new THREE.Group();
+    turntable.add(model);
+
+    const mixer = clip ? new THREE.AnimationMixer(model) : null;
+    if (mixer && clip) mixer.clipAction(clip).play();
+    const frameCount = clip ? Math.max(1, Math.round(clip.duration * config.fps)) : 1;
+
+    // Frame the whole clip so every sprite shares one scale and pivot
+    const bounds = new THREE.Box3();
+    for (let frame = 0; frame < frameCount; frame++) {
+      mixer?.setTime(frame / config.fps);
+      turntable.updateMatrixWorld(true);
+      bounds.union(new THREE.Box3().setFromObject(turntable, true));
+    }
+    if (bounds.isEmpty()) {
+      throw new Error('Model has no visible geometry');
+    }
+    const { camera, pivot } = frameBounds(bounds, config.elevation, config.margin);
+
+    const size = config.frameSize;
+    const scene = new ThreeScene(document.createElement('div'), {
+      alpha: true,
+      maxPixelRatio: 1,
+      size: { width: size, height: size },
+    });
+    scene.setCamera(camera);
+    scene.renderer.setClearColor(0x000000, 0);
+    scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.5));
+    const sun = new THREE.DirectionalLight(0xffffff, 2);
+    sun.position.set(-1, 2, 2);
+    scene.add(sun);
+    scene.add(turntable);
+
+    const canvas = getCanvas(size, size);
+    const context = get2DContext(canvas);
+    const step = COMPASS.length / config.directions;
+    const frames: RenderedFrame[] = [];
+
+    try {
+      for (let direction = 0; direction < config.directions; direction++) {
+        turntable.rotation.y = (direction / config.directions) * Math.PI * 2;
+        const directionName = COMPASS[direction * step]!;
+
+        for (let frame = 0; frame < frameCount; frame++) {
+          mixer?.setTime(frame / config.fps);
+          scene.render();
+
+          // Copy out before the drawing buffer is cleared
+          context.clearRect(0, 0, size, size);
+          context.drawImage(scene.renderer.domElement, 0, 0);
+          const full = context.getImageData(0, 0, size, size);
+          const trimmed = config.trim ? trimBounds(full.data, size, size) : null;
+          const source = trimmed ?? (config.trim ? { x: 0, y: 0, w: 1, h: 1 } : { x: 0, y: 0, w: size, h: size });
+
+          frames.push({
+            name: `${animationName}_${directionName}_${String(frame).padStart(3, '0')}`,
+            pixels: context.getImageData(source.x, source.y, source.w, source.h),
+            source,
+          });
+        }
+      }
+    } finally {
+      mixer?.stopAllAction();
+      // The clone shares geometry and materials with the live character, so detach it before disposal
+      scene.remove(turntable);
+      scene.dispose();
+    }
+
+    return { frames, pivot };
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * ThreeMFExporterPlugin - Export characters to 3MF for 3D printing
+ * A zip package holding one millimetre-unit mesh object, which unlike STL keeps
+ * shared vertices and an explicit unit
+ */
+
+import type * as THREE from 'three';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  ExporterPlugin,
+  Character,
+  ExportFormat,
+} from '../plugins/types.js';
+import { buildPrintGeometry } from './PrintPreparation.js';
+import type { PrintExportOptions } from './PrintPreparation.js';
+import { createZip } from './ZipArchive.js';
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const MODEL_RELATIONSHIP = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+const MODEL_PATH = '3D/3dmodel.model';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rel0" Target="/${MODEL_PATH}" Type="${MODEL_RELATIONSHIP}"/>
+</Relationships>
+`;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+/**
+ * 3MF model part for an indexed millimetre geometry
+ */
+function buildModelXml(geometry: THREE.BufferGeometry, title: string, application: string): string {
+  const position = geometry.getAttribute('position');
+  const index = geometry.index;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NAMESPACE}">`,
+    `  <metadata name="Title">${escapeXml(title)}</metadata>`,
+    `  <metadata name="Application">${escapeXml(application)}</metadata>`,
+    '  <resources>',
+    `    <object id="1" type="model" name="${escapeXml(title)}">`,
+    '      <mesh>',
+    '        <vertices>',
+  ];
+
+  for (let i = 0; i < position.count; i++) {
+    lines.push(
+      `          <vertex x="${formatNumber(position.getX(i))}" y="${formatNumber(position.getY(i))}" z="${formatNumber(position.getZ(i))}"/>`
+    );
+  }
+  lines.push('        </vertices>', '        <triangles>');
+
+  const count = index ? index.count : position.count;
+  for (let i = 0; i < count - 2; i += 3) {
+    const a = index ? index.getX(i) : i;
+    const b = index ? index.getX(i + 1) : i + 1;
+    const c = index ? index.getX(i + 2) : i + 2;
+    // the spec rejects degenerate triangles
+    if (a === b || b === c || a === c) continue;
+    lines.push(`          <triangle v1="${a}" v2="${b}" v3="${c}"/>`);
+  }
+
+  lines.push(
+    '        </triangles>',
+    '      </mesh>',
+    '    </object>',
+    '  </resources>',
+    '  <build>',
+    '    <item objectid="1"/>',
+    '  </build>',
+    '</model>',
+    ''
+  );
+  return lines.join('\n');
+}
+
+/**
+ * ThreeMFExporterPlugin
+ * Exports the posed character as a single 3MF build item
+ * Note: geometry only - no colours, skeleton or animations
+ */
+export class ThreeMFExporterPlugin extends BasePlugin implements ExporterPlugin {
+  readonly id = '3mf-exporter';
+  readonly name = '3MF Exporter';
+  readonly version = '1.0.0';
+  readonly type = 'exporter' as const;
+
+  async export(character: Character, options: PrintExportOptions): Promise<Blob> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Character has no model to export');
+    }
+
+    if (options.format !== '3mf') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${options.format}`);
+    }
+
+    let geometry: THREE.BufferGeometry;
+    try {
+      geometry = buildPrintGeometry(character.model, options).geometry;
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'Could not prepare printable mesh',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    try {
+      const zip = await createZip([
+        { path: '[Content_Types].xml', data: CONTENT_TYPES },
+        { path: '_rels/.rels', data: RELATIONSHIPS },
+        { path: MODEL_PATH, data: buildModelXml(geometry, character.name || 'Character', `${this.name} ${this.version}`) },
+      ]);
+      return new Blob([zip], { type: 'model/3mf' });
+    } finally {
+      geometry.dispose();
+    }
+  }
+
+  getSupportedFormats(): ExportFormat[] {
+    return ['3mf'];
+  }
+
+  /**
+   * Export to downloadable file
+   */
+  async exportToFile(character: Character, filename: string, options: PrintExportOptions): Promise<void> {
+    const blob = await this.export(character, options);
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
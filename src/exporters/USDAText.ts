@@ -0,0 +1,570 @@
+/**
+ * USDAText - Prim tree encoding for USD's text format (usda 1.0)
+ * Writer used by USDExporterPlugin and a small reader for inspecting its output
+ *
+ * Covers the subset the exporter writes: layer and prim metadata, typed
+ * attributes (default values, connections, time samples), relationships and
+ * nested prims. Variants, payloads and references are not supported.
+ */
+
+/**
+ * Attribute values; tokens and strings are both written quoted
+ */
+export type USDValue =
+  | number
+  | boolean
+  | string
+  | USDValue[]
+  | { tuple: USDValue[] }
+  | { asset: string }
+  | { path: string }
+  | { dictionary: Record<string, USDTypedValue> };
+
+export interface USDTypedValue {
+  typeName: string;
+  value: USDValue;
+}
+
+export interface USDMetadata {
+  key: string;
+  value: USDValue;
+  listOp?: 'prepend' | 'append' | 'delete';
+}
+
+export interface USDAttribute {
+  kind: 'attribute';
+  name: string;
+  /** e.g. 'float3[]', 'matrix4d', 'token' */
+  typeName: string;
+  uniform?: boolean;
+  value?: USDValue;
+  /** Source attribute path for shader inputs/outputs */
+  connection?: string;
+  timeSamples?: Array<[number, USDValue]>;
+  metadata: USDMetadata[];
+}
+
+export interface USDRelationship {
+  kind: 'relationship';
+  name: string;
+  targets: string[];
+}
+
+export type USDProperty = USDAttribute | USDRelationship;
+
+export interface USDPrim {
+  specifier: 'def' | 'over' | 'class';
+  /** Empty for typeless prims */
+  typeName: string;
+  name: string;
+  metadata: USDMetadata[];
+  properties: USDProperty[];
+  children: USDPrim[];
+}
+
+export interface USDLayer {
+  metadata: USDMetadata[];
+  prims: USDPrim[];
+}
+
+export const USDA_HEADER = '#usda 1.0';
+
+/**
+ * Value and property constructors
+ */
+export const usd = {
+  tuple: (...values: USDValue[]): USDValue => ({ tuple: values }),
+  asset: (value: string): USDValue => ({ asset: value }),
+  path: (value: string): USDValue => ({ path: value }),
+  dictionary: (entries: Record<string, USDTypedValue>): USDValue => ({ dictionary: entries }),
+  /** matrix4d rows; three.js column-major elements are USD's row-vector rows */
+  matrix: (elements: ArrayLike<number>): USDValue => ({
+    tuple: [0, 4, 8, 12].map((row) => ({ tuple: Array.from({ length: 4 }, (_, i) => elements[row + i] ?? 0) })),
+  }),
+  /** Tuples of size n from a flat array */
+  tuples: (values: ArrayLike<number>, size: number): USDValue[] => {
+    const result: USDValue[] = [];
+    for (let i = 0; i + size <= values.length; i += size) {
+      result.push({ tuple: Array.from({ length: size }, (_, k) => values[i + k] ?? 0) });
+    }
+    return result;
+  },
+  attribute: (
+    typeName: string,
+    name: string,
+    value?: USDValue,
+    options: Partial<Pick<USDAttribute, 'uniform' | 'connection' | 'timeSamples' | 'metadata'>> = {}
+  ): USDAttribute => ({
+    kind: 'attribute',
+    name,
+    typeName,
+    ...(value !== undefined && { value }),
+    ...(options.uniform && { uniform: true }),
+    ...(options.connection !== undefined && { connection: options.connection }),
+    ...(options.timeSamples !== undefined && { timeSamples: options.timeSamples }),
+    metadata: options.metadata ?? [],
+  }),
+  rel: (name: string, ...targets: string[]): USDRelationship => ({ kind: 'relationship', name, targets }),
+  meta: (key: string, value: USDValue, listOp?: USDMetadata['listOp']): USDMetadata =>
+    listOp ? { key, value, listOp } : { key, value },
+};
+
+export function usdPrim(
+  typeName: string,
+  name: string,
+  properties: USDProperty[] = [],
+  children: USDPrim[] = [],
+  metadata: USDMetadata[] = []
+): USDPrim {
+  return { specifier: 'def', typeName, name, metadata, properties, children };
+}
+
+/**
+ * Valid prim/property name element, unique among used
+ */
+export function usdIdentifier(name: string, used?: Set<string>): string {
+  let base = name.replace(/[^A-Za-z0-9_]/g, '_');
+  if (!/^[A-Za-z_]/.test(base)) base = `_${base}`;
+  let identifier = base;
+  if (used) {
+    for (let n = 1; used.has(identifier); n++) identifier = `${base}_${n}`;
+    used.add(identifier);
+  }
+  return identifier;
+}
+
+// ---------------------------------------------------------------------------
+// Writer
+// ---------------------------------------------------------------------------
+
+function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return Number.isNaN(value) ? 'nan' : value > 0 ? 'inf' : '-inf';
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(7)));
+}
+
+function formatString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function formatValue(value: USDValue, indent: string): string {
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'string') return formatString(value);
+  if (Array.isArray(value)) return `[${value.map((item) => formatValue(item, indent)).join(', ')}]`;
+  if ('tuple' in value) return `(${value.tuple.map((item) => formatValue(item, indent)).join(', ')})`;
+  if ('asset' in value) return `@${value.asset}@`;
+  if ('path' in value) return `<${value.path}>`;
+
+  const inner = `${indent}    `;
+  const entries = Object.entries(value.dictionary).map(
+    ([key, entry]) => `${inner}${entry.typeName} ${key} = ${formatValue(entry.value, inner)}`
+  );
+  return entries.length === 0 ? '{\n}' : `{\n${entries.join('\n')}\n${indent}}`;
+}
+
+function writeMetadata(metadata: USDMetadata[], indent: string, lines: string[]): void {
+  if (metadata.length === 0) return;
+  lines.push(`${indent}(`);
+  for (const entry of metadata) {
+    const prefix = entry.listOp ? `${entry.listOp} ` : '';
+    lines.push(`${indent}    ${prefix}${entry.key} = ${formatValue(entry.value, `${indent}    `)}`);
+  }
+  lines.push(`${indent})`);
+}
+
+function propertyMetadata(metadata: USDMetadata[], indent: string): string {
+  if (metadata.length === 0) return '';
+  const inner = `${indent}    `;
+  const entries = metadata.map((entry) => `${inner}${entry.key} = ${formatValue(entry.value, inner)}`);
+  return ` (\n${entries.join('\n')}\n${indent})`;
+}
+
+function writeProperty(property: USDProperty, indent: string, lines: string[]): void {
+  if (property.kind === 'relationship') {
+    const targets = property.targets.map((target) => `<${target}>`);
+    const value = targets.length === 1 ? targets[0] : `[${targets.join(', ')}]`;
+    lines.push(`${indent}rel ${property.name}${targets.length > 0 ? ` = ${value}` : ''}`);
+    return;
+  }
+
+  const declaration = `${indent}${property.uniform ? 'uniform ' : ''}${property.typeName} ${property.name}`;
+  const metadata = propertyMetadata(property.metadata, indent);
+  if (property.value !== undefined || (property.connection === undefined && property.timeSamples === undefined)) {
+    const value = property.value !== undefined ? ` = ${formatValue(property.value, indent)}` : '';
+    lines.push(`${declaration}${value}${metadata}`);
+  }
+  if (property.connection !== undefined) {
+    lines.push(`${declaration}.connect = <${property.connection}>`);
+  }
+  if (property.timeSamples !== undefined) {
+    lines.push(`${declaration}.timeSamples = {`);
+    for (const [time, sample] of property.timeSamples) {
+      lines.push(`${indent}    ${formatNumber(time)}: ${formatValue(sample, `${indent}    `)},`);
+    }
+    lines.push(`${indent}}`);
+  }
+}
+
+function writePrim(prim: USDPrim, indent: string, lines: string[]): void {
+  lines.push(`${indent}${prim.specifier}${prim.typeName ? ` ${prim.typeName}` : ''} "${prim.name}"`);
+  writeMetadata(prim.metadata, indent, lines);
+  lines.push(`${indent}{`);
+  const inner = `${indent}    `;
+  for (const property of prim.properties) {
+    writeProperty(property, inner, lines);
+  }
+  prim.children.forEach((child) => {
+    lines.push('');
+    writePrim(child, inner, lines);
+  });
+  lines.push(`${indent}}`);
+}
+
+/**
+ * Serialize a layer as usda text
+ */
+export function writeUSDA(layer: USDLayer): string {
+  const lines: string[] = [USDA_HEADER];
+  writeMetadata(layer.metadata, '', lines);
+  for (const prim of layer.prims) {
+    lines.push('');
+    writePrim(prim, '', lines);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'punct'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'asset'; value: string }
+  | { type: 'path'; value: string };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i]!;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if ('()[]{}=,:;'.includes(char)) {
+      tokens.push({ type: 'punct', value: char });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const triple = text.startsWith(char.repeat(3), i);
+      const quote = triple ? char.repeat(3) : char;
+      let value = '';
+      i += quote.length;
+      while (i < text.length && !text.startsWith(quote, i)) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const escaped = text[i + 1]!;
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += text[i++];
+        }
+      }
+      i += quote.length;
+      tokens.push({ type: 'string', value });
+    } else if (char === '@') {
+      const end = text.indexOf('@', i + 1);
+      if (end < 0) throw new Error('Unterminated asset path');
+      tokens.push({ type: 'asset', value: text.slice(i + 1, end) });
+      i = end + 1;
+    } else if (char === '<') {
+      const end = text.indexOf('>', i + 1);
+      if (end < 0) throw new Error('Unterminated prim path');
+      tokens.push({ type: 'path', value: text.slice(i + 1, end) });
+      i = end + 1;
+    } else if (text.startsWith('-inf', i)) {
+      tokens.push({ type: 'word', value: '-inf' });
+      i += 4;
+    } else {
+      const match = /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(text.slice(i, i + 64));
+      if (match) {
+        tokens.push({ type: 'number', value: Number(match[0]) });
+        i += match[0].length;
+        continue;
+      }
+      const word = /^[A-Za-z_][A-Za-z0-9_:.]*/.exec(text.slice(i, i + 256));
+      if (!word) throw new Error(`Unexpected character '${char}' at offset ${i}`);
+      tokens.push({ type: 'word', value: word[0] });
+      i += word[0].length;
+    }
+  }
+  return tokens;
+}
+
+const SPECIFIERS = new Set(['def', 'over', 'class']);
+const LIST_OPS = new Set(['prepend', 'append', 'delete', 'add', 'reorder']);
+
+class USDAParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseLayer(): USDLayer {
+    const layer: USDLayer = { metadata: [], prims: [] };
+    if (this.isPunct('(')) layer.metadata = this.parseMetadata();
+    while (this.peek()) {
+      layer.prims.push(this.parsePrim());
+    }
+    return layer;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error('Unexpected end of usda text');
+    return token;
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new Error(`Expected '${value}' but found '${String(token.value)}'`);
+    }
+  }
+
+  private word(): string {
+    const token = this.next();
+    if (token.type !== 'word') throw new Error(`Expected identifier but found '${String(token.value)}'`);
+    return token.value;
+  }
+
+  private parseMetadata(): USDMetadata[] {
+    const metadata: USDMetadata[] = [];
+    this.expect('(');
+    while (!this.isPunct(')')) {
+      if (this.isPunct(';')) {
+        this.next();
+        continue;
+      }
+      const token = this.next();
+      if (token.type === 'string') {
+        metadata.push({ key: 'doc', value: token.value });
+        continue;
+      }
+      if (token.type !== 'word') throw new Error(`Unexpected metadata token '${String(token.value)}'`);
+      let key = token.value;
+      let listOp: USDMetadata['listOp'];
+      if (LIST_OPS.has(key) && this.peek()?.type === 'word') {
+        listOp = key === 'add' || key === 'reorder' ? 'append' : (key as USDMetadata['listOp']);
+        key = this.word();
+      }
+      this.expect('=');
+      metadata.push(usd.meta(key, this.parseValue(), listOp));
+    }
+    this.expect(')');
+    return metadata;
+  }
+
+  private parsePrim(): USDPrim {
+    const specifier = this.word();
+    if (!SPECIFIERS.has(specifier)) throw new Error(`Expected prim specifier but found '${specifier}'`);
+    const typeName = this.peek()?.type === 'word' ? this.word() : '';
+    const nameToken = this.next();
+    if (nameToken.type !== 'string') throw new Error('Expected quoted prim name');
+
+    const prim: USDPrim = {
+      specifier: specifier as USDPrim['specifier'],
+      typeName,
+      name: nameToken.value,
+      metadata: this.isPunct('(') ? this.parseMetadata() : [],
+      properties: [],
+      children: [],
+    };
+
+    this.expect('{');
+    while (!this.isPunct('}')) {
+      const token = this.peek();
+      if (token?.type === 'word' && SPECIFIERS.has(token.value) && this.peek(1)?.type !== 'punct') {
+        prim.children.push(this.parsePrim());
+      } else {
+        this.parseProperty(prim);
+      }
+    }
+    this.expect('}');
+    return prim;
+  }
+
+  private parseProperty(prim: USDPrim): void {
+    let word = this.word();
+    let uniform = false;
+    while (word === 'custom' || word === 'uniform' || word === 'varying' || word === 'config') {
+      if (word === 'uniform') uniform = true;
+      word = this.word();
+    }
+
+    if (word === 'rel') {
+      const name = this.word();
+      const relationship: USDRelationship = { kind: 'relationship', name, targets: [] };
+      if (this.isPunct('=')) {
+        this.next();
+        const value = this.parseValue();
+        const targets = Array.isArray(value) ? value : [value];
+        relationship.targets = targets.flatMap((target) =>
+          typeof target === 'object' && target !== null && 'path' in target ? [target.path] : []
+        );
+      }
+      if (this.isPunct('(')) this.parseMetadata();
+      prim.properties.push(relationship);
+      return;
+    }
+
+    let typeName = word;
+    if (this.isPunct('[') && this.isPunct(']', 1)) {
+      this.next();
+      this.next();
+      typeName += '[]';
+    }
+
+    let name = this.word();
+    let suffix: 'connect' | 'timeSamples' | null = null;
+    for (const candidate of ['connect', 'timeSamples'] as const) {
+      if (name.endsWith(`.${candidate}`)) {
+        suffix = candidate;
+        name = name.slice(0, -candidate.length - 1);
+      }
+    }
+
+    let attribute = prim.properties.find(
+      (property): property is USDAttribute => property.kind === 'attribute' && property.name === name
+    );
+    if (!attribute) {
+      attribute = usd.attribute(typeName, name, undefined, { uniform });
+      prim.properties.push(attribute);
+    }
+
+    if (this.isPunct('=')) {
+      this.next();
+      if (suffix === 'timeSamples') {
+        attribute.timeSamples = this.parseTimeSamples();
+      } else {
+        const value = this.parseValue();
+        if (suffix === 'connect') {
+          const target = Array.isArray(value) ? value[0] : value;
+          if (typeof target === 'object' && target !== null && 'path' in target) attribute.connection = target.path;
+        } else {
+          attribute.value = value;
+        }
+      }
+    }
+    if (this.isPunct('(')) attribute.metadata.push(...this.parseMetadata());
+  }
+
+  private parseTimeSamples(): Array<[number, USDValue]> {
+    const samples: Array<[number, USDValue]> = [];
+    this.expect('{');
+    while (!this.isPunct('}')) {
+      const time = this.next();
+      if (time.type !== 'number') throw new Error('Expected time code');
+      this.expect(':');
+      samples.push([time.value, this.parseValue()]);
+      if (this.isPunct(',')) this.next();
+    }
+    this.expect('}');
+    return samples;
+  }
+
+  private parseList(close: string): USDValue[] {
+    const items: USDValue[] = [];
+    while (!this.isPunct(close)) {
+      items.push(this.parseValue());
+      if (this.isPunct(',')) this.next();
+    }
+    this.expect(close);
+    return items;
+  }
+
+  private parseValue(): USDValue {
+    const token = this.next();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return token.value;
+      case 'asset':
+        return { asset: token.value };
+      case 'path':
+        return { path: token.value };
+      case 'word':
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'inf') return Infinity;
+        if (token.value === '-inf') return -Infinity;
+        if (token.value === 'nan') return NaN;
+        return token.value;
+      case 'punct':
+        break;
+    }
+
+    if (token.value === '[') return this.parseList(']');
+    if (token.value === '(') return { tuple: this.parseList(')') };
+    if (token.value === '{') {
+      const entries: Record<string, USDTypedValue> = {};
+      while (!this.isPunct('}')) {
+        let typeName = this.word();
+        if (this.isPunct('[') && this.isPunct(']', 1)) {
+          this.next();
+          this.next();
+          typeName += '[]';
+        }
+        const keyToken = this.next();
+        const key = keyToken.type === 'word' || keyToken.type === 'string' ? keyToken.value : String(keyToken.value);
+        this.expect('=');
+        entries[key] = { typeName, value: this.parseValue() };
+        if (this.isPunct(';')) this.next();
+      }
+      this.expect('}');
+      return { dictionary: entries };
+    }
+    throw new Error(`Unexpected token '${token.value}'`);
+  }
+}
+
+/**
+ * Parse usda text into a prim tree
+ */
+export function parseUSDA(text: string): USDLayer {
+  if (!text.startsWith(USDA_HEADER)) {
+    throw new Error('Not a usda 1.0 layer');
+  }
+  return new USDAParser(tokenize(text.slice(USDA_HEADER.length))).parseLayer();
+}
+
+/**
+ * Prim at an absolute path such as /Root/Materials/Skin
+ */
+export function findUSDPrim(layer: USDLayer, path: string): USDPrim | null {
+  let prims = layer.prims;
+  let found: USDPrim | null = null;
+  for (const name of path.split('/').filter(Boolean)) {
+    found = prims.find((prim) => prim.name === name) ?? null;
+    if (!found) return null;
+    prims = found.children;
+  }
+  return found;
+}
+
+export function getUSDAttribute(prim: USDPrim, name: string): USDAttribute | null {
+  return (
+    prim.properties.find((property): property is USDAttribute => property.kind === 'attribute' && property.name === name) ??
+    null
+  );
+}
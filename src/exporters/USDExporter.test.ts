@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { USDExporterPlugin } from './USDExporter.js';
+import { findUSDPrim, getUSDAttribute, parseUSDA } from './USDAText.js';
+import type { USDAttribute, USDLayer, USDPrim } from './USDAText.js';
+import { createRiggedHumanoid } from '../test/fixtures.js';
+import type { Character } from '../plugins/types.js';
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+
+/**
+ * Name and data offset of every entry, read from the local file headers
+ */
+function readZipEntries(buffer: ArrayBuffer): Array<{ path: string; dataOffset: number }> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const entries: Array<{ path: string; dataOffset: number }> = [];
+  let offset = 0;
+  while (offset + 30 <= buffer.byteLength && view.getUint32(offset, true) === ZIP_LOCAL_HEADER) {
+    const compressedSize = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const path = decoder.decode(new Uint8Array(buffer, offset + 30, nameLength));
+    const dataOffset = offset + 30 + nameLength + extraLength;
+    entries.push({ path, dataOffset });
+    offset = dataOffset + compressedSize;
+  }
+  return entries;
+}
+
+function requirePrim(layer: USDLayer, path: string): USDPrim {
+  const prim = findUSDPrim(layer, path);
+  if (!prim) throw new Error(`Missing prim ${path}`);
+  return prim;
+}
+
+function requireAttribute(prim: USDPrim, name: string): USDAttribute {
+  const attribute = getUSDAttribute(prim, name);
+  if (!attribute) throw new Error(`Missing ${name} on ${prim.name}`);
+  return attribute;
+}
+
+function metadataValue(attribute: USDAttribute, key: string): unknown {
+  return attribute.metadata.find((entry) => entry.key === key)?.value;
+}
+
+describe('USDExporterPlugin', () => {
+  let character: Character;
+  let exporter: USDExporterPlugin;
+
+  beforeAll(async () => {
+    character = await createRiggedHumanoid();
+
+    exporter = new USDExporterPlugin();
+    await exporter.onInit();
+  });
+
+  it('writes a parseable UsdSkel layer for a rigged character', async () => {
+    const text = await exporter.export(character, { format: 'usda', includeAnimations: true });
+    const layer = parseUSDA(text as string);
+
+    const root = layer.prims[0];
+    expect(root?.typeName).toBe('SkelRoot');
+    const rootPath = `/${root?.name}`;
+
+    const skeleton = requirePrim(layer, `${rootPath}/Skeleton`);
+    expect(skeleton.typeName).toBe('Skeleton');
+    const joints = requireAttribute(skeleton, 'joints').value as string[];
+    const bindTransforms = requireAttribute(skeleton, 'bindTransforms').value as unknown[];
+    const restTransforms = requireAttribute(skeleton, 'restTransforms').value as unknown[];
+
+    let bones = 0;
+    character.model?.traverse((child) => {
+      if (child instanceof THREE.Bone) bones++;
+    });
+    expect(joints).toHaveLength(bones);
+    expect(bindTransforms).toHaveLength(joints.length);
+    expect(restTransforms).toHaveLength(joints.length);
+
+    const animation = skeleton.children.find((child) => child.typeName === 'SkelAnimation');
+    expect(animation).toBeDefined();
+    expect(requireAttribute(animation as USDPrim, 'joints').value).toEqual(joints);
+
+    const meshes = root?.children.filter((child) => child.typeName === 'Mesh') ?? [];
+    expect(meshes.length).toBeGreaterThan(0);
+    for (const mesh of meshes) {
+      const points = requireAttribute(mesh, 'points').value as unknown[];
+      const jointIndices = requireAttribute(mesh, 'primvars:skel:jointIndices');
+      const jointWeights = requireAttribute(mesh, 'primvars:skel:jointWeights');
+
+      for (const attribute of [jointIndices, jointWeights]) {
+        expect(metadataValue(attribute, 'elementSize')).toBe(4);
+        expect(attribute.value).toHaveLength(points.length * 4);
+      }
+      expect((jointIndices.value as number[]).every((index) => index >= 0 && index < joints.length)).toBe(true);
+    }
+  });
+
+  it('packages the layer first in a 64-byte aligned USDZ', async () => {
+    const output = await exporter.export(character, { format: 'usdz', includeAnimations: true });
+    const entries = readZipEntries(await (output as Blob).arrayBuffer());
+
+    expect(entries[0]?.path).toMatch(/\.usda$/);
+    for (const entry of entries) {
+      expect(entry.dataOffset % 64).toBe(0);
+    }
+  });
+});
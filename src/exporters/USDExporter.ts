@@ -0,0 +1,699 @@
+/**
+ * USDExporterPlugin - Export characters to USD for AR Quick Look
+ * USDA text for inspection, USDZ packages (with PNG textures) for delivery
+ * - Meshes with normals, UVs and per-material GeomSubsets
+ * - UsdPreviewSurface materials derived from MeshStandardMaterial
+ * - UsdSkel skeleton, skin weights and one baked SkelAnimation when rigged
+ */
+
+import * as THREE from 'three';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  ExporterPlugin,
+  Character,
+  ExportFormat,
+  ExportOptions,
+} from '../plugins/types.js';
+import { renameBones } from '../rigging/BoneNaming.js';
+import { encodeTextureImage } from './ImageEncoding.js';
+import { usd, usdIdentifier, usdPrim, writeUSDA } from './USDAText.js';
+import type { USDLayer, USDMetadata, USDPrim, USDProperty } from './USDAText.js';
+import { createZip } from './ZipArchive.js';
+import type { ZipEntry } from './ZipArchive.js';
+
+/**
+ * USD export options
+ */
+export interface USDExportOptions extends ExportOptions {
+  /** Clip baked into the SkelAnimation when includeAnimations is set (default: the first clip) */
+  animation?: string;
+}
+
+/** Samples per second for baked skeletal animation */
+const FRAME_RATE = 30;
+
+/** USDZ requires every file's data to start on a 64-byte boundary */
+const USDZ_ALIGNMENT = 64;
+
+const WRAP_MODES: Record<number, string> = {
+  [THREE.RepeatWrapping]: 'repeat',
+  [THREE.MirroredRepeatWrapping]: 'mirror',
+  [THREE.ClampToEdgeWrapping]: 'clamp',
+};
+
+/**
+ * Skeleton prim and the joint order it was written with (parents before children)
+ */
+interface SkeletonBinding {
+  skeleton: THREE.Skeleton;
+  path: string;
+  joints: THREE.Bone[];
+  tokens: string[];
+  jointIndex: Map<THREE.Bone, number>;
+  bindTransforms: THREE.Matrix4[];
+}
+
+type MappedMaterial = THREE.Material &
+  Partial<
+    Pick<
+      THREE.MeshStandardMaterial,
+      | 'color'
+      | 'map'
+      | 'emissive'
+      | 'emissiveIntensity'
+      | 'emissiveMap'
+      | 'normalMap'
+      | 'roughness'
+      | 'roughnessMap'
+      | 'metalness'
+      | 'metalnessMap'
+      | 'aoMap'
+    >
+  >;
+
+function colorTuple(color: THREE.Color, intensity = 1) {
+  return usd.tuple(color.r * intensity, color.g * intensity, color.b * intensity);
+}
+
+function xformProperties(matrix: THREE.Matrix4): USDProperty[] {
+  return [
+    usd.attribute('matrix4d', 'xformOp:transform', usd.matrix(matrix.elements)),
+    usd.attribute('token[]', 'xformOpOrder', ['xformOp:transform'], { uniform: true }),
+  ];
+}
+
+function primvarMetadata(interpolation: string, elementSize?: number): USDMetadata[] {
+  const metadata = [usd.meta('interpolation', interpolation)];
+  if (elementSize !== undefined) metadata.push(usd.meta('elementSize', elementSize));
+  return metadata;
+}
+
+/**
+ * Builds the prim tree while walking a bind-posed clone of the character
+ */
+class USDSceneBuilder {
+  private rootPath = '';
+  private rootInverse = new THREE.Matrix4();
+  private readonly rootNames = new Set<string>();
+  private readonly skeletons = new Map<THREE.Skeleton, SkeletonBinding>();
+  private readonly boneOwners = new Map<THREE.Bone, SkeletonBinding>();
+  private readonly materialPaths = new Map<THREE.Material, string>();
+  private readonly materialPrims: USDPrim[] = [];
+  private readonly materialNames = new Set<string>();
+  private readonly texturePaths = new Map<unknown, string>();
+  private readonly usedTexturePaths = new Set<string>();
+  private readonly skinnedPrims: USDPrim[] = [];
+  private materialScope = '';
+
+  /** Texture files referenced by the layer (only filled when embedding textures) */
+  readonly textures: ZipEntry[] = [];
+
+  constructor(
+    private readonly pluginId: string,
+    private readonly creator: string,
+    private readonly embedTextures: boolean
+  ) {}
+
+  async build(root: THREE.Object3D, name: string, clip: THREE.AnimationClip | null): Promise<USDLayer> {
+    root.updateMatrixWorld(true);
+    this.rootPath = `/${usdIdentifier(name)}`;
+    this.rootInverse = root.matrixWorld.clone().invert();
+    this.materialScope = `${this.rootPath}/${usdIdentifier('Materials', this.rootNames)}`;
+
+    root.traverse((object) => {
+      if (object instanceof THREE.SkinnedMesh && !this.skeletons.has(object.skeleton)) {
+        this.addSkeleton(object.skeleton);
+      }
+    });
+
+    const hierarchy: USDPrim[] = [];
+    await this.addChildren(root, root.matrixWorld, hierarchy, this.rootNames);
+
+    const skeletonPrims = [...this.skeletons.values()].map((binding) => this.skeletonPrim(binding, root, clip));
+
+    const rigged = this.skeletons.size > 0;
+    const rootPrim = usdPrim(
+      rigged ? 'SkelRoot' : 'Xform',
+      this.rootPath.slice(1),
+      xformProperties(root.matrix),
+      [...skeletonPrims, ...hierarchy, ...this.skinnedPrims],
+      [usd.meta('kind', 'component')]
+    );
+    if (this.materialPrims.length > 0) {
+      rootPrim.children.push(usdPrim('Scope', this.materialScope.split('/').pop()!, [], this.materialPrims));
+    }
+
+    const metadata: USDMetadata[] = [
+      usd.meta('customLayerData', usd.dictionary({ creator: { typeName: 'string', value: this.creator } })),
+      usd.meta('defaultPrim', rootPrim.name),
+      usd.meta('metersPerUnit', 1),
+      usd.meta('upAxis', 'Y'),
+    ];
+    if (clip && rigged) {
+      metadata.push(
+        usd.meta('startTimeCode', 0),
+        usd.meta('endTimeCode', Math.max(1, Math.round(clip.duration * FRAME_RATE))),
+        usd.meta('timeCodesPerSecond', FRAME_RATE)
+      );
+    }
+
+    return { metadata, prims: [rootPrim] };
+  }
+
+  private addSkeleton(skeleton: THREE.Skeleton): void {
+    const members = new Set(skeleton.bones);
+    const joints: THREE.Bone[] = [];
+    const tokens: string[] = [];
+    const siblingNames = new Map<string, Set<string>>();
+
+    // Depth-first so every joint follows its parent, as UsdSkel requires
+    const visit = (bone: THREE.Bone, parentToken: string) => {
+      const used = siblingNames.get(parentToken) ?? new Set<string>();
+      siblingNames.set(parentToken, used);
+      const token = `${parentToken ? `${parentToken}/` : ''}${usdIdentifier(bone.name || 'joint', used)}`;
+      joints.push(bone);
+      tokens.push(token);
+      const descend = (object: THREE.Object3D) => {
+        for (const child of object.children) {
+          if (child instanceof THREE.Bone && members.has(child)) visit(child, token);
+          else descend(child);
+        }
+      };
+      descend(bone);
+    };
+    for (const bone of skeleton.bones) {
+      let parent = bone.parent;
+      while (parent && !(parent instanceof THREE.Bone && members.has(parent))) parent = parent.parent;
+      if (!parent) visit(bone, '');
+    }
+
+    const jointIndex = new Map(joints.map((bone, index) => [bone, index]));
+    const bindTransforms = joints.map((bone) => {
+      const inverse = skeleton.boneInverses[skeleton.bones.indexOf(bone)];
+      const bind = inverse ? inverse.clone().invert() : bone.matrixWorld.clone();
+      return this.rootInverse.clone().multiply(bind);
+    });
+
+    const binding: SkeletonBinding = {
+      skeleton,
+      path: `${this.rootPath}/${usdIdentifier('Skeleton', this.rootNames)}`,
+      joints,
+      tokens,
+      jointIndex,
+      bindTransforms,
+    };
+    this.skeletons.set(skeleton, binding);
+    for (const bone of joints) this.boneOwners.set(bone, binding);
+  }
+
+  /**
+   * Emit children as nested Xform/Mesh prims; skinned meshes and everything
+   * parented to joints go directly under the SkelRoot instead
+   */
+  private async addChildren(
+    object: THREE.Object3D,
+    parentWorld: THREE.Matrix4,
+    siblings: USDPrim[],
+    used: Set<string>
+  ): Promise<void> {
+    for (const child of object.children) {
+      if (!child.visible) continue;
+
+      const owner = child instanceof THREE.Bone ? this.boneOwners.get(child) : undefined;
+      if (owner && child instanceof THREE.Bone) {
+        await this.addRigidChildren(child, child, owner);
+        continue;
+      }
+
+      if (child instanceof THREE.SkinnedMesh && this.skeletons.has(child.skeleton)) {
+        await this.addSkinnedMesh(child, this.skeletons.get(child.skeleton)!);
+        await this.addChildren(child, parentWorld, siblings, used);
+        continue;
+      }
+
+      const local = parentWorld.clone().invert().multiply(child.matrixWorld);
+      const name = usdIdentifier(child.name || child.type, used);
+      const children: USDPrim[] = [];
+      await this.addChildren(child, child.matrixWorld, children, new Set());
+
+      if (child instanceof THREE.Mesh) {
+        const mesh = await this.meshPrim(child, children.length > 0 ? 'Geometry' : name);
+        if (children.length === 0) {
+          mesh.properties.unshift(...xformProperties(local));
+          siblings.push(mesh);
+          continue;
+        }
+        children.unshift(mesh);
+      }
+      siblings.push(usdPrim('Xform', name, xformProperties(local), children));
+    }
+  }
+
+  /**
+   * Meshes under a joint become rigidly skinned to it (constant joint influence)
+   */
+  private async addRigidChildren(object: THREE.Object3D, joint: THREE.Bone, binding: SkeletonBinding): Promise<void> {
+    for (const child of object.children) {
+      if (!child.visible) continue;
+      const nearest = child instanceof THREE.Bone && binding.jointIndex.has(child) ? child : joint;
+
+      if (child instanceof THREE.Mesh && !(child instanceof THREE.SkinnedMesh)) {
+        const prim = await this.meshPrim(child, usdIdentifier(child.name || 'Mesh', this.rootNames));
+        const geomBind = this.rootInverse.clone().multiply(child.matrixWorld);
+        prim.metadata = [usd.meta('apiSchemas', ['SkelBindingAPI', 'MaterialBindingAPI'], 'prepend')];
+        prim.properties.push(
+          usd.attribute('int[]', 'primvars:skel:jointIndices', [binding.jointIndex.get(nearest) ?? 0], {
+            metadata: primvarMetadata('constant', 1),
+          }),
+          usd.attribute('float[]', 'primvars:skel:jointWeights', [1], { metadata: primvarMetadata('constant', 1) }),
+          usd.attribute('matrix4d', 'primvars:skel:geomBindTransform', usd.matrix(geomBind.elements)),
+          usd.rel('skel:skeleton', binding.path)
+        );
+        this.skinnedPrims.push(prim);
+      }
+      await this.addRigidChildren(child, nearest, binding);
+    }
+  }
+
+  private async addSkinnedMesh(mesh: THREE.SkinnedMesh, binding: SkeletonBinding): Promise<void> {
+    const prim = await this.meshPrim(mesh, usdIdentifier(mesh.name || 'Mesh', this.rootNames));
+    prim.metadata = [usd.meta('apiSchemas', ['SkelBindingAPI', 'MaterialBindingAPI'], 'prepend')];
+
+    const skinIndex = mesh.geometry.getAttribute('skinIndex');
+    const skinWeight = mesh.geometry.getAttribute('skinWeight');
+    if (skinIndex && skinWeight) {
+      const size = skinIndex.itemSize;
+      const indices: number[] = [];
+      const weights: number[] = [];
+      for (let vertex = 0; vertex < skinIndex.count; vertex++) {
+        for (let k = 0; k < size; k++) {
+          const bone = mesh.skeleton.bones[skinIndex.getComponent(vertex, k)];
+          const weight = skinWeight.getComponent(vertex, k);
+          indices.push(bone && weight > 0 ? binding.jointIndex.get(bone) ?? 0 : 0);
+          weights.push(bone ? weight : 0);
+        }
+      }
+      prim.properties.push(
+        usd.attribute('int[]', 'primvars:skel:jointIndices', indices, { metadata: primvarMetadata('vertex', size) }),
+        usd.attribute('float[]', 'primvars:skel:jointWeights', weights, { metadata: primvarMetadata('vertex', size) })
+      );
+    }
+
+    const geomBind = this.rootInverse.clone().multiply(mesh.bindMatrix);
+    prim.properties.push(
+      usd.attribute('matrix4d', 'primvars:skel:geomBindTransform', usd.matrix(geomBind.elements)),
+      usd.rel('skel:skeleton', binding.path)
+    );
+    this.skinnedPrims.push(prim);
+  }
+
+  private async meshPrim(mesh: THREE.Mesh, name: string): Promise<USDPrim> {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute('position');
+    const properties: USDProperty[] = [];
+    const prim = usdPrim('Mesh', name, properties, [], [usd.meta('apiSchemas', ['MaterialBindingAPI'], 'prepend')]);
+    if (!position) return prim;
+
+    const corners: number[] = [];
+    if (geometry.index) {
+      for (let i = 0; i < geometry.index.count; i++) corners.push(geometry.index.getX(i));
+    } else {
+      for (let i = 0; i < position.count; i++) corners.push(i);
+    }
+    const triangleCount = Math.floor(corners.length / 3);
+    corners.length = triangleCount * 3;
+
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    const points: number[] = [];
+    for (let i = 0; i < position.count; i++) points.push(position.getX(i), position.getY(i), position.getZ(i));
+
+    properties.push(
+      usd.attribute('float3[]', 'extent', [usd.tuple(...box.min.toArray()), usd.tuple(...box.max.toArray())]),
+      usd.attribute('int[]', 'faceVertexCounts', new Array<number>(triangleCount).fill(3)),
+      usd.attribute('int[]', 'faceVertexIndices', corners),
+      usd.attribute('point3f[]', 'points', usd.tuples(points, 3))
+    );
+
+    const normal = geometry.getAttribute('normal');
+    if (normal) {
+      const normals: number[] = [];
+      for (let i = 0; i < normal.count; i++) normals.push(normal.getX(i), normal.getY(i), normal.getZ(i));
+      properties.push(
+        usd.attribute('normal3f[]', 'normals', usd.tuples(normals, 3), { metadata: primvarMetadata('vertex') })
+      );
+    }
+
+    const uv = geometry.getAttribute('uv');
+    if (uv) {
+      const uvs: number[] = [];
+      for (let i = 0; i < uv.count; i++) uvs.push(uv.getX(i), uv.getY(i));
+      properties.push(
+        usd.attribute('texCoord2f[]', 'primvars:st', usd.tuples(uvs, 2), { metadata: primvarMetadata('vertex') })
+      );
+    }
+
+    properties.push(usd.attribute('token', 'subdivisionScheme', 'none', { uniform: true }));
+
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const doubleSided = materials.some((material) => material.side === THREE.DoubleSide);
+    if (doubleSided) properties.push(usd.attribute('bool', 'doubleSided', true, { uniform: true }));
+
+    if (!Array.isArray(mesh.material) || geometry.groups.length === 0) {
+      properties.push(usd.rel('material:binding', await this.materialPath(materials[0]!)));
+      return prim;
+    }
+
+    // One face subset per material
+    properties.push(usd.attribute('token', 'subsetFamily:materialBind:familyType', 'nonOverlapping', { uniform: true }));
+    const facesByMaterial = new Map<number, number[]>();
+    for (const group of geometry.groups) {
+      const materialIndex = group.materialIndex ?? 0;
+      const faces = facesByMaterial.get(materialIndex) ?? [];
+      const last = Math.min(triangleCount, Math.floor((group.start + group.count) / 3));
+      for (let face = Math.floor(group.start / 3); face < last; face++) faces.push(face);
+      facesByMaterial.set(materialIndex, faces);
+    }
+
+    const subsetNames = new Set<string>();
+    for (const [materialIndex, faces] of facesByMaterial) {
+      const material = materials[materialIndex];
+      if (!material || faces.length === 0) continue;
+      prim.children.push(
+        usdPrim(
+          'GeomSubset',
+          usdIdentifier(material.name || `subset_${materialIndex}`, subsetNames),
+          [
+            usd.attribute('token', 'elementType', 'face', { uniform: true }),
+            usd.attribute('token', 'familyName', 'materialBind', { uniform: true }),
+            usd.attribute('int[]', 'indices', faces),
+            usd.rel('material:binding', await this.materialPath(material)),
+          ],
+          [],
+          [usd.meta('apiSchemas', ['MaterialBindingAPI'], 'prepend')]
+        )
+      );
+    }
+    return prim;
+  }
+
+  /**
+   * UsdPreviewSurface network for a material, created once per material
+   */
+  private async materialPath(material: MappedMaterial): Promise<string> {
+    const existing = this.materialPaths.get(material);
+    if (existing) return existing;
+
+    const name = usdIdentifier(material.name || 'Material', this.materialNames);
+    const path = `${this.materialScope}/${name}`;
+    this.materialPaths.set(material, path);
+
+    const surface: USDProperty[] = [
+      usd.attribute('token', 'info:id', 'UsdPreviewSurface', { uniform: true }),
+      usd.attribute('int', 'inputs:useSpecularWorkflow', 0),
+    ];
+    const shaders: USDPrim[] = [];
+    const readerPath = `${path}/PrimvarReader_st`;
+
+    const texture = async (
+      role: string,
+      map: THREE.Texture | null | undefined,
+      colorSpace: 'sRGB' | 'raw',
+      scale?: number[],
+      bias?: number[]
+    ): Promise<string | null> => {
+      const file = await this.texturePath(map);
+      if (!file || !map) return null;
+      const properties: USDProperty[] = [
+        usd.attribute('token', 'info:id', 'UsdUVTexture', { uniform: true }),
+        usd.attribute('asset', 'inputs:file', usd.asset(file)),
+        usd.attribute('float2', 'inputs:st', undefined, { connection: `${readerPath}.outputs:result` }),
+        usd.attribute('token', 'inputs:sourceColorSpace', colorSpace),
+        usd.attribute('token', 'inputs:wrapS', WRAP_MODES[map.wrapS] ?? 'repeat'),
+        usd.attribute('token', 'inputs:wrapT', WRAP_MODES[map.wrapT] ?? 'repeat'),
+      ];
+      if (scale) properties.push(usd.attribute('float4', 'inputs:scale', usd.tuple(...scale)));
+      if (bias) properties.push(usd.attribute('float4', 'inputs:bias', usd.tuple(...bias)));
+      properties.push(
+        usd.attribute('float3', 'outputs:rgb'),
+        usd.attribute('float', 'outputs:r'),
+        usd.attribute('float', 'outputs:g'),
+        usd.attribute('float', 'outputs:b'),
+        usd.attribute('float', 'outputs:a')
+      );
+      shaders.push(usdPrim('Shader', role, properties));
+      return `${path}/${role}`;
+    };
+
+    const color = material.color instanceof THREE.Color ? material.color : new THREE.Color(1, 1, 1);
+    const diffuse = await texture('DiffuseTexture', material.map, 'sRGB', [color.r, color.g, color.b, 1]);
+    surface.push(
+      diffuse
+        ? usd.attribute('color3f', 'inputs:diffuseColor', undefined, { connection: `${diffuse}.outputs:rgb` })
+        : usd.attribute('color3f', 'inputs:diffuseColor', colorTuple(color))
+    );
+
+    if (material instanceof THREE.MeshStandardMaterial) {
+      const roughness = await texture('RoughnessTexture', material.roughnessMap, 'raw', [1, material.roughness, 1, 1]);
+      surface.push(
+        roughness
+          ? usd.attribute('float', 'inputs:roughness', undefined, { connection: `${roughness}.outputs:g` })
+          : usd.attribute('float', 'inputs:roughness', material.roughness)
+      );
+      const metalness = await texture('MetallicTexture', material.metalnessMap, 'raw', [1, 1, material.metalness, 1]);
+      surface.push(
+        metalness
+          ? usd.attribute('float', 'inputs:metallic', undefined, { connection: `${metalness}.outputs:b` })
+          : usd.attribute('float', 'inputs:metallic', material.metalness)
+      );
+
+      const emissive = material.emissive.clone().multiplyScalar(material.emissiveIntensity);
+      const emissiveMap = await texture('EmissiveTexture', material.emissiveMap, 'sRGB', [emissive.r, emissive.g, emissive.b, 1]);
+      surface.push(
+        emissiveMap
+          ? usd.attribute('color3f', 'inputs:emissiveColor', undefined, { connection: `${emissiveMap}.outputs:rgb` })
+          : usd.attribute('color3f', 'inputs:emissiveColor', colorTuple(emissive))
+      );
+
+      const normal = await texture('NormalTexture', material.normalMap, 'raw', [2, 2, 2, 1], [-1, -1, -1, 0]);
+      if (normal) {
+        surface.push(usd.attribute('normal3f', 'inputs:normal', undefined, { connection: `${normal}.outputs:rgb` }));
+      }
+      const occlusion = await texture('OcclusionTexture', material.aoMap, 'raw');
+      if (occlusion) {
+        surface.push(usd.attribute('float', 'inputs:occlusion', undefined, { connection: `${occlusion}.outputs:r` }));
+      }
+    }
+
+    surface.push(usd.attribute('float', 'inputs:opacity', material.transparent ? material.opacity : 1));
+    if (material.alphaTest > 0) {
+      surface.push(usd.attribute('float', 'inputs:opacityThreshold', material.alphaTest));
+    }
+    surface.push(usd.attribute('token', 'outputs:surface'));
+
+    if (shaders.length > 0) {
+      shaders.unshift(
+        usdPrim('Shader', 'PrimvarReader_st', [
+          usd.attribute('token', 'info:id', 'UsdPrimvarReader_float2', { uniform: true }),
+          usd.attribute('token', 'inputs:varname', 'st'),
+          usd.attribute('float2', 'outputs:result'),
+        ])
+      );
+    }
+
+    this.materialPrims.push(
+      usdPrim(
+        'Material',
+        name,
+        [usd.attribute('token', 'outputs:surface', undefined, { connection: `${path}/PreviewSurface.outputs:surface` })],
+        [usdPrim('Shader', 'PreviewSurface', surface), ...shaders]
+      )
+    );
+    return path;
+  }
+
+  /**
+   * Package-relative PNG path for a texture, or null when textures are not embedded
+   */
+  private async texturePath(texture: THREE.Texture | null | undefined): Promise<string | null> {
+    if (!texture || !this.embedTextures) return null;
+    const image: unknown = texture.image;
+    const existing = this.texturePaths.get(image);
+    if (existing) return existing;
+
+    const data = await encodeTextureImage(image);
+    if (!data) {
+      console.warn(`[${this.pluginId}] Skipping texture ${texture.name || texture.uuid}: image cannot be encoded`);
+      return null;
+    }
+
+    const base = usdIdentifier(texture.name || `texture_${this.texturePaths.size}`);
+    let path = `textures/${base}.png`;
+    for (let n = 1; this.usedTexturePaths.has(path); n++) path = `textures/${base}_${n}.png`;
+    this.usedTexturePaths.add(path);
+    this.texturePaths.set(image, path);
+    this.textures.push({ path, data });
+    return path;
+  }
+
+  /**
+   * Skeleton with bind/rest transforms and, when a clip is given, a SkelAnimation sampled at FRAME_RATE
+   */
+  private skeletonPrim(binding: SkeletonBinding, root: THREE.Object3D, clip: THREE.AnimationClip | null): USDPrim {
+    // Sampling an earlier skeleton may have moved shared bones
+    binding.skeleton.pose();
+    root.updateMatrixWorld(true);
+    const rest = binding.joints.map((bone) => this.jointLocal(bone, binding));
+    const properties: USDProperty[] = [
+      usd.attribute('token[]', 'joints', binding.tokens, { uniform: true }),
+      usd.attribute('matrix4d[]', 'bindTransforms', binding.bindTransforms.map((m) => usd.matrix(m.elements)), { uniform: true }),
+      usd.attribute('matrix4d[]', 'restTransforms', rest.map((m) => usd.matrix(m.elements)), { uniform: true }),
+    ];
+    const name = binding.path.split('/').pop()!;
+    const prim = usdPrim('Skeleton', name, properties, [], [usd.meta('apiSchemas', ['SkelBindingAPI'], 'prepend')]);
+    if (!clip) return prim;
+
+    const translations: Array<[number, number[]]> = [];
+    const rotations: Array<[number, number[]]> = [];
+    const scales: Array<[number, number[]]> = [];
+    const mixer = new THREE.AnimationMixer(root);
+    mixer.clipAction(clip).play();
+
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    const frames = Math.max(1, Math.round(clip.duration * FRAME_RATE));
+    for (let frame = 0; frame <= frames; frame++) {
+      mixer.setTime(Math.min(clip.duration, frame / FRAME_RATE));
+      root.updateMatrixWorld(true);
+
+      const t: number[] = [];
+      const r: number[] = [];
+      const s: number[] = [];
+      for (const bone of binding.joints) {
+        this.jointLocal(bone, binding).decompose(position, quaternion, scale);
+        t.push(position.x, position.y, position.z);
+        // USD quaternions are written real part first
+        r.push(quaternion.w, quaternion.x, quaternion.y, quaternion.z);
+        s.push(scale.x, scale.y, scale.z);
+      }
+      translations.push([frame, t]);
+      rotations.push([frame, r]);
+      scales.push([frame, s]);
+    }
+    mixer.stopAllAction();
+    mixer.uncacheRoot(root);
+
+    const animationPath = `${binding.path}/Animation`;
+    prim.children.push(
+      usdPrim('SkelAnimation', 'Animation', [
+        usd.attribute('token[]', 'joints', binding.tokens, { uniform: true }),
+        usd.attribute('float3[]', 'translations', undefined, {
+          timeSamples: translations.map(([time, values]) => [time, usd.tuples(values, 3)]),
+        }),
+        usd.attribute('quatf[]', 'rotations', undefined, {
+          timeSamples: rotations.map(([time, values]) => [time, usd.tuples(values, 4)]),
+        }),
+        usd.attribute('half3[]', 'scales', undefined, {
+          timeSamples: scales.map(([time, values]) => [time, usd.tuples(values, 3)]),
+        }),
+      ])
+    );
+    properties.push(usd.rel('skel:animationSource', animationPath));
+    return prim;
+  }
+
+  /**
+   * Joint transform relative to its parent joint (skeleton space for root joints)
+   */
+  private jointLocal(bone: THREE.Bone, binding: SkeletonBinding): THREE.Matrix4 {
+    let parent = bone.parent;
+    while (parent && !(parent instanceof THREE.Bone && binding.jointIndex.has(parent))) parent = parent.parent;
+    const parentWorld = parent ? parent.matrixWorld : this.rootInverse.clone().invert();
+    return parentWorld.clone().invert().multiply(bone.matrixWorld);
+  }
+}
+
+/**
+ * USDExporterPlugin
+ * Exports characters as USDA text or a USDZ package
+ * Note: USDA output references no textures; USDZ embeds them as PNG files
+ */
+export class USDExporterPlugin extends BasePlugin implements ExporterPlugin {
+  readonly id = 'usd-exporter';
+  readonly name = 'USD Exporter';
+  readonly version = '1.0.0';
+  readonly type = 'exporter' as const;
+
+  async export(character: Character, options: USDExportOptions): Promise<Blob | string> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Character has no model to export');
+    }
+
+    const format = options.format;
+    if (format !== 'usda' && format !== 'usdz') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${format}. Use 'usda' or 'usdz'.`);
+    }
+
+    const clips = options.includeAnimations ? character.model.animations : [];
+    const source = options.animation ? clips.find((clip) => clip.name === options.animation) : clips[0];
+    if (options.includeAnimations && options.animation && !source) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Animation not found: ${options.animation}`);
+    }
+
+    // Export from a clone in bind pose so the live character keeps its pose and bone names
+    const model = SkeletonUtils.clone(character.model);
+    model.traverse((child) => {
+      if (child instanceof THREE.SkinnedMesh) {
+        child.skeleton.pose();
+      }
+    });
+    const [clip] = renameBones(model, options.boneNaming ?? 'canonical', source ? [source] : []);
+
+    const baseName = usdIdentifier(character.name || 'Character');
+    try {
+      const builder = new USDSceneBuilder(this.id, `${this.name} ${this.version}`, format === 'usdz');
+      const text = writeUSDA(await builder.build(model, baseName, clip ?? null));
+      if (format === 'usda') {
+        return text;
+      }
+
+      // The root layer must be the first file; entries are stored uncompressed and 64-byte aligned
+      const zip = await createZip([{ path: `${baseName}.usda`, data: text }, ...builder.textures], {
+        compress: false,
+        alignment: USDZ_ALIGNMENT,
+      });
+      return new Blob([zip], { type: 'model/vnd.usdz+zip' });
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'USD export failed',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  getSupportedFormats(): ExportFormat[] {
+    return ['usda', 'usdz'];
+  }
+
+  /**
+   * Export to downloadable file
+   */
+  async exportToFile(character: Character, filename: string, options: USDExportOptions): Promise<void> {
+    const result = await this.export(character, options);
+    const blob = result instanceof Blob ? result : new Blob([result], { type: 'text/plain' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
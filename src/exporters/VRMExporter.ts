@@ -0,0 +1,550 @@
+/**
+ * VRMExporterPlugin - Export rigged humanoids as VRM 1.0 avatars
+ * A GLB written by the three.js glTF pipeline plus:
+ * - VRMC_vrm: meta, humanoid bone mapping, first-person annotations, look-at and expressions
+ * - VRMC_materials_mtoon on every material of 'toon' characters
+ * The exported skeleton is normalized to the T-pose VRM expects as its rest pose
+ */
+
+import * as THREE from 'three';
+import { GLTFExporter as ThreeGLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import type { GLTFExporterPlugin as ThreeGLTFWriterPlugin, GLTFWriter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  ExporterPlugin,
+  Character,
+  ExportFormat,
+  ExportOptions,
+} from '../plugins/types.js';
+import { HUMANOID_BONES } from '../rigging/SkeletonBuilder.js';
+import { renameBones, resolveHumanoidBones } from '../rigging/BoneNaming.js';
+import type { GLTFJSON } from './GLBContainer.js';
+
+/**
+ * VRM 1.0 avatar meta; unset fields use the spec's most restrictive defaults
+ */
+export interface VRMMeta {
+  name: string;
+  version?: string;
+  authors: string[];
+  copyrightInformation?: string;
+  contactInformation?: string;
+  licenseUrl: string;
+  avatarPermission: 'onlyAuthor' | 'onlySeparatelyLicensedPerson' | 'everyone';
+  allowExcessivelyViolentUsage: boolean;
+  allowExcessivelySexualUsage: boolean;
+  commercialUsage: 'personalNonProfit' | 'personalProfit' | 'corporation';
+  allowPoliticalOrReligiousUsage: boolean;
+  allowAntisocialOrHateUsage: boolean;
+  creditNotation: 'required' | 'unnecessary';
+  allowRedistribution: boolean;
+  modification: 'prohibited' | 'allowModification' | 'allowModificationRedistribution';
+}
+
+/**
+ * VRM export options
+ */
+export interface VRMExportOptions extends ExportOptions {
+  meta?: Partial<VRMMeta>;
+  /** Convert materials to MToon (default: when the character's textureStyle is 'toon') */
+  mtoon?: boolean;
+}
+
+type VRMHumanBoneName =
+  | 'hips' | 'spine' | 'chest' | 'upperChest' | 'neck' | 'head'
+  | 'leftShoulder' | 'leftUpperArm' | 'leftLowerArm' | 'leftHand'
+  | 'rightShoulder' | 'rightUpperArm' | 'rightLowerArm' | 'rightHand'
+  | 'leftUpperLeg' | 'leftLowerLeg' | 'leftFoot' | 'leftToes'
+  | 'rightUpperLeg' | 'rightLowerLeg' | 'rightFoot' | 'rightToes';
+
+/**
+ * Internals of three's GLTFWriter that its own plugins rely on but the typings leave out
+ */
+interface GLTFWriterInternals {
+  json: GLTFJSON & { extensions?: Record<string, unknown> };
+  nodeMap: Map<THREE.Object3D, number>;
+  extensionsUsed: Record<string, boolean>;
+}
+
+type GLTFMaterialDef = {
+  pbrMetallicRoughness?: { baseColorFactor?: number[]; baseColorTexture?: { index: number; texCoord?: number } };
+  extensions?: Record<string, unknown>;
+};
+
+const VRM_EXTENSION = 'VRMC_vrm';
+const MTOON_EXTENSION = 'VRMC_materials_mtoon';
+
+const DEFAULT_META: Omit<VRMMeta, 'name'> = {
+  authors: ['Three.js Character Generator'],
+  licenseUrl: 'https://vrm.dev/licenses/1.0/',
+  avatarPermission: 'onlyAuthor',
+  allowExcessivelyViolentUsage: false,
+  allowExcessivelySexualUsage: false,
+  commercialUsage: 'personalNonProfit',
+  allowPoliticalOrReligiousUsage: false,
+  allowAntisocialOrHateUsage: false,
+  creditNotation: 'required',
+  allowRedistribution: false,
+  modification: 'prohibited',
+};
+
+/** Bones on the body's midline */
+const CENTER_BONES: Array<[string, VRMHumanBoneName]> = [
+  [HUMANOID_BONES.HIPS, 'hips'],
+  [HUMANOID_BONES.SPINE, 'spine'],
+  [HUMANOID_BONES.SPINE1, 'chest'],
+  [HUMANOID_BONES.SPINE2, 'upperChest'],
+  [HUMANOID_BONES.NECK, 'neck'],
+  [HUMANOID_BONES.HEAD, 'head'],
+];
+
+/**
+ * Paired bones as [canonical left, canonical right, VRM name without side]
+ */
+const PAIRED_BONES: Array<[string, string, string]> = [
+  [HUMANOID_BONES.LEFT_SHOULDER, HUMANOID_BONES.RIGHT_SHOULDER, 'Shoulder'],
+  [HUMANOID_BONES.LEFT_ARM, HUMANOID_BONES.RIGHT_ARM, 'UpperArm'],
+  [HUMANOID_BONES.LEFT_FOREARM, HUMANOID_BONES.RIGHT_FOREARM, 'LowerArm'],
+  [HUMANOID_BONES.LEFT_HAND, HUMANOID_BONES.RIGHT_HAND, 'Hand'],
+  [HUMANOID_BONES.LEFT_UPLEG, HUMANOID_BONES.RIGHT_UPLEG, 'UpperLeg'],
+  [HUMANOID_BONES.LEFT_LEG, HUMANOID_BONES.RIGHT_LEG, 'LowerLeg'],
+  [HUMANOID_BONES.LEFT_FOOT, HUMANOID_BONES.RIGHT_FOOT, 'Foot'],
+  [HUMANOID_BONES.LEFT_TOE, HUMANOID_BONES.RIGHT_TOE, 'Toes'],
+];
+
+const REQUIRED_BONES: VRMHumanBoneName[] = [
+  'hips', 'spine', 'head',
+  'leftUpperArm', 'leftLowerArm', 'leftHand', 'rightUpperArm', 'rightLowerArm', 'rightHand',
+  'leftUpperLeg', 'leftLowerLeg', 'leftFoot', 'rightUpperLeg', 'rightLowerLeg', 'rightFoot',
+];
+
+const PRESET_EXPRESSIONS = [
+  'happy', 'angry', 'sad', 'relaxed', 'surprised',
+  'aa', 'ih', 'ou', 'ee', 'oh',
+  'blink', 'blinkLeft', 'blinkRight',
+  'lookUp', 'lookDown', 'lookLeft', 'lookRight',
+  'neutral',
+] as const;
+
+type VRMPresetExpression = (typeof PRESET_EXPRESSIONS)[number];
+
+/** Common morph target names for the presets, lower-cased */
+const EXPRESSION_ALIASES: Record<string, VRMPresetExpression> = {
+  joy: 'happy',
+  smile: 'happy',
+  fun: 'relaxed',
+  sorrow: 'sad',
+  surprise: 'surprised',
+  a: 'aa',
+  i: 'ih',
+  u: 'ou',
+  e: 'ee',
+  o: 'oh',
+  blink_l: 'blinkLeft',
+  blink_r: 'blinkRight',
+};
+
+const LOOK_EXPRESSIONS: VRMPresetExpression[] = ['lookUp', 'lookDown', 'lookLeft', 'lookRight'];
+
+/** Max eye rotation in degrees */
+const LOOK_AT_RANGE = 90;
+/** Bone look-at output in degrees; expression look-at outputs a weight */
+const LOOK_AT_BONE_SCALE = 10;
+
+/** Shade colour as a fraction of the lit colour */
+const MTOON_SHADE = 0.6;
+
+interface ExpressionBind {
+  mesh: THREE.Mesh;
+  index: number;
+}
+
+/**
+ * Map a morph target name to a preset expression, or null for a custom one
+ */
+function presetExpression(name: string): VRMPresetExpression | null {
+  const preset = PRESET_EXPRESSIONS.find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  return preset ?? EXPRESSION_ALIASES[name.toLowerCase()] ?? null;
+}
+
+/**
+ * Find the humanoid bones and map them to VRM names
+ * VRM's left is the avatar's own left, which is how resolveHumanoidBones() reads sides
+ */
+function resolveHumanBones(model: THREE.Object3D): Map<VRMHumanBoneName, THREE.Bone> {
+  const vrmNames = new Map<string, VRMHumanBoneName>(CENTER_BONES);
+  for (const [left, right, suffix] of PAIRED_BONES) {
+    vrmNames.set(left, `left${suffix}` as VRMHumanBoneName);
+    vrmNames.set(right, `right${suffix}` as VRMHumanBoneName);
+  }
+
+  const humanBones = new Map<VRMHumanBoneName, THREE.Bone>();
+  for (const [bone, id] of resolveHumanoidBones(model)) {
+    const vrmName = vrmNames.get(id);
+    if (vrmName && !humanBones.has(vrmName)) humanBones.set(vrmName, bone);
+  }
+
+  return humanBones;
+}
+
+/**
+ * Rotate bone so the direction towards child points along target (world space)
+ */
+function aimBone(bone: THREE.Bone, child: THREE.Bone, target: THREE.Vector3): void {
+  bone.updateMatrixWorld(true);
+  const from = child.getWorldPosition(new THREE.Vector3()).sub(bone.getWorldPosition(new THREE.Vector3()));
+  if (from.lengthSq() === 0) return;
+
+  const delta = new THREE.Quaternion().setFromUnitVectors(from.normalize(), target);
+  const world = delta.multiply(bone.getWorldQuaternion(new THREE.Quaternion()));
+  const parentWorld = bone.parent ? bone.parent.getWorldQuaternion(new THREE.Quaternion()) : new THREE.Quaternion();
+  bone.quaternion.copy(parentWorld.invert().multiply(world));
+  bone.updateMatrixWorld(true);
+}
+
+/**
+ * Bake the current pose of a skinned mesh into its geometry and make it the bind pose
+ */
+function bakeSkinnedPose(mesh: THREE.SkinnedMesh): void {
+  const geometry = mesh.geometry.clone();
+  const position = geometry.getAttribute('position');
+  const normal = geometry.getAttribute('normal');
+  const skinIndex = geometry.getAttribute('skinIndex');
+  const skinWeight = geometry.getAttribute('skinWeight');
+  const { bones, boneInverses } = mesh.skeleton;
+
+  const vertex = new THREE.Vector3();
+  const blended = new THREE.Matrix4();
+  const boneMatrix = new THREE.Matrix4();
+  const normalMatrix = new THREE.Matrix3();
+
+  for (let i = 0; i < position.count; i++) {
+    vertex.fromBufferAttribute(position, i);
+    mesh.applyBoneTransform(i, vertex);
+    position.setXYZ(i, vertex.x, vertex.y, vertex.z);
+
+    if (!normal) continue;
+    blended.elements.fill(0);
+    for (let k = 0; k < 4; k++) {
+      const weight = skinWeight.getComponent(i, k);
+      const bone = bones[skinIndex.getComponent(i, k)];
+      const inverse = boneInverses[skinIndex.getComponent(i, k)];
+      if (weight === 0 || !bone || !inverse) continue;
+      boneMatrix.multiplyMatrices(bone.matrixWorld, inverse);
+      for (let e = 0; e < 16; e++) {
+        blended.elements[e]! += boneMatrix.elements[e]! * weight;
+      }
+    }
+    blended.premultiply(mesh.bindMatrixInverse).multiply(mesh.bindMatrix);
+    vertex.fromBufferAttribute(normal, i).applyMatrix3(normalMatrix.getNormalMatrix(blended)).normalize();
+    normal.setXYZ(i, vertex.x, vertex.y, vertex.z);
+  }
+
+  // tangents would need the same rotation; exporters regenerate them from the normals
+  if (geometry.getAttribute('tangent')) geometry.deleteAttribute('tangent');
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  mesh.geometry = geometry;
+}
+
+/**
+ * Pose the arms straight out along ±X and make that pose the bind pose
+ */
+function normalizeToTPose(model: THREE.Object3D, humanBones: Map<VRMHumanBoneName, THREE.Bone>): void {
+  model.updateMatrixWorld(true);
+
+  for (const side of ['left', 'right'] as const) {
+    const target = new THREE.Vector3(side === 'left' ? 1 : -1, 0, 0);
+    const chain = [
+      humanBones.get(`${side}UpperArm`),
+      humanBones.get(`${side}LowerArm`),
+      humanBones.get(`${side}Hand`),
+    ];
+    for (let i = 0; i < chain.length - 1; i++) {
+      const bone = chain[i];
+      const child = chain[i + 1];
+      if (bone && child) aimBone(bone, child, target);
+    }
+  }
+  model.updateMatrixWorld(true);
+
+  const skeletons = new Set<THREE.Skeleton>();
+  model.traverse((child) => {
+    if (child instanceof THREE.SkinnedMesh) {
+      bakeSkinnedPose(child);
+      skeletons.add(child.skeleton);
+    }
+  });
+  for (const skeleton of skeletons) {
+    skeleton.calculateInverses();
+  }
+}
+
+/**
+ * Eye position relative to the head bone, from the front of the vertices it dominates
+ */
+function estimateEyeOffset(model: THREE.Object3D, head: THREE.Bone): [number, number, number] {
+  const box = new THREE.Box3();
+  const vertex = new THREE.Vector3();
+
+  model.traverse((child) => {
+    if (child instanceof THREE.SkinnedMesh) {
+      const headIndex = child.skeleton.bones.indexOf(head);
+      if (headIndex < 0) return;
+      const position = child.geometry.getAttribute('position');
+      const skinIndex = child.geometry.getAttribute('skinIndex');
+      const skinWeight = child.geometry.getAttribute('skinWeight');
+      for (let i = 0; i < position.count; i++) {
+        let dominant = -1;
+        let best = 0;
+        for (let k = 0; k < 4; k++) {
+          if (skinWeight.getComponent(i, k) > best) {
+            best = skinWeight.getComponent(i, k);
+            dominant = skinIndex.getComponent(i, k);
+          }
+        }
+        if (dominant === headIndex) {
+          box.expandByPoint(vertex.fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld));
+        }
+      }
+    }
+  });
+
+  if (box.isEmpty()) {
+    head.traverse((child) => {
+      if (child instanceof THREE.Mesh) box.expandByObject(child);
+    });
+  }
+  if (box.isEmpty()) return [0, 0, 0];
+
+  const eye = box.getCenter(new THREE.Vector3());
+  eye.z = box.max.z;
+  const local = eye.sub(head.getWorldPosition(new THREE.Vector3()));
+  local.applyQuaternion(head.getWorldQuaternion(new THREE.Quaternion()).invert());
+  return [local.x, local.y, local.z];
+}
+
+function isUnderBone(object: THREE.Object3D, bone: THREE.Bone): boolean {
+  for (let parent = object.parent; parent; parent = parent.parent) {
+    if (parent === bone) return true;
+  }
+  return false;
+}
+
+/**
+ * GLTFWriter plugin adding the VRM extensions
+ */
+class VRMWriterPlugin implements ThreeGLTFWriterPlugin {
+  private readonly writer: GLTFWriterInternals;
+
+  constructor(
+    writer: GLTFWriter,
+    private readonly model: THREE.Object3D,
+    private readonly humanBones: Map<VRMHumanBoneName, THREE.Bone>,
+    private readonly meta: VRMMeta,
+    private readonly mtoon: boolean
+  ) {
+    this.writer = writer as unknown as GLTFWriterInternals;
+  }
+
+  writeMaterial(_material: THREE.Material, materialDef: GLTFMaterialDef): void {
+    if (!this.mtoon) return;
+
+    const pbr = materialDef.pbrMetallicRoughness;
+    const [r = 1, g = 1, b = 1] = pbr?.baseColorFactor ?? [];
+    materialDef.extensions ??= {};
+    materialDef.extensions[MTOON_EXTENSION] = {
+      specVersion: '1.0',
+      transparentWithZWrite: false,
+      renderQueueOffsetNumber: 0,
+      shadeColorFactor: [r * MTOON_SHADE, g * MTOON_SHADE, b * MTOON_SHADE],
+      ...(pbr?.baseColorTexture && { shadeMultiplyTexture: { ...pbr.baseColorTexture } }),
+      shadingShiftFactor: 0,
+      shadingToonyFactor: 0.9,
+      giEqualizationFactor: 0.9,
+      matcapFactor: [0, 0, 0],
+      parametricRimColorFactor: [0, 0, 0],
+      rimLightingMixFactor: 1,
+      parametricRimFresnelPowerFactor: 5,
+      parametricRimLiftFactor: 0,
+      outlineWidthMode: 'worldCoordinates',
+      outlineWidthFactor: 0.002,
+      outlineColorFactor: [0, 0, 0],
+      outlineLightingMixFactor: 1,
+    };
+    this.writer.extensionsUsed[MTOON_EXTENSION] = true;
+  }
+
+  afterParse(): void {
+    const humanBones: Record<string, { node: number }> = {};
+    for (const [name, bone] of this.humanBones) {
+      const node = this.writer.nodeMap.get(bone);
+      if (node !== undefined) humanBones[name] = { node };
+    }
+
+    const expressions = this.buildExpressions();
+    const hasLookExpressions = LOOK_EXPRESSIONS.some((name) => expressions.preset[name]);
+    const head = this.humanBones.get('head')!;
+    const rangeMap = { inputMaxValue: LOOK_AT_RANGE, outputScale: hasLookExpressions ? 1 : LOOK_AT_BONE_SCALE };
+
+    this.writer.json.extensions ??= {};
+    this.writer.json.extensions[VRM_EXTENSION] = {
+      specVersion: '1.0',
+      meta: this.meta,
+      humanoid: { humanBones },
+      firstPerson: { meshAnnotations: this.buildMeshAnnotations(head) },
+      lookAt: {
+        offsetFromHeadBone: estimateEyeOffset(this.model, head),
+        type: hasLookExpressions ? 'expression' : 'bone',
+        rangeMapHorizontalInner: rangeMap,
+        rangeMapHorizontalOuter: rangeMap,
+        rangeMapVerticalDown: rangeMap,
+        rangeMapVerticalUp: rangeMap,
+      },
+      ...((Object.keys(expressions.preset).length > 0 || Object.keys(expressions.custom).length > 0) && { expressions }),
+    };
+    this.writer.extensionsUsed[VRM_EXTENSION] = true;
+  }
+
+  /**
+   * Skinned meshes are split by the runtime; rigid parts on the head are hidden in first person
+   */
+  private buildMeshAnnotations(head: THREE.Bone): Array<{ node: number; type: string }> {
+    const annotations: Array<{ node: number; type: string }> = [];
+    this.model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const node = this.writer.nodeMap.get(child);
+      if (node === undefined) return;
+      const type = child instanceof THREE.SkinnedMesh ? 'auto' : isUnderBone(child, head) ? 'thirdPersonOnly' : 'both';
+      annotations.push({ node, type });
+    });
+    return annotations;
+  }
+
+  /**
+   * One expression per morph target name, binding every mesh that has it at full weight
+   */
+  private buildExpressions(): { preset: Record<string, unknown>; custom: Record<string, unknown> } {
+    const binds = new Map<string, ExpressionBind[]>();
+    this.model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.morphTargetDictionary) return;
+      for (const [name, index] of Object.entries(child.morphTargetDictionary)) {
+        const list = binds.get(name) ?? [];
+        list.push({ mesh: child, index });
+        binds.set(name, list);
+      }
+    });
+
+    const preset: Record<string, unknown> = {};
+    const custom: Record<string, unknown> = {};
+    for (const [name, list] of binds) {
+      const morphTargetBinds = list.flatMap(({ mesh, index }) => {
+        const node = this.writer.nodeMap.get(mesh);
+        return node === undefined ? [] : [{ node, index, weight: 1 }];
+      });
+      if (morphTargetBinds.length === 0) continue;
+
+      const expression = { morphTargetBinds, isBinary: false };
+      const presetName = presetExpression(name);
+      if (presetName && !preset[presetName]) {
+        preset[presetName] = expression;
+      } else {
+        custom[name] = expression;
+      }
+    }
+    return { preset, custom };
+  }
+}
+
+/**
+ * VRMExporterPlugin
+ * Exports autoRig humanoids as .vrm (binary glTF)
+ * Note: animations are not included - VRM avatars are driven by the host application
+ */
+export class VRMExporterPlugin extends BasePlugin implements ExporterPlugin {
+  readonly id = 'vrm-exporter';
+  readonly name = 'VRM Exporter';
+  readonly version = '1.0.0';
+  readonly type = 'exporter' as const;
+
+  async export(character: Character, options: VRMExportOptions): Promise<Blob> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Character has no model to export');
+    }
+
+    if (options.format !== 'vrm') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `Unsupported format: ${options.format}`);
+    }
+
+    if (character.type !== 'humanoid') {
+      throw new PluginError(this.id, 'EXPORT_FAILED', `VRM requires a humanoid character, got '${character.type}'`);
+    }
+
+    // Export from a clone in bind pose so the live character keeps its pose, geometry and bone names
+    const model = SkeletonUtils.clone(character.model);
+    model.traverse((child) => {
+      if (child instanceof THREE.SkinnedMesh) {
+        child.skeleton.pose();
+      }
+    });
+    model.updateMatrixWorld(true);
+
+    const humanBones = resolveHumanBones(model);
+    const missing = REQUIRED_BONES.filter((name) => !humanBones.has(name));
+    if (missing.length > 0) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        `Character is missing humanoid bones (${missing.join(', ')}); generate it with autoRig enabled`
+      );
+    }
+
+    const meta: VRMMeta = {
+      name: character.name || 'Character',
+      ...DEFAULT_META,
+      ...options.meta,
+    };
+    const mtoon = options.mtoon ?? character.generationParams.options.textureStyle === 'toon';
+
+    try {
+      normalizeToTPose(model, humanBones);
+      renameBones(model, options.boneNaming ?? 'canonical', []);
+
+      const exporter = new ThreeGLTFExporter().register(
+        (writer) => new VRMWriterPlugin(writer, model, humanBones, meta, mtoon)
+      );
+      // TRS nodes: VRM runtimes read humanoid bone rotations directly
+      const glb = await exporter.parseAsync(model, { binary: true, trs: true, onlyVisible: true });
+      return new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' });
+    } catch (error) {
+      throw new PluginError(
+        this.id,
+        'EXPORT_FAILED',
+        'VRM export failed',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  getSupportedFormats(): ExportFormat[] {
+    return ['vrm'];
+  }
+
+  /**
+   * Export to downloadable file
+   */
+  async exportToFile(character: Character, filename: string, options: VRMExportOptions): Promise<void> {
+    const blob = await this.export(character, options);
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * ZipArchive - Minimal ZIP writer for multi-file exports
+ * Entries are deflated through the platform CompressionStream and stored
+ * as-is when deflate does not make them smaller (PNG, WebP, KTX2, ...)
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+  /** Defaults to now */
+  modified?: Date;
+}
+
+export interface ZipOptions {
+  /** Deflate entries that shrink (default true); false stores everything */
+  compress?: boolean;
+  /** Pad local headers so each entry's data starts at a multiple of this (USDZ uses 64) */
+  alignment?: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+const ZIP_VERSION = 20;
+/** Extra field id for alignment padding, as written by USD's own packager */
+const PADDING_FIELD = 0x1986;
+
+const textEncoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (crcTable[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const output = new Blob([data.slice()]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * MS-DOS date and time fields
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries
+ */
+export async function createZip(entries: ZipEntry[], options: ZipOptions = {}): Promise<Blob> {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = textEncoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? textEncoder.encode(entry.data) : entry.data;
+    const deflated = options.compress === false ? data : await deflateRaw(data);
+    const useDeflate = deflated.length < data.length;
+    const body = useDeflate ? deflated : data;
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORE;
+    const crc = crc32(data);
+    const stamp = dosDateTime(entry.modified ?? new Date());
+
+    // Padding lives in an extra field, which needs at least its 4-byte header
+    let padding = 0;
+    if (options.alignment && options.alignment > 1) {
+      padding = (options.alignment - ((offset + 30 + name.length) % options.alignment)) % options.alignment;
+      if (padding > 0 && padding < 4) padding += options.alignment;
+    }
+
+    const local = new Uint8Array(30 + name.length + padding);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, ZIP_VERSION, true);
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, stamp.time, true);
+    lv.setUint16(12, stamp.date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, padding, true);
+    local.set(name, 30);
+    if (padding > 0) {
+      lv.setUint16(30 + name.length, PADDING_FIELD, true);
+      lv.setUint16(32 + name.length, padding - 4, true);
+    }
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, ZIP_VERSION, true);
+    cv.setUint16(6, ZIP_VERSION, true);
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, method, true);
+    cv.setUint16(12, stamp.time, true);
+    cv.setUint16(14, stamp.date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, body);
+    central.push(header);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end].map((part) => part.slice()), { type: 'application/zip' });
+}
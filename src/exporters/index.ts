@@ -3,4 +3,50 @@
  */
 
 export { GLTFExporterPlugin } from './GLTFExporter.js';
+export type {
+  GLTFExportOptions,
+  GLTFExportResult,
+  GLTFCompressionReport,
+  ExportManifestEntry,
+} from './GLTFExporter.js';
+export { compressGLTF, KHR_MESH_QUANTIZATION, EXT_MESHOPT_COMPRESSION } from './GLTFCompression.js';
+export type { GLTFCompressionOptions } from './GLTFCompression.js';
+export { readGLB, writeGLB, toEmbeddedGLTF } from './GLBContainer.js';
+export { reencodeTextures, externalizeTextures, EXT_TEXTURE_WEBP, KHR_TEXTURE_BASISU } from './GLTFTextures.js';
+export type { TextureFormat, KTX2Encoder, ExternalTexture } from './GLTFTextures.js';
+export { encodeTextureImage } from './ImageEncoding.js';
+export { createZip } from './ZipArchive.js';
+export type { ZipEntry, ZipOptions } from './ZipArchive.js';
+export type { GLBContent, GLTFJSON } from './GLBContainer.js';
+export { encodeVertexBuffer, encodeIndexSequence } from './MeshoptEncoder.js';
 export { OBJExporterPlugin } from './OBJExporter.js';
+export type { OBJExportOptions } from './OBJExporter.js';
+export { FBXExporterPlugin } from './FBXExporter.js';
+export { readFBX, writeFBX, fbx, fbxNode, fbxString } from './FBXBinary.js';
+export type { FBXNode, FBXProperty, FBXDocument, FBXWriteOptions } from './FBXBinary.js';
+export { JSONExporterPlugin } from './JSONExporter.js';
+export {
+  CHARACTER_DOCUMENT_FORMAT,
+  CHARACTER_DOCUMENT_VERSION,
+  CharacterDocumentSchema,
+  createCharacterDocument,
+  createEditorCharacterDocument,
+  parseCharacterDocument,
+  readEditorConfig,
+} from './CharacterDocument.js';
+export type { CharacterDocument, MaterialOverride } from './CharacterDocument.js';
+export { STLExporterPlugin } from './STLExporter.js';
+export type { STLExportOptions } from './STLExporter.js';
+export { ThreeMFExporterPlugin } from './ThreeMFExporter.js';
+export { buildPrintGeometry } from './PrintPreparation.js';
+export type { PrintExportOptions, BasePlateOptions, PrintGeometry } from './PrintPreparation.js';
+export { USDExporterPlugin } from './USDExporter.js';
+export type { USDExportOptions } from './USDExporter.js';
+export { parseUSDA, writeUSDA, findUSDPrim, getUSDAttribute, usd, usdPrim } from './USDAText.js';
+export type { USDLayer, USDPrim, USDProperty, USDAttribute, USDRelationship, USDValue } from './USDAText.js';
+export { VRMExporterPlugin } from './VRMExporter.js';
+export type { VRMExportOptions, VRMMeta } from './VRMExporter.js';
+export { SpriteSheetExporterPlugin } from './SpriteSheetExporter.js';
+export type { SpriteSheetExportOptions, SpriteCameraOptions, SpriteSheet } from './SpriteSheetExporter.js';
+export { packSprites, trimBounds } from './SpriteAtlas.js';
+export type { TexturePackerAtlas, TexturePackerFrame, SpriteRect, PackedAtlas } from './SpriteAtlas.js';
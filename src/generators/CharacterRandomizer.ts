@@ -10,10 +10,12 @@ import type {
   GenerationParams,
   GeneratorPlugin,
 } from '../plugins/types.js';
+import { getPluginManager } from '../plugins/PluginManager.js';
 import { HumanoidGenerator } from './HumanoidGenerator.js';
 import { CreatureGenerator } from './CreatureGenerator.js';
 import { MonsterGenerator } from './MonsterGenerator.js';
 import { MechanicalGenerator } from './MechanicalGenerator.js';
+import { SeededRandom } from './SeededRandom.js';
 
 /**
  * Style options for each character type
@@ -60,48 +62,6 @@ export interface BatchOptions extends RandomizerOptions {
   ensureVariety?: boolean | undefined;
 }
 
-/**
- * Seeded random number generator
- */
-class SeededRandom {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  next(): number {
-    this.seed = (this.seed * 1103515245 + 12345) & 0x7fffffff;
-    return this.seed / 0x7fffffff;
-  }
-
-  nextInt(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-
-  pick<T>(array: T[]): T {
-    const item = array[this.nextInt(0, array.length - 1)];
-    if (item === undefined) {
-      throw new Error('Array is empty');
-    }
-    return item;
-  }
-
-  shuffle<T>(array: T[]): T[] {
-    const result = [...array];
-    for (let i = result.length - 1; i > 0; i--) {
-      const j = this.nextInt(0, i);
-      const temp = result[i];
-      const jItem = result[j];
-      if (temp !== undefined && jItem !== undefined) {
-        result[i] = jItem;
-        result[j] = temp;
-      }
-    }
-    return result;
-  }
-}
-
 /**
  * CharacterRandomizer
  * Generates random character variations using all available generators
@@ -146,7 +106,7 @@ export class CharacterRandomizer {
 
     const rng = new SeededRandom(options.seed ?? Date.now());
     const params = this.generateRandomParams(rng, options);
-    const generator = this.generators.get(params.type);
+    const generator = this.generatorFor(params.type);
 
     if (!generator) {
       throw new Error(`No generator for type: ${params.type}`);
@@ -196,7 +156,7 @@ export class CharacterRandomizer {
 
       usedCombinations.add(`${params.type}-${params.style}`);
 
-      const generator = this.generators.get(params.type);
+      const generator = this.generatorFor(params.type);
       if (!generator) continue;
 
       const character = await generator.generate(params);
@@ -211,6 +171,13 @@ export class CharacterRandomizer {
     return characters;
   }
 
+  /**
+   * Built-in generator for a type, else one registered with the plugin manager (e.g. a loaded plugin)
+   */
+  private generatorFor(type: CharacterType): GeneratorPlugin | undefined {
+    return this.generators.get(type) ?? getPluginManager().findGeneratorFor(type);
+  }
+
   /**
    * Generate random parameters
    */
@@ -5,6 +5,8 @@
 
 import * as THREE from 'three';
 import { BasePlugin } from '../plugins/BasePlugin.js';
+import { getSkeletonBuilder, type CreatureRigConfig } from '../rigging/SkeletonBuilder.js';
+import { getAnimationBuilder } from '../rigging/AnimationBuilder.js';
 import type {
   GeneratorPlugin,
   Character,
@@ -26,6 +28,7 @@ interface CreatureProportions {
   neckLength: number;
   tailLength: number;
   tailSegments: number;
+  spineSegments: number;
   legLength: number;
   legCount: number;
   wingSpan: number;
@@ -117,6 +120,7 @@ const DEFAULT_PROPORTIONS: CreatureProportions = {
   neckLength: 0.1,
   tailLength: 0.3,
   tailSegments: 4,
+  spineSegments: 3,
   legLength: 0.3,
   legCount: 4,
   wingSpan: 0,
@@ -175,6 +179,10 @@ export class CreatureGenerator extends BasePlugin implements GeneratorPlugin {
 
     creatureRoot.name = `creature-${++this.creatureCount}`;
 
+    if (params.options.autoRig) {
+      this.rigCreature(creatureRoot, preset.bodyType, proportions, scale, params.options.includeAnimations);
+    }
+
     const metadata = this.calculateMetadata(creatureRoot);
 
     const character: Character = {
@@ -277,26 +285,17 @@ export class CreatureGenerator extends BasePlugin implements GeneratorPlugin {
 
   private buildSerpentine(props: CreatureProportions, scale: number, material: THREE.Material): THREE.Group {
     const root = new THREE.Group();
-    const segmentCount = props.tailSegments;
-    const segmentLength = (props.bodyLength * scale) / segmentCount;
     const baseRadius = props.bodyWidth * scale * 0.5;
 
-    for (let i = 0; i < segmentCount; i++) {
-      const t = i / segmentCount;
+    this.getSerpentinePath(props, scale).forEach((position, i, path) => {
+      const t = i / path.length;
       const radius = baseRadius * (1 - t * 0.5); // Taper toward tail
       const segGeom = new THREE.SphereGeometry(radius, 8, 6);
       const segment = new THREE.Mesh(segGeom, material);
-
-      // Create S-curve
-      const angle = t * Math.PI * 2;
-      segment.position.set(
-        i * segmentLength - props.bodyLength * scale * 0.5,
-        radius + Math.sin(angle) * 0.1 * scale,
-        Math.sin(angle * 0.5) * 0.2 * scale
-      );
+      segment.position.copy(position);
       segment.name = `segment_${i}`;
       root.add(segment);
-    }
+    });
 
     // Head
     const headGeom = new THREE.SphereGeometry(props.headSize * scale, 12, 8);
@@ -309,6 +308,31 @@ export class CreatureGenerator extends BasePlugin implements GeneratorPlugin {
     return root;
   }
 
+  /**
+   * Segment centers of a serpentine body, laid out on an S-curve from head to tail
+   */
+  private getSerpentinePath(props: CreatureProportions, scale: number): THREE.Vector3[] {
+    const segmentCount = props.tailSegments;
+    const segmentLength = (props.bodyLength * scale) / segmentCount;
+    const baseRadius = props.bodyWidth * scale * 0.5;
+    const path: THREE.Vector3[] = [];
+
+    for (let i = 0; i < segmentCount; i++) {
+      const t = i / segmentCount;
+      const radius = baseRadius * (1 - t * 0.5);
+
+      // Create S-curve
+      const angle = t * Math.PI * 2;
+      path.push(new THREE.Vector3(
+        i * segmentLength - props.bodyLength * scale * 0.5,
+        radius + Math.sin(angle) * 0.1 * scale,
+        Math.sin(angle * 0.5) * 0.2 * scale
+      ));
+    }
+
+    return path;
+  }
+
   private buildAvian(props: CreatureProportions, scale: number, material: THREE.Material): THREE.Group {
     const root = new THREE.Group();
 
@@ -478,12 +502,55 @@ export class CreatureGenerator extends BasePlugin implements GeneratorPlugin {
     }
   }
 
+  /**
+   * Bind the creature's parts to a rig derived from its proportions
+   */
+  private rigCreature(
+    root: THREE.Group,
+    bodyType: CreatureBodyType,
+    props: CreatureProportions,
+    scale: number,
+    includeAnimations: boolean
+  ): void {
+    const config: CreatureRigConfig = {
+      bodyLength: props.bodyLength * scale,
+      bodyWidth: props.bodyWidth * scale,
+      bodyHeight: props.bodyHeight * scale,
+      headSize: props.headSize * scale,
+      neckLength: props.neckLength * scale,
+      tailLength: props.tailLength * scale,
+      tailSegments: props.tailSegments,
+      spineSegments: props.spineSegments,
+      legLength: props.legLength * scale,
+      legCount: props.legCount,
+      wingSpan: props.wingSpan * scale,
+    };
+    if (bodyType === 'serpentine') {
+      config.spinePath = this.getSerpentinePath(props, scale);
+    }
+
+    const skeletonBuilder = getSkeletonBuilder();
+    const skeleton = skeletonBuilder.buildCreature(bodyType, config);
+
+    const body = skeletonBuilder.bindParts(root, skeleton);
+    body.name = 'body';
+    root.add(body);
+
+    if (includeAnimations) {
+      root.animations = getAnimationBuilder().createAnimationsForRig(skeleton);
+    }
+  }
+
   private calculateMetadata(model: THREE.Group): Omit<CharacterMetadata, 'createdAt' | 'updatedAt' | 'plugins_used'> {
     let vertices = 0;
     let faces = 0;
+    let bones = 0;
     const materials = new Set<THREE.Material>();
 
     model.traverse((child) => {
+      if (child instanceof THREE.Bone) {
+        bones++;
+      }
       if (child instanceof THREE.Mesh) {
         const geometry = child.geometry;
         if (geometry instanceof THREE.BufferGeometry) {
@@ -509,7 +576,7 @@ export class CreatureGenerator extends BasePlugin implements GeneratorPlugin {
     return {
       vertices,
       faces: Math.floor(faces),
-      bones: 0,
+      bones,
       materials: materials.size,
     };
   }
@@ -8,6 +8,8 @@
 
 import * as THREE from 'three';
 import { BasePlugin } from '../plugins/BasePlugin.js';
+import { getSkeletonBuilder, type SkeletonConfig } from '../rigging/SkeletonBuilder.js';
+import { getAnimationBuilder } from '../rigging/AnimationBuilder.js';
 import type {
   GeneratorPlugin,
   Character,
@@ -170,6 +172,11 @@ export class HumanoidGenerator extends BasePlugin implements GeneratorPlugin {
     const characterRoot = this.buildHumanoid(proportions, totalHeight, bodyMaterial);
     characterRoot.name = `humanoid-${++this.characterCount}`;
 
+    // Replace loose primitives with a skinned mesh when rigging is requested
+    if (params.options.autoRig) {
+      this.rigHumanoid(characterRoot, proportions, totalHeight, params.options.includeAnimations);
+    }
+
     // Calculate metadata
     const metadata = this.calculateMetadata(characterRoot);
 
@@ -305,15 +312,59 @@ export class HumanoidGenerator extends BasePlugin implements GeneratorPlugin {
     return root;
   }
 
+  /**
+   * Bind the body parts to a skeleton sized from the same proportions
+   */
+  private rigHumanoid(
+    root: THREE.Group,
+    props: HumanoidProportions,
+    height: number,
+    includeAnimations: boolean
+  ): void {
+    const skeletonBuilder = getSkeletonBuilder();
+    const skeleton = skeletonBuilder.buildHumanoid(this.getSkeletonConfig(props, height));
+
+    const body = skeletonBuilder.bindParts(root, skeleton);
+    body.name = 'body';
+    root.add(body);
+
+    if (includeAnimations) {
+      root.animations = getAnimationBuilder().createAnimationsForRig(skeleton, 'humanoid');
+    }
+  }
+
+  /**
+   * Convert generator proportions to the skeleton's ratio-based config
+   * Joint positions line up with where buildHumanoid() places each part
+   */
+  private getSkeletonConfig(props: HumanoidProportions, height: number): Partial<SkeletonConfig> {
+    return {
+      height,
+      proportions: {
+        legRatio: props.footHeight + props.legLength,
+        torsoRatio: props.torsoHeight,
+        armRatio: props.armLength,
+        headRatio: props.headHeight,
+      },
+      shoulderWidth: (props.torsoWidth + props.armWidth * 2) * height,
+      hipWidth: props.torsoWidth * 0.25 * height,
+    };
+  }
+
   /**
    * Calculate metadata for a character model
    */
   private calculateMetadata(model: THREE.Group): Omit<CharacterMetadata, 'createdAt' | 'updatedAt' | 'plugins_used'> {
     let vertices = 0;
     let faces = 0;
+    let bones = 0;
     const materials = new Set<THREE.Material>();
 
     model.traverse((child) => {
+      if (child instanceof THREE.Bone) {
+        bones++;
+      }
+
       if (child instanceof THREE.Mesh) {
         const geometry = child.geometry;
         if (geometry instanceof THREE.BufferGeometry) {
@@ -340,7 +391,7 @@ export class HumanoidGenerator extends BasePlugin implements GeneratorPlugin {
     return {
       vertices,
       faces: Math.floor(faces),
-      bones: 0, // No rigging yet
+      bones,
       materials: materials.size,
     };
   }
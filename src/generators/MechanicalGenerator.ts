@@ -5,6 +5,15 @@
 
 import * as THREE from 'three';
 import { BasePlugin } from '../plugins/BasePlugin.js';
+import {
+  getSkeletonBuilder,
+  MECHANICAL_BONES,
+  spiderLegBoneName,
+  mechLegBoneName,
+  type MechanicalLimb,
+  type MechanicalRigConfig,
+} from '../rigging/SkeletonBuilder.js';
+import { getAnimationBuilder } from '../rigging/AnimationBuilder.js';
 import type {
   GeneratorPlugin,
   Character,
@@ -107,6 +116,18 @@ const MECH_PRESETS: Record<string, { proportions: Partial<MechProportions>; mate
   },
 };
 
+/**
+ * Parts that ride on a neighbouring limb or pivot bone instead of their own
+ */
+const RIGID_PART_BONES: Array<[RegExp, string]> = [
+  [/^arm_joint_(\d+)$/, 'arm_lower_$1'],
+  [/^rotor_housing_(\d+)$/, 'drone_arm_$1'],
+  [/^leg_hip_(\d+)$/, 'leg_upper_$1'],
+  [/^leg_knee_(\d+)$/, 'leg_lower_$1'],
+  [/^thruster_glow_(\d+)$/, 'thruster_$1'],
+  [/^(visor|antenna_\d+)$/, MECHANICAL_BONES.HEAD],
+];
+
 const DEFAULT_PROPORTIONS: MechProportions = {
   coreSize: 0.3,
   headSize: 0.12,
@@ -165,9 +186,19 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
       emissiveIntensity: 0.8,
     });
 
-    const mechRoot = this.buildMech(proportions, scale, primaryMaterial, accentMaterial, glowMaterial, presetKey);
+    const rig: MechanicalRigConfig = {
+      corePosition: new THREE.Vector3(),
+      limbs: [],
+      pivots: [],
+    };
+
+    const mechRoot = this.buildMech(proportions, scale, primaryMaterial, accentMaterial, glowMaterial, presetKey, rig);
     mechRoot.name = `mech-${++this.mechCount}`;
 
+    if (params.options.autoRig) {
+      this.rigMech(mechRoot, rig, params.options.includeAnimations);
+    }
+
     const metadata = this.calculateMetadata(mechRoot);
 
     const character: Character = {
@@ -193,7 +224,8 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     primaryMat: THREE.Material,
     accentMat: THREE.Material,
     glowMat: THREE.Material,
-    style: string
+    style: string,
+    rig: MechanicalRigConfig
   ): THREE.Group {
     const root = new THREE.Group();
 
@@ -217,6 +249,7 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     core.position.y = baseY + props.coreSize * scale * 0.6;
     core.name = 'core';
     root.add(core);
+    rig.corePosition.copy(core.position);
 
     // Add panel details
     this.addPanelDetails(root, core.position, props.coreSize * scale, accentMat);
@@ -232,6 +265,7 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
       head.position.set(0, baseY + props.coreSize * scale * 1.3 + props.headSize * scale * 0.5, 0);
       head.name = 'head';
       root.add(head);
+      rig.headPosition = new THREE.Vector3(0, baseY + props.coreSize * scale * 1.3, 0);
 
       // Visor/eyes
       this.addVisor(root, head.position, props.headSize * scale, glowMat);
@@ -245,34 +279,34 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     // Arms
     for (let i = 0; i < props.armCount; i++) {
       if (style === 'drone') {
-        this.addDroneArm(root, props, scale, i, primaryMat, glowMat);
+        this.addDroneArm(root, props, scale, i, primaryMat, glowMat, rig);
       } else {
-        this.addMechArm(root, props, scale, baseY, i, primaryMat, accentMat);
+        this.addMechArm(root, props, scale, baseY, i, primaryMat, accentMat, rig);
       }
     }
 
     // Legs
     for (let i = 0; i < props.legCount; i++) {
       if (style === 'spider_bot') {
-        this.addSpiderLeg(root, props, scale, i, primaryMat);
+        this.addSpiderLeg(root, props, scale, i, primaryMat, rig);
       } else {
-        this.addMechLeg(root, props, scale, i, primaryMat, accentMat);
+        this.addMechLeg(root, props, scale, i, primaryMat, accentMat, rig);
       }
     }
 
     // Wheels
     if (props.hasWheels) {
-      this.addWheels(root, props.coreSize * scale, accentMat);
+      this.addWheels(root, props.coreSize * scale, accentMat, rig);
     }
 
     // Treads
     if (props.hasTreads) {
-      this.addTreads(root, props.coreSize * scale, accentMat);
+      this.addTreads(root, props.coreSize * scale, accentMat, rig);
     }
 
     // Thrusters
     if (props.hasThrusters) {
-      this.addThrusters(root, props, scale, baseY, accentMat, glowMat, style);
+      this.addThrusters(root, props, scale, baseY, accentMat, glowMat, style, rig);
     }
 
     return root;
@@ -320,7 +354,8 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     baseY: number,
     index: number,
     primaryMat: THREE.Material,
-    accentMat: THREE.Material
+    accentMat: THREE.Material,
+    rig: MechanicalRigConfig
   ): void {
     const side = index % 2 === 0 ? 1 : -1;
 
@@ -353,6 +388,15 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     hand.position.set(shoulderX, shoulderY - props.armLength * scale, 0);
     hand.name = `arm_hand_${index}`;
     root.add(hand);
+
+    rig.limbs.push({
+      bones: [`arm_upper_${index}`, `arm_lower_${index}`, `arm_hand_${index}`],
+      joints: [
+        new THREE.Vector3(shoulderX, shoulderY, 0),
+        joint.position.clone(),
+        new THREE.Vector3(shoulderX, shoulderY - props.armLength * scale + props.armWidth * scale * 0.4, 0),
+      ],
+    });
   }
 
   private addDroneArm(
@@ -361,7 +405,8 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     scale: number,
     index: number,
     primaryMat: THREE.Material,
-    glowMat: THREE.Material
+    glowMat: THREE.Material,
+    rig: MechanicalRigConfig
   ): void {
     const angle = (index / props.armCount) * Math.PI * 2 + Math.PI / 4;
 
@@ -396,6 +441,11 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     rotor.position.y += 0.04 * scale;
     rotor.name = `rotor_${index}`;
     root.add(rotor);
+
+    rig.limbs.push({
+      bones: [`drone_arm_${index}`, `rotor_${index}`],
+      joints: [new THREE.Vector3(0, 0.5 * scale, 0), rotor.position.clone()],
+    });
   }
 
   private addMechLeg(
@@ -404,7 +454,8 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     scale: number,
     index: number,
     primaryMat: THREE.Material,
-    accentMat: THREE.Material
+    accentMat: THREE.Material,
+    rig: MechanicalRigConfig
   ): void {
     const side = index % 2 === 0 ? 1 : -1;
     const zOffset = Math.floor(index / 2) * props.legWidth * scale * 2;
@@ -422,7 +473,7 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     const upperGeom = new THREE.BoxGeometry(props.legWidth * scale, props.legLength * scale * 0.5, props.legWidth * scale * 0.8);
     const upper = new THREE.Mesh(upperGeom, primaryMat);
     upper.position.set(hipX, hipY - props.legLength * scale * 0.25, zOffset);
-    upper.name = `leg_upper_${index}`;
+    upper.name = mechLegBoneName('upper', index);
     root.add(upper);
 
     // Knee joint
@@ -436,15 +487,24 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     const lowerGeom = new THREE.BoxGeometry(props.legWidth * scale * 0.9, props.legLength * scale * 0.5, props.legWidth * scale * 0.7);
     const lower = new THREE.Mesh(lowerGeom, primaryMat);
     lower.position.set(hipX, hipY - props.legLength * scale * 0.75, zOffset);
-    lower.name = `leg_lower_${index}`;
+    lower.name = mechLegBoneName('lower', index);
     root.add(lower);
 
     // Foot
     const footGeom = new THREE.BoxGeometry(props.legWidth * scale * 1.5, props.legWidth * scale * 0.3, props.legWidth * scale * 1.2);
     const foot = new THREE.Mesh(footGeom, accentMat);
     foot.position.set(hipX, props.legWidth * scale * 0.15, zOffset + props.legWidth * scale * 0.2);
-    foot.name = `leg_foot_${index}`;
+    foot.name = mechLegBoneName('foot', index);
     root.add(foot);
+
+    rig.limbs.push({
+      bones: [upper.name, lower.name, foot.name],
+      joints: [
+        hip.position.clone(),
+        knee.position.clone(),
+        new THREE.Vector3(hipX, props.legWidth * scale * 0.3, zOffset),
+      ],
+    });
   }
 
   private addSpiderLeg(
@@ -452,10 +512,12 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     props: MechProportions,
     scale: number,
     index: number,
-    material: THREE.Material
+    material: THREE.Material,
+    rig: MechanicalRigConfig
   ): void {
     const angle = (index / props.legCount) * Math.PI * 2;
     const segments = 3;
+    const limb: MechanicalLimb = { bones: [], joints: [] };
     const segmentLength = props.legLength * scale / segments;
 
     let prevPos = new THREE.Vector3(
@@ -493,14 +555,19 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
       seg.lookAt(nextPos);
       seg.rotateX(Math.PI / 2);
 
-      seg.name = `spider_leg_${index}_seg_${i}`;
+      seg.name = spiderLegBoneName(index, i);
       root.add(seg);
 
+      limb.bones.push(seg.name);
+      limb.joints.push(prevPos.clone());
+
       prevPos = nextPos;
     }
+
+    rig.limbs.push(limb);
   }
 
-  private addWheels(root: THREE.Group, coreSize: number, material: THREE.Material): void {
+  private addWheels(root: THREE.Group, coreSize: number, material: THREE.Material, rig: MechanicalRigConfig): void {
     const wheelRadius = coreSize * 0.3;
     const wheelWidth = coreSize * 0.15;
     const wheelGeom = new THREE.CylinderGeometry(wheelRadius, wheelRadius, wheelWidth, 16);
@@ -520,11 +587,12 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
         wheel.position.set(pos.x, wheelRadius, pos.z);
         wheel.name = `wheel_${i}`;
         root.add(wheel);
+        rig.pivots.push({ name: wheel.name, position: wheel.position.clone() });
       }
     }
   }
 
-  private addTreads(root: THREE.Group, coreSize: number, material: THREE.Material): void {
+  private addTreads(root: THREE.Group, coreSize: number, material: THREE.Material, rig: MechanicalRigConfig): void {
     const treadGeom = new THREE.BoxGeometry(coreSize * 1.2, coreSize * 0.2, coreSize * 0.3);
 
     for (let i = 0; i < 2; i++) {
@@ -533,6 +601,7 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
       tread.position.set(0, coreSize * 0.1, side * coreSize * 0.5);
       tread.name = `tread_${i}`;
       root.add(tread);
+      rig.pivots.push({ name: tread.name, position: tread.position.clone() });
     }
   }
 
@@ -543,7 +612,8 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     baseY: number,
     accentMat: THREE.Material,
     glowMat: THREE.Material,
-    style: string
+    style: string,
+    rig: MechanicalRigConfig
   ): void {
     const thrusterCount = style === 'drone' ? 0 : 2;
 
@@ -558,6 +628,7 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
       );
       thruster.name = `thruster_${i}`;
       root.add(thruster);
+      rig.pivots.push({ name: thruster.name, position: thruster.position.clone() });
 
       // Glow effect
       const glowGeom = new THREE.CylinderGeometry(0.04 * scale, 0.06 * scale, 0.05 * scale, 8);
@@ -569,12 +640,40 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
     }
   }
 
+  /**
+   * Bind every rigid part to its limb or pivot bone (no weight blending)
+   */
+  private rigMech(root: THREE.Group, rig: MechanicalRigConfig, includeAnimations: boolean): void {
+    const skeletonBuilder = getSkeletonBuilder();
+    const skeleton = skeletonBuilder.buildMechanical(rig);
+    const boneNames = new Set(skeleton.bones.map((bone) => bone.name));
+
+    const body = skeletonBuilder.bindPartsRigid(root, skeleton, (part) => {
+      let boneName = part.name;
+      for (const [pattern, replacement] of RIGID_PART_BONES) {
+        if (pattern.test(part.name)) {
+          boneName = part.name.replace(pattern, replacement);
+          break;
+        }
+      }
+      return boneNames.has(boneName) ? boneName : MECHANICAL_BONES.CORE;
+    });
+    body.name = 'body';
+    root.add(body);
+
+    if (includeAnimations) {
+      root.animations = getAnimationBuilder().createAnimationsForRig(skeleton);
+    }
+  }
+
   private calculateMetadata(model: THREE.Group): Omit<CharacterMetadata, 'createdAt' | 'updatedAt' | 'plugins_used'> {
     let vertices = 0;
     let faces = 0;
+    let bones = 0;
     const materials = new Set<THREE.Material>();
 
     model.traverse((child) => {
+      if (child instanceof THREE.Bone) bones++;
       if (child instanceof THREE.Mesh) {
         const geometry = child.geometry;
         if (geometry instanceof THREE.BufferGeometry) {
@@ -592,7 +691,7 @@ export class MechanicalGenerator extends BasePlugin implements GeneratorPlugin {
       }
     });
 
-    return { vertices, faces: Math.floor(faces), bones: 0, materials: materials.size };
+    return { vertices, faces: Math.floor(faces), bones, materials: materials.size };
   }
 
   getSupportedTypes(): CharacterType[] {
@@ -12,6 +12,7 @@ import type {
   GenerationParams,
   CharacterMetadata,
 } from '../plugins/types.js';
+import { SeededRandom, randomSeed } from './SeededRandom.js';
 
 interface MonsterProportions {
   bodySize: number;
@@ -146,7 +147,11 @@ export class MonsterGenerator extends BasePlugin implements GeneratorPlugin {
       opacity: presetKey === 'ghost' ? 0.6 : presetKey === 'slime' ? 0.8 : 1.0,
     });
 
-    const monsterRoot = this.buildMonster(proportions, scale, material, presetKey);
+    // Bubbles and spike heights are random; record the seed so the monster can be regenerated
+    const seed = params.seed ?? randomSeed();
+    const rng = new SeededRandom(seed);
+
+    const monsterRoot = this.buildMonster(proportions, scale, material, presetKey, rng);
     monsterRoot.name = `monster-${++this.monsterCount}`;
 
     const metadata = this.calculateMetadata(monsterRoot);
@@ -162,7 +167,7 @@ export class MonsterGenerator extends BasePlugin implements GeneratorPlugin {
         updatedAt: new Date(),
         plugins_used: [this.id],
       },
-      generationParams: params,
+      generationParams: { ...params, seed },
     };
 
     return character;
@@ -172,13 +177,14 @@ export class MonsterGenerator extends BasePlugin implements GeneratorPlugin {
     props: MonsterProportions,
     scale: number,
     material: THREE.Material,
-    style: string
+    style: string,
+    rng: SeededRandom
   ): THREE.Group {
     const root = new THREE.Group();
 
     // Special case for slime
     if (style === 'slime') {
-      return this.buildSlime(props, scale, material);
+      return this.buildSlime(props, scale, material, rng);
     }
 
     const baseY = props.legCount > 0 ? props.legLength * scale : 0;
@@ -275,13 +281,13 @@ export class MonsterGenerator extends BasePlugin implements GeneratorPlugin {
 
     // Spikes
     if (props.spikeCount > 0) {
-      this.addSpikes(root, props.bodySize * scale, props.spikeCount, baseY, material);
+      this.addSpikes(root, props.bodySize * scale, props.spikeCount, baseY, material, rng);
     }
 
     return root;
   }
 
-  private buildSlime(props: MonsterProportions, scale: number, material: THREE.Material): THREE.Group {
+  private buildSlime(props: MonsterProportions, scale: number, material: THREE.Material, rng: SeededRandom): THREE.Group {
     const root = new THREE.Group();
 
     // Main blob
@@ -294,13 +300,13 @@ export class MonsterGenerator extends BasePlugin implements GeneratorPlugin {
 
     // Add small bubbles
     for (let i = 0; i < 5; i++) {
-      const bubbleSize = Math.random() * 0.1 + 0.05;
+      const bubbleSize = rng.next() * 0.1 + 0.05;
       const bubbleGeom = new THREE.SphereGeometry(bubbleSize * scale, 8, 6);
       const bubble = new THREE.Mesh(bubbleGeom, material);
       const angle = (i / 5) * Math.PI * 2;
       bubble.position.set(
         Math.cos(angle) * props.bodySize * scale * 0.3,
-        props.bodySize * scale * 0.2 + Math.random() * 0.1,
+        props.bodySize * scale * 0.2 + rng.next() * 0.1,
         Math.sin(angle) * props.bodySize * scale * 0.3
       );
       bubble.name = `bubble_${i}`;
@@ -412,7 +418,8 @@ export class MonsterGenerator extends BasePlugin implements GeneratorPlugin {
     bodySize: number,
     count: number,
     baseY: number,
-    material: THREE.Material
+    material: THREE.Material,
+    rng: SeededRandom
   ): void {
     for (let i = 0; i < count; i++) {
       const angle = (i / count) * Math.PI * 2;
@@ -421,7 +428,7 @@ export class MonsterGenerator extends BasePlugin implements GeneratorPlugin {
 
       spike.position.set(
         Math.cos(angle) * bodySize * 0.45,
-        baseY + bodySize * 0.5 + (Math.random() - 0.5) * bodySize * 0.5,
+        baseY + bodySize * 0.5 + (rng.next() - 0.5) * bodySize * 0.5,
         Math.sin(angle) * bodySize * 0.45
       );
       spike.lookAt(
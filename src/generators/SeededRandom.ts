@@ -0,0 +1,53 @@
+/**
+ * SeededRandom - Deterministic random numbers for procedural generation
+ */
+
+/**
+ * Seeded random number generator (LCG)
+ * Generators take their seed from GenerationParams.seed so a character can be regenerated
+ */
+export class SeededRandom {
+  private seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed;
+  }
+
+  next(): number {
+    this.seed = (this.seed * 1103515245 + 12345) & 0x7fffffff;
+    return this.seed / 0x7fffffff;
+  }
+
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  pick<T>(array: T[]): T {
+    const item = array[this.nextInt(0, array.length - 1)];
+    if (item === undefined) {
+      throw new Error('Array is empty');
+    }
+    return item;
+  }
+
+  shuffle<T>(array: T[]): T[] {
+    const result = [...array];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.nextInt(0, i);
+      const temp = result[i];
+      const jItem = result[j];
+      if (temp !== undefined && jItem !== undefined) {
+        result[i] = jItem;
+        result[j] = temp;
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Fresh seed for callers that were not given one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
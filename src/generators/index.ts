@@ -6,6 +6,7 @@ export { HumanoidGenerator } from './HumanoidGenerator.js';
 export { CreatureGenerator } from './CreatureGenerator.js';
 export { MonsterGenerator } from './MonsterGenerator.js';
 export { MechanicalGenerator } from './MechanicalGenerator.js';
+export { SeededRandom, randomSeed } from './SeededRandom.js';
 export {
   CharacterRandomizer,
   getCharacterRandomizer,
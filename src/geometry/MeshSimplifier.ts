@@ -0,0 +1,464 @@
+/**
+ * MeshSimplifier - Quadric error metric decimation
+ * Following H70 threejs-3d-graphics patterns
+ *
+ * Garland-Heckbert quadrics with half-edge collapses: a vertex is always
+ * merged into one of its neighbours, so UVs, normals and skin weights carry
+ * over untouched. Collapses run on positions, so vertices split by UV/normal
+ * seams move together with their partners on the far side of the seam.
+ * Only open borders are locked, which keeps outlines intact.
+ */
+
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+export interface SimplifyOptions {
+  /** Fraction of triangles to keep (0-1) */
+  ratio?: number;
+  /** Absolute triangle budget; wins over ratio when lower */
+  targetTriangles?: number;
+  /** Stop once the cheapest collapse costs more than this (squared model units) */
+  maxError?: number;
+}
+
+export interface SimplifyResult {
+  geometry: THREE.BufferGeometry;
+  originalTriangles: number;
+  triangles: number;
+}
+
+/** Collapses that would turn a face normal by more than ~80 degrees are rejected */
+const MIN_NORMAL_DOT = 0.2;
+
+const QUADRIC_SIZE = 10;
+
+interface Collapse {
+  cost: number;
+  from: number;
+  to: number;
+  fromVersion: number;
+  toVersion: number;
+}
+
+/**
+ * Binary min-heap keyed on collapse cost
+ */
+class CollapseHeap {
+  private readonly items: Collapse[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: Collapse): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      const parentItem = items[parent];
+      if (!parentItem || parentItem.cost <= item.cost) break;
+      items[i] = parentItem;
+      i = parent;
+    }
+    items[i] = item;
+  }
+
+  pop(): Collapse | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (!top || !last || items.length === 0) return top;
+
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      let smallestCost = last.cost;
+      const leftItem = items[left];
+      const rightItem = items[right];
+      if (leftItem && leftItem.cost < smallestCost) {
+        smallest = left;
+        smallestCost = leftItem.cost;
+      }
+      if (rightItem && rightItem.cost < smallestCost) {
+        smallest = right;
+      }
+      if (smallest === i) break;
+      items[i] = items[smallest] as Collapse;
+      i = smallest;
+    }
+    items[i] = last;
+    return top;
+  }
+}
+
+/**
+ * MeshSimplifier - Reduces triangle counts while preserving shape
+ */
+export class MeshSimplifier {
+  /**
+   * Count triangles in a geometry
+   */
+  countTriangles(geometry: THREE.BufferGeometry): number {
+    const count = geometry.index ? geometry.index.count : geometry.getAttribute('position')?.count ?? 0;
+    return Math.floor(count / 3);
+  }
+
+  /**
+   * Simplify a geometry; the input is left untouched
+   */
+  simplify(source: THREE.BufferGeometry, options: SimplifyOptions = {}): SimplifyResult {
+    // Triangle soups have to be welded first or every vertex looks like a seam
+    const geometry = source.index ? source : mergeVertices(source);
+    const index = geometry.index;
+    const position = geometry.getAttribute('position');
+    const originalTriangles = this.countTriangles(source);
+
+    let target = Math.floor(originalTriangles * THREE.MathUtils.clamp(options.ratio ?? 1, 0, 1));
+    if (options.targetTriangles !== undefined) {
+      target = Math.min(target, Math.max(0, Math.floor(options.targetTriangles)));
+    }
+
+    if (!index || !position || target >= originalTriangles) {
+      return { geometry: source.clone(), originalTriangles, triangles: originalTriangles };
+    }
+
+    const vertexCount = position.count;
+    const triangleCount = index.count / 3;
+    const triangles = new Uint32Array(index.array);
+    const alive = new Uint8Array(triangleCount).fill(1);
+
+    // Collapses work on points (unique positions); each point owns the vertices split on it by seams
+    const { pointOf, pointCount } = this.weldPositions(position);
+    const positions = new Float64Array(pointCount * 3);
+    for (let v = 0; v < vertexCount; v++) {
+      const point = pointOf[v] as number;
+      positions[point * 3] = position.getX(v);
+      positions[point * 3 + 1] = position.getY(v);
+      positions[point * 3 + 2] = position.getZ(v);
+    }
+
+    const pointTriangles: number[][] = Array.from({ length: pointCount }, () => []);
+    const pointCorners = new Uint32Array(triangles.length);
+    for (let i = 0; i < triangles.length; i++) {
+      const point = pointOf[triangles[i] as number] as number;
+      pointCorners[i] = point;
+      pointTriangles[point]?.push(Math.floor(i / 3));
+    }
+
+    const locked = this.findLockedPoints(pointCorners, pointCount);
+    const quadrics = this.computeQuadrics(positions, pointCorners, pointCount);
+    const versions = new Uint32Array(pointCount);
+
+    const heap = new CollapseHeap();
+    const pushCollapse = (from: number, to: number): void => {
+      if (locked[from]) return;
+      heap.push({
+        cost: this.collapseCost(quadrics, positions, from, to),
+        from,
+        to,
+        fromVersion: versions[from] as number,
+        toVersion: versions[to] as number,
+      });
+    };
+
+    for (let t = 0; t < triangleCount; t++) {
+      for (let k = 0; k < 3; k++) {
+        const a = pointCorners[t * 3 + k] as number;
+        const b = pointCorners[t * 3 + ((k + 1) % 3)] as number;
+        pushCollapse(a, b);
+        pushCollapse(b, a);
+      }
+    }
+
+    let remaining = triangleCount;
+    const maxError = options.maxError ?? Infinity;
+
+    while (remaining > target && heap.size > 0) {
+      const collapse = heap.pop();
+      if (!collapse) break;
+      const { from, to } = collapse;
+      if (collapse.fromVersion !== versions[from] || collapse.toVersion !== versions[to]) continue;
+      if (collapse.cost > maxError) break;
+
+      const vertexMap = this.planCollapse(positions, triangles, pointCorners, alive, pointTriangles, from, to);
+      if (!vertexMap) continue;
+
+      // Move every triangle from `from` to `to`; the ones spanning the edge disappear
+      const fromTriangles = pointTriangles[from] ?? [];
+      const toTriangles = pointTriangles[to] ?? [];
+      for (const t of fromTriangles) {
+        if (!alive[t]) continue;
+        const base = t * 3;
+        if (pointCorners[base] === to || pointCorners[base + 1] === to || pointCorners[base + 2] === to) {
+          alive[t] = 0;
+          remaining--;
+          continue;
+        }
+        for (let k = 0; k < 3; k++) {
+          if (pointCorners[base + k] !== from) continue;
+          pointCorners[base + k] = to;
+          triangles[base + k] = vertexMap.get(triangles[base + k] as number) as number;
+        }
+        toTriangles.push(t);
+      }
+      pointTriangles[from] = [];
+      pointTriangles[to] = toTriangles.filter((t) => alive[t]);
+
+      for (let i = 0; i < QUADRIC_SIZE; i++) {
+        quadrics[to * QUADRIC_SIZE + i] = (quadrics[to * QUADRIC_SIZE + i] ?? 0) + (quadrics[from * QUADRIC_SIZE + i] ?? 0);
+      }
+      versions[from] = (versions[from] as number) + 1;
+      versions[to] = (versions[to] as number) + 1;
+
+      for (const neighbour of this.getNeighbours(pointCorners, pointTriangles[to] ?? [], to)) {
+        pushCollapse(to, neighbour);
+        pushCollapse(neighbour, to);
+      }
+    }
+
+    return {
+      geometry: this.buildGeometry(geometry, triangles, alive),
+      originalTriangles,
+      triangles: remaining,
+    };
+  }
+
+  /**
+   * Give vertices sharing a position the same point id
+   */
+  private weldPositions(position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): { pointOf: Uint32Array; pointCount: number } {
+    const pointOf = new Uint32Array(position.count);
+    const byPosition = new Map<string, number>();
+
+    for (let v = 0; v < position.count; v++) {
+      const key = `${Math.round(position.getX(v) * 1e5)},${Math.round(position.getY(v) * 1e5)},${Math.round(position.getZ(v) * 1e5)}`;
+      let point = byPosition.get(key);
+      if (point === undefined) {
+        point = byPosition.size;
+        byPosition.set(key, point);
+      }
+      pointOf[v] = point;
+    }
+
+    return { pointOf, pointCount: byPosition.size };
+  }
+
+  /**
+   * Lock points on open borders and non-manifold edges
+   * Seams are closed in point space, so they are not locked
+   */
+  private findLockedPoints(pointCorners: Uint32Array, pointCount: number): Uint8Array {
+    const locked = new Uint8Array(pointCount);
+    const edgeUses = new Map<string, number>();
+    const edgeKey = (a: number, b: number): string => (a < b ? `${a}_${b}` : `${b}_${a}`);
+
+    for (let i = 0; i < pointCorners.length; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        const key = edgeKey(pointCorners[i + k] as number, pointCorners[i + ((k + 1) % 3)] as number);
+        edgeUses.set(key, (edgeUses.get(key) ?? 0) + 1);
+      }
+    }
+    for (let i = 0; i < pointCorners.length; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        const a = pointCorners[i + k] as number;
+        const b = pointCorners[i + ((k + 1) % 3)] as number;
+        if (edgeUses.get(edgeKey(a, b)) !== 2) {
+          locked[a] = 1;
+          locked[b] = 1;
+        }
+      }
+    }
+
+    return locked;
+  }
+
+  /**
+   * Area-weighted plane quadrics accumulated per vertex
+   */
+  private computeQuadrics(positions: Float64Array, pointCorners: Uint32Array, pointCount: number): Float64Array {
+    const quadrics = new Float64Array(pointCount * QUADRIC_SIZE);
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+
+    for (let i = 0; i < pointCorners.length; i += 3) {
+      const ia = pointCorners[i] as number;
+      const ib = pointCorners[i + 1] as number;
+      const ic = pointCorners[i + 2] as number;
+      a.fromArray(positions, ia * 3);
+      b.fromArray(positions, ib * 3);
+      c.fromArray(positions, ic * 3);
+
+      normal.subVectors(b, a).cross(c.clone().sub(a));
+      const area = normal.length() * 0.5;
+      if (area === 0) continue;
+      normal.normalize();
+
+      const d = -normal.dot(a);
+      const plane = [
+        normal.x * normal.x, normal.x * normal.y, normal.x * normal.z, normal.x * d,
+        normal.y * normal.y, normal.y * normal.z, normal.y * d,
+        normal.z * normal.z, normal.z * d,
+        d * d,
+      ];
+
+      for (const point of [ia, ib, ic]) {
+        for (let k = 0; k < QUADRIC_SIZE; k++) {
+          quadrics[point * QUADRIC_SIZE + k] = (quadrics[point * QUADRIC_SIZE + k] ?? 0) + area * (plane[k] ?? 0);
+        }
+      }
+    }
+
+    return quadrics;
+  }
+
+  /**
+   * Error of the combined quadric evaluated at the surviving vertex
+   */
+  private collapseCost(quadrics: Float64Array, positions: Float64Array, from: number, to: number): number {
+    const q = (k: number): number =>
+      (quadrics[from * QUADRIC_SIZE + k] ?? 0) + (quadrics[to * QUADRIC_SIZE + k] ?? 0);
+    const x = positions[to * 3] ?? 0;
+    const y = positions[to * 3 + 1] ?? 0;
+    const z = positions[to * 3 + 2] ?? 0;
+
+    return (
+      q(0) * x * x + 2 * q(1) * x * y + 2 * q(2) * x * z + 2 * q(3) * x +
+      q(4) * y * y + 2 * q(5) * y * z + 2 * q(6) * y +
+      q(7) * z * z + 2 * q(8) * z +
+      q(9)
+    );
+  }
+
+  /**
+   * Match each vertex of `from` with the vertex of `to` it shares an edge with
+   * Returns null when the collapse would flip or degenerate a surviving triangle,
+   * or would tear or merge a seam (a vertex with no partner, or two vertices with the same one)
+   */
+  private planCollapse(
+    positions: Float64Array,
+    triangles: Uint32Array,
+    pointCorners: Uint32Array,
+    alive: Uint8Array,
+    pointTriangles: number[][],
+    from: number,
+    to: number
+  ): Map<number, number> | null {
+    const p = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+    const before = new THREE.Vector3();
+    const after = new THREE.Vector3();
+    const e1 = new THREE.Vector3();
+    const e2 = new THREE.Vector3();
+    const vertexMap = new Map<number, number>();
+    const fromVertices = new Set<number>();
+
+    for (const t of pointTriangles[from] ?? []) {
+      if (!alive[t]) continue;
+      const base = t * 3;
+      const corners = [pointCorners[base] as number, pointCorners[base + 1] as number, pointCorners[base + 2] as number];
+      const fromVertex = triangles[base + corners.indexOf(from)] as number;
+      fromVertices.add(fromVertex);
+
+      const toCorner = corners.indexOf(to);
+      if (toCorner !== -1) {
+        const toVertex = triangles[base + toCorner] as number;
+        const partner = vertexMap.get(fromVertex);
+        if (partner !== undefined && partner !== toVertex) return null;
+        vertexMap.set(fromVertex, toVertex);
+        continue;
+      }
+
+      corners.forEach((point, k) => p[k]?.fromArray(positions, point * 3));
+      before.crossVectors(e1.subVectors(p[1] as THREE.Vector3, p[0] as THREE.Vector3), e2.subVectors(p[2] as THREE.Vector3, p[0] as THREE.Vector3));
+
+      corners.forEach((point, k) => p[k]?.fromArray(positions, (point === from ? to : point) * 3));
+      after.crossVectors(e1.subVectors(p[1] as THREE.Vector3, p[0] as THREE.Vector3), e2.subVectors(p[2] as THREE.Vector3, p[0] as THREE.Vector3));
+
+      const afterLength = after.length();
+      const beforeLength = before.length();
+      if (afterLength < 1e-12 || beforeLength < 1e-12) return null;
+      if (before.dot(after) / (beforeLength * afterLength) < MIN_NORMAL_DOT) return null;
+    }
+
+    if (vertexMap.size === 0 || vertexMap.size !== fromVertices.size) return null;
+    if (new Set(vertexMap.values()).size !== vertexMap.size) return null;
+    return vertexMap;
+  }
+
+  private getNeighbours(pointCorners: Uint32Array, pointTriangleList: number[], point: number): Set<number> {
+    const neighbours = new Set<number>();
+    for (const t of pointTriangleList) {
+      for (let k = 0; k < 3; k++) {
+        const other = pointCorners[t * 3 + k] as number;
+        if (other !== point) neighbours.add(other);
+      }
+    }
+    return neighbours;
+  }
+
+  /**
+   * Compact the surviving triangles and vertices into a new geometry, keeping material groups
+   */
+  private buildGeometry(source: THREE.BufferGeometry, triangles: Uint32Array, alive: Uint8Array): THREE.BufferGeometry {
+    const groups = source.groups.length > 0
+      ? source.groups
+      : [{ start: 0, count: triangles.length, materialIndex: 0 }];
+
+    const remap = new Map<number, number>();
+    const indices: number[] = [];
+    const result = new THREE.BufferGeometry();
+
+    for (const group of groups) {
+      const groupStart = indices.length;
+      const firstTriangle = Math.floor(group.start / 3);
+      const lastTriangle = Math.min(Math.floor((group.start + group.count) / 3), alive.length);
+      for (let t = firstTriangle; t < lastTriangle; t++) {
+        if (!alive[t]) continue;
+        for (let k = 0; k < 3; k++) {
+          const vertex = triangles[t * 3 + k] as number;
+          let mapped = remap.get(vertex);
+          if (mapped === undefined) {
+            mapped = remap.size;
+            remap.set(vertex, mapped);
+          }
+          indices.push(mapped);
+        }
+      }
+      if (source.groups.length > 0) {
+        result.addGroup(groupStart, indices.length - groupStart, group.materialIndex);
+      }
+    }
+
+    const order = Array.from(remap.keys());
+    for (const [name, attribute] of Object.entries(source.attributes)) {
+      const itemSize = attribute.itemSize;
+      const ArrayType = attribute.array.constructor as new (length: number) => THREE.TypedArray;
+      const array = new ArrayType(order.length * itemSize);
+      order.forEach((vertex, i) => {
+        for (let k = 0; k < itemSize; k++) {
+          array[i * itemSize + k] = attribute.getComponent(vertex, k);
+        }
+      });
+      result.setAttribute(name, new THREE.BufferAttribute(array, itemSize, attribute.normalized));
+    }
+
+    result.setIndex(indices);
+    result.computeBoundingBox();
+    result.computeBoundingSphere();
+    return result;
+  }
+}
+
+// Singleton
+let globalMeshSimplifier: MeshSimplifier | null = null;
+
+export function getMeshSimplifier(): MeshSimplifier {
+  if (!globalMeshSimplifier) {
+    globalMeshSimplifier = new MeshSimplifier();
+  }
+  return globalMeshSimplifier;
+}
@@ -0,0 +1,432 @@
+/**
+ * VoxelRemesher - Merge overlapping parts into one watertight shell
+ *
+ * Triangles are rasterised into a voxel grid, the outside is flood filled
+ * from the grid border and everything not reached becomes solid, so
+ * overlapping and intersecting primitives fuse and internal faces vanish.
+ * Critical 2x2x2 configurations (parts touching along an edge or at a corner)
+ * are filled until the grid is well-composed; the boundary faces of a
+ * well-composed grid form a closed 2-manifold, which Taubin smoothing then
+ * relaxes without changing its topology.
+ */
+
+import * as THREE from 'three';
+
+export interface VoxelSolid {
+  bounds: THREE.Box3;
+  contains(point: THREE.Vector3): boolean;
+}
+
+export interface VoxelRemeshOptions {
+  /** Voxels along the longest side of the bounds (default 128) */
+  resolution?: number;
+  /** Taubin smoothing passes softening the voxel steps (default 10) */
+  smoothIterations?: number;
+  /** Extra volumes fused into the result, e.g. a base plate (world space) */
+  solids?: VoxelSolid[];
+}
+
+export interface VoxelRemeshResult {
+  /** Indexed, closed and consistently oriented (counter-clockwise outward) */
+  geometry: THREE.BufferGeometry;
+  voxelSize: number;
+  triangles: number;
+}
+
+const DEFAULT_RESOLUTION = 128;
+const DEFAULT_SMOOTH_ITERATIONS = 10;
+const TAUBIN_LAMBDA = 0.5;
+const TAUBIN_MU = -0.53;
+
+/** Empty voxels kept around the shape so the outside flood fill surrounds it */
+const PADDING = 2;
+
+/**
+ * Per 2x2x2 occupancy mask: true when solid or empty cells within the block
+ * are not face-connected (the boundary would be non-manifold there)
+ */
+const CRITICAL_BLOCKS: boolean[] = (() => {
+  // cells are numbered x + 2y + 4z; face neighbours differ in exactly one bit
+  const connected = (mask: number): boolean => {
+    if (mask === 0) return true;
+    const start = 31 - Math.clz32(mask & -mask);
+    let seen = 1 << start;
+    const stack = [start];
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      for (const bit of [1, 2, 4]) {
+        const next = cell ^ bit;
+        if (mask & (1 << next) && !(seen & (1 << next))) {
+          seen |= 1 << next;
+          stack.push(next);
+        }
+      }
+    }
+    return seen === mask;
+  };
+
+  const table: boolean[] = [];
+  for (let mask = 0; mask < 256; mask++) {
+    table.push(!connected(mask) || !connected(~mask & 0xff));
+  }
+  return table;
+})();
+
+/**
+ * Occupancy grid over an axis-aligned box
+ */
+class VoxelGrid {
+  readonly cells: Uint8Array;
+
+  constructor(
+    readonly nx: number,
+    readonly ny: number,
+    readonly nz: number,
+    readonly origin: THREE.Vector3,
+    readonly size: number
+  ) {
+    this.cells = new Uint8Array(nx * ny * nz);
+  }
+
+  index(x: number, y: number, z: number): number {
+    return x + this.nx * (y + this.ny * z);
+  }
+
+  get(x: number, y: number, z: number): number {
+    if (x < 0 || y < 0 || z < 0 || x >= this.nx || y >= this.ny || z >= this.nz) return 0;
+    return this.cells[this.index(x, y, z)] ?? 0;
+  }
+
+  cellOf(point: THREE.Vector3): [number, number, number] {
+    return [
+      Math.min(this.nx - 1, Math.max(0, Math.floor((point.x - this.origin.x) / this.size))),
+      Math.min(this.ny - 1, Math.max(0, Math.floor((point.y - this.origin.y) / this.size))),
+      Math.min(this.nz - 1, Math.max(0, Math.floor((point.z - this.origin.z) / this.size))),
+    ];
+  }
+
+  center(x: number, y: number, z: number, target: THREE.Vector3): THREE.Vector3 {
+    return target.set(
+      this.origin.x + (x + 0.5) * this.size,
+      this.origin.y + (y + 0.5) * this.size,
+      this.origin.z + (z + 0.5) * this.size
+    );
+  }
+}
+
+/**
+ * VoxelRemesher - Rebuilds models as a single closed manifold surface
+ */
+export class VoxelRemesher {
+  /**
+   * Remesh every visible mesh under root (current pose, world space)
+   */
+  remesh(root: THREE.Object3D, options: VoxelRemeshOptions = {}): VoxelRemeshResult {
+    const resolution = Math.max(8, Math.round(options.resolution ?? DEFAULT_RESOLUTION));
+    const solids = options.solids ?? [];
+
+    const triangles = this.collectTriangles(root);
+    const bounds = new THREE.Box3();
+    for (let i = 0; i < triangles.length; i += 3) {
+      bounds.expandByPoint(new THREE.Vector3(triangles[i], triangles[i + 1], triangles[i + 2]));
+    }
+    for (const solid of solids) bounds.union(solid.bounds);
+    if (bounds.isEmpty()) {
+      throw new Error('Nothing to remesh');
+    }
+
+    const extent = bounds.getSize(new THREE.Vector3());
+    const voxelSize = Math.max(extent.x, extent.y, extent.z) / resolution;
+    const origin = bounds.min.clone().subScalar(voxelSize * PADDING);
+    const grid = new VoxelGrid(
+      Math.ceil(extent.x / voxelSize) + PADDING * 2 + 1,
+      Math.ceil(extent.y / voxelSize) + PADDING * 2 + 1,
+      Math.ceil(extent.z / voxelSize) + PADDING * 2 + 1,
+      origin,
+      voxelSize
+    );
+
+    this.rasterizeSurface(grid, triangles);
+    this.addSolids(grid, solids);
+    // filling critical blocks can enclose new cavities, so repeat until stable
+    do {
+      this.fillInterior(grid);
+    } while (this.makeWellComposed(grid));
+
+    const geometry = this.extractSurface(grid);
+    this.smooth(geometry, options.smoothIterations ?? DEFAULT_SMOOTH_ITERATIONS);
+    geometry.computeVertexNormals();
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+
+    return { geometry, voxelSize, triangles: (geometry.index?.count ?? 0) / 3 };
+  }
+
+  /**
+   * World-space triangle soup (xyz per corner) of all visible meshes
+   */
+  private collectTriangles(root: THREE.Object3D): Float32Array {
+    root.updateMatrixWorld(true);
+    const values: number[] = [];
+    const vertex = new THREE.Vector3();
+
+    root.traverseVisible((object) => {
+      if (!(object instanceof THREE.Mesh)) return;
+      const geometry = object.geometry as THREE.BufferGeometry;
+      const position = geometry.getAttribute('position');
+      if (!position) return;
+
+      const index = geometry.index;
+      const count = index ? index.count : position.count;
+      for (let i = 0; i < count - 2; i += 3) {
+        for (let corner = 0; corner < 3; corner++) {
+          const vertexIndex = index ? index.getX(i + corner) : i + corner;
+          // skinned meshes report the posed position
+          object.getVertexPosition(vertexIndex, vertex).applyMatrix4(object.matrixWorld);
+          values.push(vertex.x, vertex.y, vertex.z);
+        }
+      }
+    });
+
+    return new Float32Array(values);
+  }
+
+  /**
+   * Mark voxels touched by triangles, sampling at half the voxel size
+   */
+  private rasterizeSurface(grid: VoxelGrid, triangles: Float32Array): void {
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const ab = new THREE.Vector3();
+    const ac = new THREE.Vector3();
+    const point = new THREE.Vector3();
+    const step = grid.size * 0.5;
+
+    for (let t = 0; t < triangles.length; t += 9) {
+      a.fromArray(triangles, t);
+      b.fromArray(triangles, t + 3);
+      c.fromArray(triangles, t + 6);
+      ab.subVectors(b, a);
+      ac.subVectors(c, a);
+
+      const samples = Math.max(1, Math.ceil(Math.max(ab.length(), ac.length(), b.distanceTo(c)) / step));
+      for (let i = 0; i <= samples; i++) {
+        for (let j = 0; i + j <= samples; j++) {
+          point.copy(a).addScaledVector(ab, i / samples).addScaledVector(ac, j / samples);
+          const [x, y, z] = grid.cellOf(point);
+          grid.cells[grid.index(x, y, z)] = 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * Flood fill the outside from the border; every cell it cannot reach is solid
+   */
+  private fillInterior(grid: VoxelGrid): void {
+    const { nx, ny, nz, cells } = grid;
+    const OUTSIDE = 2;
+    const queue = new Int32Array(cells.length);
+    let head = 0;
+    let tail = 0;
+
+    cells[0] = OUTSIDE;
+    queue[tail++] = 0;
+    while (head < tail) {
+      const cell = queue[head++]!;
+      const x = cell % nx;
+      const y = Math.floor(cell / nx) % ny;
+      const z = Math.floor(cell / (nx * ny));
+
+      const visit = (neighbour: number) => {
+        if (cells[neighbour] === 0) {
+          cells[neighbour] = OUTSIDE;
+          queue[tail++] = neighbour;
+        }
+      };
+      if (x > 0) visit(cell - 1);
+      if (x < nx - 1) visit(cell + 1);
+      if (y > 0) visit(cell - nx);
+      if (y < ny - 1) visit(cell + nx);
+      if (z > 0) visit(cell - nx * ny);
+      if (z < nz - 1) visit(cell + nx * ny);
+    }
+
+    for (let i = 0; i < cells.length; i++) {
+      cells[i] = cells[i] === OUTSIDE ? 0 : 1;
+    }
+  }
+
+  private addSolids(grid: VoxelGrid, solids: VoxelSolid[]): void {
+    const center = new THREE.Vector3();
+    for (const solid of solids) {
+      const [x0, y0, z0] = grid.cellOf(solid.bounds.min);
+      const [x1, y1, z1] = grid.cellOf(solid.bounds.max);
+      for (let z = z0; z <= z1; z++) {
+        for (let y = y0; y <= y1; y++) {
+          for (let x = x0; x <= x1; x++) {
+            if (solid.contains(grid.center(x, y, z, center))) {
+              grid.cells[grid.index(x, y, z)] = 1;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Fill 2x2x2 blocks whose solid or empty cells are only edge/corner connected
+   * Returns whether anything was filled
+   */
+  private makeWellComposed(grid: VoxelGrid): boolean {
+    const { nx, ny, nz, cells } = grid;
+    let filled = false;
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (let z = 0; z < nz - 1; z++) {
+        for (let y = 0; y < ny - 1; y++) {
+          for (let x = 0; x < nx - 1; x++) {
+            let mask = 0;
+            for (let cell = 0; cell < 8; cell++) {
+              if (grid.get(x + (cell & 1), y + ((cell >> 1) & 1), z + (cell >> 2))) mask |= 1 << cell;
+            }
+            if (!CRITICAL_BLOCKS[mask]) continue;
+
+            for (let cell = 0; cell < 8; cell++) {
+              cells[grid.index(x + (cell & 1), y + ((cell >> 1) & 1), z + (cell >> 2))] = 1;
+            }
+            changed = true;
+            filled = true;
+          }
+        }
+      }
+    }
+    return filled;
+  }
+
+  /**
+   * Quads on every solid/empty face, sharing grid-corner vertices
+   */
+  private extractSurface(grid: VoxelGrid): THREE.BufferGeometry {
+    const { nx, ny, nz } = grid;
+    const cornerIds = new Int32Array((nx + 1) * (ny + 1) * (nz + 1)).fill(-1);
+    const positions: number[] = [];
+    const indices: number[] = [];
+
+    const vertexAt = (x: number, y: number, z: number): number => {
+      const key = x + (nx + 1) * (y + (ny + 1) * z);
+      let id = cornerIds[key]!;
+      if (id < 0) {
+        id = positions.length / 3;
+        cornerIds[key] = id;
+        positions.push(
+          grid.origin.x + x * grid.size,
+          grid.origin.y + y * grid.size,
+          grid.origin.z + z * grid.size
+        );
+      }
+      return id;
+    };
+
+    const cell = [0, 0, 0];
+    for (let z = 0; z < nz; z++) {
+      for (let y = 0; y < ny; y++) {
+        for (let x = 0; x < nx; x++) {
+          if (!grid.get(x, y, z)) continue;
+          cell[0] = x;
+          cell[1] = y;
+          cell[2] = z;
+
+          for (let axis = 0; axis < 3; axis++) {
+            // u, v follow axis cyclically so u x v points along +axis
+            const u = (axis + 1) % 3;
+            const v = (axis + 2) % 3;
+            for (const side of [1, -1]) {
+              const neighbour = [x, y, z];
+              neighbour[axis]! += side;
+              if (grid.get(neighbour[0]!, neighbour[1]!, neighbour[2]!)) continue;
+
+              const corner = (du: number, dv: number): number => {
+                const p = [...cell];
+                p[axis]! += side > 0 ? 1 : 0;
+                p[u]! += du;
+                p[v]! += dv;
+                return vertexAt(p[0]!, p[1]!, p[2]!);
+              };
+              const quad =
+                side > 0
+                  ? [corner(0, 0), corner(1, 0), corner(1, 1), corner(0, 1)]
+                  : [corner(0, 0), corner(0, 1), corner(1, 1), corner(1, 0)];
+              indices.push(quad[0]!, quad[1]!, quad[2]!, quad[0]!, quad[2]!, quad[3]!);
+            }
+          }
+        }
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    return geometry;
+  }
+
+  /**
+   * Taubin lambda/mu smoothing (shrink-free Laplacian) over the vertex graph
+   */
+  private smooth(geometry: THREE.BufferGeometry, iterations: number): void {
+    if (iterations <= 0) return;
+    const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const index = geometry.index;
+    if (!index) return;
+
+    const vertexCount = position.count;
+    const neighbours: Set<number>[] = Array.from({ length: vertexCount }, () => new Set<number>());
+    for (let i = 0; i < index.count; i += 3) {
+      const a = index.getX(i);
+      const b = index.getX(i + 1);
+      const c = index.getX(i + 2);
+      neighbours[a]!.add(b).add(c);
+      neighbours[b]!.add(a).add(c);
+      neighbours[c]!.add(a).add(b);
+    }
+
+    const points = position.array as Float32Array;
+    const next = new Float32Array(points.length);
+    const pass = (factor: number) => {
+      for (let v = 0; v < vertexCount; v++) {
+        let sx = 0;
+        let sy = 0;
+        let sz = 0;
+        const around = neighbours[v]!;
+        for (const n of around) {
+          sx += points[n * 3]!;
+          sy += points[n * 3 + 1]!;
+          sz += points[n * 3 + 2]!;
+        }
+        const count = around.size || 1;
+        next[v * 3] = points[v * 3]! + factor * (sx / count - points[v * 3]!);
+        next[v * 3 + 1] = points[v * 3 + 1]! + factor * (sy / count - points[v * 3 + 1]!);
+        next[v * 3 + 2] = points[v * 3 + 2]! + factor * (sz / count - points[v * 3 + 2]!);
+      }
+      points.set(next);
+    };
+
+    for (let i = 0; i < iterations; i++) {
+      pass(TAUBIN_LAMBDA);
+      pass(TAUBIN_MU);
+    }
+    position.needsUpdate = true;
+  }
+}
+
+// Singleton
+let globalVoxelRemesher: VoxelRemesher | null = null;
+
+export function getVoxelRemesher(): VoxelRemesher {
+  if (!globalVoxelRemesher) {
+    globalVoxelRemesher = new VoxelRemesher();
+  }
+  return globalVoxelRemesher;
+}
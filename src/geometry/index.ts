@@ -0,0 +1,8 @@
+/**
+ * Geometry processing exports
+ */
+
+export { MeshSimplifier, getMeshSimplifier } from './MeshSimplifier.js';
+export type { SimplifyOptions, SimplifyResult } from './MeshSimplifier.js';
+export { VoxelRemesher, getVoxelRemesher } from './VoxelRemesher.js';
+export type { VoxelRemeshOptions, VoxelRemeshResult, VoxelSolid } from './VoxelRemesher.js';
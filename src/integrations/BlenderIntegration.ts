@@ -4,6 +4,7 @@
  */
 
 import * as THREE from 'three';
+import { z } from 'zod';
 import { BasePlugin } from '../plugins/BasePlugin.js';
 import { PluginError } from '../plugins/types.js';
 import type {
@@ -12,39 +13,37 @@ import type {
   IntegrationTarget,
 } from '../plugins/types.js';
 import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { BONE_NAMING_CONVENTIONS, renameBones } from '../rigging/BoneNaming.js';
 
 /**
- * Blender-specific export options
+ * Blender-specific export settings
  */
-export interface BlenderExportOptions {
-  applyModifiers: boolean;
-  exportAnimations: boolean;
-  exportMaterials: boolean;
-  yUp: boolean;  // Blender uses Z-up by default, but glTF is Y-up
-  scale: number;
-}
-
-const DEFAULT_OPTIONS: BlenderExportOptions = {
-  applyModifiers: true,
-  exportAnimations: true,
-  exportMaterials: true,
-  yUp: true,
-  scale: 1.0,
-};
+export const BlenderConfigSchema = z.object({
+  applyModifiers: z.boolean().default(true),
+  exportAnimations: z.boolean().default(true),
+  exportMaterials: z.boolean().default(true),
+  yUp: z.boolean().describe('Y up').default(true), // Blender uses Z-up by default, but glTF is Y-up
+  scale: z.number().min(0.01).max(100).default(1.0),
+  /** 'rigify' names bones after Rigify's DEF- deform bones */
+  boneNaming: z.enum(BONE_NAMING_CONVENTIONS).default('canonical'),
+});
+
+export type BlenderExportOptions = z.infer<typeof BlenderConfigSchema>;
 
 /**
  * BlenderIntegrationPlugin
  * Handles export optimization for Blender compatibility
  */
-export class BlenderIntegrationPlugin extends BasePlugin implements IntegrationPlugin {
+export class BlenderIntegrationPlugin extends BasePlugin<BlenderExportOptions> implements IntegrationPlugin {
   readonly id = 'blender-integration';
   readonly name = 'Blender Integration';
   readonly version = '1.0.0';
   readonly type = 'integration' as const;
   readonly target: IntegrationTarget = 'environment-generator'; // Using closest match
+  override readonly configSchema = BlenderConfigSchema;
 
   private exporter: GLTFExporter | null = null;
-  private exportOptions: BlenderExportOptions = { ...DEFAULT_OPTIONS };
 
   protected override async doInit(): Promise<void> {
     this.exporter = new GLTFExporter();
@@ -54,13 +53,6 @@ export class BlenderIntegrationPlugin extends BasePlugin implements IntegrationP
     this.exporter = null;
   }
 
-  /**
-   * Configure export options
-   */
-  setOptions(options: Partial<BlenderExportOptions>): void {
-    this.exportOptions = { ...this.exportOptions, ...options };
-  }
-
   /**
    * Sync character to Blender (export optimized file)
    */
@@ -89,6 +81,11 @@ export class BlenderIntegrationPlugin extends BasePlugin implements IntegrationP
 
     // Clone and prepare model for Blender
     const preparedModel = this.prepareForBlender(character.model);
+    const animations = renameBones(
+      preparedModel,
+      this.config.boneNaming,
+      this.config.exportAnimations ? character.model.animations : []
+    );
 
     return new Promise((resolve, reject) => {
       if (!this.exporter) {
@@ -110,9 +107,7 @@ export class BlenderIntegrationPlugin extends BasePlugin implements IntegrationP
         },
         {
           binary: true,
-          animations: this.exportOptions.exportAnimations
-            ? character.model?.animations ?? []
-            : [],
+          animations,
         }
       );
     });
@@ -122,18 +117,19 @@ export class BlenderIntegrationPlugin extends BasePlugin implements IntegrationP
    * Prepare model for Blender compatibility
    */
   private prepareForBlender(model: THREE.Object3D): THREE.Object3D {
-    const clone = model.clone(true);
+    // SkeletonUtils rebinds skinned meshes to the cloned bones
+    const clone = SkeletonUtils.clone(model);
 
     // Apply scale
-    if (this.exportOptions.scale !== 1.0) {
-      clone.scale.multiplyScalar(this.exportOptions.scale);
+    if (this.config.scale !== 1.0) {
+      clone.scale.multiplyScalar(this.config.scale);
     }
 
     // Ensure proper naming for Blender
     this.ensureBlenderNaming(clone);
 
     // Optimize materials for Blender's PBR workflow
-    if (this.exportOptions.exportMaterials) {
+    if (this.config.exportMaterials) {
       this.optimizeMaterialsForBlender(clone);
     }
 
@@ -0,0 +1,379 @@
+/**
+ * GodotIntegration - Export characters for Godot 4
+ * Writes the model as GLB plus a .tscn wrapper scene that instances it with
+ * a collision shape and an AnimationTree wired to the exported clips
+ */
+
+import * as THREE from 'three';
+import { z } from 'zod';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type {
+  IntegrationPlugin,
+  Character,
+  IntegrationTarget,
+} from '../plugins/types.js';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { BONE_NAMING_CONVENTIONS, renameBones } from '../rigging/BoneNaming.js';
+import { LOCOMOTION_STATE_MACHINE } from '../rigging/AnimationController.js';
+import type {
+  AnimationParameterValue,
+  AnimationStateMachineConfig,
+  TransitionCondition,
+} from '../rigging/AnimationController.js';
+
+/**
+ * Godot-specific export settings
+ */
+export const GodotConfigSchema = z.object({
+  scale: z.number().min(0.01).max(100).default(1.0),
+  exportAnimations: z.boolean().default(true),
+  /** 'unity' names match Godot's SkeletonProfileHumanoid, so the importer's BoneMap fills itself in */
+  boneNaming: z.enum(BONE_NAMING_CONVENTIONS).default('unity'),
+  bodyType: z.enum(['CharacterBody3D', 'RigidBody3D', 'StaticBody3D']).default('CharacterBody3D'),
+  collisionShape: z.enum(['capsule', 'box']).default('capsule'),
+  /** Project folder the GLB and scene are meant to be saved in */
+  resourceDir: z.string().regex(/^res:\/\//, 'Use a res:// path').default('res://characters'),
+  /** Becomes the AnimationTree; states whose clip was not exported are dropped, null skips the tree */
+  stateMachine: z
+    .custom<AnimationStateMachineConfig | null>((value) => value === null || (typeof value === 'object' && 'states' in value))
+    .default(LOCOMOTION_STATE_MACHINE),
+});
+
+export type GodotExportOptions = z.infer<typeof GodotConfigSchema>;
+
+/**
+ * Files produced by exportForGodot
+ */
+export interface GodotExportBundle {
+  glb: Blob;
+  glbFilename: string;
+  scene: string;
+  sceneFilename: string;
+}
+
+/**
+ * Clips the import script leaves unlooped
+ */
+const ONE_SHOT_CLIPS = ['jump', 'attack', 'hit', 'death'];
+
+/** Spacing of states in the AnimationTree editor graph */
+const STATE_GRAPH_SPACING = 200;
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+function formatString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function formatCondition(condition: TransitionCondition): string {
+  return `${condition.parameter} ${condition.op} ${String(condition.value)}`;
+}
+
+function gdscriptVariable(name: string, value: AnimationParameterValue): string {
+  return typeof value === 'boolean'
+    ? `@export var ${name}: bool = ${String(value)}`
+    : `@export var ${name}: float = ${Number.isInteger(value) ? value.toFixed(1) : formatNumber(value)}`;
+}
+
+/**
+ * GodotIntegrationPlugin
+ * Handles export and scene setup for Godot 4
+ */
+export class GodotIntegrationPlugin extends BasePlugin<GodotExportOptions> implements IntegrationPlugin {
+  readonly id = 'godot-integration';
+  readonly name = 'Godot Integration';
+  readonly version = '1.0.0';
+  readonly type = 'integration' as const;
+  readonly target: IntegrationTarget = 'godot';
+  override readonly configSchema = GodotConfigSchema;
+
+  private exporter: GLTFExporter | null = null;
+
+  protected override async doInit(): Promise<void> {
+    this.exporter = new GLTFExporter();
+  }
+
+  protected override async doDestroy(): Promise<void> {
+    this.exporter = null;
+  }
+
+  /**
+   * Sync character to Godot (download the GLB and its wrapper scene)
+   */
+  async sync(character: Character): Promise<void> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'SYNC_FAILED', 'Character has no model');
+    }
+
+    const bundle = await this.exportForGodot(character);
+    await this.downloadFile(bundle.glb, bundle.glbFilename);
+    await this.downloadFile(new Blob([bundle.scene], { type: 'text/plain' }), bundle.sceneFilename);
+
+    console.log(`[GodotIntegration] Exported ${character.name} for Godot`);
+  }
+
+  /**
+   * Export the character as GLB plus a .tscn scene that instances it
+   */
+  async exportForGodot(character: Character): Promise<GodotExportBundle> {
+    this.assertReady();
+
+    if (!this.exporter || !character.model) {
+      throw new PluginError(this.id, 'EXPORT_FAILED', 'Exporter not ready or no model');
+    }
+
+    // SkeletonUtils rebinds skinned meshes to the cloned bones
+    const preparedModel = SkeletonUtils.clone(character.model);
+    if (this.config.scale !== 1.0) {
+      preparedModel.scale.multiplyScalar(this.config.scale);
+    }
+    preparedModel.updateMatrixWorld(true);
+
+    const animations = renameBones(
+      preparedModel,
+      this.config.boneNaming,
+      this.config.exportAnimations ? character.model.animations : []
+    );
+
+    const baseName = character.name.replace(/[^a-zA-Z0-9_]/g, '_') || 'Character';
+    const glbFilename = `${baseName}.glb`;
+    const scene = this.buildScene(
+      baseName,
+      `${this.config.resourceDir.replace(/\/+$/, '')}/${glbFilename}`,
+      new THREE.Box3().setFromObject(preparedModel),
+      animations.map((clip) => clip.name)
+    );
+
+    const glb = await new Promise<Blob>((resolve, reject) => {
+      if (!this.exporter) {
+        reject(new PluginError(this.id, 'EXPORT_FAILED', 'Exporter not available'));
+        return;
+      }
+
+      this.exporter.parse(
+        preparedModel,
+        (result) => {
+          resolve(new Blob([result as ArrayBuffer], { type: 'application/octet-stream' }));
+        },
+        (error) => {
+          const err = error instanceof Error ? error : new Error(String(error));
+          reject(new PluginError(this.id, 'EXPORT_FAILED', 'Export failed', err));
+        },
+        { binary: true, animations }
+      );
+    });
+
+    return { glb, glbFilename, scene, sceneFilename: `${baseName}.tscn` };
+  }
+
+  /**
+   * Build the Godot 4 text scene (format=3) wrapping the GLB
+   */
+  private buildScene(rootName: string, glbPath: string, bounds: THREE.Box3, clipNames: string[]): string {
+    const resources: string[] = [];
+    const nodes: string[] = [];
+    const machine = this.resolveStateMachine(clipNames);
+
+    // Exported parameters give the transition expressions something to read
+    const parameters = Object.entries(machine?.parameters ?? {});
+    const hasScript = parameters.length > 0;
+    if (hasScript) {
+      const source = [
+        `extends ${this.config.bodyType}`,
+        '',
+        ...parameters.map(([name, value]) => gdscriptVariable(name, value)),
+        '',
+      ].join('\n');
+      resources.push(`[sub_resource type="GDScript" id="GDScript_parameters"]\nscript/source = ${formatString(source)}`);
+    }
+
+    resources.push(this.buildShapeResource(bounds));
+
+    if (machine) {
+      resources.push(...this.buildStateMachineResources(machine));
+    }
+
+    const root = [`[node name=${formatString(rootName)} type="${this.config.bodyType}"]`];
+    if (hasScript) {
+      root.push('script = SubResource("GDScript_parameters")');
+    }
+    nodes.push(root.join('\n'));
+
+    nodes.push('[node name="Model" parent="." instance=ExtResource("1_model")]');
+
+    const center = bounds.isEmpty() ? new THREE.Vector3() : bounds.getCenter(new THREE.Vector3());
+    nodes.push([
+      '[node name="CollisionShape3D" type="CollisionShape3D" parent="."]',
+      `transform = Transform3D(1, 0, 0, 0, 1, 0, 0, 0, 1, ${formatNumber(center.x)}, ${formatNumber(center.y)}, ${formatNumber(center.z)})`,
+      'shape = SubResource("Shape3D_body")',
+    ].join('\n'));
+
+    if (machine) {
+      nodes.push([
+        '[node name="AnimationTree" type="AnimationTree" parent="."]',
+        'root_node = NodePath("../Model")',
+        'tree_root = SubResource("AnimationNodeStateMachine_root")',
+        'advance_expression_base_node = NodePath("..")',
+        'anim_player = NodePath("../Model/AnimationPlayer")',
+      ].join('\n'));
+    } else if (clipNames.length > 0) {
+      // No state machine: let the imported AnimationPlayer start the first clip
+      const autoplay = clipNames.includes('idle') ? 'idle' : clipNames[0] ?? '';
+      nodes.push(`[node name="AnimationPlayer" parent="Model"]\nautoplay = ${formatString(autoplay)}`);
+    }
+
+    return [
+      `[gd_scene load_steps=${resources.length + 2} format=3]`,
+      `[ext_resource type="PackedScene" path=${formatString(glbPath)} id="1_model"]`,
+      ...resources,
+      ...nodes,
+    ].join('\n\n') + '\n';
+  }
+
+  /**
+   * Collision shape sized from the model bounds
+   */
+  private buildShapeResource(bounds: THREE.Box3): string {
+    const size = bounds.isEmpty() ? new THREE.Vector3(1, 1, 1) : bounds.getSize(new THREE.Vector3());
+
+    if (this.config.collisionShape === 'box') {
+      return [
+        '[sub_resource type="BoxShape3D" id="Shape3D_body"]',
+        `size = Vector3(${formatNumber(size.x)}, ${formatNumber(size.y)}, ${formatNumber(size.z)})`,
+      ].join('\n');
+    }
+
+    // Godot 4 capsule height includes both caps
+    const radius = Math.max(size.x, size.z) / 2;
+    return [
+      '[sub_resource type="CapsuleShape3D" id="Shape3D_body"]',
+      `radius = ${formatNumber(radius)}`,
+      `height = ${formatNumber(Math.max(size.y, radius * 2))}`,
+    ].join('\n');
+  }
+
+  /**
+   * The configured state machine reduced to exported clips, or null if none of it applies
+   */
+  private resolveStateMachine(clipNames: string[]): AnimationStateMachineConfig | null {
+    const config = this.config.stateMachine;
+    if (!config) return null;
+
+    const clips = new Set(clipNames);
+    const states = Object.fromEntries(
+      Object.entries(config.states).filter(([, state]) => clips.has(state.clip))
+    );
+    if (!states[config.initial]) return null;
+
+    return {
+      ...config,
+      states,
+      transitions: config.transitions.filter(
+        (transition) => states[transition.to] !== undefined && (transition.from === '*' || states[transition.from] !== undefined)
+      ),
+    };
+  }
+
+  /**
+   * AnimationNodeStateMachine with one AnimationNodeAnimation per state
+   * Conditions become advance expressions evaluated on the root node's parameters
+   */
+  private buildStateMachineResources(machine: AnimationStateMachineConfig): string[] {
+    const resources: string[] = [];
+    const stateNames = Object.keys(machine.states);
+
+    for (const [name, state] of Object.entries(machine.states)) {
+      resources.push(`[sub_resource type="AnimationNodeAnimation" id="AnimationNodeAnimation_${name}"]\nanimation = &${formatString(state.clip)}`);
+    }
+
+    // Godot has no any-state, so '*' expands to one transition per source state
+    const transitions: { from: string; to: string; lines: string[] }[] = [
+      { from: 'Start', to: machine.initial, lines: ['advance_mode = 2'] },
+    ];
+    for (const transition of machine.transitions) {
+      const sources = transition.from === '*' ? stateNames.filter((name) => name !== transition.to) : [transition.from];
+      const lines = [
+        `xfade_time = ${formatNumber(transition.fadeDuration ?? 0.25)}`,
+        'advance_mode = 2',
+      ];
+      if (transition.conditions.length > 0) {
+        lines.push(`advance_expression = ${formatString(transition.conditions.map(formatCondition).join(' and '))}`);
+      }
+      for (const from of sources) {
+        transitions.push({ from, to: transition.to, lines });
+      }
+    }
+
+    const transitionRefs: string[] = [];
+    transitions.forEach((transition, index) => {
+      const id = `AnimationNodeStateMachineTransition_${index}`;
+      resources.push([`[sub_resource type="AnimationNodeStateMachineTransition" id="${id}"]`, ...transition.lines].join('\n'));
+      transitionRefs.push(`${formatString(transition.from)}, ${formatString(transition.to)}, SubResource("${id}")`);
+    });
+
+    const machineLines = ['[sub_resource type="AnimationNodeStateMachine" id="AnimationNodeStateMachine_root"]'];
+    stateNames.forEach((name, index) => {
+      machineLines.push(`states/${name}/node = SubResource("AnimationNodeAnimation_${name}")`);
+      machineLines.push(`states/${name}/position = Vector2(${(index + 1) * STATE_GRAPH_SPACING}, 100)`);
+    });
+    machineLines.push(`transitions = [${transitionRefs.join(', ')}]`);
+    resources.push(machineLines.join('\n'));
+
+    return resources;
+  }
+
+  /**
+   * Check if Godot is available (placeholder for future editor plugin connection)
+   */
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Get a GDScript post-import script for the GLB
+   * Set it as the GLB's "Import Script" so looping clips loop and one-shots don't
+   */
+  getImportScript(assetPath: string): string {
+    return `
+@tool
+extends EditorScenePostImport
+
+# Post-import script for ${assetPath.replace(/\\/g, '/')}
+
+const ONE_SHOT_CLIPS := ${JSON.stringify(ONE_SHOT_CLIPS)}
+
+func _post_import(scene: Node) -> Object:
+	var player := scene.get_node_or_null("AnimationPlayer") as AnimationPlayer
+	if player == null:
+		return scene
+
+	for anim_name in player.get_animation_list():
+		var animation := player.get_animation(anim_name)
+		if anim_name in ONE_SHOT_CLIPS:
+			animation.loop_mode = Animation.LOOP_NONE
+		else:
+			animation.loop_mode = Animation.LOOP_LINEAR
+
+	print("Character imported: ", player.get_animation_list().size(), " animations")
+	return scene
+`.trim();
+  }
+
+  /**
+   * Download file helper
+   */
+  private async downloadFile(blob: Blob, filename: string): Promise<void> {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { UnityIntegrationPlugin } from './UnityIntegration.js';
+import { getMeshSimplifier } from '../geometry/MeshSimplifier.js';
+import { createRiggedHumanoid } from '../test/fixtures.js';
+import type { Character } from '../plugins/types.js';
+
+/**
+ * Skinned meshes in a tree, and how many of their skeleton bones are part of that tree
+ */
+function skeletonReach(root: THREE.Object3D): { skinned: number; bones: number; reachable: number } {
+  const inTree = new Set<THREE.Object3D>();
+  root.traverse((child) => inTree.add(child));
+
+  let skinned = 0;
+  let bones = 0;
+  let reachable = 0;
+  root.traverse((child) => {
+    if (!(child instanceof THREE.SkinnedMesh)) return;
+    skinned++;
+    for (const bone of child.skeleton.bones) {
+      bones++;
+      if (inTree.has(bone)) reachable++;
+    }
+  });
+  return { skinned, bones, reachable };
+}
+
+describe('UnityIntegrationPlugin LODs', () => {
+  let character: Character;
+
+  beforeAll(async () => {
+    character = await createRiggedHumanoid();
+  });
+
+  it.each([
+    ['group', false],
+    ['group', true],
+    ['three-lod', true],
+  ] as const)('keeps every skeleton bone in the tree (%s, generateLODs: %s)', async (lodMode, generateLODs) => {
+    const unity = new UnityIntegrationPlugin();
+    await unity.onInit();
+    unity.configure({ lodMode, lodLevels: 3 });
+
+    const prepared = unity.prepareForUnity(character.model as THREE.Object3D, { generateLODs, targetPolyCount: 500 });
+
+    const reach = skeletonReach(prepared);
+    expect(reach.skinned).toBe(generateLODs ? 3 : 1);
+    expect(reach.bones).toBeGreaterThan(0);
+    expect(reach.reachable).toBe(reach.bones);
+  });
+});
+
+describe('MeshSimplifier', () => {
+  it.each([
+    ['box', new THREE.BoxGeometry(1, 1, 1, 10, 10, 10)],
+    ['cylinder', new THREE.CylinderGeometry(1, 1, 2, 32, 8)],
+  ])('collapses across UV and normal seams to reach each target (%s)', (_name, geometry) => {
+    const simplifier = getMeshSimplifier();
+    const original = simplifier.countTriangles(geometry);
+
+    for (const ratio of [0.5, 0.25, 0.125]) {
+      const result = simplifier.simplify(geometry, { ratio });
+      expect(result.triangles).toBe(Math.floor(original * ratio));
+    }
+  });
+});
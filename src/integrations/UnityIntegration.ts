@@ -4,86 +4,59 @@
  */
 
 import * as THREE from 'three';
+import { z } from 'zod';
 import { BasePlugin } from '../plugins/BasePlugin.js';
 import { PluginError } from '../plugins/types.js';
 import type {
   IntegrationPlugin,
   Character,
   IntegrationTarget,
+  ExportOptions,
 } from '../plugins/types.js';
 import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { getMeshSimplifier } from '../geometry/MeshSimplifier.js';
+import { BONE_NAMING_CONVENTIONS, renameBones, validateUnityHumanoid } from '../rigging/BoneNaming.js';
+import type { BoneValidationReport } from '../rigging/BoneNaming.js';
 
 /**
- * Unity-specific export options
+ * Unity-specific export settings
  */
-export interface UnityExportOptions {
-  scaleFactor: number;        // Unity uses 1 unit = 1 meter
-  convertToLeftHanded: boolean; // Unity uses left-handed coordinate system
-  bakeAnimations: boolean;
-  optimizeForMobile: boolean;
-  generateLODs: boolean;
-  lodLevels: number;
-}
-
-const DEFAULT_OPTIONS: UnityExportOptions = {
-  scaleFactor: 1.0,
-  convertToLeftHanded: true,
-  bakeAnimations: true,
-  optimizeForMobile: false,
-  generateLODs: false,
-  lodLevels: 3,
-};
+export const UnityConfigSchema = z.object({
+  scaleFactor: z.number().min(0.01).max(100).default(1.0), // Unity uses 1 unit = 1 meter
+  convertToLeftHanded: z.boolean().default(true), // Unity uses left-handed coordinate system
+  bakeAnimations: z.boolean().default(true),
+  optimizeForMobile: z.boolean().default(false),
+  generateLODs: z.boolean().describe('Generate LODs').default(false),
+  lodLevels: z.number().int().min(1).max(5).describe('LOD levels').default(3),
+  /**
+   * 'group' names levels Name_LOD0, Name_LOD1... under a parent so Unity builds a LODGroup;
+   * 'three-lod' wraps them in THREE.LOD for runtime use
+   */
+  lodMode: z.enum(['group', 'three-lod']).describe('LOD mode').default('group'),
+  /** Triangles kept by each level relative to the previous one */
+  lodReduction: z.number().min(0.05).max(0.95).describe('LOD reduction').default(0.5),
+  /** Triangle budget for LOD0 across the whole character */
+  targetPolyCount: z.number().int().positive().optional(),
+  /** 'unity' matches Humanoid avatar auto-mapping */
+  boneNaming: z.enum(BONE_NAMING_CONVENTIONS).default('unity'),
+});
 
-/**
- * Unity bone name mapping (Three.js to Unity Humanoid)
- */
-const UNITY_BONE_MAPPING: Record<string, string> = {
-  // Spine
-  'Hips': 'Hips',
-  'Spine': 'Spine',
-  'Spine1': 'Chest',
-  'Spine2': 'UpperChest',
-  'Neck': 'Neck',
-  'Head': 'Head',
-
-  // Left Arm
-  'LeftShoulder': 'LeftShoulder',
-  'LeftArm': 'LeftUpperArm',
-  'LeftForeArm': 'LeftLowerArm',
-  'LeftHand': 'LeftHand',
-
-  // Right Arm
-  'RightShoulder': 'RightShoulder',
-  'RightArm': 'RightUpperArm',
-  'RightForeArm': 'RightLowerArm',
-  'RightHand': 'RightHand',
-
-  // Left Leg
-  'LeftUpLeg': 'LeftUpperLeg',
-  'LeftLeg': 'LeftLowerLeg',
-  'LeftFoot': 'LeftFoot',
-  'LeftToeBase': 'LeftToes',
-
-  // Right Leg
-  'RightUpLeg': 'RightUpperLeg',
-  'RightLeg': 'RightLowerLeg',
-  'RightFoot': 'RightFoot',
-  'RightToeBase': 'RightToes',
-};
+export type UnityExportOptions = z.infer<typeof UnityConfigSchema>;
 
 /**
  * UnityIntegrationPlugin
  * Handles export optimization for Unity compatibility
  */
-export class UnityIntegrationPlugin extends BasePlugin implements IntegrationPlugin {
+export class UnityIntegrationPlugin extends BasePlugin<UnityExportOptions> implements IntegrationPlugin {
   readonly id = 'unity-integration';
   readonly name = 'Unity Integration';
   readonly version = '1.0.0';
   readonly type = 'integration' as const;
   readonly target: IntegrationTarget = 'environment-generator';
+  override readonly configSchema = UnityConfigSchema;
 
   private exporter: GLTFExporter | null = null;
-  private exportOptions: UnityExportOptions = { ...DEFAULT_OPTIONS };
 
   protected override async doInit(): Promise<void> {
     this.exporter = new GLTFExporter();
@@ -93,13 +66,6 @@ export class UnityIntegrationPlugin extends BasePlugin implements IntegrationPlu
     this.exporter = null;
   }
 
-  /**
-   * Configure export options
-   */
-  setOptions(options: Partial<UnityExportOptions>): void {
-    this.exportOptions = { ...this.exportOptions, ...options };
-  }
-
   /**
    * Sync character to Unity (export optimized file)
    */
@@ -118,8 +84,9 @@ export class UnityIntegrationPlugin extends BasePlugin implements IntegrationPlu
 
   /**
    * Export character optimized for Unity
+   * includeLOD, targetPolyCount and boneNaming override the plugin options for this export
    */
-  async exportForUnity(character: Character): Promise<Blob> {
+  async exportForUnity(character: Character, options: Partial<ExportOptions> = {}): Promise<Blob> {
     this.assertReady();
 
     if (!this.exporter || !character.model) {
@@ -127,7 +94,24 @@ export class UnityIntegrationPlugin extends BasePlugin implements IntegrationPlu
     }
 
     // Clone and prepare model for Unity
-    const preparedModel = this.prepareForUnity(character.model);
+    const preparedModel = this.prepareForUnity(character.model, {
+      generateLODs: options.includeLOD ?? this.config.generateLODs,
+      targetPolyCount: options.targetPolyCount ?? this.config.targetPolyCount,
+    });
+
+    // Rename bones for the target avatar and retarget the clips to match
+    const report = validateUnityHumanoid(preparedModel);
+    if (report.missing.length > 0 && character.type === 'humanoid') {
+      console.warn(`[UnityIntegration] ${character.name} is missing Humanoid bones: ${report.missing.join(', ')}`);
+    }
+    if (report.wrongSide.length > 0) {
+      console.warn(`[UnityIntegration] ${character.name} has Humanoid bones on the wrong side: ${report.wrongSide.join(', ')}`);
+    }
+    const animations = renameBones(
+      preparedModel,
+      options.boneNaming ?? this.config.boneNaming,
+      this.config.bakeAnimations ? character.model.animations : []
+    );
 
     return new Promise((resolve, reject) => {
       if (!this.exporter) {
@@ -149,57 +133,54 @@ export class UnityIntegrationPlugin extends BasePlugin implements IntegrationPlu
         },
         {
           binary: true,
-          animations: this.exportOptions.bakeAnimations
-            ? character.model?.animations ?? []
-            : [],
+          animations,
         }
       );
     });
   }
 
   /**
-   * Prepare model for Unity compatibility
+   * Clone of a model prepared the way exportForUnity() writes it: scaled, oriented,
+   * with Unity-ready materials and LODs, before bones are renamed
    */
-  private prepareForUnity(model: THREE.Object3D): THREE.Object3D {
-    const clone = model.clone(true);
+  prepareForUnity(
+    model: THREE.Object3D,
+    lod: { generateLODs: boolean; targetPolyCount: number | undefined }
+  ): THREE.Object3D {
+    // SkeletonUtils rebinds skinned meshes to the cloned bones
+    const clone = SkeletonUtils.clone(model);
 
     // Apply scale factor
-    if (this.exportOptions.scaleFactor !== 1.0) {
-      clone.scale.multiplyScalar(this.exportOptions.scaleFactor);
+    if (this.config.scaleFactor !== 1.0) {
+      clone.scale.multiplyScalar(this.config.scaleFactor);
     }
 
     // Convert coordinate system if needed (Three.js Y-up to Unity left-handed)
-    if (this.exportOptions.convertToLeftHanded) {
+    if (this.config.convertToLeftHanded) {
       // glTF handles this, but we ensure proper orientation
       clone.rotation.y = Math.PI; // Flip to face Unity's forward direction
     }
 
-    // Rename bones for Unity Humanoid
-    this.remapBonesForUnity(clone);
-
     // Optimize materials for Unity's Standard shader
     this.optimizeMaterialsForUnity(clone);
 
-    // Generate LODs if requested
-    if (this.exportOptions.generateLODs) {
-      this.generateLODs(clone);
+    // Generate LODs if requested; a poly budget alone still reduces LOD0
+    if (lod.generateLODs || lod.targetPolyCount !== undefined) {
+      this.generateLODs(clone, lod.generateLODs ? this.config.lodLevels : 1, lod.targetPolyCount);
     }
 
     return clone;
   }
 
   /**
-   * Remap bone names to Unity Humanoid convention
+   * Report which required Unity Humanoid bones the character lacks or has on the wrong side
+   * Creatures and mechs have none and import as Generic rigs instead
    */
-  private remapBonesForUnity(object: THREE.Object3D): void {
-    object.traverse((child) => {
-      if (child instanceof THREE.Bone) {
-        const unityName = UNITY_BONE_MAPPING[child.name];
-        if (unityName) {
-          child.name = unityName;
-        }
-      }
-    });
+  validateForUnity(character: Character): BoneValidationReport {
+    if (!character.model) {
+      throw new PluginError(this.id, 'INVALID_STATE', 'Character has no model');
+    }
+    return validateUnityHumanoid(character.model);
   }
 
   /**
@@ -229,7 +210,7 @@ export class UnityIntegrationPlugin extends BasePlugin implements IntegrationPlu
             mat.metalness = Math.max(0, Math.min(1, mat.metalness));
 
             // Mobile optimization: simplify materials
-            if (this.exportOptions.optimizeForMobile) {
+            if (this.config.optimizeForMobile) {
               mat.envMapIntensity = 0.5;
               // Remove unnecessary maps for mobile
               mat.normalScale?.set(0.5, 0.5);
@@ -241,19 +222,89 @@ export class UnityIntegrationPlugin extends BasePlugin implements IntegrationPlu
   }
 
   /**
-   * Generate LOD levels (simplified implementation)
+   * Replace every mesh with progressively decimated levels
+   * The poly budget is shared between meshes by their triangle counts
    */
-  private generateLODs(object: THREE.Object3D): void {
-    // Note: Full LOD generation would require mesh decimation
-    // This is a placeholder that marks objects for LOD grouping
+  private generateLODs(object: THREE.Object3D, levels: number, targetPolyCount: number | undefined): void {
+    const simplifier = getMeshSimplifier();
+    const meshes: THREE.Mesh[] = [];
     object.traverse((child) => {
-      if (child instanceof THREE.Mesh) {
-        child.userData['LOD'] = {
-          level: 0,
-          distance: 0,
-        };
-      }
+      if (child instanceof THREE.Mesh) meshes.push(child);
     });
+
+    const totalTriangles = meshes.reduce((sum, mesh) => sum + simplifier.countTriangles(mesh.geometry), 0);
+    const budgetRatio = targetPolyCount !== undefined && totalTriangles > 0
+      ? Math.min(1, targetPolyCount / totalTriangles)
+      : 1;
+
+    for (const mesh of meshes) {
+      const parent = mesh.parent;
+      if (!parent) continue;
+
+      const levelGeometries: THREE.BufferGeometry[] = [];
+      let ratio = budgetRatio;
+      for (let level = 0; level < Math.max(1, levels); level++) {
+        levelGeometries.push(ratio < 1 ? simplifier.simplify(mesh.geometry, { ratio }).geometry : mesh.geometry);
+        ratio *= this.config.lodReduction;
+      }
+
+      // LOD0 is the original mesh with its geometry swapped, so it keeps its skeleton and child bones
+      const sourceGeometry = mesh.geometry;
+      mesh.geometry = levelGeometries[0] ?? sourceGeometry;
+      if (levelGeometries.length === 1) {
+        // Only a budget reduction, no LOD chain
+        continue;
+      }
+
+      const container = this.config.lodMode === 'three-lod' ? new THREE.LOD() : new THREE.Group();
+      container.name = mesh.name || `Mesh_${mesh.id}`;
+      container.position.copy(mesh.position);
+      container.quaternion.copy(mesh.quaternion);
+      container.scale.copy(mesh.scale);
+      parent.add(container);
+
+      // Bones parented to the mesh move up to the container, where every level can reach them
+      for (const child of [...mesh.children]) {
+        container.add(child);
+      }
+
+      sourceGeometry.computeBoundingSphere();
+      const radius = sourceGeometry.boundingSphere?.radius ?? 1;
+
+      levelGeometries.forEach((geometry, level) => {
+        const lodMesh = level === 0 ? mesh : this.createLODMesh(mesh, geometry);
+        lodMesh.name = `${container.name}_LOD${level}`;
+        lodMesh.position.set(0, 0, 0);
+        lodMesh.quaternion.identity();
+        lodMesh.scale.set(1, 1, 1);
+        if (container instanceof THREE.LOD) {
+          container.addLevel(lodMesh, level * radius * 5);
+        } else {
+          container.add(lodMesh);
+        }
+      });
+    }
+  }
+
+  /**
+   * Copy of a mesh with new geometry; skinned meshes stay bound to the same skeleton
+   */
+  private createLODMesh(mesh: THREE.Mesh, geometry: THREE.BufferGeometry): THREE.Mesh {
+    let lodMesh: THREE.Mesh;
+    if (mesh instanceof THREE.SkinnedMesh) {
+      const skinned = new THREE.SkinnedMesh(geometry, mesh.material);
+      skinned.bind(mesh.skeleton, mesh.bindMatrix);
+      lodMesh = skinned;
+    } else {
+      lodMesh = new THREE.Mesh(geometry, mesh.material);
+    }
+    lodMesh.name = mesh.name;
+    lodMesh.position.copy(mesh.position);
+    lodMesh.quaternion.copy(mesh.quaternion);
+    lodMesh.scale.copy(mesh.scale);
+    lodMesh.castShadow = mesh.castShadow;
+    lodMesh.receiveShadow = mesh.receiveShadow;
+    return lodMesh;
   }
 
   /**
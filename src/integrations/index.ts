@@ -2,12 +2,15 @@
  * Integration plugins exports
  */
 
-export { BlenderIntegrationPlugin } from './BlenderIntegration.js';
+export { BlenderIntegrationPlugin, BlenderConfigSchema } from './BlenderIntegration.js';
 export type { BlenderExportOptions } from './BlenderIntegration.js';
 
-export { UnityIntegrationPlugin } from './UnityIntegration.js';
+export { UnityIntegrationPlugin, UnityConfigSchema } from './UnityIntegration.js';
 export type { UnityExportOptions } from './UnityIntegration.js';
 
+export { GodotIntegrationPlugin, GodotConfigSchema } from './GodotIntegration.js';
+export type { GodotExportOptions, GodotExportBundle } from './GodotIntegration.js';
+
 export {
   PresetManager,
   getPresetManager,
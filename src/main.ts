@@ -6,8 +6,11 @@
 import { PreviewViewport } from './ui/PreviewViewport.js';
 import { HumanoidGenerator } from './generators/HumanoidGenerator.js';
 import { GLTFExporterPlugin } from './exporters/GLTFExporter.js';
+import { USDExporterPlugin } from './exporters/USDExporter.js';
+import { VRMExporterPlugin } from './exporters/VRMExporter.js';
+import { SpriteSheetExporterPlugin } from './exporters/SpriteSheetExporter.js';
 import { getPluginManager } from './plugins/PluginManager.js';
-import type { Character, GenerationParams, GeneratorPlugin, ExporterPlugin } from './plugins/types.js';
+import type { Character, ExportFormat, GenerationParams, GeneratorPlugin, ExporterPlugin } from './plugins/types.js';
 
 // Application state
 let viewport: PreviewViewport | null = null;
@@ -41,6 +44,19 @@ async function init(): Promise<void> {
   const gltfExporter = new GLTFExporterPlugin();
   await pluginManager.register(gltfExporter);
 
+  const usdExporter = new USDExporterPlugin();
+  await pluginManager.register(usdExporter);
+
+  const vrmExporter = new VRMExporterPlugin();
+  await pluginManager.register(vrmExporter);
+
+  const spriteSheetExporter = new SpriteSheetExporterPlugin();
+  await pluginManager.register(spriteSheetExporter);
+
+  pluginManager.events.on('error', ({ operation, error }) => {
+    console.error(`[${operation}] ${error.code}:`, error.message);
+  });
+
   // Generate a default character
   const params: GenerationParams = {
     type: 'humanoid',
@@ -52,7 +68,7 @@ async function init(): Promise<void> {
     },
   };
 
-  currentCharacter = await humanoidGenerator.generate(params);
+  currentCharacter = await pluginManager.generate(params);
 
   if (currentCharacter.model) {
     viewport.add(currentCharacter.model);
@@ -70,12 +86,14 @@ async function init(): Promise<void> {
   Object.assign(window, {
     generateCharacter,
     exportCharacter,
+    exportBatch,
+    loadPlugin,
     setStyle,
     setLighting,
     toggleAutoRotate,
   });
 
-  console.log('Available commands: generateCharacter(), exportCharacter(), setStyle(name), setLighting(preset), toggleAutoRotate()');
+  console.log('Available commands: generateCharacter(), exportCharacter(format), exportBatch(formats), loadPlugin(manifestUrl), setStyle(name), setLighting(preset), toggleAutoRotate()');
 }
 
 /**
@@ -84,15 +102,6 @@ async function init(): Promise<void> {
 async function generateCharacter(style: string = 'stylized'): Promise<void> {
   if (!viewport) return;
 
-  const pluginManager = getPluginManager();
-  const generator = pluginManager.findGeneratorFor('humanoid');
-  if (!generator) return;
-
-  // Remove current character
-  if (currentCharacter?.model) {
-    viewport.removeAndDispose(currentCharacter.model);
-  }
-
   // Generate new character
   const params: GenerationParams = {
     type: 'humanoid',
@@ -104,7 +113,14 @@ async function generateCharacter(style: string = 'stylized'): Promise<void> {
     },
   };
 
-  currentCharacter = await generator.generate(params);
+  // Generate before removing, so a vetoed or failed generation keeps the current character
+  const character = await getPluginManager().generate(params);
+
+  // Remove current character
+  if (currentCharacter?.model) {
+    viewport.removeAndDispose(currentCharacter.model);
+  }
+  currentCharacter = character;
 
   if (currentCharacter.model) {
     viewport.add(currentCharacter.model);
@@ -117,29 +133,71 @@ async function generateCharacter(style: string = 'stylized'): Promise<void> {
 /**
  * Export current character
  */
-async function exportCharacter(format: 'gltf' | 'glb' = 'glb'): Promise<void> {
+async function exportCharacter(format: ExportFormat = 'glb'): Promise<void> {
   if (!currentCharacter) {
     console.error('No character to export');
     return;
   }
 
-  const pluginManager = getPluginManager();
-  const exporter = pluginManager.findExporterFor(format);
-  if (!exporter) return;
-
-  // Cast to GLTFExporterPlugin to access exportToFile method
-  const gltfExporter = exporter as unknown as GLTFExporterPlugin;
-  const filename = `${currentCharacter.name}.${format}`;
-
-  await gltfExporter.exportToFile(currentCharacter, filename, {
+  let filename = `${currentCharacter.name}.${format}`;
+  const result = await getPluginManager().export(currentCharacter, {
     format,
     embedTextures: true,
     includeAnimations: false,
   });
+  const blob = result instanceof Blob ? result : new Blob([result], { type: 'text/plain' });
+
+  // Multi-file outputs (e.g. OBJ with textures) arrive as zips
+  if (blob.type === 'application/zip') {
+    filename = `${currentCharacter.name}.zip`;
+  }
+  downloadBlob(blob, filename);
 
   console.log('Exported:', filename);
 }
 
+/**
+ * Export current character to several formats as one zip with a report
+ */
+async function exportBatch(formats: ExportFormat[] = ['glb', 'usdz', 'vrm']): Promise<void> {
+  if (!currentCharacter) {
+    console.error('No character to export');
+    return;
+  }
+
+  const { archive, report } = await getPluginManager().exportBatch({
+    characters: [currentCharacter],
+    formats,
+    options: { embedTextures: true, includeAnimations: false },
+    onProgress: ({ completed, total, item }) => {
+      console.log(`[${completed}/${total}] ${item.format}: ${item.status}`, item.error?.message ?? '');
+    },
+  });
+  downloadBlob(archive, `${currentCharacter.name}-export.zip`);
+
+  console.log('Batch export:', `${report.succeeded} succeeded, ${report.failed} failed`);
+}
+
+/**
+ * Load a third-party plugin from its manifest URL
+ */
+async function loadPlugin(manifestUrl: string): Promise<void> {
+  const plugin = await getPluginManager().loadPlugin({ manifestUrl });
+  console.log('Loaded plugin:', plugin.name, plugin.version);
+}
+
+/**
+ * Trigger a browser download
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Set character style
  */
@@ -3,42 +3,106 @@
  * Provides common functionality and enforces lifecycle patterns
  */
 
-import type { PluginType, PluginState } from './types.js';
+import type { z } from 'zod';
+import { PluginError } from './types.js';
+import type { Plugin, PluginConfig, PluginDependencies, PluginType, PluginState } from './types.js';
+import { formatZodIssues } from './PluginConfig.js';
+import { PluginEventBus } from './PluginEvents.js';
+import type { PluginEventListener, PluginEventName, PluginStateListener } from './PluginEvents.js';
 
-export abstract class BasePlugin {
+export abstract class BasePlugin<TConfig extends PluginConfig = PluginConfig> {
   abstract readonly id: string;
   abstract readonly name: string;
   abstract readonly version: string;
   abstract readonly type: PluginType;
 
+  /** Override with a zod object whose fields all have defaults to make the plugin configurable */
+  readonly configSchema?: z.ZodType<TConfig, z.ZodTypeDef, unknown>;
+
   private _state: PluginState = 'uninitialized';
+  private _dependencies: PluginDependencies = new Map();
+  // A private bus until a manager hands over its own, so subscribe() works standalone
+  private _events: PluginEventBus = new PluginEventBus();
+  private subscriptions: Array<() => void> = [];
+  private stateListeners: Set<PluginStateListener> = new Set();
+  private _config: TConfig | null = null;
 
   get state(): PluginState {
     return this._state;
   }
 
   protected setState(state: PluginState): void {
+    const previous = this._state;
     this._state = state;
+    if (previous === state) return;
+
+    for (const listener of [...this.stateListeners]) {
+      try {
+        listener(state, previous);
+      } catch (error) {
+        console.error(`[${this.id}] State listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Current settings; the schema's defaults until configure() is called
+   */
+  get config(): TConfig {
+    if (!this._config) {
+      this._config = this.configSchema ? this.configSchema.parse({}) : ({} as TConfig);
+    }
+    return this._config;
+  }
+
+  /**
+   * Merge new settings over the current ones and validate the result
+   * @throws PluginError INVALID_CONFIG, leaving the current settings in place
+   */
+  configure(values: Partial<TConfig>): TConfig {
+    if (!this.configSchema) {
+      throw new PluginError(this.id, 'INVALID_CONFIG', `Plugin "${this.id}" has no settings`);
+    }
+
+    const result = this.configSchema.safeParse({ ...this.config, ...values });
+    if (!result.success) {
+      throw new PluginError(this.id, 'INVALID_CONFIG', `Invalid settings: ${formatZodIssues(result.error, 'settings')}`, result.error);
+    }
+
+    this._config = result.data;
+    void this._events.emit('pluginConfigChanged', { pluginId: this.id, config: result.data });
+    return result.data;
+  }
+
+  /**
+   * Observe state changes
+   * @returns a function that removes the listener
+   */
+  onStateChange(listener: PluginStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
   }
 
   /**
    * Initialize the plugin
-   * Override doInit() to provide custom initialization logic
+   * Override doInit() to provide custom initialization logic; dependencies and subscribe() are available from there on
    */
-  async onInit(): Promise<void> {
+  async onInit(dependencies: PluginDependencies = new Map(), events?: PluginEventBus): Promise<void> {
     if (this._state !== 'uninitialized') {
       console.warn(`[${this.id}] Plugin already initialized, state: ${this._state}`);
       return;
     }
 
-    this._state = 'initializing';
+    this._dependencies = dependencies;
+    if (events) this._events = events;
+    this.setState('initializing');
 
     try {
       await this.doInit();
-      this._state = 'ready';
+      this.setState('ready');
       console.log(`[${this.id}] Plugin initialized successfully`);
     } catch (error) {
-      this._state = 'error';
+      this.setState('error');
       console.error(`[${this.id}] Plugin initialization failed:`, error);
       throw error;
     }
@@ -56,7 +120,9 @@ export abstract class BasePlugin {
     try {
       await this.doDestroy();
     } finally {
-      this._state = 'destroyed';
+      this.subscriptions.forEach((unsubscribe) => unsubscribe());
+      this.subscriptions = [];
+      this.setState('destroyed');
       console.log(`[${this.id}] Plugin destroyed`);
     }
   }
@@ -75,6 +141,34 @@ export abstract class BasePlugin {
     // Default: no-op
   }
 
+  /**
+   * Get a resolved dependency by the id or capability it was declared with
+   * @throws PluginError if it was not resolved (missing optional dependency, or not declared)
+   */
+  protected getDependency<T extends Plugin = Plugin>(key: string): T {
+    const plugin = this._dependencies.get(key);
+    if (!plugin) {
+      throw new PluginError(this.id, 'MISSING_DEPENDENCY', `Dependency "${key}" is not available`);
+    }
+    return plugin as T;
+  }
+
+  /**
+   * Whether a declared (optional) dependency was resolved
+   */
+  protected hasDependency(key: string): boolean {
+    return this._dependencies.has(key);
+  }
+
+  /**
+   * Subscribe to the manager's events for the plugin's lifetime; destroying the plugin unsubscribes
+   */
+  protected subscribe<K extends PluginEventName>(event: K, listener: PluginEventListener<K>): () => void {
+    const unsubscribe = this._events.on(event, listener);
+    this.subscriptions.push(unsubscribe);
+    return unsubscribe;
+  }
+
   /**
    * Assert that the plugin is in a ready state
    * @throws Error if plugin is not ready
@@ -0,0 +1,214 @@
+/**
+ * BatchExport - Export many characters to many formats in one job
+ * - Exporters are resolved per format by the plugin manager
+ * - Items run with bounded concurrency and report progress as they finish
+ * - A failing item is recorded in the report instead of aborting the batch
+ * - Output is one zip holding every exported file plus report.json
+ */
+
+import { createZip } from '../exporters/ZipArchive.js';
+import type { ZipEntry } from '../exporters/ZipArchive.js';
+import { PluginError } from './types.js';
+import type {
+  Character,
+  ExporterPlugin,
+  ExportFormat,
+  ExportOptions,
+  PluginErrorCode,
+} from './types.js';
+
+/**
+ * Export options without the format, which each item sets
+ */
+export type BatchItemOptions = Omit<ExportOptions, 'format'> & Record<string, unknown>;
+
+export interface BatchExportRequest {
+  characters: Character[];
+  formats: ExportFormat[];
+  /** Options for every item */
+  options?: BatchItemOptions;
+  /** Per-format options, merged over options */
+  formatOptions?: Partial<Record<ExportFormat, BatchItemOptions>>;
+  /** Exports running at once (default 2) */
+  concurrency?: number;
+  onProgress?: (progress: BatchExportProgress) => void;
+}
+
+export interface BatchExportItemReport {
+  characterId: string;
+  characterName: string;
+  format: ExportFormat;
+  /** null when no registered exporter supports the format */
+  exporterId: string | null;
+  status: 'succeeded' | 'failed';
+  /** Location in the archive */
+  path?: string;
+  byteLength?: number;
+  durationMs: number;
+  error?: {
+    pluginId: string;
+    code: PluginErrorCode;
+    message: string;
+  };
+}
+
+export interface BatchExportReport {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: BatchExportItemReport[];
+}
+
+export interface BatchExportProgress {
+  completed: number;
+  failed: number;
+  total: number;
+  /** The item that just finished */
+  item: BatchExportItemReport;
+}
+
+export interface BatchExportResult {
+  /** Zip of the exported files plus report.json */
+  archive: Blob;
+  report: BatchExportReport;
+}
+
+const MANAGER_ID = 'plugin-manager';
+const DEFAULT_CONCURRENCY = 2;
+const REPORT_PATH = 'report.json';
+
+interface BatchItem {
+  character: Character;
+  format: ExportFormat;
+  /** Folder in the archive, unique per character */
+  folder: string;
+}
+
+function safeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_') || 'Character';
+}
+
+/**
+ * One folder per character; repeated names get a numeric suffix
+ */
+function assignFolders(characters: Character[]): Map<Character, string> {
+  const folders = new Map<Character, string>();
+  const used = new Set<string>();
+  for (const character of characters) {
+    if (folders.has(character)) continue;
+    const base = safeName(character.name);
+    let folder = base;
+    for (let n = 2; used.has(folder); n++) folder = `${base}-${n}`;
+    used.add(folder);
+    folders.set(character, folder);
+  }
+  return folders;
+}
+
+function toPluginError(error: unknown, pluginId: string): PluginError {
+  if (error instanceof PluginError) return error;
+  return new PluginError(
+    pluginId,
+    'EXPORT_FAILED',
+    error instanceof Error ? error.message : String(error),
+    error instanceof Error ? error : undefined
+  );
+}
+
+/**
+ * Run a batch export
+ * @param findExporter resolves the exporter for a format, see PluginManager.findExporterFor()
+ * @param exportWith runs one export; PluginManager passes one that fires the export events
+ */
+export async function runBatchExport(
+  request: BatchExportRequest,
+  findExporter: (format: ExportFormat) => ExporterPlugin | undefined,
+  exportWith: (exporter: ExporterPlugin, character: Character, options: ExportOptions) => Promise<Blob | string> = (
+    exporter,
+    character,
+    options
+  ) => exporter.export(character, options)
+): Promise<BatchExportResult> {
+  const started = Date.now();
+  const folders = assignFolders(request.characters);
+  const items: BatchItem[] = request.characters.flatMap((character) =>
+    request.formats.map((format) => ({ character, format, folder: folders.get(character)! }))
+  );
+
+  const reports: BatchExportItemReport[] = new Array(items.length);
+  const files: ZipEntry[][] = items.map(() => []);
+  let completed = 0;
+  let failed = 0;
+
+  const runItem = async (item: BatchItem, index: number): Promise<void> => {
+    const itemStarted = Date.now();
+    const exporter = findExporter(item.format);
+    const report: BatchExportItemReport = {
+      characterId: item.character.id,
+      characterName: item.character.name,
+      format: item.format,
+      exporterId: exporter?.id ?? null,
+      status: 'succeeded',
+      durationMs: 0,
+    };
+
+    try {
+      if (!exporter) {
+        throw new PluginError(MANAGER_ID, 'NOT_FOUND', `No exporter registered for format "${item.format}"`);
+      }
+      const options: ExportOptions = {
+        ...request.options,
+        ...request.formatOptions?.[item.format],
+        format: item.format,
+      };
+      const output = await exportWith(exporter, item.character, options);
+
+      const data = typeof output === 'string' ? new TextEncoder().encode(output) : new Uint8Array(await output.arrayBuffer());
+      // Multi-file outputs (e.g. OBJ with textures) arrive as zips
+      const extension = output instanceof Blob && output.type === 'application/zip' ? `${item.format}.zip` : item.format;
+      report.path = `${item.folder}/${safeName(item.character.name)}.${extension}`;
+      report.byteLength = data.length;
+      files[index] = [{ path: report.path, data }];
+    } catch (error) {
+      const pluginError = toPluginError(error, exporter?.id ?? MANAGER_ID);
+      report.status = 'failed';
+      report.error = { pluginId: pluginError.pluginId, code: pluginError.code, message: pluginError.message };
+      failed++;
+    }
+
+    report.durationMs = Date.now() - itemStarted;
+    reports[index] = report;
+    completed++;
+    request.onProgress?.({ completed, failed, total: items.length, item: report });
+  };
+
+  // Workers pull from one shared queue so at most `concurrency` exports run at once
+  const queue = items.entries();
+  const concurrency = Math.max(1, Math.floor(request.concurrency ?? DEFAULT_CONCURRENCY));
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    for (const [index, item] of queue) {
+      await runItem(item, index);
+    }
+  });
+  await Promise.all(workers);
+
+  const finished = Date.now();
+  const report: BatchExportReport = {
+    startedAt: new Date(started).toISOString(),
+    finishedAt: new Date(finished).toISOString(),
+    durationMs: finished - started,
+    total: items.length,
+    succeeded: items.length - failed,
+    failed,
+    items: reports,
+  };
+
+  const archive = await createZip([
+    ...files.flat(),
+    { path: REPORT_PATH, data: JSON.stringify(report, null, 2) },
+  ]);
+  return { archive, report };
+}
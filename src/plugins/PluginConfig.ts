@@ -0,0 +1,168 @@
+/**
+ * PluginConfig - Plugin settings schemas, their form description and persistence
+ * - Schemas are zod objects whose fields all have defaults, so {} parses to the default settings
+ * - describeConfigSchema() turns a schema into form fields for settings UIs
+ * - PluginSettings keeps each plugin's settings in localStorage between sessions
+ */
+
+import { z } from 'zod';
+import type { PluginConfig, PluginConfigSchema } from './types.js';
+
+/**
+ * Strings matching this pattern are edited with a color picker
+ */
+export const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * A hex color setting, e.g. colorSetting('#ffffff')
+ */
+export function colorSetting(defaultColor: string) {
+  return z.string().regex(COLOR_PATTERN, 'Use a #rrggbb color').default(defaultColor);
+}
+
+/**
+ * One editable setting
+ * Fields the UI cannot edit (objects, arrays, unions) are left out
+ */
+export type PluginConfigField =
+  | { kind: 'boolean'; key: string; label: string }
+  | { kind: 'number'; key: string; label: string; min?: number; max?: number; step?: number; optional: boolean }
+  | { kind: 'color'; key: string; label: string }
+  | { kind: 'enum'; key: string; label: string; options: string[] }
+  | { kind: 'string'; key: string; label: string };
+
+/**
+ * One line per problem, prefixed with the path of the value it concerns
+ */
+export function formatZodIssues(error: z.ZodError, root = 'value'): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || root}: ${issue.message}`).join('; ');
+}
+
+function humanize(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Strip defaults, optionals and refinements down to the underlying type
+ */
+function unwrap(schema: z.ZodTypeAny): { inner: z.ZodTypeAny; optional: boolean } {
+  let inner = schema;
+  let optional = false;
+  for (;;) {
+    if (inner instanceof z.ZodDefault) {
+      inner = inner.removeDefault();
+    } else if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+      optional = true;
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType();
+    } else {
+      return { inner, optional };
+    }
+  }
+}
+
+function describeField(key: string, schema: z.ZodTypeAny): PluginConfigField | null {
+  const { inner, optional } = unwrap(schema);
+  const label = schema.description ?? inner.description ?? humanize(key);
+
+  if (inner instanceof z.ZodBoolean) {
+    return { kind: 'boolean', key, label };
+  }
+
+  if (inner instanceof z.ZodNumber) {
+    const field: PluginConfigField = { kind: 'number', key, label, optional };
+    if (inner.minValue !== null) field.min = inner.minValue;
+    if (inner.maxValue !== null) field.max = inner.maxValue;
+    const multipleOf = inner._def.checks.find((check) => check.kind === 'multipleOf');
+    if (multipleOf) field.step = multipleOf.value;
+    else if (inner.isInt) field.step = 1;
+    return field;
+  }
+
+  if (inner instanceof z.ZodString) {
+    const isColor = inner._def.checks.some((check) => check.kind === 'regex' && check.regex.source === COLOR_PATTERN.source);
+    return { kind: isColor ? 'color' : 'string', key, label };
+  }
+
+  if (inner instanceof z.ZodEnum) {
+    return { kind: 'enum', key, label, options: [...(inner.options as string[])] };
+  }
+
+  return null;
+}
+
+/**
+ * Form fields for a settings schema, in declaration order
+ */
+export function describeConfigSchema(schema: PluginConfigSchema): PluginConfigField[] {
+  const { inner } = unwrap(schema as z.ZodTypeAny);
+  if (!(inner instanceof z.ZodObject)) return [];
+
+  const shape = inner.shape as Record<string, z.ZodTypeAny>;
+  return Object.entries(shape)
+    .map(([key, field]) => describeField(key, field))
+    .filter((field): field is PluginConfigField => field !== null);
+}
+
+/**
+ * Where settings are kept; matches the part of Web Storage in use
+ */
+export type SettingsStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * In-memory storage where localStorage is unavailable (SSR, tests)
+ */
+function memoryStorage(): SettingsStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+/**
+ * PluginSettings
+ * Stores each plugin's settings as JSON under plugin-settings:<id>
+ */
+export class PluginSettings {
+  private readonly storage: SettingsStorage;
+
+  constructor(storage?: SettingsStorage) {
+    this.storage = storage ?? (typeof localStorage === 'undefined' ? memoryStorage() : localStorage);
+  }
+
+  /**
+   * Stored settings, or null when there are none or they are unreadable
+   */
+  load(pluginId: string): PluginConfig | null {
+    const text = this.storage.getItem(this.key(pluginId));
+    if (text === null) return null;
+
+    try {
+      const value: unknown = JSON.parse(text);
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as PluginConfig) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  save(pluginId: string, config: PluginConfig): void {
+    try {
+      this.storage.setItem(this.key(pluginId), JSON.stringify(config));
+    } catch (error) {
+      // Quota exceeded or storage disabled; the settings still apply for this session
+      console.warn(`[PluginSettings] Could not save settings for ${pluginId}:`, error);
+    }
+  }
+
+  clear(pluginId: string): void {
+    this.storage.removeItem(this.key(pluginId));
+  }
+
+  private key(pluginId: string): string {
+    return `plugin-settings:${pluginId}`;
+  }
+}
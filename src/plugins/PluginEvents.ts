@@ -0,0 +1,153 @@
+/**
+ * PluginEvents - Typed event bus for the plugin system
+ * - before* events are hooks: listeners run in turn, may edit the payload, and veto by throwing
+ * - Every other event is a notification: listener failures are logged, never rethrown
+ */
+
+import type {
+  Character,
+  ExportOptions,
+  ExporterPlugin,
+  GenerationParams,
+  GeneratorPlugin,
+  Plugin,
+  PluginConfig,
+  PluginError,
+  PluginState,
+} from './types.js';
+
+export interface BeforeGenerateEvent {
+  generator: GeneratorPlugin;
+  /** A copy of the caller's params; edit it or replace it */
+  params: GenerationParams;
+}
+
+export interface AfterGenerateEvent {
+  generator: GeneratorPlugin;
+  params: GenerationParams;
+  character: Character;
+}
+
+export interface BeforeExportEvent {
+  exporter: ExporterPlugin;
+  character: Character;
+  /** A copy of the caller's options; edit it or replace it, but keep a format the exporter supports */
+  options: ExportOptions;
+}
+
+export interface AfterExportEvent {
+  exporter: ExporterPlugin;
+  character: Character;
+  options: ExportOptions;
+  output: Blob | string;
+}
+
+export interface PluginStateChangedEvent {
+  plugin: Plugin;
+  previous: PluginState;
+  state: PluginState;
+}
+
+export interface PluginConfigChangedEvent {
+  pluginId: string;
+  config: PluginConfig;
+}
+
+export interface PluginErrorEvent {
+  /** What the manager was doing when it failed */
+  operation: 'load' | 'init' | 'generate' | 'process' | 'export';
+  error: PluginError;
+}
+
+export interface PluginEventMap {
+  beforeGenerate: BeforeGenerateEvent;
+  afterGenerate: AfterGenerateEvent;
+  beforeExport: BeforeExportEvent;
+  afterExport: AfterExportEvent;
+  pluginStateChanged: PluginStateChangedEvent;
+  pluginConfigChanged: PluginConfigChangedEvent;
+  error: PluginErrorEvent;
+}
+
+export type PluginEventName = keyof PluginEventMap;
+
+export type PluginEventListener<K extends PluginEventName> = (event: PluginEventMap[K]) => void | Promise<void>;
+
+/**
+ * Listener for a single plugin's state, see PluginBase.onStateChange()
+ */
+export type PluginStateListener = (state: PluginState, previous: PluginState) => void;
+
+/**
+ * PluginEventBus
+ * Listeners run in subscription order
+ */
+export class PluginEventBus {
+  private listeners: Map<PluginEventName, Set<PluginEventListener<never>>> = new Map();
+
+  /**
+   * Subscribe to an event
+   * @returns a function that removes the listener
+   */
+  on<K extends PluginEventName>(event: K, listener: PluginEventListener<K>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends PluginEventName>(event: K, listener: PluginEventListener<K>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      return listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends PluginEventName>(event: K, listener: PluginEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  listenerCount(event: PluginEventName): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Run a hook: each listener is awaited before the next one sees the payload
+   * @throws whatever a listener throws; later listeners do not run
+   */
+  async hook<K extends PluginEventName>(event: K, payload: PluginEventMap[K]): Promise<void> {
+    for (const listener of this.snapshot(event)) {
+      await listener(payload);
+    }
+  }
+
+  /**
+   * Notify listeners and wait for them to settle
+   */
+  async emit<K extends PluginEventName>(event: K, payload: PluginEventMap[K]): Promise<void> {
+    await Promise.all(
+      this.snapshot(event).map(async (listener) => {
+        try {
+          await listener(payload);
+        } catch (error) {
+          console.error(`[PluginEventBus] "${event}" listener failed:`, error);
+        }
+      })
+    );
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+
+  /**
+   * Copy of the listeners, so listeners can unsubscribe while the event runs
+   */
+  private snapshot<K extends PluginEventName>(event: K): Array<PluginEventListener<K>> {
+    return [...(this.listeners.get(event) ?? [])] as Array<PluginEventListener<K>>;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * PluginLoader - Load third-party plugins from ES modules at runtime
+ * - A JSON manifest describes the plugin and is validated before any plugin code runs
+ * - The module's default export is a factory that receives the host runtime
+ * - Every failure after the manifest is accepted becomes INIT_FAILED
+ *
+ * Failures are error-isolated, not sandboxed: plugin code runs in the page with
+ * the same access as the app, so only load plugins you trust.
+ *
+ * A plugin module looks like:
+ *
+ *   export default ({ THREE, BasePlugin }) =>
+ *     new (class extends BasePlugin { readonly id = 'my-generator'; ... })();
+ */
+
+import * as THREE from 'three';
+import { z } from 'zod';
+import { BasePlugin } from './BasePlugin.js';
+import { PluginError } from './types.js';
+import { formatZodIssues } from './PluginConfig.js';
+import type { Plugin, PluginType } from './types.js';
+
+/**
+ * Version of the plugin interfaces; bumped when a change breaks existing plugins
+ */
+export const PLUGIN_API_VERSION = 1;
+
+const LOADER_ID = 'plugin-loader';
+
+export const PluginManifestSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().min(1).optional(),
+  version: z.string().regex(/^\d+\.\d+\.\d+(?:[-+].+)?$/, 'Use a semver version'),
+  type: z.enum(['generator', 'processor', 'exporter', 'integration']),
+  apiVersion: z.number().int().positive(),
+  /** Module path relative to the manifest URL; unused for local files */
+  entry: z.string().min(1).default('index.js'),
+});
+
+export type PluginManifest = z.infer<typeof PluginManifestSchema>;
+
+/**
+ * Runtime handed to a plugin factory
+ * Plugins must build on these rather than their own copies, so instanceof checks hold across the boundary
+ */
+export interface PluginHost {
+  apiVersion: number;
+  manifest: PluginManifest;
+  THREE: typeof THREE;
+  BasePlugin: typeof BasePlugin;
+  PluginError: typeof PluginError;
+}
+
+export type PluginFactory = (host: PluginHost) => Plugin | Promise<Plugin>;
+
+/**
+ * Where to load a plugin from
+ * - manifestUrl: fetch the manifest, then import its entry relative to it
+ * - manifest + module: local files, e.g. from an <input type="file">; the manifest may also be JSON text
+ */
+export type PluginSource = { manifestUrl: string } | { manifest: Blob | string; module: Blob };
+
+/**
+ * A validated manifest and the module URL to import
+ */
+export interface ResolvedPluginSource {
+  manifest: PluginManifest;
+  moduleUrl: string;
+  /** Release resources held for the import (object URLs) */
+  release(): void;
+}
+
+const REQUIRED_METHODS: Record<PluginType, string[]> = {
+  generator: ['generate', 'getSupportedTypes'],
+  processor: ['process'],
+  exporter: ['export', 'getSupportedFormats'],
+  integration: ['sync', 'isAvailable'],
+};
+
+/**
+ * Validate a manifest (JSON text or parsed value)
+ * @throws PluginError INVALID_MANIFEST listing every problem, or API_VERSION_MISMATCH
+ */
+export function parsePluginManifest(input: string | unknown): PluginManifest {
+  let value: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new PluginError(LOADER_ID, 'INVALID_MANIFEST', 'Manifest is not valid JSON', error instanceof Error ? error : undefined);
+    }
+  }
+
+  const result = PluginManifestSchema.safeParse(value);
+  if (!result.success) {
+    const id = (value as { id?: unknown } | null)?.id;
+    const problems = formatZodIssues(result.error, 'manifest');
+    throw new PluginError(typeof id === 'string' ? id : LOADER_ID, 'INVALID_MANIFEST', `Invalid manifest: ${problems}`, result.error);
+  }
+
+  const manifest = result.data;
+  if (manifest.apiVersion !== PLUGIN_API_VERSION) {
+    throw new PluginError(
+      manifest.id,
+      'API_VERSION_MISMATCH',
+      `Plugin targets plugin API ${manifest.apiVersion}, this host provides ${PLUGIN_API_VERSION}`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Read and validate the manifest, and work out which module to import
+ * No plugin code runs here
+ */
+export async function resolvePluginSource(source: PluginSource): Promise<ResolvedPluginSource> {
+  if ('manifestUrl' in source) {
+    let text: string;
+    try {
+      const response = await fetch(source.manifestUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+      text = await response.text();
+    } catch (error) {
+      throw new PluginError(
+        LOADER_ID,
+        'INVALID_MANIFEST',
+        `Could not fetch manifest ${source.manifestUrl}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const manifest = parsePluginManifest(text);
+    const moduleUrl = new URL(manifest.entry, new URL(source.manifestUrl, globalThis.location?.href)).href;
+    return { manifest, moduleUrl, release: () => {} };
+  }
+
+  const manifest = parsePluginManifest(typeof source.manifest === 'string' ? source.manifest : await source.manifest.text());
+  // Blob URLs import as modules only with a JavaScript type
+  const moduleUrl = URL.createObjectURL(new Blob([source.module], { type: 'text/javascript' }));
+  return { manifest, moduleUrl, release: () => URL.revokeObjectURL(moduleUrl) };
+}
+
+/**
+ * Import the module and build the plugin it exports, checking it against its manifest
+ * The plugin is not initialized
+ * @throws PluginError INIT_FAILED, with whatever the module threw as the cause
+ */
+export async function instantiatePlugin(resolved: ResolvedPluginSource): Promise<Plugin> {
+  const { manifest, moduleUrl } = resolved;
+
+  try {
+    const module = (await import(/* @vite-ignore */ moduleUrl)) as { default?: unknown };
+    if (typeof module.default !== 'function') {
+      throw new Error('Module has no default export factory');
+    }
+
+    const factory = module.default as PluginFactory;
+    const plugin = await factory({ apiVersion: PLUGIN_API_VERSION, manifest, THREE, BasePlugin, PluginError });
+    checkPlugin(plugin, manifest);
+    return plugin;
+  } catch (error) {
+    throw new PluginError(
+      manifest.id,
+      'INIT_FAILED',
+      `Failed to load plugin "${manifest.id}": ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined
+    );
+  } finally {
+    resolved.release();
+  }
+}
+
+/**
+ * Check the factory's result against the manifest and the plugin interfaces
+ * Supported types and formats are read once here, so a plugin that throws from them never reaches the registry
+ */
+function checkPlugin(value: unknown, manifest: PluginManifest): asserts value is Plugin {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Factory did not return a plugin');
+  }
+
+  const plugin = value as Record<string, unknown>;
+  for (const key of ['id', 'type', 'version'] as const) {
+    if (plugin[key] !== manifest[key]) {
+      throw new Error(`Plugin ${key} "${String(plugin[key])}" does not match the manifest ("${manifest[key]}")`);
+    }
+  }
+
+  const missing = ['onInit', 'onDestroy', ...REQUIRED_METHODS[manifest.type]].filter((method) => typeof plugin[method] !== 'function');
+  if (missing.length > 0) {
+    throw new Error(`Plugin is missing ${missing.join(', ')}`);
+  }
+
+  let listed: unknown = [];
+  if (manifest.type === 'generator') {
+    listed = (value as { getSupportedTypes(): unknown }).getSupportedTypes();
+  } else if (manifest.type === 'exporter') {
+    listed = (value as { getSupportedFormats(): unknown }).getSupportedFormats();
+  }
+  if (!Array.isArray(listed) || listed.some((entry) => typeof entry !== 'string')) {
+    throw new Error(`Plugin must list its supported ${manifest.type === 'generator' ? 'types' : 'formats'} as strings`);
+  }
+}
@@ -17,44 +17,266 @@ import type {
   CharacterType,
   ExportFormat,
   IntegrationTarget,
+  PluginDependencies,
+  Character,
+  GenerationParams,
+  ExportOptions,
+  PluginErrorCode,
+  PluginConfig,
 } from './types.js';
 import { PluginError } from './types.js';
+import { PluginEventBus } from './PluginEvents.js';
+import { PluginSettings } from './PluginConfig.js';
+import type { BeforeExportEvent, BeforeGenerateEvent, PluginErrorEvent } from './PluginEvents.js';
+import { runBatchExport } from './BatchExport.js';
+import type { BatchExportRequest, BatchExportResult } from './BatchExport.js';
+import { instantiatePlugin, resolvePluginSource } from './PluginLoader.js';
+import type { PluginSource } from './PluginLoader.js';
+import { runPipeline } from './ProcessingPipeline.js';
+import type { PipelineRequest, PipelineResult } from './ProcessingPipeline.js';
+
+/**
+ * Capabilities a plugin provides: its declared ones plus generate:<type> / export:<format>
+ */
+function capabilitiesOf(plugin: Plugin): string[] {
+  const capabilities = [...(plugin.capabilities ?? [])];
+  if (plugin.type === 'generator') {
+    capabilities.push(...plugin.getSupportedTypes().map((type) => `generate:${type}`));
+  } else if (plugin.type === 'exporter') {
+    capabilities.push(...plugin.getSupportedFormats().map((format) => `export:${format}`));
+  }
+  return capabilities;
+}
+
+/**
+ * Declared dependencies as [id or capability, optional]
+ */
+function dependencyKeys(plugin: Plugin): Array<[string, boolean]> {
+  return [
+    ...(plugin.dependencies ?? []).map((key): [string, boolean] => [key, false]),
+    ...(plugin.optionalDependencies ?? []).map((key): [string, boolean] => [key, true]),
+  ];
+}
+
+const MANAGER_ID = 'plugin-manager';
 
 export class PluginManager {
+  /** Generation, export and lifecycle events; plugins get the same bus in onInit() */
+  readonly events: PluginEventBus = new PluginEventBus();
+
   private plugins: Map<string, Plugin> = new Map();
   private initializationOrder: string[] = [];
+  /** Plugin id to the ids of registered plugins that were given it as a dependency */
+  private dependents: Map<string, Set<string>> = new Map();
+  private stateSubscriptions: Map<string, () => void> = new Map();
+
+  /**
+   * @param settings where plugin settings persist (default: localStorage)
+   */
+  constructor(private readonly settings: PluginSettings = new PluginSettings()) {
+    this.events.on('pluginConfigChanged', ({ pluginId, config }) => {
+      if (this.plugins.has(pluginId)) this.settings.save(pluginId, config);
+    });
+  }
 
   /**
    * Register a plugin with the manager
-   * @throws PluginError if plugin is already registered
+   * Its dependencies must already be registered; registerAll() orders several plugins itself
+   * @throws PluginError if plugin is already registered, a dependency is missing or init fails
    */
   async register(plugin: Plugin): Promise<void> {
-    if (this.plugins.has(plugin.id)) {
-      throw new PluginError(
-        plugin.id,
-        'ALREADY_REGISTERED',
-        `Plugin "${plugin.id}" is already registered`
-      );
+    await this.registerAll([plugin]);
+  }
+
+  /**
+   * Register several plugins, initializing each one after the plugins it depends on
+   * Dependencies resolve by plugin id first, then by capability, among registered plugins and the batch
+   * Stops at the first init failure; plugins initialized before it stay registered
+   * @throws PluginError ALREADY_REGISTERED, MISSING_DEPENDENCY or DEPENDENCY_CYCLE before any plugin is initialized
+   */
+  async registerAll(plugins: Plugin[]): Promise<void> {
+    const pending = new Map<string, Plugin>();
+    for (const plugin of plugins) {
+      if (this.plugins.has(plugin.id) || pending.has(plugin.id)) {
+        throw new PluginError(
+          plugin.id,
+          'ALREADY_REGISTERED',
+          `Plugin "${plugin.id}" is already registered`
+        );
+      }
+      pending.set(plugin.id, plugin);
     }
 
-    // Initialize the plugin
-    try {
-      await plugin.onInit();
+    for (const plugin of this.sortByDependencies(pending)) {
+      const dependencies = this.resolveDependencies(plugin);
+      this.restoreConfig(plugin);
+      const unsubscribe = plugin.onStateChange?.((state, previous) => {
+        void this.events.emit('pluginStateChanged', { plugin, previous, state });
+      });
+
+      // Initialize the plugin
+      try {
+        await plugin.onInit(dependencies, this.events);
+      } catch (error) {
+        unsubscribe?.();
+        const initError = new PluginError(
+          plugin.id,
+          'INIT_FAILED',
+          `Failed to initialize plugin "${plugin.id}"`,
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await this.events.emit('error', { operation: 'init', error: initError });
+        throw initError;
+      }
+
+      if (unsubscribe) this.stateSubscriptions.set(plugin.id, unsubscribe);
+
       this.plugins.set(plugin.id, plugin);
       this.initializationOrder.push(plugin.id);
+      for (const provider of new Set(dependencies.values())) {
+        const dependents = this.dependents.get(provider.id) ?? new Set<string>();
+        dependents.add(plugin.id);
+        this.dependents.set(provider.id, dependents);
+      }
       console.log(`[PluginManager] Registered plugin: ${plugin.name} (${plugin.id})`);
+    }
+  }
+
+  /**
+   * Apply a plugin's saved settings before it initializes
+   * Settings its schema no longer accepts are dropped, and the plugin keeps its defaults
+   */
+  private restoreConfig(plugin: Plugin): void {
+    if (!plugin.configSchema || !plugin.configure) return;
+    const saved = this.settings.load(plugin.id);
+    if (!saved) return;
+
+    try {
+      plugin.configure(saved);
     } catch (error) {
-      throw new PluginError(
-        plugin.id,
-        'INIT_FAILED',
-        `Failed to initialize plugin "${plugin.id}"`,
-        error instanceof Error ? error : new Error(String(error))
-      );
+      console.warn(`[PluginManager] Discarding saved settings for ${plugin.id}:`, error);
+      this.settings.clear(plugin.id);
+    }
+  }
+
+  /**
+   * Change a plugin's settings; they are saved and restored the next time it registers
+   * @throws PluginError NOT_FOUND, INVALID_STATE for plugins without settings, or INVALID_CONFIG
+   */
+  configure(pluginId: string, values: PluginConfig): PluginConfig {
+    const plugin = this.getOrThrow(pluginId);
+    if (!plugin.configSchema || !plugin.configure) {
+      throw new PluginError(pluginId, 'INVALID_STATE', `Plugin "${pluginId}" has no settings`);
+    }
+    return plugin.configure(values);
+  }
+
+  /**
+   * Load a third-party plugin from an ES module and register it
+   * The manifest is checked before any plugin code runs; a plugin that fails to load or initialize
+   * is destroyed and left out, and the registry keeps its other plugins
+   * @throws PluginError INVALID_MANIFEST, API_VERSION_MISMATCH, ALREADY_REGISTERED, INIT_FAILED or a dependency error
+   */
+  async loadPlugin(source: PluginSource): Promise<Plugin> {
+    let plugin: Plugin;
+    try {
+      const resolved = await resolvePluginSource(source);
+      if (this.plugins.has(resolved.manifest.id)) {
+        resolved.release();
+        throw new PluginError(resolved.manifest.id, 'ALREADY_REGISTERED', `Plugin "${resolved.manifest.id}" is already registered`);
+      }
+      plugin = await instantiatePlugin(resolved);
+    } catch (error) {
+      throw await this.reportError('load', error, MANAGER_ID, 'INIT_FAILED');
+    }
+
+    try {
+      await this.registerAll([plugin]);
+    } catch (error) {
+      // registerAll reports init failures itself; dependency problems surface before init and are reported here
+      if (!(error instanceof PluginError && error.code === 'INIT_FAILED')) {
+        await this.reportError('load', error, plugin.id, 'INIT_FAILED');
+      }
+
+      // Let the plugin release whatever a partial init left behind
+      if (plugin.state !== 'uninitialized') {
+        try {
+          await plugin.onDestroy();
+        } catch (destroyError) {
+          console.error(`[PluginManager] Error destroying plugin ${plugin.id}:`, destroyError);
+        }
+      }
+      throw error;
+    }
+
+    console.log(`[PluginManager] Loaded plugin: ${plugin.name} (${plugin.id} ${plugin.version})`);
+    return plugin;
+  }
+
+  /**
+   * Plugin satisfying a dependency key: an exact id, else the first plugin with that capability
+   */
+  private findProvider(key: string, pending: ReadonlyMap<string, Plugin> = new Map()): Plugin | undefined {
+    const byId = this.plugins.get(key) ?? pending.get(key);
+    if (byId) return byId;
+    for (const plugin of [...this.plugins.values(), ...pending.values()]) {
+      if (capabilitiesOf(plugin).includes(key)) return plugin;
+    }
+    return undefined;
+  }
+
+  /**
+   * Order pending plugins so every plugin comes after the pending plugins it depends on
+   * Depth-first, keeping the given order where dependencies allow
+   */
+  private sortByDependencies(pending: ReadonlyMap<string, Plugin>): Plugin[] {
+    const order: Plugin[] = [];
+    const visited = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (plugin: Plugin, path: string[]): void => {
+      const state = visited.get(plugin.id);
+      if (state === 'done') return;
+      if (state === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(plugin.id)), plugin.id];
+        throw new PluginError(plugin.id, 'DEPENDENCY_CYCLE', `Dependency cycle: ${cycle.join(' -> ')}`);
+      }
+
+      visited.set(plugin.id, 'visiting');
+      for (const [key, optional] of dependencyKeys(plugin)) {
+        const provider = this.findProvider(key, pending);
+        if (!provider) {
+          if (optional) continue;
+          throw new PluginError(plugin.id, 'MISSING_DEPENDENCY', `Plugin "${plugin.id}" requires "${key}", which is not registered`);
+        }
+        if (provider !== plugin && pending.get(provider.id) === provider) {
+          visit(provider, [...path, plugin.id]);
+        }
+      }
+      visited.set(plugin.id, 'done');
+      order.push(plugin);
+    };
+
+    for (const plugin of pending.values()) {
+      visit(plugin, []);
+    }
+    return order;
+  }
+
+  /**
+   * Registered plugins for each declared dependency of plugin
+   */
+  private resolveDependencies(plugin: Plugin): PluginDependencies {
+    const resolved = new Map<string, Plugin>();
+    for (const [key] of dependencyKeys(plugin)) {
+      const provider = this.findProvider(key);
+      if (provider && provider !== plugin) resolved.set(key, provider);
     }
+    return resolved;
   }
 
   /**
    * Unregister and destroy a plugin
+   * @throws PluginError INVALID_STATE while other registered plugins depend on it
    */
   async unregister(pluginId: string): Promise<void> {
     const plugin = this.plugins.get(pluginId);
@@ -62,6 +284,12 @@ export class PluginManager {
       throw new PluginError(pluginId, 'NOT_FOUND', `Plugin "${pluginId}" not found`);
     }
 
+    const dependents = [...(this.dependents.get(pluginId) ?? [])].filter((id) => this.plugins.has(id));
+    if (dependents.length > 0) {
+      throw new PluginError(pluginId, 'INVALID_STATE', `Plugin "${pluginId}" is required by ${dependents.join(', ')}`);
+    }
+    this.dependents.delete(pluginId);
+
     try {
       await plugin.onDestroy();
       this.plugins.delete(pluginId);
@@ -73,6 +301,9 @@ export class PluginManager {
       this.plugins.delete(pluginId);
       this.initializationOrder = this.initializationOrder.filter(id => id !== pluginId);
     }
+
+    this.stateSubscriptions.get(pluginId)?.();
+    this.stateSubscriptions.delete(pluginId);
   }
 
   /**
@@ -159,6 +390,102 @@ export class PluginManager {
     return undefined;
   }
 
+  /**
+   * Generate a character with the generator for params.type
+   * beforeGenerate listeners may edit the params or veto by throwing; afterGenerate sees the result
+   * @throws PluginError NOT_FOUND without a generator, a listener's veto, or GENERATION_FAILED
+   */
+  async generate(params: GenerationParams): Promise<Character> {
+    const generator = this.findGeneratorFor(params.type);
+    try {
+      if (!generator) {
+        throw new PluginError(MANAGER_ID, 'NOT_FOUND', `No generator registered for type "${params.type}"`);
+      }
+
+      const event: BeforeGenerateEvent = { generator, params: { ...params, options: { ...params.options } } };
+      await this.events.hook('beforeGenerate', event);
+      if (!generator.getSupportedTypes().includes(event.params.type)) {
+        throw new PluginError(MANAGER_ID, 'INVALID_STATE', `A beforeGenerate listener changed the type to unsupported "${event.params.type}"`);
+      }
+
+      const character = await generator.generate(event.params);
+      await this.events.emit('afterGenerate', { generator, params: event.params, character });
+      return character;
+    } catch (error) {
+      throw await this.reportError('generate', error, generator?.id ?? MANAGER_ID, 'GENERATION_FAILED');
+    }
+  }
+
+  /**
+   * Export a character with the exporter for options.format
+   * beforeExport listeners may edit the options or veto by throwing; afterExport sees the output
+   * @throws PluginError NOT_FOUND without an exporter, a listener's veto, or EXPORT_FAILED
+   */
+  async export(character: Character, options: ExportOptions): Promise<Blob | string> {
+    const exporter = this.findExporterFor(options.format);
+    if (!exporter) {
+      const error = new PluginError(MANAGER_ID, 'NOT_FOUND', `No exporter registered for format "${options.format}"`);
+      throw await this.reportError('export', error, MANAGER_ID, 'EXPORT_FAILED');
+    }
+    return this.exportWith(exporter, character, options);
+  }
+
+  /**
+   * Export with a known exporter, running the export hooks
+   */
+  private async exportWith(exporter: ExporterPlugin, character: Character, options: ExportOptions): Promise<Blob | string> {
+    try {
+      const event: BeforeExportEvent = { exporter, character, options: { ...options } };
+      await this.events.hook('beforeExport', event);
+      if (!exporter.getSupportedFormats().includes(event.options.format)) {
+        throw new PluginError(MANAGER_ID, 'INVALID_STATE', `A beforeExport listener changed the format to unsupported "${event.options.format}"`);
+      }
+
+      const output = await exporter.export(character, event.options);
+      await this.events.emit('afterExport', { exporter, character, options: event.options, output });
+      return output;
+    } catch (error) {
+      throw await this.reportError('export', error, exporter.id, 'EXPORT_FAILED');
+    }
+  }
+
+  /**
+   * Wrap a failure as a PluginError and announce it on the error event
+   */
+  private async reportError(
+    operation: PluginErrorEvent['operation'],
+    error: unknown,
+    pluginId: string,
+    code: PluginErrorCode
+  ): Promise<PluginError> {
+    const pluginError =
+      error instanceof PluginError
+        ? error
+        : new PluginError(pluginId, code, error instanceof Error ? error.message : String(error), error instanceof Error ? error : undefined);
+    await this.events.emit('error', { operation, error: pluginError });
+    return pluginError;
+  }
+
+  /**
+   * Generate (or take) a character, run processors over it in order, then optionally export it
+   * @throws PluginError NOT_FOUND for unknown processors, generators or formats before any work starts
+   */
+  runPipeline(request: PipelineRequest): Promise<PipelineResult> {
+    return runPipeline(this, request);
+  }
+
+  /**
+   * Export every character to every format, resolving exporters with findExporterFor()
+   * Each item runs the export hooks; failed items are listed in the report, and the batch itself only rejects if packaging fails
+   */
+  exportBatch(request: BatchExportRequest): Promise<BatchExportResult> {
+    return runBatchExport(
+      request,
+      (format) => this.findExporterFor(format),
+      (exporter, character, options) => this.exportWith(exporter, character, options)
+    );
+  }
+
   /**
    * Find an integration for the given target
    */
@@ -200,7 +527,7 @@ export class PluginManager {
 
   /**
    * Destroy all plugins and clear the registry
-   * Destroys in reverse order of initialization
+   * Destroys in reverse order of initialization, so dependents go before their dependencies
    */
   async destroyAll(): Promise<void> {
     // Destroy in reverse order
@@ -216,6 +543,9 @@ export class PluginManager {
 
     this.plugins.clear();
     this.initializationOrder = [];
+    this.dependents.clear();
+    this.stateSubscriptions.forEach((unsubscribe) => unsubscribe());
+    this.stateSubscriptions.clear();
     console.log('[PluginManager] All plugins destroyed');
   }
 }
@@ -0,0 +1,144 @@
+/**
+ * ProcessingPipeline - generate → process… → export in one call
+ * - The generator comes from the character type, exporters from the format
+ * - Processors run in the order the request lists them
+ * - Each processor run is appended to metadata.plugins_used, and the counts are refreshed
+ * - Generation and export go through the manager, so their events fire
+ */
+
+import * as THREE from 'three';
+import { PluginError } from './types.js';
+import type {
+  Character,
+  CharacterMetadata,
+  ExportOptions,
+  GenerationParams,
+  ProcessorOptions,
+  ProcessorPlugin,
+} from './types.js';
+import type { PluginManager } from './PluginManager.js';
+
+/**
+ * One processor run, by plugin id
+ */
+export interface PipelineStep {
+  processor: string;
+  options?: ProcessorOptions;
+}
+
+export interface PipelineRequest {
+  /** Generate a new character; ignored when character is given */
+  params?: GenerationParams;
+  /** Process an existing character instead of generating one */
+  character?: Character;
+  /** Processor ids or steps in run order (default: every registered processor, in registration order) */
+  processors?: Array<string | PipelineStep>;
+  /** Export the processed character */
+  export?: ExportOptions;
+}
+
+export interface PipelineResult {
+  character: Character;
+  /** Exporter output, or null without request.export */
+  output: Blob | string | null;
+}
+
+const MANAGER_ID = 'plugin-manager';
+
+/**
+ * Recount geometry after processors changed it
+ */
+function measureModel(model: THREE.Object3D): Pick<CharacterMetadata, 'vertices' | 'faces' | 'bones' | 'materials'> {
+  let vertices = 0;
+  let faces = 0;
+  let bones = 0;
+  const materials = new Set<THREE.Material>();
+
+  model.traverse((child) => {
+    if (child instanceof THREE.Bone) {
+      bones++;
+    }
+
+    if (child instanceof THREE.Mesh) {
+      const geometry = child.geometry as THREE.BufferGeometry;
+      const position = geometry.getAttribute('position');
+      if (position) {
+        vertices += position.count;
+      }
+      const index = geometry.getIndex();
+      faces += (index ? index.count : position ? position.count : 0) / 3;
+
+      if (Array.isArray(child.material)) {
+        child.material.forEach((m) => materials.add(m));
+      } else {
+        materials.add(child.material);
+      }
+    }
+  });
+
+  return { vertices, faces: Math.floor(faces), bones, materials: materials.size };
+}
+
+function resolveProcessor(manager: PluginManager, step: PipelineStep): ProcessorPlugin {
+  const plugin = manager.getOrThrow(step.processor);
+  if (plugin.type !== 'processor') {
+    throw new PluginError(plugin.id, 'INVALID_STATE', `Plugin "${plugin.id}" is a ${plugin.type}, not a processor`);
+  }
+  return plugin;
+}
+
+/**
+ * Run a pipeline against the manager's registered plugins
+ */
+export async function runPipeline(manager: PluginManager, request: PipelineRequest): Promise<PipelineResult> {
+  // Resolve every plugin before doing any work, so a typo fails fast
+  const steps: PipelineStep[] = request.processors
+    ? request.processors.map((step) => (typeof step === 'string' ? { processor: step } : step))
+    : manager.getProcessors().map((processor) => ({ processor: processor.id }));
+  const processors = steps.map((step) => resolveProcessor(manager, step));
+
+  const exporter = request.export ? manager.findExporterFor(request.export.format) : null;
+  if (request.export && !exporter) {
+    throw new PluginError(MANAGER_ID, 'NOT_FOUND', `No exporter registered for format "${request.export.format}"`);
+  }
+
+  let character: Character;
+  if (request.character) {
+    character = request.character;
+  } else if (request.params) {
+    character = await manager.generate(request.params);
+  } else {
+    throw new PluginError(MANAGER_ID, 'INVALID_STATE', 'Pipeline needs params or a character');
+  }
+
+  for (const [index, processor] of processors.entries()) {
+    try {
+      character = await processor.process(character, steps[index]!.options);
+    } catch (error) {
+      const processingError =
+        error instanceof PluginError
+          ? error
+          : new PluginError(
+              processor.id,
+              'PROCESSING_FAILED',
+              `Processor "${processor.id}" failed`,
+              error instanceof Error ? error : undefined
+            );
+      await manager.events.emit('error', { operation: 'process', error: processingError });
+      throw processingError;
+    }
+
+    character.metadata = {
+      ...character.metadata,
+      ...(character.model && measureModel(character.model)),
+      updatedAt: new Date(),
+      plugins_used: [...character.metadata.plugins_used, processor.id],
+    };
+  }
+
+  if (!exporter || !request.export) {
+    return { character, output: null };
+  }
+
+  return { character, output: await manager.export(character, request.export) };
+}
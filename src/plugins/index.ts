@@ -23,6 +23,9 @@ export type {
   ExportOptions,
   IntegrationTarget,
   PluginErrorCode,
+  PluginDependencies,
+  PluginConfig,
+  PluginConfigSchema,
 } from './types.js';
 
 export { PluginError } from './types.js';
@@ -32,3 +35,42 @@ export { BasePlugin } from './BasePlugin.js';
 
 // Plugin manager
 export { PluginManager, getPluginManager, resetPluginManager } from './PluginManager.js';
+
+// Events
+export { PluginEventBus } from './PluginEvents.js';
+export type {
+  PluginEventMap,
+  PluginEventName,
+  PluginEventListener,
+  PluginStateListener,
+  BeforeGenerateEvent,
+  AfterGenerateEvent,
+  BeforeExportEvent,
+  AfterExportEvent,
+  PluginStateChangedEvent,
+  PluginConfigChangedEvent,
+  PluginErrorEvent,
+} from './PluginEvents.js';
+
+// Settings
+export { PluginSettings, describeConfigSchema, colorSetting, COLOR_PATTERN } from './PluginConfig.js';
+export type { PluginConfigField, SettingsStorage } from './PluginConfig.js';
+
+// Dynamic loading
+export { PLUGIN_API_VERSION, PluginManifestSchema, parsePluginManifest } from './PluginLoader.js';
+export type { PluginManifest, PluginHost, PluginFactory, PluginSource } from './PluginLoader.js';
+
+// Processing pipeline
+export { runPipeline } from './ProcessingPipeline.js';
+export type { PipelineRequest, PipelineResult, PipelineStep } from './ProcessingPipeline.js';
+
+// Batch export
+export { runBatchExport } from './BatchExport.js';
+export type {
+  BatchExportRequest,
+  BatchExportResult,
+  BatchExportReport,
+  BatchExportItemReport,
+  BatchExportProgress,
+  BatchItemOptions,
+} from './BatchExport.js';
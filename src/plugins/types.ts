@@ -7,6 +7,9 @@
  */
 
 import type { Object3D, BufferGeometry, Material } from 'three';
+import type { z } from 'zod';
+import type { BoneNamingConvention } from '../rigging/BoneNaming.js';
+import type { PluginEventBus, PluginStateListener } from './PluginEvents.js';
 
 /**
  * Plugin types - discriminated union for type safety
@@ -58,6 +61,10 @@ export interface GenerationOptions {
   textureStyle: 'realistic' | 'stylized' | 'pixel' | 'toon';
   includeAnimations: boolean;
   bodyType?: 'humanoid' | 'quadruped' | 'serpentine' | 'amorphous' | 'mechanical';
+  /**
+   * Merge body parts into a single SkinnedMesh bound to a generated skeleton
+   */
+  autoRig?: boolean;
 }
 
 /**
@@ -70,11 +77,50 @@ export interface PluginBase {
   readonly type: PluginType;
   readonly state: PluginState;
 
+  /** Plugin ids or capabilities that must be registered and initialized first */
+  readonly dependencies?: readonly string[];
+  /** Like dependencies, but the plugin still initializes when they are missing */
+  readonly optionalDependencies?: readonly string[];
+  /**
+   * Capabilities this plugin provides for others to depend on
+   * Generators also provide generate:<type> and exporters export:<format>
+   */
+  readonly capabilities?: readonly string[];
+
+  /** Settings schema; every field has a default, so {} parses to the default settings */
+  readonly configSchema?: PluginConfigSchema;
+  /** Current settings */
+  readonly config?: PluginConfig;
+  /**
+   * Merge and validate new settings, then announce them as pluginConfigChanged
+   * @throws PluginError INVALID_CONFIG when the result does not match configSchema
+   */
+  configure?(values: PluginConfig): PluginConfig;
+
   // Lifecycle hooks
-  onInit(): Promise<void>;
+  /** events is the manager's bus, for plugins that subscribe to it */
+  onInit(dependencies?: PluginDependencies, events?: PluginEventBus): Promise<void>;
   onDestroy(): Promise<void>;
+
+  /**
+   * Observe state changes; the manager forwards them as pluginStateChanged
+   * @returns a function that removes the listener
+   */
+  onStateChange?(listener: PluginStateListener): () => void;
 }
 
+/**
+ * Plugin settings, see PluginBase.configSchema
+ */
+export type PluginConfig = Record<string, unknown>;
+
+export type PluginConfigSchema = z.ZodType<PluginConfig, z.ZodTypeDef, unknown>;
+
+/**
+ * Resolved dependencies handed to onInit(), keyed by the declared id or capability
+ */
+export type PluginDependencies = ReadonlyMap<string, Plugin>;
+
 /**
  * Generator plugin - creates new characters
  */
@@ -111,15 +157,18 @@ export interface ProcessorOptions {
 /**
  * Export format specification
  */
-export type ExportFormat = 'gltf' | 'glb' | 'fbx' | 'obj' | 'blend' | 'vship' | 'json';
+export type ExportFormat = 'gltf' | 'glb' | 'fbx' | 'obj' | 'stl' | '3mf' | 'usda' | 'usdz' | 'vrm' | 'spritesheet' | 'blend' | 'vship' | 'json';
 
 export interface ExportOptions {
   format: ExportFormat;
+  /** Compress geometry where the format supports it (glTF: quantization + meshopt) */
   compress?: boolean;
   embedTextures?: boolean;
   includeAnimations?: boolean;
   includeLOD?: boolean;
   targetPolyCount?: number;
+  /** Rename humanoid bones (and their animation tracks) for the target tool */
+  boneNaming?: BoneNamingConvention;
 }
 
 /**
@@ -206,6 +255,11 @@ export type PluginErrorCode =
   | 'ALREADY_REGISTERED'
   | 'NOT_FOUND'
   | 'INVALID_STATE'
+  | 'MISSING_DEPENDENCY'
+  | 'DEPENDENCY_CYCLE'
+  | 'INVALID_MANIFEST'
+  | 'API_VERSION_MISMATCH'
+  | 'INVALID_CONFIG'
   | 'GENERATION_FAILED'
   | 'PROCESSING_FAILED'
   | 'EXPORT_FAILED'
@@ -0,0 +1,41 @@
+/**
+ * GroundSnapProcessor - Rest the character's lowest point on the ground plane (Y = 0)
+ */
+
+import * as THREE from 'three';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type { ProcessorPlugin, Character, ProcessorOptions } from '../plugins/types.js';
+import { getModelBounds, translateModelContent } from './ModelBounds.js';
+
+export interface GroundSnapOptions extends ProcessorOptions {
+  /** Height of the lowest point above the ground (default 0) */
+  clearance?: number;
+}
+
+/**
+ * GroundSnapProcessor
+ * Moves the model's content vertically; X and Z are left alone
+ */
+export class GroundSnapProcessor extends BasePlugin implements ProcessorPlugin {
+  readonly id = 'ground-snap';
+  readonly name = 'Ground Snap';
+  readonly version = '1.0.0';
+  readonly type = 'processor' as const;
+
+  async process(character: Character, options: GroundSnapOptions = {}): Promise<Character> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'PROCESSING_FAILED', 'Character has no model to process');
+    }
+
+    const bounds = getModelBounds(character.model);
+    if (bounds.isEmpty()) {
+      return character;
+    }
+
+    translateModelContent(character.model, new THREE.Vector3(0, (options.clearance ?? 0) - bounds.min.y, 0));
+    return character;
+  }
+}
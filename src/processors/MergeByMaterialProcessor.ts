@@ -0,0 +1,161 @@
+/**
+ * MergeByMaterialProcessor - Cut draw calls by merging static meshes that share a material
+ * Skinned meshes, meshes riding on bones and animated meshes are left as they are,
+ * so rigs and clips keep working
+ */
+
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type { ProcessorPlugin, Character, ProcessorOptions } from '../plugins/types.js';
+
+export interface MergeByMaterialOptions extends ProcessorOptions {
+  /** Keep meshes with these names out of the merge */
+  exclude?: string[];
+}
+
+/**
+ * Names of the objects animation clips drive
+ */
+function animatedNames(model: THREE.Object3D): Set<string> {
+  const names = new Set<string>();
+  for (const clip of model.animations) {
+    for (const track of clip.tracks) {
+      names.add(THREE.PropertyBinding.parseTrackName(track.name).nodeName);
+    }
+  }
+  return names;
+}
+
+/**
+ * Whether the mesh moves independently of the model: skinned, under a bone, animated or morphing
+ */
+function isDynamic(mesh: THREE.Mesh, root: THREE.Object3D, animated: Set<string>): boolean {
+  if (mesh instanceof THREE.SkinnedMesh || mesh.morphTargetInfluences?.length) return true;
+  for (let object: THREE.Object3D | null = mesh; object && object !== root; object = object.parent) {
+    if (object instanceof THREE.Bone || animated.has(object.name) || animated.has(object.uuid)) return true;
+  }
+  return false;
+}
+
+/**
+ * Meshes can only be merged when their geometries carry the same attributes
+ */
+function attributeSignature(geometry: THREE.BufferGeometry): string {
+  const attributes = Object.keys(geometry.attributes)
+    .sort()
+    .map((name) => `${name}:${geometry.getAttribute(name).itemSize}`);
+  return `${geometry.index ? 'indexed' : 'flat'}|${attributes.join(',')}`;
+}
+
+function indexAll(geometry: THREE.BufferGeometry): void {
+  if (geometry.index) return;
+  geometry.setIndex(Array.from({ length: geometry.getAttribute('position').count }, (_, i) => i));
+}
+
+function flipWinding(geometry: THREE.BufferGeometry): void {
+  indexAll(geometry);
+  const index = geometry.index!;
+  for (let i = 0; i < index.count - 2; i += 3) {
+    const b = index.getX(i + 1);
+    index.setX(i + 1, index.getX(i + 2));
+    index.setX(i + 2, b);
+  }
+}
+
+/**
+ * MergeByMaterialProcessor
+ * Merged meshes are baked into the model's space and added directly under it
+ */
+export class MergeByMaterialProcessor extends BasePlugin implements ProcessorPlugin {
+  readonly id = 'merge-by-material';
+  readonly name = 'Merge By Material';
+  readonly version = '1.0.0';
+  readonly type = 'processor' as const;
+
+  async process(character: Character, options: MergeByMaterialOptions = {}): Promise<Character> {
+    this.assertReady();
+
+    const model = character.model;
+    if (!model) {
+      throw new PluginError(this.id, 'PROCESSING_FAILED', 'Character has no model to process');
+    }
+
+    model.updateMatrixWorld(true);
+    const rootInverse = model.matrixWorld.clone().invert();
+    const animated = animatedNames(model);
+    const exclude = new Set(options.exclude ?? []);
+
+    // Group static single-material meshes by material and attribute layout
+    const groups = new Map<string, { material: THREE.Material; meshes: THREE.Mesh[] }>();
+    model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || child === model) return;
+      if (Array.isArray(child.material) || exclude.has(child.name) || isDynamic(child, model, animated)) return;
+
+      const key = `${child.material.uuid}|${attributeSignature(child.geometry)}|${child.castShadow}|${child.receiveShadow}`;
+      const group = groups.get(key) ?? { material: child.material, meshes: [] as THREE.Mesh[] };
+      group.meshes.push(child);
+      groups.set(key, group);
+    });
+
+    const removed = new Set<THREE.Mesh>();
+    let mergedCount = 0;
+    const matrix = new THREE.Matrix4();
+
+    for (const { material, meshes } of groups.values()) {
+      if (meshes.length < 2) continue;
+
+      const parts = meshes.map((mesh) => {
+        const part = (mesh.geometry as THREE.BufferGeometry).clone();
+        matrix.multiplyMatrices(rootInverse, mesh.matrixWorld);
+        part.applyMatrix4(matrix);
+        // mirrored transforms flip the winding
+        if (matrix.determinant() < 0) flipWinding(part);
+        return part;
+      });
+      // flipWinding indexes flat parts, and merging needs all parts alike
+      if (parts.some((part) => part.index)) parts.forEach(indexAll);
+      const merged = mergeGeometries(parts);
+      parts.forEach((part) => part.dispose());
+      if (!merged) {
+        throw new PluginError(this.id, 'PROCESSING_FAILED', `Could not merge meshes using material "${material.name || material.uuid}"`);
+      }
+
+      const mesh = new THREE.Mesh(merged, material);
+      mesh.name = `merged-${material.name || ++mergedCount}`;
+      mesh.castShadow = meshes[0]!.castShadow;
+      mesh.receiveShadow = meshes[0]!.receiveShadow;
+      model.add(mesh);
+      meshes.forEach((source) => removed.add(source));
+    }
+
+    this.removeMeshes(model, removed);
+    return character;
+  }
+
+  /**
+   * Detach merged sources and prune the groups they leave empty
+   * Geometry still used by a remaining mesh is kept
+   */
+  private removeMeshes(model: THREE.Object3D, removed: Set<THREE.Mesh>): void {
+    const orphaned = new Set<THREE.BufferGeometry>();
+    for (const mesh of removed) {
+      orphaned.add(mesh.geometry);
+      let parent = mesh.parent;
+      mesh.removeFromParent();
+
+      // Drop plain groups left empty; animated ones never held merged meshes
+      while (parent && parent !== model && parent.children.length === 0 && parent.type === 'Group') {
+        const next = parent.parent;
+        parent.removeFromParent();
+        parent = next;
+      }
+    }
+
+    model.traverse((child) => {
+      if (child instanceof THREE.Mesh) orphaned.delete(child.geometry);
+    });
+    orphaned.forEach((geometry) => geometry.dispose());
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * ModelBounds - Bounds and offsets shared by the pivot processors
+ */
+
+import * as THREE from 'three';
+
+/**
+ * Bounds of the posed model (skinned vertices included) in the model's own space
+ */
+export function getModelBounds(model: THREE.Object3D): THREE.Box3 {
+  model.updateMatrixWorld(true);
+  const bounds = new THREE.Box3().setFromObject(model, true);
+  if (bounds.isEmpty()) return bounds;
+  return bounds.applyMatrix4(model.matrixWorld.clone().invert());
+}
+
+/**
+ * Move everything inside the model by offset, leaving the model's own transform alone
+ * Position tracks on the moved children are shifted too, so animations keep the new pivot
+ */
+export function translateModelContent(model: THREE.Object3D, offset: THREE.Vector3): void {
+  if (offset.lengthSq() === 0) return;
+
+  if (model instanceof THREE.Mesh) {
+    model.geometry.translate(offset.x, offset.y, offset.z);
+  }
+
+  for (const child of model.children) {
+    child.position.add(offset);
+
+    for (const clip of model.animations) {
+      for (const track of clip.tracks) {
+        if (!(track instanceof THREE.VectorKeyframeTrack) || track.name !== `${child.name}.position`) continue;
+        for (let i = 0; i < track.values.length; i += 3) {
+          track.values[i]! += offset.x;
+          track.values[i + 1]! += offset.y;
+          track.values[i + 2]! += offset.z;
+        }
+      }
+    }
+  }
+  model.updateMatrixWorld(true);
+}
@@ -0,0 +1,43 @@
+/**
+ * RecenterPivotProcessor - Move the character so its pivot sits at a chosen point of its bounds
+ */
+
+import * as THREE from 'three';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type { ProcessorPlugin, Character, ProcessorOptions } from '../plugins/types.js';
+import { getModelBounds, translateModelContent } from './ModelBounds.js';
+
+export interface RecenterPivotOptions extends ProcessorOptions {
+  /** 'bottom' puts the pivot between the feet (default), 'center' at the middle of the bounds */
+  anchor?: 'bottom' | 'center';
+}
+
+/**
+ * RecenterPivotProcessor
+ * Centres the model on X and Z; anchor decides the vertical position
+ */
+export class RecenterPivotProcessor extends BasePlugin implements ProcessorPlugin {
+  readonly id = 'recenter-pivot';
+  readonly name = 'Recenter Pivot';
+  readonly version = '1.0.0';
+  readonly type = 'processor' as const;
+
+  async process(character: Character, options: RecenterPivotOptions = {}): Promise<Character> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'PROCESSING_FAILED', 'Character has no model to process');
+    }
+
+    const bounds = getModelBounds(character.model);
+    if (bounds.isEmpty()) {
+      return character;
+    }
+
+    const center = bounds.getCenter(new THREE.Vector3());
+    const pivot = new THREE.Vector3(center.x, options.anchor === 'center' ? center.y : bounds.min.y, center.z);
+    translateModelContent(character.model, pivot.negate());
+    return character;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * RecomputeNormalsProcessor - Rebuild vertex normals from the geometry
+ * - Smooth normals across shared vertices, or
+ * - Creased normals that split edges sharper than a smoothing angle
+ */
+
+import * as THREE from 'three';
+import { toCreasedNormals } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { BasePlugin } from '../plugins/BasePlugin.js';
+import { PluginError } from '../plugins/types.js';
+import type { ProcessorPlugin, Character, ProcessorOptions } from '../plugins/types.js';
+
+export interface RecomputeNormalsOptions extends ProcessorOptions {
+  /** Edges sharper than this many degrees stay hard; omit for fully smooth normals */
+  creaseAngle?: number;
+}
+
+/**
+ * RecomputeNormalsProcessor
+ * Each geometry is processed once, even when several meshes share it
+ */
+export class RecomputeNormalsProcessor extends BasePlugin implements ProcessorPlugin {
+  readonly id = 'recompute-normals';
+  readonly name = 'Recompute Normals';
+  readonly version = '1.0.0';
+  readonly type = 'processor' as const;
+
+  async process(character: Character, options: RecomputeNormalsOptions = {}): Promise<Character> {
+    this.assertReady();
+
+    if (!character.model) {
+      throw new PluginError(this.id, 'PROCESSING_FAILED', 'Character has no model to process');
+    }
+
+    const creaseAngle = options.creaseAngle;
+    const replaced = new Map<THREE.BufferGeometry, THREE.BufferGeometry>();
+
+    character.model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const geometry = child.geometry as THREE.BufferGeometry;
+
+      let result = replaced.get(geometry);
+      if (!result) {
+        if (creaseAngle === undefined) {
+          geometry.computeVertexNormals();
+          result = geometry;
+        } else {
+          // Creasing splits vertices, so indexed geometry is replaced by a non-indexed copy
+          result = toCreasedNormals(geometry, THREE.MathUtils.degToRad(creaseAngle));
+          if (result !== geometry) geometry.dispose();
+        }
+        replaced.set(geometry, result);
+      }
+      child.geometry = result;
+    });
+
+    return character;
+  }
+}
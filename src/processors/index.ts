@@ -0,0 +1,13 @@
+/**
+ * Processor plugins exports
+ */
+
+export { MergeByMaterialProcessor } from './MergeByMaterialProcessor.js';
+export type { MergeByMaterialOptions } from './MergeByMaterialProcessor.js';
+export { RecomputeNormalsProcessor } from './RecomputeNormalsProcessor.js';
+export type { RecomputeNormalsOptions } from './RecomputeNormalsProcessor.js';
+export { RecenterPivotProcessor } from './RecenterPivotProcessor.js';
+export type { RecenterPivotOptions } from './RecenterPivotProcessor.js';
+export { GroundSnapProcessor } from './GroundSnapProcessor.js';
+export type { GroundSnapOptions } from './GroundSnapProcessor.js';
+export { getModelBounds, translateModelContent } from './ModelBounds.js';
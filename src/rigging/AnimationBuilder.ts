@@ -4,7 +4,14 @@
  */
 
 import * as THREE from 'three';
-import { HUMANOID_BONES } from './SkeletonBuilder.js';
+import type { Character, GenerationOptions } from '../plugins/types.js';
+import {
+  HUMANOID_BONES,
+  CREATURE_BONES,
+  chainBoneName,
+  spiderLegBoneName,
+} from './SkeletonBuilder.js';
+import { getGaitSynthesizer, type GaitParams } from './GaitSynthesizer.js';
 
 /**
  * Keyframe definition
@@ -28,6 +35,93 @@ export interface TrackDefinition {
  */
 export type AnimationPreset = 'idle' | 'walk' | 'run' | 'jump' | 'attack' | 'hit' | 'death';
 
+export type QuadrupedAnimationPreset = 'idle' | 'walk' | 'trot' | 'gallop';
+
+export type SpiderAnimationPreset = 'idle' | 'tripod' | 'wave';
+
+export type SerpentineAnimationPreset = 'idle' | 'slither';
+
+/**
+ * Rig families with their own preset sets
+ */
+export type RigKind = 'humanoid' | 'quadruped' | 'spider' | 'serpentine' | 'walker';
+
+/**
+ * Chain lengths used when no skeleton is supplied (matches buildQuadruped)
+ */
+const DEFAULT_SPINE_SEGMENTS = 3;
+const DEFAULT_TAIL_SEGMENTS = 3;
+const DEFAULT_SPIDER_LEGS = 8;
+const DEFAULT_SPIDER_LEG_SEGMENTS = 3;
+const DEFAULT_SERPENTINE_SEGMENTS = 10;
+
+/** Keyframes per loop for procedurally sampled cycles */
+const CYCLE_SAMPLES = 16;
+
+/**
+ * Quadruped gait timing: per-leg phase offsets in [FL, FR, BL, BR] order
+ */
+interface QuadrupedGait {
+  duration: number;
+  swingFraction: number;
+  strideAngle: number;
+  phases: [number, number, number, number];
+  spineFlex: number;
+  tailSway: number;
+  tailLift: number;
+}
+
+const QUADRUPED_GAITS: Record<Exclude<QuadrupedAnimationPreset, 'idle'>, QuadrupedGait> = {
+  // Lateral sequence walk: BL, FL, BR, FR
+  walk: {
+    duration: 1.2,
+    swingFraction: 0.3,
+    strideAngle: 0.3,
+    phases: [0.25, 0.75, 0, 0.5],
+    spineFlex: 0.02,
+    tailSway: 0.2,
+    tailLift: 0,
+  },
+  // Diagonal pairs move together
+  trot: {
+    duration: 0.7,
+    swingFraction: 0.45,
+    strideAngle: 0.4,
+    phases: [0, 0.5, 0.5, 0],
+    spineFlex: 0.03,
+    tailSway: 0.15,
+    tailLift: 0.1,
+  },
+  // Rotary gallop with a suspended phase and strong back flexion
+  gallop: {
+    duration: 0.5,
+    swingFraction: 0.6,
+    strideAngle: 0.6,
+    phases: [0.5, 0.6, 0, 0.1],
+    spineFlex: 0.12,
+    tailSway: 0.1,
+    tailLift: 0.25,
+  },
+};
+
+/**
+ * Position of a foot within its step cycle.
+ * stride runs from -1 (fully back) to 1 (fully forward); lift is 0 while planted.
+ */
+function stepCycle(phase: number, swingFraction: number): { stride: number; lift: number } {
+  const p = ((phase % 1) + 1) % 1;
+  if (p < swingFraction) {
+    const t = p / swingFraction;
+    return { stride: -Math.cos(Math.PI * t), lift: Math.sin(Math.PI * t) };
+  }
+  const t = (p - swingFraction) / (1 - swingFraction);
+  return { stride: 1 - 2 * t, lift: 0 };
+}
+
+function eulerQuaternion(x: number, y: number, z: number): THREE.Quaternion {
+  return new THREE.Quaternion().setFromEuler(new THREE.Euler(x, y, z));
+}
+
 /**
  * AnimationBuilder - Creates animation clips
  */
@@ -70,8 +164,18 @@ export class AnimationBuilder {
 
   /**
    * Create a preset animation for humanoid characters
+   * With a skeleton, walk/run are synthesized from its leg lengths and
+   * position tracks are offset from the bones' rest positions
    */
-  createHumanoidAnimation(preset: AnimationPreset): THREE.AnimationClip {
+  createHumanoidAnimation(preset: AnimationPreset, skeleton?: THREE.Skeleton): THREE.AnimationClip {
+    if (skeleton) {
+      if (preset === 'walk' || preset === 'run') {
+        const clip = this.createGaitAnimation(skeleton, { gait: preset });
+        if (clip) return clip;
+      }
+      return this.offsetPositionTracks(this.createHumanoidAnimation(preset), skeleton);
+    }
+
     switch (preset) {
       case 'idle':
         return this.createIdleAnimation();
@@ -485,6 +589,397 @@ export class AnimationBuilder {
   getAvailablePresets(): AnimationPreset[] {
     return ['idle', 'walk', 'run', 'jump', 'attack', 'hit', 'death'];
   }
+
+  /**
+   * Get the preset names available for a rig family
+   */
+  getPresetsForRig(rig: RigKind): string[] {
+    switch (rig) {
+      case 'humanoid':
+        return this.getAvailablePresets();
+      case 'quadruped':
+        return ['idle', 'walk', 'trot', 'gallop'];
+      case 'spider':
+        return ['idle', 'tripod', 'wave'];
+      case 'serpentine':
+        return ['idle', 'slither'];
+      case 'walker':
+        return ['walk', 'run'];
+    }
+  }
+
+  /**
+   * Work out which preset family fits a skeleton.
+   * An explicit humanoid/quadruped/serpentine body type wins; otherwise the
+   * bone names produced by SkeletonBuilder decide.
+   */
+  detectRig(skeleton: THREE.Skeleton, bodyType?: GenerationOptions['bodyType']): RigKind | null {
+    if (bodyType === 'humanoid' || bodyType === 'quadruped' || bodyType === 'serpentine') {
+      return bodyType;
+    }
+
+    const B = CREATURE_BONES;
+    const has = (name: string): boolean => skeleton.getBoneByName(name) !== undefined;
+
+    if (has(HUMANOID_BONES.LEFT_UPLEG)) return 'humanoid';
+    if (has(spiderLegBoneName(0, 0))) return 'spider';
+    if (has(B.FRONT_LEFT_LEG) || has(B.BACK_LEFT_LEG)) return 'quadruped';
+    // A long spine with no tail bone is a snake-like chain
+    if (!has(B.TAIL) && has(chainBoneName(B.SPINE, DEFAULT_SPINE_SEGMENTS))) return 'serpentine';
+    // Anything else with walkable leg chains (e.g. mech legs)
+    if (getGaitSynthesizer().findLegs(skeleton).length > 0) return 'walker';
+
+    return null;
+  }
+
+  /**
+   * Create every preset clip matching a skeleton's rig family
+   * Returns an empty list when the rig has no preset set
+   */
+  createAnimationsForRig(
+    skeleton: THREE.Skeleton,
+    bodyType?: GenerationOptions['bodyType']
+  ): THREE.AnimationClip[] {
+    switch (this.detectRig(skeleton, bodyType)) {
+      case 'humanoid':
+        return this.getAvailablePresets().map((preset) => this.createHumanoidAnimation(preset, skeleton));
+      case 'quadruped': {
+        const presets: QuadrupedAnimationPreset[] = ['idle', 'walk', 'trot', 'gallop'];
+        return presets.map((preset) => this.createQuadrupedAnimation(preset, skeleton));
+      }
+      case 'spider': {
+        const presets: SpiderAnimationPreset[] = ['idle', 'tripod', 'wave'];
+        return presets.map((preset) => this.createSpiderAnimation(preset, skeleton));
+      }
+      case 'serpentine': {
+        const presets: SerpentineAnimationPreset[] = ['idle', 'slither'];
+        return presets.map((preset) => this.createSerpentineAnimation(preset, skeleton));
+      }
+      case 'walker':
+        return (['walk', 'run'] as const)
+          .map((gait) => this.createGaitAnimation(skeleton, { gait }))
+          .filter((clip): clip is THREE.AnimationClip => clip !== null);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Create a walk or run cycle fitted to the skeleton's leg lengths
+   * Returns null when the skeleton has no leg chains the synthesizer recognises
+   */
+  createGaitAnimation(skeleton: THREE.Skeleton, params: GaitParams): THREE.AnimationClip | null {
+    const cycle = getGaitSynthesizer().synthesize(skeleton, params);
+    return cycle ? this.build(cycle.name, cycle.duration, cycle.tracks) : null;
+  }
+
+  /**
+   * Create preset clips for a rigged character, using its body type when set
+   */
+  createAnimationsForCharacter(character: Character): THREE.AnimationClip[] {
+    let skeleton: THREE.Skeleton | null = null;
+    character.model?.traverse((child) => {
+      if (!skeleton && child instanceof THREE.SkinnedMesh) {
+        skeleton = child.skeleton;
+      }
+    });
+    if (!skeleton) return [];
+
+    return this.createAnimationsForRig(skeleton, character.generationParams.options.bodyType);
+  }
+
+  /**
+   * Create a preset animation for quadrupeds (bone names from buildQuadruped / buildCreature)
+   * Chain lengths are read from the skeleton when given
+   */
+  createQuadrupedAnimation(preset: QuadrupedAnimationPreset, skeleton?: THREE.Skeleton): THREE.AnimationClip {
+    const spineCount = this.countChain(CREATURE_BONES.SPINE, skeleton, DEFAULT_SPINE_SEGMENTS);
+    const tailCount = this.countChain(CREATURE_BONES.TAIL, skeleton, DEFAULT_TAIL_SEGMENTS);
+
+    const tracks =
+      preset === 'idle'
+        ? this.getQuadrupedIdleTracks(spineCount, tailCount)
+        : this.getQuadrupedGaitTracks(QUADRUPED_GAITS[preset], spineCount, tailCount);
+
+    const duration = preset === 'idle' ? 3.0 : QUADRUPED_GAITS[preset].duration;
+    return this.build(preset, duration, this.filterTracks(tracks, skeleton));
+  }
+
+  /**
+   * Create a preset animation for N-legged spider rigs.
+   * 'tripod' alternates even and odd legs; 'wave' lifts one leg at a time around the body.
+   */
+  createSpiderAnimation(preset: SpiderAnimationPreset, skeleton?: THREE.Skeleton): THREE.AnimationClip {
+    const legCount = skeleton ? this.countSpiderLegs(skeleton) : DEFAULT_SPIDER_LEGS;
+    const tracks: TrackDefinition[] = [];
+
+    let duration: number;
+    switch (preset) {
+      case 'tripod':
+        duration = 0.8;
+        for (let leg = 0; leg < legCount; leg++) {
+          tracks.push(...this.getSpiderLegTracks(leg, legCount, duration, (leg % 2) * 0.5, 0.5, 0.3, 0.35));
+        }
+        break;
+      case 'wave': {
+        duration = 1.6;
+        const swingFraction = Math.max(1 / legCount, 0.125);
+        for (let leg = 0; leg < legCount; leg++) {
+          tracks.push(...this.getSpiderLegTracks(leg, legCount, duration, leg / legCount, swingFraction, 0.25, 0.3));
+        }
+        break;
+      }
+      case 'idle':
+      default:
+        duration = 2.0;
+        for (let leg = 0; leg < legCount; leg++) {
+          const angle = (leg / legCount) * Math.PI * 2;
+          const liftAxis = new THREE.Vector3(-Math.sin(angle), 0, Math.cos(angle));
+          tracks.push(
+            this.sampleLoop(spiderLegBoneName(leg, 0), duration, (phase) =>
+              new THREE.Quaternion().setFromAxisAngle(
+                liftAxis,
+                0.03 * Math.sin(Math.PI * 2 * (phase + leg / legCount))
+              )
+            )
+          );
+        }
+        break;
+    }
+
+    return this.build(preset, duration, this.filterTracks(tracks, skeleton));
+  }
+
+  /**
+   * Create a preset animation for serpentine spine chains
+   * A sine wave travels from the head (spine) towards the tail end of the chain
+   */
+  createSerpentineAnimation(preset: SerpentineAnimationPreset, skeleton?: THREE.Skeleton): THREE.AnimationClip {
+    const segmentCount = this.countChain(CREATURE_BONES.SPINE, skeleton, DEFAULT_SERPENTINE_SEGMENTS);
+    const slither = preset === 'slither';
+
+    const duration = slither ? 1.2 : 3.0;
+    const waves = slither ? 1.5 : 0.75;
+    // Per-joint amplitude; rotations accumulate down the chain
+    const amplitude = (slither ? 2.0 : 0.4) / segmentCount;
+    const wavelength = (Math.PI * 2 * waves) / segmentCount;
+
+    const tracks: TrackDefinition[] = [];
+    for (let i = 0; i < segmentCount; i++) {
+      tracks.push(
+        this.sampleLoop(chainBoneName(CREATURE_BONES.SPINE, i), duration, (phase) =>
+          eulerQuaternion(0, amplitude * Math.sin(Math.PI * 2 * phase - i * wavelength), 0)
+        )
+      );
+    }
+
+    // Keep the head facing the direction of travel
+    tracks.push(
+      this.sampleLoop(CREATURE_BONES.HEAD, duration, (phase) =>
+        eulerQuaternion(
+          0,
+          -amplitude * 2 * Math.sin(Math.PI * 2 * phase),
+          slither ? 0 : 0.05 * Math.sin(Math.PI * 2 * phase)
+        )
+      )
+    );
+
+    return this.build(preset, duration, this.filterTracks(tracks, skeleton));
+  }
+
+  private getQuadrupedIdleTracks(spineCount: number, tailCount: number): TrackDefinition[] {
+    const duration = 3.0;
+    const B = CREATURE_BONES;
+
+    const tracks: TrackDefinition[] = [
+      // Breathing
+      this.sampleLoop(B.SPINE, duration, (phase) =>
+        eulerQuaternion(0, 0, 0.015 * Math.sin(Math.PI * 2 * phase))
+      ),
+      // Look around
+      this.sampleLoop(B.HEAD, duration, (phase) =>
+        eulerQuaternion(0, 0.15 * Math.sin(Math.PI * 2 * phase), 0.03 * Math.sin(Math.PI * 4 * phase))
+      ),
+    ];
+
+    if (spineCount > 1) {
+      tracks.push(
+        this.sampleLoop(chainBoneName(B.SPINE, spineCount - 1), duration, (phase) =>
+          eulerQuaternion(0, 0, -0.01 * Math.sin(Math.PI * 2 * phase))
+        )
+      );
+    }
+
+    tracks.push(...this.getTailTracks(tailCount, duration, 0.25, 0));
+    return tracks;
+  }
+
+  private getQuadrupedGaitTracks(gait: QuadrupedGait, spineCount: number, tailCount: number): TrackDefinition[] {
+    const B = CREATURE_BONES;
+    const legs: Array<[string, string, string]> = [
+      [B.FRONT_LEFT_LEG, B.FRONT_LEFT_LOWER_LEG, B.FRONT_LEFT_FOOT],
+      [B.FRONT_RIGHT_LEG, B.FRONT_RIGHT_LOWER_LEG, B.FRONT_RIGHT_FOOT],
+      [B.BACK_LEFT_LEG, B.BACK_LEFT_LOWER_LEG, B.BACK_LEFT_FOOT],
+      [B.BACK_RIGHT_LEG, B.BACK_RIGHT_LOWER_LEG, B.BACK_RIGHT_FOOT],
+    ];
+
+    const tracks: TrackDefinition[] = [];
+    legs.forEach(([upper, lower, foot], index) => {
+      const offset = gait.phases[index] ?? 0;
+      const step = (phase: number) => stepCycle(phase + offset, gait.swingFraction);
+
+      // Positive Z swings the leg towards the head (+X)
+      tracks.push(
+        this.sampleLoop(upper, gait.duration, (phase) => eulerQuaternion(0, 0, gait.strideAngle * step(phase).stride)),
+        this.sampleLoop(lower, gait.duration, (phase) => eulerQuaternion(0, 0, -gait.strideAngle * 1.5 * step(phase).lift)),
+        this.sampleLoop(foot, gait.duration, (phase) => eulerQuaternion(0, 0, gait.strideAngle * 0.75 * step(phase).lift))
+      );
+    });
+
+    // Back flexes and extends twice per stride (once per stride in the gallop)
+    const flexFrequency = gait.spineFlex > 0.05 ? 1 : 2;
+    for (let i = 0; i < spineCount; i++) {
+      tracks.push(
+        this.sampleLoop(chainBoneName(B.SPINE, i), gait.duration, (phase) =>
+          eulerQuaternion(0, 0, gait.spineFlex * Math.sin(Math.PI * 2 * flexFrequency * phase))
+        )
+      );
+    }
+
+    // Head counters the spine to stay level
+    tracks.push(
+      this.sampleLoop(B.HEAD, gait.duration, (phase) =>
+        eulerQuaternion(0, 0, -gait.spineFlex * spineCount * Math.sin(Math.PI * 2 * flexFrequency * phase))
+      )
+    );
+
+    tracks.push(...this.getTailTracks(tailCount, gait.duration, gait.tailSway, gait.tailLift));
+    return tracks;
+  }
+
+  /**
+   * Side-to-side tail sway with a delay down the chain
+   */
+  private getTailTracks(count: number, duration: number, sway: number, lift: number): TrackDefinition[] {
+    const tracks: TrackDefinition[] = [];
+    for (let i = 0; i < count; i++) {
+      const segmentSway = sway * (1 + i * 0.25) / count;
+      tracks.push(
+        this.sampleLoop(chainBoneName(CREATURE_BONES.TAIL, i), duration, (phase) =>
+          eulerQuaternion(0, segmentSway * Math.sin(Math.PI * 2 * phase - i * 0.6), i === 0 ? lift : 0)
+        )
+      );
+    }
+    return tracks;
+  }
+
+  /**
+   * Hip yaw plus swing-phase lift for one spider leg
+   * Legs radiate at (leg / legCount) * 2PI around Y, matching MechanicalGenerator
+   */
+  private getSpiderLegTracks(
+    leg: number,
+    legCount: number,
+    duration: number,
+    offset: number,
+    swingFraction: number,
+    strideAngle: number,
+    liftAngle: number
+  ): TrackDefinition[] {
+    const angle = (leg / legCount) * Math.PI * 2;
+    // Rotating about this axis raises the leg tip
+    const liftAxis = new THREE.Vector3(-Math.sin(angle), 0, Math.cos(angle));
+    const up = new THREE.Vector3(0, 1, 0);
+    // Side legs sweep along +X; legs pointing forward or back mostly lift in place
+    const yawScale = Math.sin(angle);
+
+    const step = (phase: number) => stepCycle(phase + offset, swingFraction);
+
+    const tracks: TrackDefinition[] = [
+      this.sampleLoop(spiderLegBoneName(leg, 0), duration, (phase) => {
+        const { stride, lift } = step(phase);
+        const yaw = new THREE.Quaternion().setFromAxisAngle(up, strideAngle * stride * yawScale);
+        return yaw.multiply(new THREE.Quaternion().setFromAxisAngle(liftAxis, liftAngle * lift));
+      }),
+      // Knee curls the tip in while the leg is raised
+      this.sampleLoop(spiderLegBoneName(leg, 1), duration, (phase) =>
+        new THREE.Quaternion().setFromAxisAngle(liftAxis, -liftAngle * 0.6 * step(phase).lift)
+      ),
+    ];
+
+    for (let segment = 2; segment < DEFAULT_SPIDER_LEG_SEGMENTS; segment++) {
+      tracks.push(
+        this.sampleLoop(spiderLegBoneName(leg, segment), duration, (phase) =>
+          new THREE.Quaternion().setFromAxisAngle(liftAxis, -liftAngle * 0.3 * step(phase).lift)
+        )
+      );
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Sample a looping rotation; the last key repeats the first so the cycle closes
+   */
+  private sampleLoop(
+    boneName: string,
+    duration: number,
+    rotationAt: (phase: number) => THREE.Quaternion
+  ): TrackDefinition {
+    const keyframes: Keyframe[] = [];
+    for (let i = 0; i <= CYCLE_SAMPLES; i++) {
+      const phase = i / CYCLE_SAMPLES;
+      keyframes.push({ time: phase * duration, value: rotationAt(phase % 1) });
+    }
+    return { boneName, property: 'quaternion', keyframes };
+  }
+
+  /**
+   * Number of bones in a chain (base, base1, base2...), or the fallback without a skeleton
+   */
+  private countChain(base: string, skeleton: THREE.Skeleton | undefined, fallback: number): number {
+    if (!skeleton) return fallback;
+
+    let count = 0;
+    while (skeleton.getBoneByName(chainBoneName(base, count))) {
+      count++;
+    }
+    return count;
+  }
+
+  private countSpiderLegs(skeleton: THREE.Skeleton): number {
+    let count = 0;
+    while (skeleton.getBoneByName(spiderLegBoneName(count, 0))) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Hand-authored position keys are offsets; add each bone's rest position
+   */
+  private offsetPositionTracks(clip: THREE.AnimationClip, skeleton: THREE.Skeleton): THREE.AnimationClip {
+    for (const track of clip.tracks) {
+      const [boneName, property] = track.name.split('.');
+      const bone = boneName ? skeleton.getBoneByName(boneName) : undefined;
+      if (property !== 'position' || !bone) continue;
+
+      for (let i = 0; i < track.values.length; i += 3) {
+        track.values[i] = (track.values[i] ?? 0) + bone.position.x;
+        track.values[i + 1] = (track.values[i + 1] ?? 0) + bone.position.y;
+        track.values[i + 2] = (track.values[i + 2] ?? 0) + bone.position.z;
+      }
+    }
+    return clip;
+  }
+
+  /**
+   * Drop tracks for bones the skeleton doesn't have (e.g. a two-legged creature)
+   */
+  private filterTracks(tracks: TrackDefinition[], skeleton?: THREE.Skeleton): TrackDefinition[] {
+    if (!skeleton) return tracks;
+    return tracks.filter((track) => skeleton.getBoneByName(track.boneName) !== undefined);
+  }
 }
 
 // Singleton
@@ -0,0 +1,351 @@
+/**
+ * AnimationController - Plays AnimationBuilder clips on a character
+ * Following H70 animation-systems patterns
+ *
+ * One AnimationMixer per character, cross-fades between base clips,
+ * additive layers on top, and an optional parameter-driven state machine.
+ * Call update(delta) once per frame (e.g. from ThreeScene.onUpdate).
+ */
+
+import * as THREE from 'three';
+
+export type AnimationParameterValue = number | boolean;
+
+/**
+ * Single comparison against a state machine parameter
+ */
+export interface TransitionCondition {
+  parameter: string;
+  op: '>' | '>=' | '<' | '<=' | '==' | '!=';
+  value: AnimationParameterValue;
+}
+
+export interface AnimationStateDefinition {
+  clip: string;
+  loop?: boolean;
+  timeScale?: number;
+}
+
+/**
+ * Transition taken when all conditions hold; from '*' matches any state
+ */
+export interface AnimationTransition {
+  from: string;
+  to: string;
+  conditions: TransitionCondition[];
+  fadeDuration?: number;
+}
+
+export interface AnimationStateMachineConfig {
+  initial: string;
+  parameters?: Record<string, AnimationParameterValue>;
+  states: Record<string, AnimationStateDefinition>;
+  transitions: AnimationTransition[];
+}
+
+export interface PlayOptions {
+  fadeDuration?: number;
+  loop?: boolean;
+  timeScale?: number;
+}
+
+export interface LayerOptions {
+  weight?: number;
+  /** Add the clip's motion relative to its first frame instead of overriding */
+  additive?: boolean;
+  fadeDuration?: number;
+}
+
+const DEFAULT_FADE_DURATION = 0.25;
+
+/**
+ * idle -> walk -> run driven by a `speed` parameter (units per second)
+ */
+export const LOCOMOTION_STATE_MACHINE: AnimationStateMachineConfig = {
+  initial: 'idle',
+  parameters: { speed: 0 },
+  states: {
+    idle: { clip: 'idle' },
+    walk: { clip: 'walk' },
+    run: { clip: 'run' },
+  },
+  transitions: [
+    { from: 'idle', to: 'walk', conditions: [{ parameter: 'speed', op: '>', value: 0.1 }] },
+    { from: 'walk', to: 'idle', conditions: [{ parameter: 'speed', op: '<=', value: 0.1 }] },
+    { from: 'walk', to: 'run', conditions: [{ parameter: 'speed', op: '>', value: 2.5 }] },
+    { from: 'run', to: 'walk', conditions: [{ parameter: 'speed', op: '<=', value: 2.5 }] },
+  ],
+};
+
+function testCondition(condition: TransitionCondition, actual: AnimationParameterValue | undefined): boolean {
+  if (actual === undefined) return false;
+  const { op, value } = condition;
+
+  switch (op) {
+    case '==':
+      return actual === value;
+    case '!=':
+      return actual !== value;
+    case '>':
+      return Number(actual) > Number(value);
+    case '>=':
+      return Number(actual) >= Number(value);
+    case '<':
+      return Number(actual) < Number(value);
+    case '<=':
+      return Number(actual) <= Number(value);
+  }
+}
+
+/**
+ * AnimationController - Mixer, cross-fades, layers and state machine for one character
+ */
+export class AnimationController {
+  readonly mixer: THREE.AnimationMixer;
+
+  private readonly clips = new Map<string, THREE.AnimationClip>();
+  private readonly layers = new Map<string, THREE.AnimationAction>();
+  /** Additive copies, made once per source clip */
+  private readonly additiveClips = new Map<THREE.AnimationClip, THREE.AnimationClip>();
+  /** Removed layers still fading out, with the fade time left */
+  private readonly fadingLayers = new Map<THREE.AnimationAction, number>();
+  private currentAction: THREE.AnimationAction | null = null;
+  private currentClip: string | null = null;
+
+  private stateMachine: AnimationStateMachineConfig | null = null;
+  private currentState: string | null = null;
+  private readonly parameters = new Map<string, AnimationParameterValue>();
+
+  constructor(
+    private readonly root: THREE.Object3D,
+    clips: THREE.AnimationClip[] = root.animations
+  ) {
+    this.mixer = new THREE.AnimationMixer(root);
+    for (const clip of clips) {
+      this.addClip(clip);
+    }
+  }
+
+  addClip(clip: THREE.AnimationClip): void {
+    this.clips.set(clip.name, clip);
+  }
+
+  getClipNames(): string[] {
+    return Array.from(this.clips.keys());
+  }
+
+  getCurrentClip(): string | null {
+    return this.currentClip;
+  }
+
+  /**
+   * Play a base clip, cross-fading from the one currently playing
+   * Returns null if the clip is unknown
+   */
+  play(name: string, options: PlayOptions = {}): THREE.AnimationAction | null {
+    const clip = this.clips.get(name);
+    if (!clip) return null;
+
+    const loop = options.loop ?? true;
+    const action = this.mixer.clipAction(clip);
+    action.setLoop(loop ? THREE.LoopRepeat : THREE.LoopOnce, Infinity);
+    action.clampWhenFinished = !loop;
+    action.timeScale = options.timeScale ?? 1;
+
+    if (action === this.currentAction) return action;
+
+    const fadeDuration = options.fadeDuration ?? DEFAULT_FADE_DURATION;
+    action.reset().setEffectiveWeight(1).play();
+    if (this.currentAction && fadeDuration > 0) {
+      action.crossFadeFrom(this.currentAction, fadeDuration, true);
+    } else {
+      this.currentAction?.stop();
+    }
+
+    this.currentAction = action;
+    this.currentClip = name;
+    return action;
+  }
+
+  /**
+   * Fade out the base clip
+   */
+  stop(fadeDuration = DEFAULT_FADE_DURATION): void {
+    if (!this.currentAction) return;
+    if (fadeDuration > 0) {
+      this.currentAction.fadeOut(fadeDuration);
+    } else {
+      this.currentAction.stop();
+    }
+    this.currentAction = null;
+    this.currentClip = null;
+  }
+
+  /**
+   * Play a clip as a layer over the base clip (e.g. breathing on top of walk)
+   * Layers are additive by default
+   */
+  addLayer(layerName: string, clipName: string, options: LayerOptions = {}): THREE.AnimationAction | null {
+    const source = this.clips.get(clipName);
+    if (!source) return null;
+
+    this.removeLayer(layerName, 0);
+
+    const additive = options.additive ?? true;
+    const clip = additive ? this.getAdditiveClip(source) : source;
+    const action = this.mixer.clipAction(clip, undefined, additive ? THREE.AdditiveAnimationBlendMode : THREE.NormalAnimationBlendMode);
+
+    // The mixer hands back the same action when a removed layer is still fading out
+    if (this.fadingLayers.delete(action)) {
+      action.stopFading();
+    }
+
+    action.setEffectiveWeight(options.weight ?? 1).play();
+    const fadeDuration = options.fadeDuration ?? 0;
+    if (fadeDuration > 0) {
+      action.fadeIn(fadeDuration);
+    }
+
+    this.layers.set(layerName, action);
+    return action;
+  }
+
+  setLayerWeight(layerName: string, weight: number): void {
+    this.layers.get(layerName)?.setEffectiveWeight(weight);
+  }
+
+  removeLayer(layerName: string, fadeDuration = DEFAULT_FADE_DURATION): void {
+    const action = this.layers.get(layerName);
+    if (!action) return;
+
+    this.layers.delete(layerName);
+    if (fadeDuration > 0) {
+      action.fadeOut(fadeDuration);
+      this.fadingLayers.set(action, fadeDuration);
+    } else {
+      this.releaseLayerAction(action);
+    }
+  }
+
+  getLayerNames(): string[] {
+    return Array.from(this.layers.keys());
+  }
+
+  private getAdditiveClip(source: THREE.AnimationClip): THREE.AnimationClip {
+    let clip = this.additiveClips.get(source);
+    if (!clip) {
+      clip = THREE.AnimationUtils.makeClipAdditive(source.clone());
+      this.additiveClips.set(source, clip);
+    }
+    return clip;
+  }
+
+  /**
+   * Stop a removed layer's action and drop it from the mixer's cache
+   * Actions still shared with the base clip or another layer are left alone
+   */
+  private releaseLayerAction(action: THREE.AnimationAction): void {
+    if (action === this.currentAction || [...this.layers.values()].includes(action)) return;
+    action.stop();
+    this.mixer.uncacheAction(action.getClip(), this.root);
+  }
+
+  /**
+   * Drive the base clip from a state machine
+   * States whose clip is missing (e.g. no 'run' on a spider) are dropped
+   */
+  setStateMachine(config: AnimationStateMachineConfig | null): void {
+    this.stateMachine = null;
+    this.currentState = null;
+    if (!config) return;
+
+    const states = Object.fromEntries(
+      Object.entries(config.states).filter(([, state]) => this.clips.has(state.clip))
+    );
+    if (!states[config.initial]) return;
+
+    this.stateMachine = {
+      ...config,
+      states,
+      transitions: config.transitions.filter(
+        (transition) => states[transition.to] !== undefined && (transition.from === '*' || states[transition.from] !== undefined)
+      ),
+    };
+
+    for (const [name, value] of Object.entries(config.parameters ?? {})) {
+      if (!this.parameters.has(name)) {
+        this.parameters.set(name, value);
+      }
+    }
+
+    this.enterState(config.initial, 0);
+  }
+
+  getCurrentState(): string | null {
+    return this.currentState;
+  }
+
+  setParameter(name: string, value: AnimationParameterValue): void {
+    this.parameters.set(name, value);
+  }
+
+  getParameter(name: string): AnimationParameterValue | undefined {
+    return this.parameters.get(name);
+  }
+
+  /**
+   * Advance transitions and the mixer
+   */
+  update(delta: number): void {
+    if (this.stateMachine && this.currentState) {
+      const transition = this.stateMachine.transitions.find(
+        (candidate) =>
+          (candidate.from === this.currentState || candidate.from === '*') &&
+          candidate.to !== this.currentState &&
+          candidate.conditions.every((condition) => testCondition(condition, this.parameters.get(condition.parameter)))
+      );
+      if (transition) {
+        this.enterState(transition.to, transition.fadeDuration ?? DEFAULT_FADE_DURATION);
+      }
+    }
+
+    this.mixer.update(delta);
+
+    const elapsed = delta * this.mixer.timeScale;
+    for (const [action, remaining] of this.fadingLayers) {
+      if (remaining > elapsed) {
+        this.fadingLayers.set(action, remaining - elapsed);
+      } else {
+        this.fadingLayers.delete(action);
+        this.releaseLayerAction(action);
+      }
+    }
+  }
+
+  /**
+   * Stop everything and release the mixer's cached bindings
+   */
+  dispose(): void {
+    this.mixer.stopAllAction();
+    this.mixer.uncacheRoot(this.root);
+    this.layers.clear();
+    this.fadingLayers.clear();
+    this.additiveClips.clear();
+    this.currentAction = null;
+    this.currentClip = null;
+    this.stateMachine = null;
+    this.currentState = null;
+  }
+
+  private enterState(name: string, fadeDuration: number): void {
+    const state = this.stateMachine?.states[name];
+    if (!state) return;
+
+    const playOptions: PlayOptions = { fadeDuration };
+    if (state.loop !== undefined) playOptions.loop = state.loop;
+    if (state.timeScale !== undefined) playOptions.timeScale = state.timeScale;
+
+    this.play(state.clip, playOptions);
+    this.currentState = name;
+  }
+}
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { renameBones, validateUnityHumanoid } from './BoneNaming.js';
+import { HUMANOID_BONES } from './SkeletonBuilder.js';
+import { createRiggedHumanoid } from '../test/fixtures.js';
+import type { Character } from '../plugins/types.js';
+
+function worldX(root: THREE.Object3D, name: string): number {
+  const bone = root.getObjectByName(name);
+  if (!bone) throw new Error(`No bone ${name}`);
+  return bone.getWorldPosition(new THREE.Vector3()).x;
+}
+
+describe('BoneNaming', () => {
+  let character: Character;
+
+  beforeAll(async () => {
+    character = await createRiggedHumanoid();
+  });
+
+  it('names sides after the character, which faces +Z with its left at +X', () => {
+    const model = SkeletonUtils.clone(character.model as THREE.Object3D);
+    expect(worldX(model, HUMANOID_BONES.LEFT_ARM)).toBeLessThan(0);
+    expect(worldX(model, HUMANOID_BONES.LEFT_UPLEG)).toBeLessThan(0);
+
+    renameBones(model, 'unity', []);
+
+    for (const side of ['Left', 'Right']) {
+      const sign = side === 'Left' ? 1 : -1;
+      for (const bone of ['Shoulder', 'UpperArm', 'Hand', 'UpperLeg', 'Foot', 'Toes']) {
+        expect(Math.sign(worldX(model, `${side}${bone}`))).toBe(sign);
+      }
+    }
+  });
+
+  it('retargets clips to the bones on the matching side', () => {
+    const model = SkeletonUtils.clone(character.model as THREE.Object3D);
+    const original = (character.model as THREE.Object3D).animations.find((candidate) => candidate.name === 'walk');
+    if (!original) throw new Error('Character has no walk clip');
+    const [clip] = renameBones(model, 'mixamo', [original]);
+
+    const track = clip?.tracks.find((candidate) => candidate.name === `${model.getObjectByName('mixamorig:LeftArm')?.uuid}.quaternion`);
+    const expected = original.tracks.find((candidate) => candidate.name === `${HUMANOID_BONES.RIGHT_ARM}.quaternion`);
+    expect(track).toBeDefined();
+    expect(Array.from(track?.values ?? [])).toEqual(Array.from(expected?.values ?? []));
+  });
+
+  it('accepts canonical names and the renamed skeleton', () => {
+    const model = SkeletonUtils.clone(character.model as THREE.Object3D);
+    expect(validateUnityHumanoid(model)).toMatchObject({ valid: true, missing: [], wrongSide: [] });
+
+    renameBones(model, 'unity', []);
+    expect(validateUnityHumanoid(model)).toMatchObject({ valid: true, missing: [], wrongSide: [] });
+  });
+
+  it('reports required bones named for the other side', () => {
+    const model = SkeletonUtils.clone(character.model as THREE.Object3D);
+    renameBones(model, 'unity', []);
+    const left = model.getObjectByName('LeftLowerArm');
+    const right = model.getObjectByName('RightLowerArm');
+    if (!left || !right) throw new Error('Missing forearms');
+    [left.name, right.name] = [right.name, left.name];
+
+    const report = validateUnityHumanoid(model);
+    expect(report.valid).toBe(false);
+    expect(report.missing).toEqual([]);
+    expect(report.wrongSide.sort()).toEqual(['LeftLowerArm', 'RightLowerArm']);
+  });
+});
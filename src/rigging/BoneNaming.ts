@@ -0,0 +1,330 @@
+/**
+ * BoneNaming - Map canonical humanoid bone ids to DCC and engine conventions
+ * Following H70 rigging-animation patterns
+ *
+ * SkeletonBuilder emits the camelCase HUMANOID_BONES ids; exporters rename
+ * bones on their export clone and retarget the clips with renameBones().
+ */
+
+import * as THREE from 'three';
+import { HUMANOID_BONES } from './SkeletonBuilder.js';
+
+export type HumanoidBoneId = (typeof HUMANOID_BONES)[keyof typeof HUMANOID_BONES];
+
+/**
+ * 'canonical' keeps the SkeletonBuilder names
+ */
+export type BoneNamingConvention = 'canonical' | 'unity' | 'mixamo' | 'rigify' | 'unreal';
+
+export const BONE_NAMING_CONVENTIONS = ['canonical', 'unity', 'mixamo', 'rigify', 'unreal'] as const satisfies readonly BoneNamingConvention[];
+
+type BoneNameMap = Partial<Record<HumanoidBoneId, string>>;
+
+const H = HUMANOID_BONES;
+
+/**
+ * Per-convention names; bones without an entry keep their canonical name
+ */
+export const BONE_NAME_MAPS: Record<Exclude<BoneNamingConvention, 'canonical'>, BoneNameMap> = {
+  // Unity Humanoid avatar auto-mapping names
+  unity: {
+    [H.HIPS]: 'Hips',
+    [H.SPINE]: 'Spine',
+    [H.SPINE1]: 'Chest',
+    [H.SPINE2]: 'UpperChest',
+    [H.NECK]: 'Neck',
+    [H.HEAD]: 'Head',
+    [H.LEFT_SHOULDER]: 'LeftShoulder',
+    [H.LEFT_ARM]: 'LeftUpperArm',
+    [H.LEFT_FOREARM]: 'LeftLowerArm',
+    [H.LEFT_HAND]: 'LeftHand',
+    [H.RIGHT_SHOULDER]: 'RightShoulder',
+    [H.RIGHT_ARM]: 'RightUpperArm',
+    [H.RIGHT_FOREARM]: 'RightLowerArm',
+    [H.RIGHT_HAND]: 'RightHand',
+    [H.LEFT_UPLEG]: 'LeftUpperLeg',
+    [H.LEFT_LEG]: 'LeftLowerLeg',
+    [H.LEFT_FOOT]: 'LeftFoot',
+    [H.LEFT_TOE]: 'LeftToes',
+    [H.RIGHT_UPLEG]: 'RightUpperLeg',
+    [H.RIGHT_LEG]: 'RightLowerLeg',
+    [H.RIGHT_FOOT]: 'RightFoot',
+    [H.RIGHT_TOE]: 'RightToes',
+  },
+
+  mixamo: {
+    [H.HIPS]: 'mixamorig:Hips',
+    [H.SPINE]: 'mixamorig:Spine',
+    [H.SPINE1]: 'mixamorig:Spine1',
+    [H.SPINE2]: 'mixamorig:Spine2',
+    [H.NECK]: 'mixamorig:Neck',
+    [H.HEAD]: 'mixamorig:Head',
+    [H.LEFT_SHOULDER]: 'mixamorig:LeftShoulder',
+    [H.LEFT_ARM]: 'mixamorig:LeftArm',
+    [H.LEFT_FOREARM]: 'mixamorig:LeftForeArm',
+    [H.LEFT_HAND]: 'mixamorig:LeftHand',
+    [H.RIGHT_SHOULDER]: 'mixamorig:RightShoulder',
+    [H.RIGHT_ARM]: 'mixamorig:RightArm',
+    [H.RIGHT_FOREARM]: 'mixamorig:RightForeArm',
+    [H.RIGHT_HAND]: 'mixamorig:RightHand',
+    [H.LEFT_UPLEG]: 'mixamorig:LeftUpLeg',
+    [H.LEFT_LEG]: 'mixamorig:LeftLeg',
+    [H.LEFT_FOOT]: 'mixamorig:LeftFoot',
+    [H.LEFT_TOE]: 'mixamorig:LeftToeBase',
+    [H.RIGHT_UPLEG]: 'mixamorig:RightUpLeg',
+    [H.RIGHT_LEG]: 'mixamorig:RightLeg',
+    [H.RIGHT_FOOT]: 'mixamorig:RightFoot',
+    [H.RIGHT_TOE]: 'mixamorig:RightToeBase',
+  },
+
+  // Rigify deform (DEF-) bones of the generated human metarig
+  rigify: {
+    [H.HIPS]: 'DEF-spine',
+    [H.SPINE]: 'DEF-spine.001',
+    [H.SPINE1]: 'DEF-spine.002',
+    [H.SPINE2]: 'DEF-spine.003',
+    [H.NECK]: 'DEF-spine.004',
+    [H.HEAD]: 'DEF-spine.006',
+    [H.LEFT_SHOULDER]: 'DEF-shoulder.L',
+    [H.LEFT_ARM]: 'DEF-upper_arm.L',
+    [H.LEFT_FOREARM]: 'DEF-forearm.L',
+    [H.LEFT_HAND]: 'DEF-hand.L',
+    [H.RIGHT_SHOULDER]: 'DEF-shoulder.R',
+    [H.RIGHT_ARM]: 'DEF-upper_arm.R',
+    [H.RIGHT_FOREARM]: 'DEF-forearm.R',
+    [H.RIGHT_HAND]: 'DEF-hand.R',
+    [H.LEFT_UPLEG]: 'DEF-thigh.L',
+    [H.LEFT_LEG]: 'DEF-shin.L',
+    [H.LEFT_FOOT]: 'DEF-foot.L',
+    [H.LEFT_TOE]: 'DEF-toe.L',
+    [H.RIGHT_UPLEG]: 'DEF-thigh.R',
+    [H.RIGHT_LEG]: 'DEF-shin.R',
+    [H.RIGHT_FOOT]: 'DEF-foot.R',
+    [H.RIGHT_TOE]: 'DEF-toe.R',
+  },
+
+  // UE4/UE5 Mannequin skeleton
+  unreal: {
+    [H.ROOT]: 'root',
+    [H.HIPS]: 'pelvis',
+    [H.SPINE]: 'spine_01',
+    [H.SPINE1]: 'spine_02',
+    [H.SPINE2]: 'spine_03',
+    [H.NECK]: 'neck_01',
+    [H.HEAD]: 'head',
+    [H.LEFT_SHOULDER]: 'clavicle_l',
+    [H.LEFT_ARM]: 'upperarm_l',
+    [H.LEFT_FOREARM]: 'lowerarm_l',
+    [H.LEFT_HAND]: 'hand_l',
+    [H.RIGHT_SHOULDER]: 'clavicle_r',
+    [H.RIGHT_ARM]: 'upperarm_r',
+    [H.RIGHT_FOREARM]: 'lowerarm_r',
+    [H.RIGHT_HAND]: 'hand_r',
+    [H.LEFT_UPLEG]: 'thigh_l',
+    [H.LEFT_LEG]: 'calf_l',
+    [H.LEFT_FOOT]: 'foot_l',
+    [H.LEFT_TOE]: 'ball_l',
+    [H.RIGHT_UPLEG]: 'thigh_r',
+    [H.RIGHT_LEG]: 'calf_r',
+    [H.RIGHT_FOOT]: 'foot_r',
+    [H.RIGHT_TOE]: 'ball_r',
+  },
+};
+
+/**
+ * Bones a Unity Humanoid avatar cannot be configured without
+ */
+export const UNITY_REQUIRED_BONES: readonly HumanoidBoneId[] = [
+  H.HIPS,
+  H.SPINE,
+  H.HEAD,
+  H.LEFT_ARM,
+  H.LEFT_FOREARM,
+  H.LEFT_HAND,
+  H.RIGHT_ARM,
+  H.RIGHT_FOREARM,
+  H.RIGHT_HAND,
+  H.LEFT_UPLEG,
+  H.LEFT_LEG,
+  H.LEFT_FOOT,
+  H.RIGHT_UPLEG,
+  H.RIGHT_LEG,
+  H.RIGHT_FOOT,
+];
+
+/** Arm bones as [left, right] */
+const ARM_PAIRS: Array<[HumanoidBoneId, HumanoidBoneId]> = [
+  [H.LEFT_SHOULDER, H.RIGHT_SHOULDER],
+  [H.LEFT_ARM, H.RIGHT_ARM],
+  [H.LEFT_FOREARM, H.RIGHT_FOREARM],
+  [H.LEFT_HAND, H.RIGHT_HAND],
+];
+
+/** Leg bones as [left, right] */
+const LEG_PAIRS: Array<[HumanoidBoneId, HumanoidBoneId]> = [
+  [H.LEFT_UPLEG, H.RIGHT_UPLEG],
+  [H.LEFT_LEG, H.RIGHT_LEG],
+  [H.LEFT_FOOT, H.RIGHT_FOOT],
+  [H.LEFT_TOE, H.RIGHT_TOE],
+];
+
+/**
+ * Result of validateUnityHumanoid; bone names are reported in Unity terms
+ */
+export interface BoneValidationReport {
+  valid: boolean;
+  /** Required Unity Humanoid bones with no matching bone */
+  missing: string[];
+  /** Required Unity Humanoid bones that were found */
+  found: string[];
+  /** Skeleton bones that are not humanoid bones in any convention */
+  unmapped: string[];
+  /** Required bones named for one side that sit on the character's other side */
+  wrongSide: string[];
+}
+
+let reverseLookup: Map<string, HumanoidBoneId> | null = null;
+
+function getReverseLookup(): Map<string, HumanoidBoneId> {
+  if (!reverseLookup) {
+    reverseLookup = new Map();
+    for (const id of Object.values(HUMANOID_BONES)) {
+      reverseLookup.set(id, id);
+    }
+    for (const map of Object.values(BONE_NAME_MAPS)) {
+      for (const [id, name] of Object.entries(map) as [HumanoidBoneId, string][]) {
+        reverseLookup.set(name, id);
+      }
+    }
+  }
+  return reverseLookup;
+}
+
+/**
+ * Name of a canonical bone in the given convention (unmapped names pass through)
+ */
+export function getBoneName(canonical: string, convention: BoneNamingConvention): string {
+  if (convention === 'canonical') return canonical;
+  return BONE_NAME_MAPS[convention][canonical as HumanoidBoneId] ?? canonical;
+}
+
+/**
+ * Canonical id of a bone named in any supported convention, or null
+ */
+export function getCanonicalBoneName(name: string): HumanoidBoneId | null {
+  return getReverseLookup().get(name) ?? null;
+}
+
+function collectBones(root: THREE.Object3D): THREE.Bone[] {
+  const bones: THREE.Bone[] = [];
+  root.traverse((child) => {
+    if (child instanceof THREE.Bone) {
+      bones.push(child);
+    }
+  });
+  return bones;
+}
+
+/**
+ * Canonical id of each humanoid bone under root, with left and right read from the bind pose
+ *
+ * Sides are the character's own: it faces +Z, so its left is +X. SkeletonBuilder puts
+ * leftArm and leftUpLeg at -X, so a pair whose left bone sits at -X of its right bone
+ * swaps ids. A bone without a counterpart beside it follows its limb's upper arm or upper leg.
+ */
+export function resolveHumanoidBones(root: THREE.Object3D): Map<THREE.Bone, HumanoidBoneId> {
+  const ids = new Map<THREE.Bone, HumanoidBoneId>();
+  const byId = new Map<HumanoidBoneId, THREE.Bone>();
+  for (const bone of collectBones(root)) {
+    const id = getCanonicalBoneName(bone.name);
+    if (!id) continue;
+    ids.set(bone, id);
+    if (!byId.has(id)) byId.set(id, bone);
+  }
+
+  const worldX = (id: HumanoidBoneId) => byId.get(id)?.getWorldPosition(new THREE.Vector3()).x ?? 0;
+  const swaps = new Map<HumanoidBoneId, HumanoidBoneId>();
+  const limbs: Array<[boolean, Array<[HumanoidBoneId, HumanoidBoneId]>]> = [
+    [worldX(H.LEFT_ARM) < worldX(H.RIGHT_ARM), ARM_PAIRS],
+    [worldX(H.LEFT_UPLEG) < worldX(H.RIGHT_UPLEG), LEG_PAIRS],
+  ];
+  for (const [limbMirrored, pairs] of limbs) {
+    for (const [left, right] of pairs) {
+      const offset = byId.has(left) && byId.has(right) ? worldX(left) - worldX(right) : 0;
+      const mirrored = offset === 0 ? limbMirrored : offset < 0;
+      if (!mirrored) continue;
+      swaps.set(left, right);
+      swaps.set(right, left);
+    }
+  }
+
+  for (const [bone, id] of ids) {
+    ids.set(bone, swaps.get(id) ?? id);
+  }
+  return ids;
+}
+
+/**
+ * Rename the bones under root (in place) and return copies of the clips retargeted to them
+ *
+ * Retargeted tracks address bones by uuid, because Mixamo and Rigify names contain
+ * characters PropertyBinding reserves (':' and '.'). The clips are therefore only
+ * valid for this root - rename a clone, not the live character.
+ */
+export function renameBones(
+  root: THREE.Object3D,
+  convention: BoneNamingConvention,
+  clips: THREE.AnimationClip[] = root.animations
+): THREE.AnimationClip[] {
+  if (convention === 'canonical') return clips;
+
+  const renamed = new Map<string, THREE.Bone>();
+  for (const [bone, id] of resolveHumanoidBones(root)) {
+    const name = getBoneName(id, convention);
+    if (name !== bone.name) {
+      renamed.set(bone.name, bone);
+      bone.name = name;
+    }
+  }
+
+  return clips.map((clip) => {
+    const retargeted = clip.clone();
+    for (const track of retargeted.tracks) {
+      const { nodeName } = THREE.PropertyBinding.parseTrackName(track.name);
+      const bone = nodeName ? renamed.get(nodeName) : undefined;
+      if (bone && track.name.startsWith(`${nodeName}.`)) {
+        track.name = bone.uuid + track.name.slice(nodeName.length);
+      }
+    }
+    return retargeted;
+  });
+}
+
+/**
+ * Check the bones under root against Unity Humanoid's required bones
+ * Bones may use canonical names or any supported convention. Canonical names get
+ * their side from the bind pose; names in the other conventions are checked against it.
+ */
+export function validateUnityHumanoid(root: THREE.Object3D): BoneValidationReport {
+  const resolved = resolveHumanoidBones(root);
+  const present = new Set<HumanoidBoneId>(resolved.values());
+  const unmapped: string[] = [];
+  const wrongSide: string[] = [];
+
+  for (const bone of collectBones(root)) {
+    const named = getCanonicalBoneName(bone.name);
+    if (!named) {
+      unmapped.push(bone.name);
+    } else if (named !== bone.name && named !== resolved.get(bone) && UNITY_REQUIRED_BONES.includes(named)) {
+      wrongSide.push(bone.name);
+    }
+  }
+
+  const found: string[] = [];
+  const missing: string[] = [];
+  for (const id of UNITY_REQUIRED_BONES) {
+    (present.has(id) ? found : missing).push(getBoneName(id, 'unity'));
+  }
+
+  return { valid: missing.length === 0 && wrongSide.length === 0, missing, found, unmapped, wrongSide };
+}
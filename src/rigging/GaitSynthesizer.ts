@@ -0,0 +1,387 @@
+/**
+ * GaitSynthesizer - Procedural walk/run cycles fitted to a skeleton's legs
+ * Following H70 animation-systems patterns
+ *
+ * Feet follow a stance/swing trajectory; hip, knee and ankle rotations are
+ * solved per sample with two-bone IK in the sagittal plane, and the pelvis
+ * bobs to whatever height the planted legs can reach.
+ */
+
+import * as THREE from 'three';
+import type { Keyframe, TrackDefinition } from './AnimationBuilder.js';
+import { HUMANOID_BONES, mechLegBoneName } from './SkeletonBuilder.js';
+
+export type GaitType = 'walk' | 'run';
+
+/**
+ * Gait parameters
+ * Distances are model units; anything omitted is derived from leg length
+ */
+export interface GaitParams {
+  gait: GaitType;
+  /** Distance covered per full cycle (two steps) */
+  strideLength?: number;
+  /** Steps per second */
+  stepFrequency?: number;
+  /** Fraction of the cycle each foot is planted */
+  dutyFactor?: number;
+  /** Swing foot clearance as a fraction of leg length */
+  stepHeight?: number;
+  /** Extra leg compression at mid-stance as a fraction of leg length */
+  compression?: number;
+  /** Arm swing relative to thigh swing (bipeds with arm bones) */
+  armSwing?: number;
+}
+
+/**
+ * One leg chain and its phase offset within the cycle
+ */
+export interface GaitLeg {
+  upper: string;
+  lower: string;
+  foot: string;
+  phase: number;
+  /** Arm bone swung against this leg */
+  arm?: string;
+}
+
+/**
+ * A synthesized cycle, ready for AnimationBuilder.build()
+ */
+export interface GaitCycle {
+  name: string;
+  duration: number;
+  tracks: TrackDefinition[];
+}
+
+interface GaitProfile {
+  /** Stride length per unit of leg length */
+  strideRatio: number;
+  /** Steps per second for a 0.9 unit leg; scaled by sqrt(0.9 / legLength) */
+  referenceFrequency: number;
+  dutyFactor: number;
+  stepHeight: number;
+  compression: number;
+  /** Constant pelvis drop as a fraction of leg length */
+  crouch: number;
+  armSwing: number;
+}
+
+const GAIT_PROFILES: Record<GaitType, GaitProfile> = {
+  walk: {
+    strideRatio: 1.2,
+    referenceFrequency: 1.8,
+    dutyFactor: 0.6,
+    stepHeight: 0.08,
+    compression: 0,
+    crouch: 0.03,
+    armSwing: 0.6,
+  },
+  run: {
+    strideRatio: 2.0,
+    referenceFrequency: 2.8,
+    dutyFactor: 0.35,
+    stepHeight: 0.2,
+    compression: 0.08,
+    crouch: 0.08,
+    armSwing: 1.0,
+  },
+};
+
+const REFERENCE_LEG_LENGTH = 0.9;
+
+/** Keyframes per cycle */
+const GAIT_SAMPLES = 24;
+
+/** Characters face +Z */
+const FORWARD = new THREE.Vector3(0, 0, 1);
+const UP = new THREE.Vector3(0, 1, 0);
+/** Positive rotation about this axis swings a limb forward */
+const SWING_AXIS = new THREE.Vector3().crossVectors(FORWARD, UP);
+
+/**
+ * Bind-pose transform of a bone, recovered from the skeleton's inverse bind matrices
+ */
+interface RestPose {
+  bone: THREE.Bone;
+  worldPosition: THREE.Vector3;
+  localPosition: THREE.Vector3;
+  localQuaternion: THREE.Quaternion;
+  parentWorldQuaternion: THREE.Quaternion;
+}
+
+interface LegRig {
+  leg: GaitLeg;
+  upper: RestPose;
+  lower: RestPose;
+  foot: RestPose;
+  arm: RestPose | null;
+  thighLength: number;
+  shinLength: number;
+  /** Straight-line hip to ankle distance in the bind pose */
+  reach: number;
+  thighRestAngle: number;
+  shinRestAngle: number;
+  /** Hip joint relative to the pelvis bone */
+  hipOffset: THREE.Vector3;
+  groundY: number;
+}
+
+/**
+ * Sagittal angle of a vector: 0 pointing down, positive pointing forward
+ */
+function sagittalAngle(v: THREE.Vector3): number {
+  return Math.atan2(v.dot(FORWARD), -v.dot(UP));
+}
+
+function sagittalLength(v: THREE.Vector3): number {
+  return Math.hypot(v.dot(FORWARD), v.dot(UP));
+}
+
+/**
+ * GaitSynthesizer - Builds locomotion cycles from leg geometry
+ */
+export class GaitSynthesizer {
+  /**
+   * Find walkable leg chains (humanoid or mech legs) in a skeleton
+   */
+  findLegs(skeleton: THREE.Skeleton): GaitLeg[] {
+    const H = HUMANOID_BONES;
+    if (skeleton.getBoneByName(H.LEFT_UPLEG) && skeleton.getBoneByName(H.RIGHT_UPLEG)) {
+      return [
+        { upper: H.LEFT_UPLEG, lower: H.LEFT_LEG, foot: H.LEFT_FOOT, phase: 0, arm: H.LEFT_ARM },
+        { upper: H.RIGHT_UPLEG, lower: H.RIGHT_LEG, foot: H.RIGHT_FOOT, phase: 0.5, arm: H.RIGHT_ARM },
+      ];
+    }
+
+    const legs: GaitLeg[] = [];
+    for (let i = 0; skeleton.getBoneByName(mechLegBoneName('upper', i)); i++) {
+      legs.push({
+        upper: mechLegBoneName('upper', i),
+        lower: mechLegBoneName('lower', i),
+        foot: mechLegBoneName('foot', i),
+        // Alternate sides; extra pairs trail by a quarter cycle
+        phase: ((i % 2) * 0.5 + Math.floor(i / 2) * 0.25) % 1,
+      });
+    }
+    return legs;
+  }
+
+  /**
+   * Synthesize a looping gait cycle for the given skeleton
+   * Returns null when no leg chains can be found
+   */
+  synthesize(skeleton: THREE.Skeleton, params: GaitParams, legs = this.findLegs(skeleton)): GaitCycle | null {
+    const rigs = legs
+      .map((leg) => this.measureLeg(skeleton, leg))
+      .filter((rig): rig is LegRig => rig !== null);
+    const first = rigs[0];
+    if (!first) return null;
+
+    const pelvis = this.getRestPose(skeleton, first.upper.bone.parent);
+    if (!pelvis) return null;
+
+    const profile = GAIT_PROFILES[params.gait];
+    const legLength = Math.max(...rigs.map((rig) => rig.thighLength + rig.shinLength));
+    const strideLength = params.strideLength ?? profile.strideRatio * legLength;
+    const stepFrequency =
+      params.stepFrequency ?? profile.referenceFrequency * Math.sqrt(REFERENCE_LEG_LENGTH / legLength);
+    const dutyFactor = THREE.MathUtils.clamp(params.dutyFactor ?? profile.dutyFactor, 0.05, 0.95);
+    const stepHeight = (params.stepHeight ?? profile.stepHeight) * legLength;
+    const compression = params.compression ?? profile.compression;
+    const armSwing = params.armSwing ?? profile.armSwing;
+
+    // One cycle is two steps
+    const duration = 2 / stepFrequency;
+    // Distance a planted foot travels backwards relative to the hip
+    const stanceTravel = strideLength * dutyFactor;
+
+    const pelvisKeys: Keyframe[] = [];
+    const legKeys = rigs.map(() => ({
+      upper: [] as Keyframe[],
+      lower: [] as Keyframe[],
+      foot: [] as Keyframe[],
+      arm: [] as Keyframe[],
+    }));
+
+    for (let i = 0; i <= GAIT_SAMPLES; i++) {
+      const phase = (i / GAIT_SAMPLES) % 1;
+      const time = (i / GAIT_SAMPLES) * duration;
+
+      const feet = rigs.map((rig) => this.footTrajectory(phase + rig.leg.phase, dutyFactor, stanceTravel, stepHeight));
+
+      // Pelvis sits as high as the planted legs allow
+      let pelvisY = pelvis.worldPosition.y - profile.crouch * legLength;
+      rigs.forEach((rig, index) => {
+        const foot = feet[index];
+        if (!foot || !foot.planted) return;
+        const legReach = rig.reach * (1 - compression * Math.sin(Math.PI * foot.progress));
+        const height = Math.sqrt(Math.max(legReach * legReach - foot.forward * foot.forward, 0));
+        pelvisY = Math.min(pelvisY, rig.groundY + height - rig.hipOffset.y);
+      });
+
+      pelvisKeys.push({
+        time,
+        value: pelvis.localPosition.clone().add(new THREE.Vector3(0, pelvisY - pelvis.worldPosition.y, 0)),
+      });
+
+      rigs.forEach((rig, index) => {
+        const foot = feet[index];
+        const keys = legKeys[index];
+        if (!foot || !keys) return;
+
+        const hipY = pelvisY + rig.hipOffset.y;
+        const { thigh, shin } = this.solveLeg(rig, foot.forward, rig.groundY + foot.lift - hipY);
+
+        const thighDelta = thigh - rig.thighRestAngle;
+        const shinDelta = shin - rig.shinRestAngle;
+
+        keys.upper.push({ time, value: this.localRotation(rig.upper, thighDelta) });
+        keys.lower.push({ time, value: this.localRotation(rig.lower, shinDelta - thighDelta) });
+        // Keep the sole level with the ground
+        keys.foot.push({ time, value: this.localRotation(rig.foot, -shinDelta) });
+        if (rig.arm) {
+          keys.arm.push({ time, value: this.localRotation(rig.arm, -armSwing * thighDelta) });
+        }
+      });
+    }
+
+    const tracks: TrackDefinition[] = [
+      { boneName: pelvis.bone.name, property: 'position', keyframes: pelvisKeys },
+    ];
+    rigs.forEach((rig, index) => {
+      const keys = legKeys[index];
+      if (!keys) return;
+      tracks.push(
+        { boneName: rig.leg.upper, property: 'quaternion', keyframes: keys.upper },
+        { boneName: rig.leg.lower, property: 'quaternion', keyframes: keys.lower },
+        { boneName: rig.leg.foot, property: 'quaternion', keyframes: keys.foot }
+      );
+      if (rig.arm) {
+        tracks.push({ boneName: rig.arm.bone.name, property: 'quaternion', keyframes: keys.arm });
+      }
+    });
+
+    return { name: params.gait, duration, tracks };
+  }
+
+  /**
+   * Foot position relative to the hip at a point in the cycle
+   * Stance comes first: the foot slides back linearly, then swings forward in an arc
+   */
+  private footTrajectory(
+    phase: number,
+    dutyFactor: number,
+    stanceTravel: number,
+    stepHeight: number
+  ): { forward: number; lift: number; planted: boolean; progress: number } {
+    const p = ((phase % 1) + 1) % 1;
+    const half = stanceTravel / 2;
+
+    if (p < dutyFactor) {
+      const progress = p / dutyFactor;
+      return { forward: half - stanceTravel * progress, lift: 0, planted: true, progress };
+    }
+
+    const progress = (p - dutyFactor) / (1 - dutyFactor);
+    return {
+      forward: -half * Math.cos(Math.PI * progress),
+      lift: stepHeight * Math.sin(Math.PI * progress),
+      planted: false,
+      progress,
+    };
+  }
+
+  /**
+   * Two-bone IK in the sagittal plane; returns absolute thigh and shin angles
+   * The knee always bends forward
+   */
+  private solveLeg(rig: LegRig, forward: number, down: number): { thigh: number; shin: number } {
+    const a = rig.thighLength;
+    const b = rig.shinLength;
+    const distance = THREE.MathUtils.clamp(Math.hypot(forward, down), Math.abs(a - b) + 1e-4, a + b - 1e-4);
+
+    const toAnkle = Math.atan2(forward, -down);
+    const hipAngle = Math.acos(THREE.MathUtils.clamp((a * a + distance * distance - b * b) / (2 * a * distance), -1, 1));
+    const ankleAngle = Math.acos(THREE.MathUtils.clamp((b * b + distance * distance - a * a) / (2 * b * distance), -1, 1));
+
+    return { thigh: toAnkle + hipAngle, shin: toAnkle - ankleAngle };
+  }
+
+  /**
+   * Rest rotation plus a forward swing expressed in the bone's parent frame
+   */
+  private localRotation(rest: RestPose, angle: number): THREE.Quaternion {
+    const axis = SWING_AXIS.clone().applyQuaternion(rest.parentWorldQuaternion.clone().invert());
+    return new THREE.Quaternion().setFromAxisAngle(axis, angle).multiply(rest.localQuaternion);
+  }
+
+  private measureLeg(skeleton: THREE.Skeleton, leg: GaitLeg): LegRig | null {
+    const upper = this.getRestPose(skeleton, skeleton.getBoneByName(leg.upper));
+    const lower = this.getRestPose(skeleton, skeleton.getBoneByName(leg.lower));
+    const foot = this.getRestPose(skeleton, skeleton.getBoneByName(leg.foot));
+    const pelvis = this.getRestPose(skeleton, upper?.bone.parent);
+    if (!upper || !lower || !foot || !pelvis) return null;
+
+    const thigh = lower.worldPosition.clone().sub(upper.worldPosition);
+    const shin = foot.worldPosition.clone().sub(lower.worldPosition);
+    const hipToAnkle = foot.worldPosition.clone().sub(upper.worldPosition);
+
+    return {
+      leg,
+      upper,
+      lower,
+      foot,
+      arm: leg.arm ? this.getRestPose(skeleton, skeleton.getBoneByName(leg.arm)) : null,
+      thighLength: sagittalLength(thigh),
+      shinLength: sagittalLength(shin),
+      reach: sagittalLength(hipToAnkle),
+      thighRestAngle: sagittalAngle(thigh),
+      shinRestAngle: sagittalAngle(shin),
+      hipOffset: upper.worldPosition.clone().sub(pelvis.worldPosition),
+      groundY: foot.worldPosition.y,
+    };
+  }
+
+  private getRestPose(skeleton: THREE.Skeleton, bone: THREE.Object3D | null | undefined): RestPose | null {
+    if (!(bone instanceof THREE.Bone)) return null;
+
+    const world = this.getRestMatrix(skeleton, bone);
+    if (!world) return null;
+    const parentWorld = this.getRestMatrix(skeleton, bone.parent) ?? new THREE.Matrix4();
+
+    const worldPosition = new THREE.Vector3().setFromMatrixPosition(world);
+    const localPosition = new THREE.Vector3();
+    const localQuaternion = new THREE.Quaternion();
+    new THREE.Matrix4()
+      .copy(parentWorld)
+      .invert()
+      .multiply(world)
+      .decompose(localPosition, localQuaternion, new THREE.Vector3());
+
+    const parentWorldQuaternion = new THREE.Quaternion();
+    parentWorld.decompose(new THREE.Vector3(), parentWorldQuaternion, new THREE.Vector3());
+
+    return { bone, worldPosition, localPosition, localQuaternion, parentWorldQuaternion };
+  }
+
+  /**
+   * Bind-pose world matrix of a skeleton bone (null for objects outside the skeleton)
+   */
+  private getRestMatrix(skeleton: THREE.Skeleton, object: THREE.Object3D | null): THREE.Matrix4 | null {
+    if (!(object instanceof THREE.Bone)) return null;
+    const index = skeleton.bones.indexOf(object);
+    const inverse = skeleton.boneInverses[index];
+    return inverse ? inverse.clone().invert() : null;
+  }
+}
+
+// Singleton
+let globalGaitSynthesizer: GaitSynthesizer | null = null;
+
+export function getGaitSynthesizer(): GaitSynthesizer {
+  if (!globalGaitSynthesizer) {
+    globalGaitSynthesizer = new GaitSynthesizer();
+  }
+  return globalGaitSynthesizer;
+}
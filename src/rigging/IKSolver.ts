@@ -0,0 +1,424 @@
+/**
+ * IKSolver - Two-bone inverse kinematics for generated rigs
+ * Following H70 animation-systems patterns
+ *
+ * Chains are root/mid/end bone triples (upLeg/leg/foot, arm/foreArm/hand).
+ * Targets and poles are world-space; the solve runs on top of whatever pose
+ * the bones currently hold, so it layers over a playing AnimationMixer.
+ */
+
+import * as THREE from 'three';
+import {
+  HUMANOID_BONES,
+  CREATURE_BONES,
+  mechLegBoneName,
+} from './SkeletonBuilder.js';
+import { getAnimationBuilder, type Keyframe, type TrackDefinition } from './AnimationBuilder.js';
+
+/**
+ * A two-bone chain
+ * pole is the direction the middle joint bends towards, in character space
+ */
+export interface IKChainDefinition {
+  name: string;
+  root: string;
+  mid: string;
+  end: string;
+  pole: THREE.Vector3;
+  /** End bone rests on the ground (feet) */
+  contact?: boolean;
+}
+
+/**
+ * World-space goal for a chain
+ */
+export interface IKTarget {
+  position: THREE.Vector3;
+  /** World position the middle joint bends towards; defaults to the chain's pole direction */
+  pole?: THREE.Vector3;
+  /** Blend between the source pose (0) and the solved pose (1) */
+  weight?: number;
+  /** Keep the end bone's world rotation from the source pose */
+  lockEndRotation?: boolean;
+}
+
+export interface FootPlantingOptions {
+  /** Highest step a foot will climb or drop, in world units */
+  maxStep?: number;
+  /** Lower the pelvis when a foot has to reach below the character's base */
+  adjustPelvis?: boolean;
+}
+
+export interface IKBakeOptions {
+  name?: string;
+  fps?: number;
+}
+
+const FORWARD_Z = new THREE.Vector3(0, 0, 1);
+const BACKWARD_Z = new THREE.Vector3(0, 0, -1);
+const FORWARD_X = new THREE.Vector3(1, 0, 0);
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+/**
+ * Humanoid chains: knees bend forward, elbows back (characters face +Z)
+ */
+export const HUMANOID_IK_CHAINS: IKChainDefinition[] = [
+  { name: HUMANOID_BONES.LEFT_FOOT, root: HUMANOID_BONES.LEFT_UPLEG, mid: HUMANOID_BONES.LEFT_LEG, end: HUMANOID_BONES.LEFT_FOOT, pole: FORWARD_Z, contact: true },
+  { name: HUMANOID_BONES.RIGHT_FOOT, root: HUMANOID_BONES.RIGHT_UPLEG, mid: HUMANOID_BONES.RIGHT_LEG, end: HUMANOID_BONES.RIGHT_FOOT, pole: FORWARD_Z, contact: true },
+  { name: HUMANOID_BONES.LEFT_HAND, root: HUMANOID_BONES.LEFT_ARM, mid: HUMANOID_BONES.LEFT_FOREARM, end: HUMANOID_BONES.LEFT_HAND, pole: BACKWARD_Z },
+  { name: HUMANOID_BONES.RIGHT_HAND, root: HUMANOID_BONES.RIGHT_ARM, mid: HUMANOID_BONES.RIGHT_FOREARM, end: HUMANOID_BONES.RIGHT_HAND, pole: BACKWARD_Z },
+];
+
+/**
+ * Creature leg chains (creatures face +X)
+ */
+export const CREATURE_IK_CHAINS: IKChainDefinition[] = (
+  [
+    [CREATURE_BONES.FRONT_LEFT_LEG, CREATURE_BONES.FRONT_LEFT_LOWER_LEG, CREATURE_BONES.FRONT_LEFT_FOOT],
+    [CREATURE_BONES.FRONT_RIGHT_LEG, CREATURE_BONES.FRONT_RIGHT_LOWER_LEG, CREATURE_BONES.FRONT_RIGHT_FOOT],
+    [CREATURE_BONES.BACK_LEFT_LEG, CREATURE_BONES.BACK_LEFT_LOWER_LEG, CREATURE_BONES.BACK_LEFT_FOOT],
+    [CREATURE_BONES.BACK_RIGHT_LEG, CREATURE_BONES.BACK_RIGHT_LOWER_LEG, CREATURE_BONES.BACK_RIGHT_FOOT],
+    [CREATURE_BONES.LEFT_LEG, CREATURE_BONES.LEFT_LOWER_LEG, CREATURE_BONES.LEFT_FOOT],
+    [CREATURE_BONES.RIGHT_LEG, CREATURE_BONES.RIGHT_LOWER_LEG, CREATURE_BONES.RIGHT_FOOT],
+  ] as const
+).map(([root, mid, end]) => ({ name: end, root, mid, end, pole: FORWARD_X, contact: true }));
+
+/**
+ * Find every known chain whose bones exist in the skeleton
+ */
+export function getIKChains(skeleton: THREE.Skeleton): IKChainDefinition[] {
+  const candidates = [...HUMANOID_IK_CHAINS, ...CREATURE_IK_CHAINS];
+  for (let i = 0; skeleton.getBoneByName(mechLegBoneName('upper', i)); i++) {
+    candidates.push({
+      name: mechLegBoneName('foot', i),
+      root: mechLegBoneName('upper', i),
+      mid: mechLegBoneName('lower', i),
+      end: mechLegBoneName('foot', i),
+      pole: FORWARD_Z,
+      contact: true,
+    });
+  }
+
+  return candidates.filter(
+    (chain) =>
+      skeleton.getBoneByName(chain.root) !== undefined &&
+      skeleton.getBoneByName(chain.mid) !== undefined &&
+      skeleton.getBoneByName(chain.end) !== undefined
+  );
+}
+
+/**
+ * Set a bone's local rotation so that it ends up with the given world rotation
+ */
+function setWorldQuaternion(bone: THREE.Object3D, world: THREE.Quaternion): void {
+  const parentWorld = new THREE.Quaternion();
+  bone.parent?.getWorldQuaternion(parentWorld);
+  bone.quaternion.copy(parentWorld.invert().multiply(world));
+  bone.updateWorldMatrix(false, true);
+}
+
+/**
+ * Rotate a bone in world space so its child joint moves from `from` to `to`
+ */
+function aimBone(bone: THREE.Object3D, from: THREE.Vector3, to: THREE.Vector3): void {
+  const origin = bone.getWorldPosition(new THREE.Vector3());
+  const current = from.clone().sub(origin).normalize();
+  const desired = to.clone().sub(origin).normalize();
+  if (current.lengthSq() === 0 || desired.lengthSq() === 0) return;
+
+  const delta = new THREE.Quaternion().setFromUnitVectors(current, desired);
+  setWorldQuaternion(bone, delta.multiply(bone.getWorldQuaternion(new THREE.Quaternion())));
+}
+
+/**
+ * Solve a single two-bone chain in place
+ * The middle joint lands in the plane through root, target and pole
+ */
+export function solveTwoBone(
+  root: THREE.Bone,
+  mid: THREE.Bone,
+  end: THREE.Bone,
+  target: THREE.Vector3,
+  pole: THREE.Vector3
+): void {
+  root.updateWorldMatrix(true, true);
+
+  const a = root.getWorldPosition(new THREE.Vector3());
+  const b = mid.getWorldPosition(new THREE.Vector3());
+  const c = end.getWorldPosition(new THREE.Vector3());
+
+  const upper = a.distanceTo(b);
+  const lower = b.distanceTo(c);
+  if (upper === 0 || lower === 0) return;
+
+  const toTarget = target.clone().sub(a);
+  const distance = THREE.MathUtils.clamp(toTarget.length(), Math.abs(upper - lower) + 1e-5, upper + lower - 1e-5);
+  const direction = toTarget.lengthSq() > 0 ? toTarget.normalize() : c.clone().sub(a).normalize();
+
+  // Bend direction: pole projected onto the plane perpendicular to the chain
+  const bend = pole.clone().sub(a);
+  bend.addScaledVector(direction, -bend.dot(direction));
+  if (bend.lengthSq() < 1e-10) {
+    bend.copy(b).sub(a).addScaledVector(direction, -b.clone().sub(a).dot(direction));
+  }
+  if (bend.lengthSq() < 1e-10) return;
+  bend.normalize();
+
+  const cosRoot = (upper * upper + distance * distance - lower * lower) / (2 * upper * distance);
+  const rootAngle = Math.acos(THREE.MathUtils.clamp(cosRoot, -1, 1));
+  const knee = a
+    .clone()
+    .addScaledVector(direction, Math.cos(rootAngle) * upper)
+    .addScaledVector(bend, Math.sin(rootAngle) * upper);
+  const reach = a.clone().addScaledVector(direction, distance);
+
+  aimBone(root, b, knee);
+  aimBone(mid, end.getWorldPosition(new THREE.Vector3()), reach);
+}
+
+interface SolvedChain {
+  definition: IKChainDefinition;
+  root: THREE.Bone;
+  mid: THREE.Bone;
+  end: THREE.Bone;
+}
+
+/**
+ * IKSolver - Drives a skeleton's two-bone chains towards targets
+ */
+export class IKSolver {
+  private readonly chains = new Map<string, SolvedChain>();
+  private readonly targets = new Map<string, IKTarget>();
+  /** Source and solved local rotations from the last solve, to undo it next frame */
+  private readonly applied = new Map<THREE.Object3D, { source: THREE.Quaternion; solved: THREE.Quaternion }>();
+  private pelvisOffset: { bone: THREE.Object3D; offset: THREE.Vector3; solved: THREE.Vector3 } | null = null;
+  private readonly raycaster = new THREE.Raycaster();
+
+  constructor(
+    private readonly skeleton: THREE.Skeleton,
+    chains: IKChainDefinition[] = getIKChains(skeleton)
+  ) {
+    for (const definition of chains) {
+      const root = skeleton.getBoneByName(definition.root);
+      const mid = skeleton.getBoneByName(definition.mid);
+      const end = skeleton.getBoneByName(definition.end);
+      if (root && mid && end) {
+        this.chains.set(definition.name, { definition, root, mid, end });
+      }
+    }
+  }
+
+  /**
+   * Names of the chains this solver can drive
+   */
+  getChainNames(): string[] {
+    return Array.from(this.chains.keys());
+  }
+
+  /**
+   * Set or clear the target of a chain
+   */
+  setTarget(chainName: string, target: IKTarget | null): void {
+    if (!this.chains.has(chainName)) return;
+    if (target) {
+      this.targets.set(chainName, target);
+    } else {
+      this.targets.delete(chainName);
+    }
+  }
+
+  clearTargets(): void {
+    this.targets.clear();
+  }
+
+  /**
+   * World position of a chain's end bone in the current pose
+   */
+  getEndPosition(chainName: string, target = new THREE.Vector3()): THREE.Vector3 | null {
+    const chain = this.chains.get(chainName);
+    if (!chain) return null;
+    chain.end.updateWorldMatrix(true, false);
+    return chain.end.getWorldPosition(target);
+  }
+
+  /**
+   * Undo the previous solve unless something (e.g. a mixer) has posed the bones since
+   */
+  restoreSourcePose(): void {
+    for (const [bone, { source, solved }] of this.applied) {
+      if (bone.quaternion.equals(solved)) {
+        bone.quaternion.copy(source);
+      }
+    }
+    this.applied.clear();
+
+    if (this.pelvisOffset) {
+      const { bone, offset, solved } = this.pelvisOffset;
+      if (bone.position.equals(solved)) {
+        bone.position.sub(offset);
+      }
+      this.pelvisOffset = null;
+    }
+
+    this.skeleton.bones[0]?.updateWorldMatrix(true, true);
+  }
+
+  /**
+   * Solve every chain that has a target
+   */
+  solve(): void {
+    for (const [name, target] of this.targets) {
+      const chain = this.chains.get(name);
+      if (!chain) continue;
+
+      const bones = [chain.root, chain.mid, chain.end];
+      const source = bones.map((bone) => bone.quaternion.clone());
+      const endWorld = chain.end.getWorldQuaternion(new THREE.Quaternion());
+
+      solveTwoBone(chain.root, chain.mid, chain.end, target.position, target.pole ?? this.getDefaultPole(chain));
+      if (target.lockEndRotation ?? true) {
+        setWorldQuaternion(chain.end, endWorld);
+      }
+
+      const weight = THREE.MathUtils.clamp(target.weight ?? 1, 0, 1);
+      bones.forEach((bone, index) => {
+        const original = source[index];
+        if (!original) return;
+        if (weight < 1) {
+          bone.quaternion.copy(original.clone().slerp(bone.quaternion, weight));
+        }
+        const previous = this.applied.get(bone);
+        this.applied.set(bone, { source: previous?.source ?? original, solved: bone.quaternion.clone() });
+      });
+      chain.root.updateWorldMatrix(false, true);
+    }
+  }
+
+  /**
+   * Raycast under each contact chain and plant it on the ground objects.
+   * Call once per frame after the animation update.
+   */
+  plantFeet(ground: THREE.Object3D[], options: FootPlantingOptions = {}): void {
+    this.restoreSourcePose();
+
+    const maxStep = options.maxStep ?? 0.5;
+    const base = this.getCharacterBase();
+    const contacts = Array.from(this.chains.values()).filter((chain) => chain.definition.contact);
+
+    const plants: Array<{ chain: SolvedChain; position: THREE.Vector3; offset: number }> = [];
+    for (const chain of contacts) {
+      const foot = chain.end.getWorldPosition(new THREE.Vector3());
+      this.raycaster.set(foot.clone().setY(base.y + maxStep), DOWN);
+      this.raycaster.far = maxStep * 2;
+
+      const hit = this.raycaster.intersectObjects(ground, true)[0];
+      const offset = hit ? hit.point.y - base.y : 0;
+      plants.push({ chain, position: foot.setY(foot.y + offset), offset });
+    }
+
+    // Drop the pelvis so the lowest foot can still reach
+    const lowest = Math.min(0, ...plants.map((plant) => plant.offset));
+    const pelvis = contacts[0]?.root.parent;
+    if ((options.adjustPelvis ?? true) && lowest < 0 && pelvis) {
+      const parentScale = new THREE.Vector3(1, 1, 1);
+      pelvis.parent?.getWorldScale(parentScale);
+      const offset = new THREE.Vector3(0, lowest / (parentScale.y || 1), 0);
+      pelvis.position.add(offset);
+      pelvis.updateWorldMatrix(false, true);
+      this.pelvisOffset = { bone: pelvis, offset, solved: pelvis.position.clone() };
+    }
+
+    for (const { chain, position } of plants) {
+      this.targets.set(chain.definition.name, { position });
+    }
+    this.solve();
+    for (const { chain } of plants) {
+      this.targets.delete(chain.definition.name);
+    }
+  }
+
+  /**
+   * Sample a clip, solve IK on every frame and bake the result into a new clip
+   * updateTargets is called after the clip is applied and before solving
+   */
+  bake(
+    clip: THREE.AnimationClip,
+    root: THREE.Object3D,
+    updateTargets: (time: number, solver: IKSolver) => void,
+    options: IKBakeOptions = {}
+  ): THREE.AnimationClip {
+    const fps = options.fps ?? 30;
+    const frames = Math.max(1, Math.round(clip.duration * fps));
+
+    const mixer = new THREE.AnimationMixer(root);
+    mixer.clipAction(clip).play();
+
+    const chainBones = new Set<THREE.Object3D>();
+    for (const chain of this.chains.values()) {
+      chainBones.add(chain.root).add(chain.mid).add(chain.end);
+    }
+    const animated = this.skeleton.bones.filter(
+      (bone) => chainBones.has(bone) || clip.tracks.some((track) => track.name.startsWith(`${bone.name}.`))
+    );
+    const positioned = this.skeleton.bones.filter((bone) =>
+      clip.tracks.some((track) => track.name === `${bone.name}.position`)
+    );
+
+    const rotationKeys = new Map<THREE.Bone, Keyframe[]>(animated.map((bone) => [bone, []]));
+    const positionKeys = new Map<THREE.Bone, Keyframe[]>(positioned.map((bone) => [bone, []]));
+
+    for (let frame = 0; frame <= frames; frame++) {
+      const time = (frame / frames) * clip.duration;
+      // Stop just short of the end so a looping clip doesn't wrap to frame 0
+      mixer.setTime(Math.min(time, clip.duration - 1e-4));
+      root.updateMatrixWorld(true);
+
+      this.clearTargets();
+      updateTargets(time, this);
+      this.solve();
+
+      for (const [bone, keys] of rotationKeys) keys.push({ time, value: bone.quaternion.clone() });
+      for (const [bone, keys] of positionKeys) keys.push({ time, value: bone.position.clone() });
+
+      this.applied.clear();
+    }
+
+    mixer.stopAllAction();
+    mixer.uncacheRoot(root);
+    this.clearTargets();
+    this.skeleton.pose();
+
+    const tracks: TrackDefinition[] = [];
+    for (const [bone, keyframes] of rotationKeys) {
+      tracks.push({ boneName: bone.name, property: 'quaternion', keyframes });
+    }
+    for (const [bone, keyframes] of positionKeys) {
+      tracks.push({ boneName: bone.name, property: 'position', keyframes });
+    }
+
+    return getAnimationBuilder().build(options.name ?? `${clip.name}_ik`, clip.duration, tracks);
+  }
+
+  /**
+   * Pole position from the chain's character-space bend direction
+   */
+  private getDefaultPole(chain: SolvedChain): THREE.Vector3 {
+    const mid = chain.mid.getWorldPosition(new THREE.Vector3());
+    const length =
+      chain.root.getWorldPosition(new THREE.Vector3()).distanceTo(mid) +
+      mid.distanceTo(chain.end.getWorldPosition(new THREE.Vector3()));
+
+    const orientation = new THREE.Quaternion();
+    this.skeleton.bones[0]?.parent?.getWorldQuaternion(orientation);
+    return mid.addScaledVector(chain.definition.pole.clone().applyQuaternion(orientation), length);
+  }
+
+  /**
+   * World position of the character origin (the object the skeleton hangs from)
+   */
+  private getCharacterBase(): THREE.Vector3 {
+    const base = new THREE.Vector3();
+    this.skeleton.bones[0]?.parent?.getWorldPosition(base);
+    return base;
+  }
+}
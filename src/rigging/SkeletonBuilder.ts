@@ -4,6 +4,7 @@
  */
 
 import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 
 /**
  * Bone definition for building skeletons
@@ -45,6 +46,73 @@ export const HUMANOID_BONES = {
   RIGHT_TOE: 'rightToeBase',
 } as const;
 
+/**
+ * Creature bone names shared by the quadruped, serpentine, avian and aquatic rigs
+ * Chains (spine, tail, wings) append a segment index after the first bone,
+ * e.g. tail, tail1, tail2 - see chainBoneName()
+ */
+export const CREATURE_BONES = {
+  ROOT: 'root',
+  SPINE: 'spine',
+  NECK: 'neck',
+  HEAD: 'head',
+  TAIL: 'tail',
+  FRONT_LEFT_LEG: 'frontLeftLeg',
+  FRONT_LEFT_LOWER_LEG: 'frontLeftLowerLeg',
+  FRONT_LEFT_FOOT: 'frontLeftFoot',
+  FRONT_RIGHT_LEG: 'frontRightLeg',
+  FRONT_RIGHT_LOWER_LEG: 'frontRightLowerLeg',
+  FRONT_RIGHT_FOOT: 'frontRightFoot',
+  BACK_LEFT_LEG: 'backLeftLeg',
+  BACK_LEFT_LOWER_LEG: 'backLeftLowerLeg',
+  BACK_LEFT_FOOT: 'backLeftFoot',
+  BACK_RIGHT_LEG: 'backRightLeg',
+  BACK_RIGHT_LOWER_LEG: 'backRightLowerLeg',
+  BACK_RIGHT_FOOT: 'backRightFoot',
+  LEFT_LEG: 'leftLeg',
+  LEFT_LOWER_LEG: 'leftLowerLeg',
+  LEFT_FOOT: 'leftFoot',
+  RIGHT_LEG: 'rightLeg',
+  RIGHT_LOWER_LEG: 'rightLowerLeg',
+  RIGHT_FOOT: 'rightFoot',
+  LEFT_WING: 'leftWing',
+  RIGHT_WING: 'rightWing',
+  DORSAL_FIN: 'dorsalFin',
+  LEFT_PECTORAL_FIN: 'leftPectoralFin',
+  RIGHT_PECTORAL_FIN: 'rightPectoralFin',
+  TAIL_FIN: 'tailFin',
+} as const;
+
+/**
+ * Fixed bone names of mechanical rigs; limb and pivot bones are named by the generator
+ */
+export const MECHANICAL_BONES = {
+  ROOT: 'root',
+  CORE: 'core',
+  HEAD: 'head',
+} as const;
+
+/**
+ * Name of the bone at a given index in a chain
+ */
+export function chainBoneName(base: string, index: number): string {
+  return index === 0 ? base : `${base}${index}`;
+}
+
+/**
+ * Name of a spider leg segment bone (and of the part it drives)
+ */
+export function spiderLegBoneName(leg: number, segment: number): string {
+  return `spider_leg_${leg}_seg_${segment}`;
+}
+
+/**
+ * Name of a walking mech leg bone (and of the part it drives)
+ */
+export function mechLegBoneName(segment: 'upper' | 'lower' | 'foot', leg: number): string {
+  return `leg_${segment}_${leg}`;
+}
+
 /**
  * Skeleton configuration for different body types
  */
@@ -60,6 +128,51 @@ export interface SkeletonConfig {
   hipWidth: number;
 }
 
+/**
+ * Creature rig types
+ */
+export type CreatureRigType = 'quadruped' | 'serpentine' | 'avian' | 'aquatic';
+
+/**
+ * Creature rig configuration
+ * Dimensions are in model units, matching the generated creature's layout
+ * (front along +X, left along +Z, feet on y = 0)
+ */
+export interface CreatureRigConfig {
+  bodyLength: number;
+  bodyWidth: number;
+  bodyHeight: number;
+  headSize: number;
+  neckLength: number;
+  tailLength: number;
+  tailSegments: number;
+  spineSegments: number;
+  legLength: number;
+  legCount: number;
+  wingSpan: number;
+  /** Explicit spine joint positions, head end first (serpentine bodies) */
+  spinePath?: THREE.Vector3[];
+}
+
+/**
+ * A rigid limb: one bone per segment, pivoting at the matching joint
+ */
+export interface MechanicalLimb {
+  bones: string[];
+  joints: THREE.Vector3[];
+}
+
+/**
+ * Mechanical rig configuration (model space)
+ * Limbs and pivots (wheels, thrusters, rotors...) hang off the core bone
+ */
+export interface MechanicalRigConfig {
+  corePosition: THREE.Vector3;
+  headPosition?: THREE.Vector3;
+  limbs: MechanicalLimb[];
+  pivots: Array<{ name: string; position: THREE.Vector3 }>;
+}
+
 const DEFAULT_CONFIG: SkeletonConfig = {
   height: 1.8,
   proportions: {
@@ -93,18 +206,7 @@ export class SkeletonBuilder {
     const boneDefinitions = this.getHumanoidBoneDefinitions(fullConfig);
     const rootBone = this.buildBoneHierarchy(boneDefinitions);
 
-    // Collect all bones in order
-    const boneArray: THREE.Bone[] = [];
-    rootBone.traverse((obj) => {
-      if (obj instanceof THREE.Bone) {
-        boneArray.push(obj);
-      }
-    });
-
-    // Create skeleton
-    const skeleton = new THREE.Skeleton(boneArray);
-
-    return skeleton;
+    return this.createSkeleton(rootBone);
   }
 
   /**
@@ -113,42 +215,64 @@ export class SkeletonBuilder {
   buildQuadruped(length: number = 1.0, height: number = 0.6): THREE.Skeleton {
     this.bones.clear();
 
+    const B = CREATURE_BONES;
     const definitions: BoneDefinition[] = [
-      { name: 'root', parent: null, position: new THREE.Vector3(0, height, 0) },
-      { name: 'spine', parent: 'root', position: new THREE.Vector3(0, 0, 0) },
-      { name: 'spine1', parent: 'spine', position: new THREE.Vector3(length * 0.25, 0, 0) },
+      { name: B.ROOT, parent: null, position: new THREE.Vector3(0, height, 0) },
+      { name: B.SPINE, parent: B.ROOT, position: new THREE.Vector3(0, 0, 0) },
+      { name: 'spine1', parent: B.SPINE, position: new THREE.Vector3(length * 0.25, 0, 0) },
       { name: 'spine2', parent: 'spine1', position: new THREE.Vector3(length * 0.25, 0, 0) },
-      { name: 'neck', parent: 'spine2', position: new THREE.Vector3(length * 0.1, height * 0.2, 0) },
-      { name: 'head', parent: 'neck', position: new THREE.Vector3(length * 0.1, height * 0.1, 0) },
-      { name: 'tail', parent: 'root', position: new THREE.Vector3(-length * 0.2, 0, 0) },
-      { name: 'tail1', parent: 'tail', position: new THREE.Vector3(-length * 0.15, 0, 0) },
+      { name: B.NECK, parent: 'spine2', position: new THREE.Vector3(length * 0.1, height * 0.2, 0) },
+      { name: B.HEAD, parent: B.NECK, position: new THREE.Vector3(length * 0.1, height * 0.1, 0) },
+      { name: B.TAIL, parent: B.ROOT, position: new THREE.Vector3(-length * 0.2, 0, 0) },
+      { name: 'tail1', parent: B.TAIL, position: new THREE.Vector3(-length * 0.15, 0, 0) },
       { name: 'tail2', parent: 'tail1', position: new THREE.Vector3(-length * 0.15, 0, 0) },
       // Front legs
-      { name: 'frontLeftLeg', parent: 'spine2', position: new THREE.Vector3(0, 0, height * 0.3) },
-      { name: 'frontLeftLowerLeg', parent: 'frontLeftLeg', position: new THREE.Vector3(0, -height * 0.5, 0) },
-      { name: 'frontLeftFoot', parent: 'frontLeftLowerLeg', position: new THREE.Vector3(0, -height * 0.4, 0) },
-      { name: 'frontRightLeg', parent: 'spine2', position: new THREE.Vector3(0, 0, -height * 0.3) },
-      { name: 'frontRightLowerLeg', parent: 'frontRightLeg', position: new THREE.Vector3(0, -height * 0.5, 0) },
-      { name: 'frontRightFoot', parent: 'frontRightLowerLeg', position: new THREE.Vector3(0, -height * 0.4, 0) },
+      { name: B.FRONT_LEFT_LEG, parent: 'spine2', position: new THREE.Vector3(0, 0, height * 0.3) },
+      { name: B.FRONT_LEFT_LOWER_LEG, parent: B.FRONT_LEFT_LEG, position: new THREE.Vector3(0, -height * 0.5, 0) },
+      { name: B.FRONT_LEFT_FOOT, parent: B.FRONT_LEFT_LOWER_LEG, position: new THREE.Vector3(0, -height * 0.4, 0) },
+      { name: B.FRONT_RIGHT_LEG, parent: 'spine2', position: new THREE.Vector3(0, 0, -height * 0.3) },
+      { name: B.FRONT_RIGHT_LOWER_LEG, parent: B.FRONT_RIGHT_LEG, position: new THREE.Vector3(0, -height * 0.5, 0) },
+      { name: B.FRONT_RIGHT_FOOT, parent: B.FRONT_RIGHT_LOWER_LEG, position: new THREE.Vector3(0, -height * 0.4, 0) },
       // Back legs
-      { name: 'backLeftLeg', parent: 'root', position: new THREE.Vector3(0, 0, height * 0.3) },
-      { name: 'backLeftLowerLeg', parent: 'backLeftLeg', position: new THREE.Vector3(0, -height * 0.5, 0) },
-      { name: 'backLeftFoot', parent: 'backLeftLowerLeg', position: new THREE.Vector3(0, -height * 0.4, 0) },
-      { name: 'backRightLeg', parent: 'root', position: new THREE.Vector3(0, 0, -height * 0.3) },
-      { name: 'backRightLowerLeg', parent: 'backRightLeg', position: new THREE.Vector3(0, -height * 0.5, 0) },
-      { name: 'backRightFoot', parent: 'backRightLowerLeg', position: new THREE.Vector3(0, -height * 0.4, 0) },
+      { name: B.BACK_LEFT_LEG, parent: B.ROOT, position: new THREE.Vector3(0, 0, height * 0.3) },
+      { name: B.BACK_LEFT_LOWER_LEG, parent: B.BACK_LEFT_LEG, position: new THREE.Vector3(0, -height * 0.5, 0) },
+      { name: B.BACK_LEFT_FOOT, parent: B.BACK_LEFT_LOWER_LEG, position: new THREE.Vector3(0, -height * 0.4, 0) },
+      { name: B.BACK_RIGHT_LEG, parent: B.ROOT, position: new THREE.Vector3(0, 0, -height * 0.3) },
+      { name: B.BACK_RIGHT_LOWER_LEG, parent: B.BACK_RIGHT_LEG, position: new THREE.Vector3(0, -height * 0.5, 0) },
+      { name: B.BACK_RIGHT_FOOT, parent: B.BACK_RIGHT_LOWER_LEG, position: new THREE.Vector3(0, -height * 0.4, 0) },
     ];
 
     const rootBone = this.buildBoneHierarchy(definitions);
 
-    const boneArray: THREE.Bone[] = [];
-    rootBone.traverse((obj) => {
-      if (obj instanceof THREE.Bone) {
-        boneArray.push(obj);
-      }
-    });
+    return this.createSkeleton(rootBone);
+  }
 
-    return new THREE.Skeleton(boneArray);
+  /**
+   * Build a creature skeleton whose chains follow the creature's proportions
+   */
+  buildCreature(type: CreatureRigType, config: CreatureRigConfig): THREE.Skeleton {
+    this.bones.clear();
+
+    let definitions: BoneDefinition[];
+    switch (type) {
+      case 'serpentine':
+        definitions = this.getSerpentineBoneDefinitions(config);
+        break;
+      case 'avian':
+        definitions = this.getAvianBoneDefinitions(config);
+        break;
+      case 'aquatic':
+        definitions = this.getAquaticBoneDefinitions(config);
+        break;
+      case 'quadruped':
+      default:
+        definitions = this.getQuadrupedBoneDefinitions(config);
+        break;
+    }
+
+    const rootBone = this.buildBoneHierarchy(this.toLocalDefinitions(definitions));
+
+    return this.createSkeleton(rootBone);
   }
 
   /**
@@ -210,6 +334,405 @@ export class SkeletonBuilder {
     ];
   }
 
+  /**
+   * Build a mechanical skeleton with one bone chain per limb and a pivot
+   * bone for every wheel, tread or thruster
+   */
+  buildMechanical(config: MechanicalRigConfig): THREE.Skeleton {
+    this.bones.clear();
+
+    const M = MECHANICAL_BONES;
+    const definitions: BoneDefinition[] = [
+      { name: M.ROOT, parent: null, position: new THREE.Vector3(0, 0, 0) },
+      { name: M.CORE, parent: M.ROOT, position: config.corePosition.clone() },
+    ];
+
+    if (config.headPosition) {
+      definitions.push({ name: M.HEAD, parent: M.CORE, position: config.headPosition.clone() });
+    }
+
+    for (const limb of config.limbs) {
+      limb.bones.forEach((name, i) => {
+        const joint = limb.joints[i];
+        if (!joint) return;
+        definitions.push({
+          name,
+          parent: i === 0 ? M.CORE : limb.bones[i - 1] ?? M.CORE,
+          position: joint.clone(),
+        });
+      });
+    }
+
+    for (const pivot of config.pivots) {
+      definitions.push({ name: pivot.name, parent: M.CORE, position: pivot.position.clone() });
+    }
+
+    const rootBone = this.buildBoneHierarchy(this.toLocalDefinitions(definitions));
+
+    return this.createSkeleton(rootBone);
+  }
+
+  /**
+   * Quadruped definitions (model space)
+   * Spine runs from the hips to the shoulders, legs hang from the ends
+   */
+  private getQuadrupedBoneDefinitions(c: CreatureRigConfig): BoneDefinition[] {
+    const B = CREATURE_BONES;
+    const bodyY = c.legLength + c.bodyHeight * 0.5;
+    const hipX = -c.bodyLength * 0.35;
+    const shoulderX = c.bodyLength * 0.35;
+
+    const definitions: BoneDefinition[] = [
+      { name: B.ROOT, parent: null, position: new THREE.Vector3(0, 0, 0) },
+    ];
+
+    const spine = this.addChain(
+      definitions,
+      B.SPINE,
+      B.ROOT,
+      new THREE.Vector3(hipX, bodyY, 0),
+      new THREE.Vector3(shoulderX, bodyY, 0),
+      Math.max(2, c.spineSegments),
+      true
+    );
+    const hips = spine[0] ?? B.SPINE;
+    const shoulders = spine[spine.length - 1] ?? B.SPINE;
+
+    this.addNeckAndHead(
+      definitions,
+      shoulders,
+      new THREE.Vector3(c.bodyLength * 0.5, c.legLength + c.bodyHeight * 0.6, 0),
+      new THREE.Vector3(
+        c.bodyLength * 0.5 + c.neckLength + c.headSize * 0.5,
+        c.legLength + c.bodyHeight * 0.7,
+        0
+      ),
+      c.neckLength > 0
+    );
+
+    this.addTailChain(definitions, hips, c, -c.bodyLength * 0.5, c.legLength + c.bodyHeight * 0.3);
+
+    // Leg order matches the generator: front-left, front-right, back-left, back-right
+    const legs = [
+      { names: [B.FRONT_LEFT_LEG, B.FRONT_LEFT_LOWER_LEG, B.FRONT_LEFT_FOOT], parent: shoulders, x: shoulderX, z: 1 },
+      { names: [B.FRONT_RIGHT_LEG, B.FRONT_RIGHT_LOWER_LEG, B.FRONT_RIGHT_FOOT], parent: shoulders, x: shoulderX, z: -1 },
+      { names: [B.BACK_LEFT_LEG, B.BACK_LEFT_LOWER_LEG, B.BACK_LEFT_FOOT], parent: hips, x: hipX, z: 1 },
+      { names: [B.BACK_RIGHT_LEG, B.BACK_RIGHT_LOWER_LEG, B.BACK_RIGHT_FOOT], parent: hips, x: hipX, z: -1 },
+    ];
+    for (const leg of legs.slice(0, Math.min(c.legCount, 4))) {
+      this.addLeg(definitions, leg.names, leg.parent, leg.x, leg.z * c.bodyWidth * 0.5, c.legLength);
+    }
+
+    if (c.wingSpan > 0) {
+      const middle = spine[Math.floor(spine.length / 2)] ?? hips;
+      this.addWingChains(definitions, middle, c, c.legLength + c.bodyHeight * 0.8);
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Serpentine definitions (model space)
+   * One spine bone per body segment, ordered from the head to the tail tip
+   */
+  private getSerpentineBoneDefinitions(c: CreatureRigConfig): BoneDefinition[] {
+    const B = CREATURE_BONES;
+    const radius = c.bodyWidth * 0.5;
+
+    const definitions: BoneDefinition[] = [
+      { name: B.ROOT, parent: null, position: new THREE.Vector3(0, 0, 0) },
+    ];
+
+    let headEnd: THREE.Vector3;
+    if (c.spinePath && c.spinePath.length > 0) {
+      c.spinePath.forEach((point, i) => {
+        definitions.push({
+          name: chainBoneName(B.SPINE, i),
+          parent: i === 0 ? B.ROOT : chainBoneName(B.SPINE, i - 1),
+          position: point.clone(),
+        });
+      });
+      headEnd = c.spinePath[0] ?? new THREE.Vector3(-c.bodyLength * 0.5, radius, 0);
+    } else {
+      headEnd = new THREE.Vector3(-c.bodyLength * 0.5, radius, 0);
+      this.addChain(
+        definitions,
+        B.SPINE,
+        B.ROOT,
+        headEnd,
+        new THREE.Vector3(c.bodyLength * 0.5, radius, 0),
+        Math.max(2, c.tailSegments),
+        false
+      );
+    }
+
+    definitions.push({
+      name: B.HEAD,
+      parent: B.SPINE,
+      position: new THREE.Vector3(headEnd.x - c.headSize, radius, 0),
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Avian definitions (model space)
+   */
+  private getAvianBoneDefinitions(c: CreatureRigConfig): BoneDefinition[] {
+    const B = CREATURE_BONES;
+    const bodyY = c.legLength + c.bodyHeight * 0.5;
+
+    const definitions: BoneDefinition[] = [
+      { name: B.ROOT, parent: null, position: new THREE.Vector3(0, 0, 0) },
+    ];
+
+    const spine = this.addChain(
+      definitions,
+      B.SPINE,
+      B.ROOT,
+      new THREE.Vector3(-c.bodyLength * 0.2, bodyY, 0),
+      new THREE.Vector3(c.bodyLength * 0.2, bodyY, 0),
+      Math.max(2, c.spineSegments),
+      true
+    );
+    const hips = spine[0] ?? B.SPINE;
+    const chest = spine[spine.length - 1] ?? B.SPINE;
+
+    this.addNeckAndHead(
+      definitions,
+      chest,
+      new THREE.Vector3(c.bodyLength * 0.25, c.legLength + c.bodyHeight * 0.7, 0),
+      new THREE.Vector3(c.bodyLength * 0.3, c.legLength + c.bodyHeight * 0.8, 0),
+      c.neckLength > 0
+    );
+
+    this.addTailChain(definitions, hips, c, -c.bodyLength * 0.3, c.legLength + c.bodyHeight * 0.3);
+
+    this.addLeg(definitions, [B.LEFT_LEG, B.LEFT_LOWER_LEG, B.LEFT_FOOT], hips, 0, c.bodyWidth * 0.3, c.legLength);
+    this.addLeg(definitions, [B.RIGHT_LEG, B.RIGHT_LOWER_LEG, B.RIGHT_FOOT], hips, 0, -c.bodyWidth * 0.3, c.legLength);
+
+    this.addWingChains(definitions, chest, c, c.legLength + c.bodyHeight * 0.8);
+
+    return definitions;
+  }
+
+  /**
+   * Aquatic definitions (model space)
+   * Spine runs from the head back to the tail, with fin bones for each fin
+   */
+  private getAquaticBoneDefinitions(c: CreatureRigConfig): BoneDefinition[] {
+    const B = CREATURE_BONES;
+    const bodyY = c.bodyHeight * 0.5;
+
+    const definitions: BoneDefinition[] = [
+      { name: B.ROOT, parent: null, position: new THREE.Vector3(0, 0, 0) },
+    ];
+
+    const spine = this.addChain(
+      definitions,
+      B.SPINE,
+      B.ROOT,
+      new THREE.Vector3(c.bodyLength * 0.2, bodyY, 0),
+      new THREE.Vector3(-c.bodyLength * 0.2, bodyY, 0),
+      Math.max(2, c.spineSegments),
+      true
+    );
+    const front = spine[0] ?? B.SPINE;
+    const middle = spine[Math.floor(spine.length / 2)] ?? front;
+    const back = spine[spine.length - 1] ?? front;
+
+    definitions.push({
+      name: B.HEAD,
+      parent: front,
+      position: new THREE.Vector3(c.bodyLength * 0.3, c.bodyHeight * 0.6, 0),
+    });
+
+    // Tail chain ends in the tail fin
+    const tail = this.addChain(
+      definitions,
+      B.TAIL,
+      back,
+      new THREE.Vector3(-c.bodyLength * 0.3, bodyY, 0),
+      new THREE.Vector3(-c.bodyLength * 0.45, bodyY, 0),
+      Math.max(1, c.tailSegments),
+      true
+    );
+    definitions.push({
+      name: B.TAIL_FIN,
+      parent: tail[tail.length - 1] ?? back,
+      position: new THREE.Vector3(-c.bodyLength * 0.5, bodyY, 0),
+    });
+
+    definitions.push(
+      {
+        name: B.DORSAL_FIN,
+        parent: middle,
+        position: new THREE.Vector3(0, c.bodyHeight * 0.9, 0),
+      },
+      {
+        name: B.LEFT_PECTORAL_FIN,
+        parent: front,
+        position: new THREE.Vector3(c.bodyLength * 0.1, c.bodyHeight * 0.3, c.bodyWidth * 0.3),
+      },
+      {
+        name: B.RIGHT_PECTORAL_FIN,
+        parent: front,
+        position: new THREE.Vector3(c.bodyLength * 0.1, c.bodyHeight * 0.3, -c.bodyWidth * 0.3),
+      }
+    );
+
+    return definitions;
+  }
+
+  /**
+   * Append an evenly spaced chain of bones between two points
+   * @returns the chain's bone names in order
+   */
+  private addChain(
+    definitions: BoneDefinition[],
+    base: string,
+    parent: string,
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    count: number,
+    includeEnd: boolean
+  ): string[] {
+    const names: string[] = [];
+    const steps = includeEnd ? Math.max(1, count - 1) : count;
+
+    for (let i = 0; i < count; i++) {
+      const name = chainBoneName(base, i);
+      definitions.push({
+        name,
+        parent: i === 0 ? parent : chainBoneName(base, i - 1),
+        position: start.clone().lerp(end, i / steps),
+      });
+      names.push(name);
+    }
+
+    return names;
+  }
+
+  /**
+   * Append neck (optional) and head bones
+   */
+  private addNeckAndHead(
+    definitions: BoneDefinition[],
+    parent: string,
+    neckPosition: THREE.Vector3,
+    headPosition: THREE.Vector3,
+    hasNeck: boolean
+  ): void {
+    if (hasNeck) {
+      definitions.push({ name: CREATURE_BONES.NECK, parent, position: neckPosition });
+    }
+    definitions.push({
+      name: CREATURE_BONES.HEAD,
+      parent: hasNeck ? CREATURE_BONES.NECK : parent,
+      position: headPosition,
+    });
+  }
+
+  /**
+   * Append a tail chain following the droop used by the creature generator
+   */
+  private addTailChain(
+    definitions: BoneDefinition[],
+    parent: string,
+    c: CreatureRigConfig,
+    startX: number,
+    startY: number
+  ): void {
+    if (c.tailLength <= 0 || c.tailSegments <= 0) return;
+
+    const segmentLength = c.tailLength / c.tailSegments;
+    for (let i = 0; i < c.tailSegments; i++) {
+      definitions.push({
+        name: chainBoneName(CREATURE_BONES.TAIL, i),
+        parent: i === 0 ? parent : chainBoneName(CREATURE_BONES.TAIL, i - 1),
+        position: new THREE.Vector3(startX - i * segmentLength, startY - i * segmentLength * 0.3, 0),
+      });
+    }
+  }
+
+  /**
+   * Append an upper leg / lower leg / foot chain reaching the ground
+   */
+  private addLeg(
+    definitions: BoneDefinition[],
+    names: readonly string[],
+    parent: string,
+    x: number,
+    z: number,
+    legLength: number
+  ): void {
+    const [upper, lower, foot] = names;
+    if (!upper || !lower || !foot) return;
+
+    definitions.push(
+      { name: upper, parent, position: new THREE.Vector3(x, legLength, z) },
+      { name: lower, parent: upper, position: new THREE.Vector3(x, legLength * 0.5, z) },
+      { name: foot, parent: lower, position: new THREE.Vector3(x, 0, z) }
+    );
+  }
+
+  /**
+   * Append three-bone wing chains spreading along +Z (left) and -Z (right)
+   */
+  private addWingChains(
+    definitions: BoneDefinition[],
+    parent: string,
+    c: CreatureRigConfig,
+    wingY: number
+  ): void {
+    const wingLength = c.wingSpan * 0.5;
+
+    for (const [base, side] of [[CREATURE_BONES.LEFT_WING, 1], [CREATURE_BONES.RIGHT_WING, -1]] as const) {
+      this.addChain(
+        definitions,
+        base,
+        parent,
+        new THREE.Vector3(0, wingY, 0),
+        new THREE.Vector3(0, wingY, side * wingLength),
+        3,
+        false
+      );
+    }
+  }
+
+  /**
+   * Convert model-space definitions to parent-relative positions
+   * Assumes definitions without rotations, listed parents first
+   */
+  private toLocalDefinitions(definitions: BoneDefinition[]): BoneDefinition[] {
+    const modelPositions = new Map<string, THREE.Vector3>();
+    for (const def of definitions) {
+      modelPositions.set(def.name, def.position);
+    }
+
+    return definitions.map((def) => {
+      const parentPosition = def.parent ? modelPositions.get(def.parent) : undefined;
+      return {
+        ...def,
+        position: parentPosition ? def.position.clone().sub(parentPosition) : def.position.clone(),
+      };
+    });
+  }
+
+  /**
+   * Create a skeleton from a bone hierarchy, in depth-first order
+   */
+  private createSkeleton(rootBone: THREE.Bone): THREE.Skeleton {
+    const boneArray: THREE.Bone[] = [];
+    rootBone.traverse((obj) => {
+      if (obj instanceof THREE.Bone) {
+        boneArray.push(obj);
+      }
+    });
+
+    return new THREE.Skeleton(boneArray);
+  }
+
   /**
    * Build bone hierarchy from definitions
    */
@@ -261,7 +784,7 @@ export class SkeletonBuilder {
    */
   createSkinnedMesh(
     geometry: THREE.BufferGeometry,
-    material: THREE.Material,
+    material: THREE.Material | THREE.Material[],
     skeleton: THREE.Skeleton
   ): THREE.SkinnedMesh {
     const mesh = new THREE.SkinnedMesh(geometry, material);
@@ -288,6 +811,9 @@ export class SkeletonBuilder {
     const vertexCount = positions.count;
     const boneCount = skeleton.bones.length;
 
+    // Bones may not have been added to a scene yet
+    skeleton.bones[0]?.updateWorldMatrix(true, true);
+
     // Calculate world positions of bones
     const bonePositions: THREE.Vector3[] = [];
     for (const bone of skeleton.bones) {
@@ -356,6 +882,158 @@ export class SkeletonBuilder {
     );
   }
 
+  /**
+   * Merge every mesh under a part hierarchy into a single skinned mesh
+   * The parts are consumed: their transforms are baked into the merged
+   * geometry, source geometries are disposed and the hierarchy is emptied
+   */
+  bindParts(
+    parts: THREE.Object3D,
+    skeleton: THREE.Skeleton,
+    maxInfluences: number = 4
+  ): THREE.SkinnedMesh {
+    const { geometry, material } = this.mergeParts(parts);
+    this.autoSkin(geometry, skeleton, maxInfluences);
+    return this.createSkinnedMesh(geometry, material, skeleton);
+  }
+
+  /**
+   * Merge every mesh under a part hierarchy into a single rigidly skinned mesh
+   * Each part is weighted 100% to the bone returned by resolveBone, so rigid
+   * pieces move without blending artifacts; unknown bones fall back to the root
+   */
+  bindPartsRigid(
+    parts: THREE.Object3D,
+    skeleton: THREE.Skeleton,
+    resolveBone: (part: THREE.Mesh) => string
+  ): THREE.SkinnedMesh {
+    const { geometry, material, ranges } = this.mergeParts(parts);
+
+    const vertexCount = geometry.getAttribute('position').count;
+    const skinIndices = new Uint16Array(vertexCount * 4);
+    const skinWeights = new Float32Array(vertexCount * 4);
+
+    for (const range of ranges) {
+      const boneIndex = Math.max(
+        0,
+        skeleton.bones.findIndex((bone) => bone.name === resolveBone(range.part))
+      );
+      for (let i = range.start; i < range.start + range.count; i++) {
+        skinIndices[i * 4] = boneIndex;
+        skinWeights[i * 4] = 1;
+      }
+    }
+
+    geometry.setAttribute('skinIndex', new THREE.Uint16BufferAttribute(skinIndices, 4));
+    geometry.setAttribute('skinWeight', new THREE.Float32BufferAttribute(skinWeights, 4));
+
+    return this.createSkinnedMesh(geometry, material, skeleton);
+  }
+
+  /**
+   * Merge part meshes into one geometry, with one group per part when
+   * the parts use more than one material
+   */
+  private mergeParts(parts: THREE.Object3D): {
+    geometry: THREE.BufferGeometry;
+    material: THREE.Material | THREE.Material[];
+    ranges: Array<{ part: THREE.Mesh; start: number; count: number }>;
+  } {
+    parts.updateMatrixWorld(true);
+    const toPartsSpace = parts.matrixWorld.clone().invert();
+
+    const meshes: THREE.Mesh[] = [];
+    parts.traverse((child) => {
+      if (child instanceof THREE.Mesh && !(child instanceof THREE.SkinnedMesh)) {
+        meshes.push(child);
+      }
+    });
+
+    if (meshes.length === 0) {
+      throw new Error('No meshes found to bind');
+    }
+
+    const materials: THREE.Material[] = [];
+    const materialIndices: number[] = [];
+    const partMeshes: THREE.Mesh[] = [];
+    const sources = new Set<THREE.BufferGeometry>();
+    let geometries: THREE.BufferGeometry[] = [];
+
+    for (const mesh of meshes) {
+      const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+      if (!material) continue;
+
+      let materialIndex = materials.indexOf(material);
+      if (materialIndex === -1) {
+        materialIndex = materials.push(material) - 1;
+      }
+      materialIndices.push(materialIndex);
+      partMeshes.push(mesh);
+
+      const source = mesh.geometry as THREE.BufferGeometry;
+      sources.add(source);
+
+      const geometry = source.clone();
+      geometry.applyMatrix4(new THREE.Matrix4().multiplyMatrices(toPartsSpace, mesh.matrixWorld));
+      geometries.push(geometry);
+    }
+
+    // mergeGeometries requires identical attribute sets and indexing
+    const shared = Object.keys(geometries[0]?.attributes ?? {}).filter((name) =>
+      geometries.every((geometry) => geometry.hasAttribute(name))
+    );
+    for (const geometry of geometries) {
+      for (const name of Object.keys(geometry.attributes)) {
+        if (!shared.includes(name)) {
+          geometry.deleteAttribute(name);
+        }
+      }
+    }
+    if (geometries.some((geometry) => geometry.index === null)) {
+      geometries = geometries.map((geometry) =>
+        geometry.index === null ? geometry : geometry.toNonIndexed()
+      );
+    }
+
+    const ranges: Array<{ part: THREE.Mesh; start: number; count: number }> = [];
+    let start = 0;
+    geometries.forEach((geometry, i) => {
+      const part = partMeshes[i];
+      const count = geometry.getAttribute('position').count;
+      if (part) {
+        ranges.push({ part, start, count });
+      }
+      start += count;
+    });
+
+    const useGroups = materials.length > 1;
+    const merged = mergeGeometries(geometries, useGroups);
+
+    for (const geometry of geometries) {
+      geometry.dispose();
+    }
+    for (const source of sources) {
+      source.dispose();
+    }
+    parts.clear();
+
+    if (!merged) {
+      throw new Error('Failed to merge part geometries');
+    }
+
+    if (useGroups) {
+      merged.groups.forEach((group, i) => {
+        group.materialIndex = materialIndices[i] ?? 0;
+      });
+    }
+
+    return {
+      geometry: merged,
+      material: useGroups ? materials : (materials[0] as THREE.Material),
+      ranges,
+    };
+  }
+
   /**
    * Create skeleton helper for visualization
    */
@@ -6,10 +6,19 @@ export {
   SkeletonBuilder,
   getSkeletonBuilder,
   HUMANOID_BONES,
+  CREATURE_BONES,
+  MECHANICAL_BONES,
+  chainBoneName,
+  spiderLegBoneName,
+  mechLegBoneName,
 } from './SkeletonBuilder.js';
 export type {
   BoneDefinition,
   SkeletonConfig,
+  CreatureRigType,
+  CreatureRigConfig,
+  MechanicalLimb,
+  MechanicalRigConfig,
 } from './SkeletonBuilder.js';
 
 export {
@@ -20,4 +29,63 @@ export type {
   Keyframe,
   TrackDefinition,
   AnimationPreset,
+  QuadrupedAnimationPreset,
+  SpiderAnimationPreset,
+  SerpentineAnimationPreset,
+  RigKind,
 } from './AnimationBuilder.js';
+
+export {
+  GaitSynthesizer,
+  getGaitSynthesizer,
+} from './GaitSynthesizer.js';
+export type {
+  GaitType,
+  GaitParams,
+  GaitLeg,
+  GaitCycle,
+} from './GaitSynthesizer.js';
+
+export {
+  IKSolver,
+  solveTwoBone,
+  getIKChains,
+  HUMANOID_IK_CHAINS,
+  CREATURE_IK_CHAINS,
+} from './IKSolver.js';
+export type {
+  IKChainDefinition,
+  IKTarget,
+  FootPlantingOptions,
+  IKBakeOptions,
+} from './IKSolver.js';
+
+export {
+  AnimationController,
+  LOCOMOTION_STATE_MACHINE,
+} from './AnimationController.js';
+export type {
+  AnimationParameterValue,
+  TransitionCondition,
+  AnimationStateDefinition,
+  AnimationTransition,
+  AnimationStateMachineConfig,
+  PlayOptions,
+  LayerOptions,
+} from './AnimationController.js';
+
+export {
+  BONE_NAMING_CONVENTIONS,
+  BONE_NAME_MAPS,
+  UNITY_REQUIRED_BONES,
+  getBoneName,
+  getCanonicalBoneName,
+  resolveHumanoidBones,
+  renameBones,
+  validateUnityHumanoid,
+} from './BoneNaming.js';
+export type {
+  HumanoidBoneId,
+  BoneNamingConvention,
+  BoneValidationReport,
+} from './BoneNaming.js';
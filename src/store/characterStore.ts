@@ -11,7 +11,7 @@ interface CharacterState {
   selectedPart: BodyPart | null;
 
   // Editor state
-  editorTab: 'reference' | 'parts' | 'colors' | 'animation' | 'environment' | 'export';
+  editorTab: 'reference' | 'parts' | 'colors' | 'animation' | 'environment' | 'export' | 'plugins';
 
   // History for undo/redo
   history: CharacterConfig[];
@@ -0,0 +1,19 @@
+/**
+ * Shared test fixtures
+ */
+
+import { HumanoidGenerator } from '../generators/HumanoidGenerator.js';
+import type { Character } from '../plugins/types.js';
+
+/**
+ * A freshly generated humanoid with a skinned skeleton and its animation clips
+ */
+export async function createRiggedHumanoid(): Promise<Character> {
+  const generator = new HumanoidGenerator();
+  await generator.onInit();
+  return generator.generate({
+    type: 'humanoid',
+    style: 'realistic',
+    options: { detailLevel: 0.5, textureStyle: 'stylized', includeAnimations: true, autoRig: true },
+  });
+}
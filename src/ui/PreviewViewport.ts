@@ -9,6 +9,12 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { ThreeScene, type ThreeSceneOptions } from '../core/ThreeScene.js';
+import { IKSolver, type FootPlantingOptions } from '../rigging/IKSolver.js';
+import {
+  AnimationController,
+  LOCOMOTION_STATE_MACHINE,
+  type AnimationStateMachineConfig,
+} from '../rigging/AnimationController.js';
 
 export interface ViewportOptions extends ThreeSceneOptions {
   enableDamping?: boolean;
@@ -59,6 +65,8 @@ export class PreviewViewport extends ThreeScene {
   private groundPlane: THREE.Mesh | null = null;
   private gridHelper: THREE.GridHelper | null = null;
   private currentPreset: string = 'studio';
+  private readonly animationControllers = new Set<AnimationController>();
+  private footPlanting: { solver: IKSolver; ground: THREE.Object3D[]; options: FootPlantingOptions } | null = null;
 
   constructor(container: HTMLElement, options: ViewportOptions = {}) {
     super(container, options);
@@ -68,12 +76,22 @@ export class PreviewViewport extends ThreeScene {
     this.setupHelpers();
     this.setupBackground();
 
-    // Setup update callback for controls damping
-    this.onUpdate = () => {
+    // Setup update callback for controls damping and character animation
+    this.onUpdate = (delta) => {
       // IMPORTANT: Update controls for damping to work
       if (this.controls) {
         this.controls.update();
       }
+
+      for (const controller of this.animationControllers) {
+        controller.update(delta);
+      }
+
+      // Foot planting corrects the pose the mixers just produced
+      if (this.footPlanting) {
+        const { solver, ground, options } = this.footPlanting;
+        solver.plantFeet(ground, options);
+      }
     };
   }
 
@@ -274,6 +292,70 @@ export class PreviewViewport extends ThreeScene {
     }
   }
 
+  /**
+   * Play a character's clips in the viewport, driven by a state machine
+   * (idle/walk/run by `speed` unless another config is given)
+   */
+  animateCharacter(
+    character: THREE.Object3D,
+    stateMachine: AnimationStateMachineConfig | null = LOCOMOTION_STATE_MACHINE
+  ): AnimationController {
+    const controller = new AnimationController(character);
+    controller.setStateMachine(stateMachine);
+    this.addAnimationController(controller);
+    return controller;
+  }
+
+  /**
+   * Update an existing controller every frame
+   */
+  addAnimationController(controller: AnimationController): void {
+    this.animationControllers.add(controller);
+  }
+
+  /**
+   * Stop updating a controller and dispose it
+   */
+  removeAnimationController(controller: AnimationController): void {
+    if (this.animationControllers.delete(controller)) {
+      controller.dispose();
+    }
+  }
+
+  /**
+   * Plant a rigged character's feet on the ground plane (or the given
+   * ground meshes) every frame with two-bone IK
+   */
+  enableFootPlanting(
+    character: THREE.Object3D,
+    ground?: THREE.Object3D[],
+    options: FootPlantingOptions = {}
+  ): boolean {
+    let skeleton: THREE.Skeleton | null = null;
+    character.traverse((child) => {
+      if (!skeleton && child instanceof THREE.SkinnedMesh) {
+        skeleton = child.skeleton;
+      }
+    });
+    if (!skeleton) return false;
+
+    const solver = new IKSolver(skeleton);
+    this.footPlanting = {
+      solver,
+      ground: ground ?? (this.groundPlane ? [this.groundPlane] : []),
+      options,
+    };
+    return true;
+  }
+
+  /**
+   * Stop planting feet and return the bones to their animated pose
+   */
+  disableFootPlanting(): void {
+    this.footPlanting?.solver.restoreSourcePose();
+    this.footPlanting = null;
+  }
+
   /**
    * Set background color
    */
@@ -285,6 +367,12 @@ export class PreviewViewport extends ThreeScene {
    * Dispose all resources
    */
   override dispose(): void {
+    this.footPlanting = null;
+    for (const controller of this.animationControllers) {
+      controller.dispose();
+    }
+    this.animationControllers.clear();
+
     // Dispose controls first
     if (this.controls) {
       this.controls.dispose();